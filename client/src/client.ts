@@ -0,0 +1,260 @@
+// Typed client for the Experience Layer API, driven by the generated Paths in ./schema
+
+import type { Paths, Schemas } from './schema';
+import { ApiError } from './errors';
+import { parseEventStream, type ServerSentEvent } from './sse';
+
+export type Method = 'get' | 'put' | 'post' | 'patch' | 'delete';
+
+/** The paths that have an operation for `method` */
+export type PathsFor<M extends Method> = {
+  [P in keyof Paths]: M extends keyof Paths[P] ? P : never
+}[keyof Paths];
+
+export type Operation<P extends keyof Paths, M extends Method> = M extends keyof Paths[P] ? Paths[P][M] : never;
+
+/** The path, query and header parameters and the body of an operation */
+export type RequestOptions<Op> = Omit<Op, 'response'> & { signal?: AbortSignal };
+
+export type ResponseBody<Op> = Op extends { response: infer R } ? R : never;
+
+// The options argument may be left out when nothing in it is required
+type OptionsArgs<Op> = {} extends RequestOptions<Op> ? [options?: RequestOptions<Op>] : [options: RequestOptions<Op>];
+
+/** The item type of a paginated list operation */
+export type PageItem<Op> = ResponseBody<Op> extends { data: { items: Array<infer T>; continuationToken?: string } } ? T : never;
+
+/** The GET paths that return a page of items with a continuation token */
+export type PaginatedPaths = {
+  [P in PathsFor<'get'>]: [PageItem<Operation<P, 'get'>>] extends [never] ? never : P
+}[PathsFor<'get'>];
+
+export type ChatCompletionRequest = Operation<'/api/v1/chat/completions', 'post'>['body'];
+
+export type CreateMessageRequest = Operation<'/api/v1/threads/{threadId}/messages', 'post'>['body'];
+
+/** The events of POST /threads/{threadId}/messages?stream=true */
+export type MessageStreamEvent =
+  | { event: 'message.created'; data: Schemas['Message'] }
+  | { event: 'completion.delta'; data: { content: string } }
+  | { event: 'completion.done'; data: { assistantMessage: Schemas['Message'] | null } };
+
+export type ClientAuth =
+  /** Sent as `Authorization: Bearer`; a function is called before every request, e.g. to refresh the token */
+  | { type: 'bearer'; token: string | (() => string | Promise<string>) }
+  /**
+   * The `rpotential_auth` session cookie. Without a token the browser sends its own
+   * cookie (`credentials: 'include'`); with one it is set explicitly, e.g. on a server.
+   */
+  | { type: 'cookie'; token?: string };
+
+export interface ClientOptions {
+  /** Origin of the API, e.g. https://experience.rpotential.dev; paths include the /api/v1 prefix */
+  baseUrl: string;
+  auth?: ClientAuth;
+  /** Sent with every request */
+  headers?: Record<string, string>;
+  /** Defaults to the global fetch */
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+}
+
+interface RawRequestOptions {
+  path?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  header?: Record<string, string | undefined>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+const SESSION_COOKIE = 'rpotential_auth';
+
+export class ApiClient {
+  private readonly fetch: (input: string, init: RequestInit) => Promise<Response>;
+
+  constructor(private readonly options: ClientOptions) {
+    this.fetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  /**
+   * Call an operation and return the parsed body of its successful response:
+   * JSON, a Blob for downloads, or undefined when there is no body.
+   * Non-2xx responses throw an ApiError.
+   */
+  async request<M extends Method, P extends PathsFor<M>>(
+    method: M,
+    path: P,
+    ...[options]: OptionsArgs<Operation<P, M>>
+  ): Promise<ResponseBody<Operation<P, M>>> {
+    const response = await this.send(method, path, options as RawRequestOptions | undefined);
+    return await parseBody(response) as ResponseBody<Operation<P, M>>;
+  }
+
+  get<P extends PathsFor<'get'>>(path: P, ...args: OptionsArgs<Operation<P, 'get'>>) {
+    return this.request('get', path, ...args);
+  }
+
+  post<P extends PathsFor<'post'>>(path: P, ...args: OptionsArgs<Operation<P, 'post'>>) {
+    return this.request('post', path, ...args);
+  }
+
+  put<P extends PathsFor<'put'>>(path: P, ...args: OptionsArgs<Operation<P, 'put'>>) {
+    return this.request('put', path, ...args);
+  }
+
+  patch<P extends PathsFor<'patch'>>(path: P, ...args: OptionsArgs<Operation<P, 'patch'>>) {
+    return this.request('patch', path, ...args);
+  }
+
+  delete<P extends PathsFor<'delete'>>(path: P, ...args: OptionsArgs<Operation<P, 'delete'>>) {
+    return this.request('delete', path, ...args);
+  }
+
+  /**
+   * Every item of a paginated list, fetching the next page with the previous
+   * page's continuationToken as `cursor` until hasMore is false.
+   */
+  async *paginate<P extends PaginatedPaths>(
+    path: P,
+    ...[options]: OptionsArgs<Operation<P, 'get'>>
+  ): AsyncGenerator<PageItem<Operation<P, 'get'>>> {
+    const raw = (options ?? {}) as RawRequestOptions;
+    let cursor = raw.query?.cursor;
+
+    while (true) {
+      const page = await parseBody(await this.send('get', path, { ...raw, query: { ...raw.query, cursor } })) as {
+        data: { items: PageItem<Operation<P, 'get'>>[]; continuationToken?: string; hasMore: boolean };
+      };
+      yield* page.data.items;
+
+      if (!page.data.hasMore || !page.data.continuationToken) return;
+      cursor = page.data.continuationToken;
+    }
+  }
+
+  /** The server-sent events of an operation that streams its response */
+  async *stream<M extends Method, P extends PathsFor<M>>(
+    method: M,
+    path: P,
+    ...[options]: OptionsArgs<Operation<P, M>>
+  ): AsyncGenerator<ServerSentEvent> {
+    const response = await this.send(method, path, options as RawRequestOptions | undefined, 'text/event-stream');
+    yield* parseEventStream(streamBody(response));
+  }
+
+  /** The chunks of a streamed chat completion, until `data: [DONE]` */
+  async *streamChatCompletion(
+    body: Omit<ChatCompletionRequest, 'stream'>,
+    options: { signal?: AbortSignal } = {}
+  ): AsyncGenerator<Schemas['ChatCompletionChunk']> {
+    const response = await this.send('post', '/api/v1/chat/completions', {
+      body: { ...body, stream: true },
+      signal: options.signal
+    }, 'text/event-stream');
+
+    for await (const event of parseEventStream<Schemas['ChatCompletionChunk']>(streamBody(response))) {
+      yield event.data;
+    }
+  }
+
+  /** Post a message and stream the assistant's reply: the stored message, content deltas, then the reply */
+  async *streamMessage(
+    threadId: string,
+    body: CreateMessageRequest,
+    options: { signal?: AbortSignal } = {}
+  ): AsyncGenerator<MessageStreamEvent> {
+    const response = await this.send('post', '/api/v1/threads/{threadId}/messages', {
+      path: { threadId },
+      query: { stream: 'true' },
+      body,
+      signal: options.signal
+    }, 'text/event-stream');
+
+    yield* parseEventStream(streamBody(response)) as AsyncGenerator<MessageStreamEvent>;
+  }
+
+  private async send(
+    method: Method,
+    path: string,
+    options: RawRequestOptions = {},
+    accept = 'application/json'
+  ): Promise<Response> {
+    const headers = new Headers(this.options.headers);
+    headers.set('Accept', accept);
+    for (const [name, value] of Object.entries(options.header ?? {})) {
+      if (value !== undefined) headers.set(name, value);
+    }
+
+    const init: RequestInit = { method: method.toUpperCase(), headers, signal: options.signal };
+
+    const auth = this.options.auth;
+    if (auth?.type === 'bearer') {
+      const token = typeof auth.token === 'function' ? await auth.token() : auth.token;
+      headers.set('Authorization', `Bearer ${token}`);
+    } else if (auth?.type === 'cookie') {
+      if (auth.token) {
+        headers.set('Cookie', `${SESSION_COOKIE}=${auth.token}`);
+      } else {
+        init.credentials = 'include';
+      }
+    }
+
+    if (options.body !== undefined) {
+      if (isRawBody(options.body)) {
+        init.body = options.body;
+      } else {
+        init.body = JSON.stringify(options.body);
+        headers.set('Content-Type', 'application/json');
+      }
+    }
+
+    const response = await this.fetch(this.url(path, options), init);
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response);
+    }
+    return response;
+  }
+
+  private url(path: string, options: RawRequestOptions): string {
+    const resolved = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = options.path?.[name];
+      if (value === undefined) {
+        throw new TypeError(`Missing path parameter "${name}" for ${path}`);
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined && value !== null) query.set(name, String(value));
+    }
+
+    const search = query.toString();
+    return `${this.options.baseUrl.replace(/\/+$/, '')}${resolved}${search ? `?${search}` : ''}`;
+  }
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  if (response.status === 204 || response.status === 304) return undefined;
+
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes('json')) return response.json();
+  if (!response.body) return undefined;
+  return response.blob();
+}
+
+function streamBody(response: Response): ReadableStream<Uint8Array> {
+  if (!response.body) {
+    throw new TypeError('The response has no body to stream');
+  }
+  return response.body;
+}
+
+function isRawBody(body: unknown): body is BodyInit {
+  return typeof body === 'string' ||
+    body instanceof Blob ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof ReadableStream;
+}
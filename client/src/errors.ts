@@ -0,0 +1,64 @@
+// Errors thrown by the API client
+
+import type { Schemas } from './schema';
+
+export type Problem = Schemas['Problem'];
+
+/**
+ * A non-2xx response. The fields are the problem details of the
+ * `{ success: false, error }` body sent by createErrorResponse.
+ */
+export class ApiError extends Error {
+  readonly type: string;
+  readonly title: string;
+  readonly detail: string;
+  readonly errors?: Record<string, string[]>;
+  readonly traceId?: string;
+
+  constructor(
+    public readonly status: number,
+    public readonly problem: Problem,
+    public readonly response?: Response
+  ) {
+    super(problem.detail || problem.title);
+    this.name = 'ApiError';
+    this.type = problem.type;
+    this.title = problem.title;
+    this.detail = problem.detail;
+    this.errors = problem.errors as Record<string, string[]> | undefined;
+    this.traceId = problem.trace_id ?? response?.headers.get('X-Correlation-ID') ?? undefined;
+  }
+
+  // Responses without a problem body (e.g. from a proxy) get one built from the status line
+  static async fromResponse(response: Response): Promise<ApiError> {
+    let body: any;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+
+    const problem: Problem = body?.error?.title
+      ? body.error
+      : {
+          type: 'about:blank',
+          title: response.statusText || `HTTP ${response.status}`,
+          status: response.status,
+          detail: typeof body?.error === 'string' ? body.error : `Request failed with status ${response.status}`,
+          timestamp: new Date().toISOString()
+        };
+
+    return new ApiError(response.status, problem, response);
+  }
+}
+
+/**
+ * An error event in a server-sent events stream, sent after the 200 response
+ * when the provider fails mid-stream: `data: {"error":{"message","type"}}`.
+ */
+export class StreamError extends Error {
+  constructor(message: string, public readonly type: string) {
+    super(message);
+    this.name = 'StreamError';
+  }
+}
@@ -0,0 +1,20 @@
+// Typed client for the Experience Layer API
+
+export { ApiClient } from './client';
+export type {
+  ChatCompletionRequest,
+  ClientAuth,
+  ClientOptions,
+  CreateMessageRequest,
+  MessageStreamEvent,
+  Method,
+  Operation,
+  PageItem,
+  PaginatedPaths,
+  PathsFor,
+  RequestOptions,
+  ResponseBody
+} from './client';
+export { ApiError, StreamError, type Problem } from './errors';
+export { parseEventStream, type ServerSentEvent } from './sse';
+export type { Paths, Schemas } from './schema';
@@ -0,0 +1,3373 @@
+// Generated from the OpenAPI document by src/openapi/client-generator.ts - do not edit.
+// Regenerate with `npm run client:generate` after changing a route or a component schema.
+
+/** Component schemas, by name */
+export interface Schemas {
+  UIBlock: {
+    block_id?: string;
+    type: "section";
+    text?: {
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    } | {
+      type: "mrkdwn";
+      text: string;
+      verbatim?: boolean;
+    };
+    fields?: Array<{
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    } | {
+      type: "mrkdwn";
+      text: string;
+      verbatim?: boolean;
+    }>;
+    accessory?: {
+      type: "image";
+      image_url: string;
+      alt_text: string;
+    } | {
+      type: "button";
+      text: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      value?: string;
+      url?: string;
+      style?: "primary" | "danger" | "default";
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_option?: {
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      };
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "multi_static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      max_selected_items?: number;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "datepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_date?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "timepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_time?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    };
+  } | {
+    block_id?: string;
+    type: "header";
+    text: {
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    };
+  } | {
+    block_id?: string;
+    type: "divider";
+  } | {
+    block_id?: string;
+    type: "image";
+    image_url: string;
+    alt_text: string;
+    title?: {
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    };
+  } | {
+    block_id?: string;
+    type: "context";
+    elements: Array<{
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    } | {
+      type: "mrkdwn";
+      text: string;
+      verbatim?: boolean;
+    } | {
+      type: "image";
+      image_url: string;
+      alt_text: string;
+    }>;
+  } | {
+    block_id?: string;
+    type: "actions";
+    elements: Array<{
+      type: "button";
+      text: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      value?: string;
+      url?: string;
+      style?: "primary" | "danger" | "default";
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_option?: {
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      };
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "multi_static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      max_selected_items?: number;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "datepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_date?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "timepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_time?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    }>;
+  } | {
+    block_id?: string;
+    type: "input";
+    label: {
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    };
+    element: {
+      type: "plain_text_input";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_value?: string;
+      multiline?: boolean;
+      min_length?: number;
+      max_length?: number;
+    } | {
+      type: "static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_option?: {
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      };
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "multi_static_select";
+      placeholder: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      option_groups?: Array<{
+        label: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        options: Array<{
+          text: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          } | {
+            type: "mrkdwn";
+            text: string;
+            verbatim?: boolean;
+          };
+          value: string;
+          description?: {
+            type: "plain_text";
+            text: string;
+            emoji?: boolean;
+          };
+          url?: string;
+        }>;
+      }>;
+      initial_options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+      max_selected_items?: number;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "datepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_date?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    } | {
+      type: "timepicker";
+      action_id: string;
+      placeholder?: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      initial_time?: string;
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    };
+    hint?: {
+      type: "plain_text";
+      text: string;
+      emoji?: boolean;
+    };
+    optional?: boolean;
+  } | {
+    block_id?: string;
+    type: "file";
+    file_id: string;
+    title: string;
+    size?: number;
+    mime_type?: string;
+    metadata?: Record<string, unknown | null>;
+  } | {
+    block_id?: string;
+    type: "rich_text";
+    elements: Array<{
+      type: "rich_text_section";
+      elements: Array<{
+        type: "text";
+        text: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "link";
+        url: string;
+        text?: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "emoji";
+        name: string;
+      }>;
+    } | {
+      type: "rich_text_list";
+      style: "bullet" | "ordered";
+      elements: Array<{
+        type: "rich_text_section";
+        elements: Array<{
+          type: "text";
+          text: string;
+          style?: {
+            bold?: boolean;
+            italic?: boolean;
+            strike?: boolean;
+            code?: boolean;
+          };
+        } | {
+          type: "link";
+          url: string;
+          text?: string;
+          style?: {
+            bold?: boolean;
+            italic?: boolean;
+            strike?: boolean;
+            code?: boolean;
+          };
+        } | {
+          type: "emoji";
+          name: string;
+        }>;
+      }>;
+      indent?: number;
+    } | {
+      type: "rich_text_quote";
+      elements: Array<{
+        type: "text";
+        text: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "link";
+        url: string;
+        text?: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "emoji";
+        name: string;
+      }>;
+    } | {
+      type: "rich_text_preformatted";
+      elements: Array<{
+        type: "text";
+        text: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "link";
+        url: string;
+        text?: string;
+        style?: {
+          bold?: boolean;
+          italic?: boolean;
+          strike?: boolean;
+          code?: boolean;
+        };
+      } | {
+        type: "emoji";
+        name: string;
+      }>;
+    }>;
+  } | {
+    block_id?: string;
+    type: "insight_card";
+    insight_id: string;
+    title: string;
+    summary?: string;
+    kpis?: Array<{
+      label: string;
+      value: string;
+      change?: string;
+      trend?: "up" | "down" | "stable";
+      format?: "currency" | "percentage" | "number" | "text";
+    }>;
+    actions?: Array<{
+      type: "button";
+      text: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+      action_id: string;
+      value?: string;
+      url?: string;
+      style?: "primary" | "danger" | "default";
+      confirm?: {
+        title: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        confirm: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        deny: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        style?: "primary" | "danger";
+      };
+    }>;
+    tags?: Array<string>;
+  } | {
+    block_id?: string;
+    type: "insight_pile";
+    insights: Array<{
+      id: string;
+      title: string;
+      type: string;
+      created_at: string;
+      tags?: Array<string>;
+      kpis?: Array<{
+        label: string;
+        value: string;
+        change?: string;
+        trend?: "up" | "down" | "stable";
+        format?: "currency" | "percentage" | "number" | "text";
+      }>;
+    }>;
+    filters?: Array<{
+      id: string;
+      label: string;
+      type: "select" | "date" | "text";
+      options?: Array<{
+        text: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        } | {
+          type: "mrkdwn";
+          text: string;
+          verbatim?: boolean;
+        };
+        value: string;
+        description?: {
+          type: "plain_text";
+          text: string;
+          emoji?: boolean;
+        };
+        url?: string;
+      }>;
+    }>;
+    sort_options?: Array<{
+      id: string;
+      label: string;
+      direction: "asc" | "desc";
+    }>;
+  } | {
+    block_id?: string;
+    type: "navigation_rail";
+    items: Array<Schemas["NavigationItem"]>;
+    collapsed?: boolean;
+  };
+  NavigationItem: {
+    id: string;
+    label: string;
+    url?: string;
+    action_id?: string;
+    icon?: string;
+    children?: Array<Schemas["NavigationItem"]>;
+  };
+  User: {
+    /** User ID (CUID) */
+    id: string;
+    /** User email address */
+    email: string;
+    /** User full name */
+    name?: string;
+    /** User nickname/display name */
+    nick?: string;
+    /** User role */
+    role: "USER" | "ADMIN";
+    /** User avatar URL */
+    avatarUrl?: string;
+    /** User creation timestamp */
+    createdAt: string;
+    /** User last updated timestamp */
+    updatedAt: string;
+    /** User last login timestamp */
+    lastLoginAt?: string;
+  };
+  Thread: {
+    /** Thread ID (CUID) */
+    id: string;
+    /** Thread title */
+    title?: string;
+    /** Thread status */
+    status: "ACTIVE" | "ARCHIVED" | "DELETED";
+    /** Thread creation timestamp */
+    createdAt: string;
+    /** Thread last update timestamp */
+    updatedAt: string;
+    /** Additional thread metadata. `summary` holds the rolling summary (`text`, `messageCount`, `updatedAt`) and is maintained by the server. */
+    metadata?: Record<string, unknown>;
+    /** The caller's role in the thread (list and get only) */
+    role?: "OWNER" | "EDITOR" | "COMMENTER" | "VIEWER";
+    user: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+  };
+  Message: {
+    /** Message ID (CUID) */
+    id: string;
+    /** Thread ID (CUID) */
+    threadId: string;
+    /** Message role */
+    role: "USER" | "ASSISTANT" | "SYSTEM";
+    /** Message content */
+    content: string;
+    /** Structured content blocks */
+    blocks?: Array<Record<string, unknown>>;
+    /** Message creation timestamp */
+    createdAt: string;
+    /** Message last update timestamp */
+    updatedAt: string;
+    /** Additional message metadata */
+    metadata?: Record<string, unknown>;
+    /** User who created the message (only for USER role messages) */
+    user?: {
+      /** User ID (CUID) */
+      id?: string;
+      /** User email address */
+      email?: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+    /** Attached files */
+    files?: Array<{
+      /** File ID (CUID) */
+      id: string;
+      /** Original filename */
+      filename: string;
+      /** File title/description */
+      title: string;
+      /** File MIME type */
+      mimeType?: string;
+      /** File size in bytes */
+      size?: number;
+      /** File download URL */
+      url?: string;
+    }>;
+  };
+  Artifact: {
+    /** Artifact ID (CUID) */
+    id: string;
+    /** Artifact type */
+    type: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+    /** Artifact title */
+    title: string;
+    /** Artifact description */
+    description?: string;
+    /** Artifact content (fallback text) */
+    content: string;
+    /** Rich UI blocks as JSON */
+    blocks?: Array<Record<string, unknown>>;
+    /** Artifact version number */
+    version: number;
+    /** Artifact creation timestamp */
+    createdAt: string;
+    /** Artifact last update timestamp */
+    updatedAt: string;
+    /** Additional artifact metadata */
+    metadata?: Record<string, unknown>;
+    /** Associated thread information */
+    thread?: {
+      /** Thread ID (CUID) */
+      id?: string;
+      /** Thread title */
+      title?: string;
+      /** Thread status */
+      status?: "ACTIVE" | "ARCHIVED" | "DELETED";
+    };
+    /** User who created the artifact */
+    user: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+  };
+  ArtifactDetailed: {
+    /** Artifact ID (CUID) */
+    id: string;
+    /** Artifact type */
+    type: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+    /** Artifact title */
+    title: string;
+    /** Artifact description */
+    description?: string;
+    /** Artifact content (fallback text) */
+    content: string;
+    /** Rich UI blocks as JSON */
+    blocks?: Array<Record<string, unknown>>;
+    /** Artifact version number */
+    version: number;
+    /** Artifact creation timestamp */
+    createdAt: string;
+    /** Artifact last update timestamp */
+    updatedAt: string;
+    /** Additional artifact metadata */
+    metadata?: Record<string, unknown>;
+    /** Associated thread information */
+    thread?: {
+      /** Thread ID (CUID) */
+      id?: string;
+      /** Thread title */
+      title?: string;
+      /** Thread status */
+      status?: "ACTIVE" | "ARCHIVED" | "DELETED";
+    };
+    /** User who created the artifact */
+    user: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+  };
+  File: {
+    /** File ID (CUID) */
+    id: string;
+    /** Stored filename */
+    filename: string;
+    /** Original filename as uploaded */
+    originalName: string;
+    /** File MIME type */
+    mimeType: string;
+    /** File size in bytes */
+    size: number;
+    /** File checksum for integrity verification */
+    checksum?: string;
+    /** File storage URL (the content endpoint for uploaded files) */
+    storageUrl: string;
+    /** File preview URL (if available) */
+    previewUrl?: string;
+    /** File upload timestamp */
+    createdAt: string;
+    /** Additional file metadata */
+    metadata?: Record<string, unknown>;
+    /** User who uploaded the file */
+    uploader: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+  };
+  FileDetailed: {
+    /** File ID (CUID) */
+    id: string;
+    /** Stored filename */
+    filename: string;
+    /** Original filename as uploaded */
+    originalName: string;
+    /** File MIME type */
+    mimeType: string;
+    /** File size in bytes */
+    size: number;
+    /** File checksum for integrity verification */
+    checksum?: string;
+    /** File storage URL */
+    storageUrl: string;
+    /** File preview URL (if available) */
+    previewUrl?: string;
+    /** File upload timestamp */
+    createdAt: string;
+    /** Additional file metadata */
+    metadata?: Record<string, unknown>;
+    /** User who uploaded the file */
+    uploader: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+    /** Messages that reference this file */
+    messages?: Array<{
+      message?: {
+        /** Message ID */
+        id?: string;
+        /** Message content */
+        content?: string;
+        /** Message creation timestamp */
+        createdAt?: string;
+        thread?: {
+          /** Thread ID */
+          id?: string;
+          /** Thread title */
+          title?: string;
+        };
+      };
+    }>;
+  };
+  Reaction: {
+    /** Reaction ID (CUID) */
+    id: string;
+    /** Emoji used for reaction */
+    emoji: string;
+    /** Reaction creation timestamp */
+    createdAt: string;
+    /** User who created the reaction */
+    user: {
+      /** User ID (CUID) */
+      id: string;
+      /** User email address */
+      email: string;
+      /** User full name */
+      name?: string;
+      /** User nickname/display name */
+      nick?: string;
+      /** User avatar URL */
+      avatarUrl?: string;
+    };
+  };
+  MessageReactions: {
+    /** Message ID (CUID) */
+    messageId: string;
+    /** Reactions grouped by emoji */
+    reactions: Array<{
+      /** Emoji used for reaction */
+      emoji: string;
+      /** Number of users who reacted with this emoji */
+      count: number;
+      /** Users who reacted with this emoji */
+      users: Array<{
+        /** User ID (CUID) */
+        id: string;
+        /** User email address */
+        email: string;
+        /** User full name */
+        name?: string;
+        /** User nickname/display name */
+        nick?: string;
+        /** User avatar URL */
+        avatarUrl?: string;
+      }>;
+    }>;
+    /** Total number of reactions */
+    total: number;
+  };
+  RemovedReaction: {
+    /** Indicates the reaction was removed */
+    removed: boolean;
+    /** Emoji that was removed */
+    emoji: string;
+    /** Message ID from which reaction was removed */
+    messageId: string;
+  };
+  SearchResult: {
+    /** Type of the matched entity */
+    type: "message" | "thread" | "artifact";
+    /** ID of the matched entity */
+    id: string;
+    /** Thread containing the match */
+    threadId: string;
+    /** Title of the containing thread, as plain text */
+    threadTitle?: string | null;
+    /** Thread or artifact title as plain text (null for messages) */
+    title?: string | null;
+    /** HTML excerpt: the matched text is HTML-escaped and matches are wrapped in <mark></mark>, the only tags it contains. Safe to insert as HTML. */
+    snippet: string;
+    /** BM25 relevance score (lower is more relevant) */
+    rank: number;
+  };
+  ArtifactVersionSummary: {
+    /** Version record ID (CUID) */
+    id: string;
+    /** Version number */
+    version: number;
+    /** Artifact title at this version */
+    title: string;
+    /** Artifact description at this version */
+    description?: string | null;
+    /** Source version when this version was created by a restore */
+    restoredFrom?: number | null;
+    /** When this version was created */
+    createdAt: string;
+    author?: {
+      id?: string;
+      email?: string;
+      name?: string;
+    } | null;
+  };
+  ArtifactVersion: Schemas["ArtifactVersionSummary"] & {
+    /** Text content at this version */
+    content: string;
+    /** UI blocks at this version */
+    blocks?: Array<Record<string, unknown>> | null;
+    metadata?: Record<string, unknown> | null;
+  };
+  ArtifactVersionDiff: {
+    from: number;
+    to: number;
+    /** Changed scalar fields (title, description, metadata) */
+    fields: Record<string, {
+      from?: unknown;
+      to?: unknown;
+    }>;
+    content: {
+      hunks?: Array<{
+        type?: "equal" | "insert" | "delete";
+        lines?: Array<string>;
+      }>;
+      insertions?: number;
+      deletions?: number;
+    };
+    blocks: {
+      added?: Array<Record<string, unknown>>;
+      removed?: Array<Record<string, unknown>>;
+      modified?: Array<Record<string, unknown>>;
+      moved?: Array<Record<string, unknown>>;
+    };
+  };
+  /** Event delivered over the thread WebSocket. Fields beyond type, threadId and timestamp depend on the event type. */
+  ThreadEvent: {
+    type: "message.created" | "message.updated" | "message.deleted" | "reaction.added" | "reaction.removed" | "thread.updated" | "artifact.created" | "artifact.updated" | "artifact.deleted" | "typing" | "presence.joined" | "presence.left" | "presence.sync" | "pong" | "error";
+    threadId: string;
+    timestamp: string;
+    /** Message payload (message.created, message.updated) */
+    message?: Record<string, unknown>;
+    /** Affected message (message.deleted, reaction.*) */
+    messageId?: string;
+    /** Reaction emoji (reaction.*) */
+    emoji?: string;
+    /** User who reacted (reaction.*) */
+    userId?: string;
+    /** Changed thread fields and the thread ID (thread.updated) */
+    thread?: Record<string, unknown>;
+    /** Artifact payload (artifact.created, artifact.updated) */
+    artifact?: Record<string, unknown>;
+    /** Affected artifact (artifact.deleted) */
+    artifactId?: string;
+    user?: Schemas["RealtimeUser"];
+    /** Connected users (presence.sync) */
+    users?: Array<Schemas["RealtimeUser"]>;
+    /** Typing state (typing) */
+    isTyping?: boolean;
+    /** Error description (error) */
+    detail?: string;
+  };
+  RealtimeUser: {
+    id?: string;
+    name?: string | null;
+    nick?: string | null;
+    avatarUrl?: string | null;
+  };
+  TokenQuota: {
+    id?: string;
+    /** Target user, or null for a role quota */
+    userId?: string | null;
+    /** Target role, or null for a user quota */
+    role?: ("ADMIN" | "USER") | null;
+    /** Model this quota overrides, or null for all models */
+    model?: string | null;
+    /** Tokens per UTC day (null = unlimited) */
+    dailyTokens?: number | null;
+    /** Tokens per UTC month (null = unlimited) */
+    monthlyTokens?: number | null;
+    createdAt?: string;
+    updatedAt?: string;
+  };
+  QuotaStatus: {
+    window?: "daily" | "monthly";
+    limit?: number;
+    used?: number;
+    remaining?: number;
+    resetsAt?: string;
+    quotaId?: string;
+    scope?: "user" | "role";
+    /** Set when only usage of this model counts */
+    model?: string | null;
+  };
+  UsageReport: {
+    from?: string;
+    to?: string;
+    totals?: {
+      requests?: number;
+      promptTokens?: number;
+      completionTokens?: number;
+      totalTokens?: number;
+    };
+    /** Usage per UTC day and model, oldest first */
+    usage?: Array<{
+      date?: string;
+      model?: string;
+      requests?: number;
+      promptTokens?: number;
+      completionTokens?: number;
+      totalTokens?: number;
+    }>;
+    quotas?: Array<Schemas["QuotaStatus"]>;
+  };
+  UploadSession: {
+    /** Upload session ID (CUID) */
+    id?: string;
+    filename?: string;
+    /** Declared MIME type */
+    mimeType?: string | null;
+    /** Total size in bytes */
+    size?: number;
+    partSize?: number;
+    partCount?: number;
+    status?: "ACTIVE" | "COMPLETING" | "COMPLETED" | "ABORTED" | "EXPIRED";
+    uploadedBytes?: number;
+    receivedParts?: Array<number>;
+    missingParts?: Array<number>;
+    /** File created on completion */
+    fileId?: string | null;
+    expiresAt?: string;
+    createdAt?: string;
+  };
+  ThreadMember: {
+    /** Thread member ID (CUID) */
+    id: string;
+    /** Invited email address (lowercased) */
+    email: string;
+    /** OWNER: everything incl. sharing; EDITOR: edit thread, artifacts and any message; COMMENTER: post messages and reactions; VIEWER: read only */
+    role: "OWNER" | "EDITOR" | "COMMENTER" | "VIEWER";
+    createdAt: string;
+    updatedAt: string;
+    /** The linked user; null until an invitee signs in for the first time */
+    user?: {
+      id?: string;
+      email?: string;
+      name?: string;
+      nick?: string;
+      avatarUrl?: string;
+    } | null;
+    inviter?: {
+      id?: string;
+      name?: string;
+      nick?: string;
+    } | null;
+  };
+  ShareLink: {
+    /** Share link ID (CUID) */
+    id: string;
+    /** Signed share token */
+    token: string;
+    /** Public URL of the read-only view */
+    url: string;
+    resource: "thread" | "artifact";
+    threadId: string;
+    artifactId?: string | null;
+    hasPassword: boolean;
+    expiresAt?: string | null;
+    revokedAt?: string | null;
+    accessCount: number;
+    lastAccessedAt?: string | null;
+    createdAt: string;
+    creator?: {
+      id?: string;
+      name?: string;
+      nick?: string;
+    };
+  };
+  ShareLinkAccess: {
+    id?: string;
+    accessedAt?: string;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    country?: string | null;
+    referer?: string | null;
+    /** Set when the viewer was signed in */
+    user?: {
+      id?: string;
+      email?: string;
+      name?: string;
+      nick?: string;
+    } | null;
+  };
+  /** Read-only view of a shared thread (resource "thread") or artifact (resource "artifact") */
+  SharedView: {
+    resource: "thread" | "artifact";
+    expiresAt?: string | null;
+    thread?: {
+      title?: string;
+      createdAt?: string;
+      updatedAt?: string;
+      author?: Schemas["SharedAuthor"];
+      messages?: Array<{
+        id?: string;
+        role?: "USER" | "ASSISTANT" | "SYSTEM";
+        content?: string;
+        blocks?: Array<Record<string, unknown>> | null;
+        createdAt?: string;
+        editedAt?: string | null;
+        author?: Schemas["SharedAuthor"];
+      }>;
+      artifacts?: Array<Schemas["SharedArtifact"]>;
+    };
+    artifact?: Schemas["SharedArtifact"];
+  };
+  SharedArtifact: {
+    type?: string;
+    title?: string;
+    description?: string | null;
+    content?: string;
+    blocks?: Array<Record<string, unknown>> | null;
+    version?: number;
+    createdAt?: string;
+    updatedAt?: string;
+    author?: Schemas["SharedAuthor"];
+  };
+  /** Public author details (no email) */
+  SharedAuthor: {
+    name?: string | null;
+    nick?: string | null;
+    avatarUrl?: string | null;
+  } | null;
+  InteractiveActionResponse: {
+    /** ID of the recorded interaction */
+    interaction_id?: string;
+    action_handled?: boolean;
+    response_type?: "redirect" | "update" | "ephemeral";
+    redirect_url?: string;
+    /** Shown to the acting user only, never stored */
+    ephemeral_message?: {
+      text?: string;
+      blocks?: Array<Record<string, unknown>>;
+    };
+    updated_message?: Schemas["Message"];
+    follow_up_message?: Schemas["Message"];
+  };
+  FormSubmission: {
+    id?: string;
+    messageId?: string;
+    /** Validated values; empty optional inputs are left out */
+    values?: Record<string, unknown>;
+    createdAt?: string;
+    user?: Schemas["User"];
+  };
+  /** Author of a thread, message or artifact; null for assistant and system messages */
+  ExportAuthor: {
+    name?: string | null;
+    nick?: string | null;
+    email?: string;
+  } | null;
+  ExportArtifact: {
+    id?: string;
+    type?: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+    title?: string;
+    description?: string | null;
+    content?: string;
+    blocks?: Array<Record<string, unknown>> | null;
+    version?: number;
+    metadata?: Record<string, unknown> | null;
+    createdAt?: string;
+    updatedAt?: string;
+    author?: Schemas["ExportAuthor"];
+  };
+  /** Versioned thread export document. Fields are only added within a version. */
+  ThreadExport: {
+    schema?: "thread-export";
+    version?: number;
+    exportedAt?: string;
+    thread?: {
+      id?: string;
+      title?: string | null;
+      status?: "ACTIVE" | "ARCHIVED";
+      metadata?: Record<string, unknown> | null;
+      createdAt?: string;
+      updatedAt?: string;
+      author?: Schemas["ExportAuthor"];
+    };
+    /** Messages, oldest first (at most 5000) */
+    messages?: Array<{
+      id?: string;
+      role?: "USER" | "ASSISTANT" | "SYSTEM";
+      author?: Schemas["ExportAuthor"];
+      content?: string;
+      blocks?: Array<Record<string, unknown>> | null;
+      metadata?: Record<string, unknown> | null;
+      createdAt?: string;
+      editedAt?: string | null;
+      reactions?: Array<{
+        emoji?: string;
+        count?: number;
+        users?: Array<string>;
+      }>;
+      attachments?: Array<{
+        id?: string;
+        name?: string;
+        mimeType?: string;
+        size?: number;
+        checksum?: string;
+      }>;
+    }>;
+    artifacts?: Array<Schemas["ExportArtifact"]>;
+  };
+  /** Versioned artifact export document */
+  ArtifactExport: {
+    schema?: "artifact-export";
+    version?: number;
+    exportedAt?: string;
+    thread?: {
+      id?: string;
+      title?: string | null;
+    };
+    artifact?: Schemas["ExportArtifact"];
+  };
+  ThreadImport: {
+    id?: string;
+    source?: "THREAD_EXPORT" | "CHATGPT";
+    status?: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+    totalThreads?: number;
+    importedThreads?: number;
+    totalMessages?: number;
+    importedMessages?: number;
+    /** Threads created so far, in import order */
+    threadIds?: Array<string>;
+    error?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+    completedAt?: string | null;
+  };
+  Job: {
+    id?: string;
+    type?: "message.auto_completion" | "thread.import" | "thread.title" | "thread.summary" | "thread.insight";
+    status?: "PENDING" | "RUNNING" | "RETRYING" | "SUCCEEDED" | "DEAD";
+    attempts?: number;
+    maxAttempts?: number;
+    /** Set once the job succeeded, e.g. `assistantMessageId` for auto-completions */
+    result?: Record<string, unknown> | null;
+    /** Error of the last failed attempt */
+    error?: string | null;
+    /** When the next attempt is due */
+    runAt?: string;
+    startedAt?: string | null;
+    completedAt?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+  };
+  ChatCompletion: {
+    /** A unique identifier for the chat completion */
+    id: string;
+    /** The object type, which is always "chat.completion" */
+    object: "chat.completion";
+    /** The Unix timestamp (in seconds) of when the chat completion was created */
+    created: number;
+    /** The model used for the chat completion */
+    model: string;
+    choices: Array<{
+      /** The index of the choice in the list of choices */
+      index: number;
+      message: {
+        /** The role of the author of this message */
+        role: "assistant";
+        /** The contents of the message; null when the model only called tools */
+        content: string | null;
+        /** The functions the model called, with finish_reason "tool_calls" */
+        tool_calls?: Array<Schemas["ToolCall"]>;
+      };
+      /** The reason the model stopped generating tokens */
+      finish_reason: ("stop" | "length" | "content_filter" | "tool_calls") | null;
+    }>;
+    usage?: {
+      /** Number of tokens in the prompt */
+      prompt_tokens: number;
+      /** Number of tokens in the generated completion */
+      completion_tokens: number;
+      /** Total number of tokens used in the request */
+      total_tokens: number;
+    };
+    /** This fingerprint represents the backend configuration */
+    system_fingerprint?: string;
+  };
+  /** A function call made by the model */
+  ToolCall: {
+    /** Sent back as tool_call_id with the result */
+    id: string;
+    type: "function";
+    function: {
+      name: string;
+      /** JSON text generated by the model; validate it before use */
+      arguments: string;
+    };
+  };
+  /** A piece of a streamed tool call. The first piece of each call has its id and name. */
+  ToolCallDelta: {
+    /** Which of the tool calls this piece belongs to */
+    index: number;
+    id?: string;
+    type?: "function";
+    function?: {
+      name?: string;
+      arguments?: string;
+    };
+  };
+  /** One `data:` event of a streamed chat completion */
+  ChatCompletionChunk: {
+    /** A unique identifier for the chat completion; the same for every chunk */
+    id: string;
+    /** The object type, which is always "chat.completion.chunk" */
+    object: "chat.completion.chunk";
+    /** The Unix timestamp (in seconds) of when the chat completion was created */
+    created: number;
+    /** The model used for the chat completion */
+    model: string;
+    choices: Array<{
+      /** The index of the choice in the list of choices */
+      index: number;
+      delta: {
+        /** The role of the author, sent with the first chunk */
+        role?: "assistant";
+        /** The next piece of the message */
+        content?: string | null;
+        /** Pieces of tool calls; concatenate the arguments of each index */
+        tool_calls?: Array<Schemas["ToolCallDelta"]>;
+      };
+      /** The reason the model stopped generating tokens, set on the last chunk */
+      finish_reason: ("stop" | "length" | "content_filter" | "tool_calls") | null;
+    }>;
+    /** Token usage, on the final chunk when the provider reports it */
+    usage?: {
+      prompt_tokens: number;
+      completion_tokens: number;
+      total_tokens: number;
+    };
+    /** This fingerprint represents the backend configuration */
+    system_fingerprint?: string;
+  };
+  ModelList: {
+    /** The object type, which is always "list" */
+    object: "list";
+    data: Array<{
+      /** The model identifier */
+      id: string;
+      /** The object type, which is always "model" */
+      object: "model";
+      /** The Unix timestamp (in seconds) when the model was created */
+      created: number;
+      /** The organization that owns the model */
+      owned_by: string;
+      /** Maximum context length in tokens */
+      context_length?: number;
+      pricing?: {
+        /** Input token price per 1K tokens */
+        input?: number;
+        /** Output token price per 1K tokens */
+        output?: number;
+      };
+    }>;
+  };
+  ResponseMetadata: {
+    /** Response timestamp */
+    timestamp?: string;
+    /** Request correlation ID */
+    correlation_id?: string;
+    /** API version */
+    version?: string;
+  };
+  Problem: {
+    /** Problem type URI */
+    type: string;
+    /** Error title */
+    title: string;
+    /** HTTP status code */
+    status: number;
+    /** Error detail message */
+    detail: string;
+    /** Error instance path */
+    instance?: string;
+    /** Validation messages by field */
+    errors?: Record<string, Array<string>>;
+    /** Error timestamp */
+    timestamp: string;
+    /** Error trace ID, also sent as X-Correlation-ID */
+    trace_id?: string;
+  };
+  /** The envelope of createErrorResponse */
+  Error: {
+    success: false;
+    error: Schemas["Problem"];
+  };
+}
+
+/** Operations by path and method: parameters, request body and the body of a successful response */
+export interface Paths {
+  "/api/v1": {
+    /** API Info */
+    get: {
+      response: {
+        success: boolean;
+        data: {
+          version?: string;
+          name?: string;
+          description?: string;
+          documentation?: string;
+          endpoints?: Record<string, string>;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/auth/login": {
+    /** Log In */
+    post: {
+      body: {
+        email: string;
+        name?: string;
+        googleId?: string;
+        avatarUrl?: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          token?: string;
+          expiresAt?: string;
+          user?: Schemas["User"];
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/auth/logout": {
+    /** Log Out */
+    post: {
+      body: {
+        token?: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          message?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/auth/me": {
+    /** Get Authenticated User */
+    get: {
+      response: {
+        success: boolean;
+        data: Schemas["User"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/auth/sessions": {
+    /** List Sessions */
+    get: {
+      response: {
+        success: boolean;
+        data: {
+          sessions?: Array<{
+            id?: string;
+            /** First 8 characters of the token */
+            token?: string;
+            expiresAt?: string;
+            createdAt?: string;
+            user?: Schemas["User"];
+          }>;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/auth/verify": {
+    /** Verify Token */
+    get: {
+      response: {
+        success: boolean;
+        data: {
+          valid?: boolean;
+          user?: Schemas["User"];
+          token?: {
+            exp?: number;
+            iat?: number;
+            domain?: string;
+          };
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/share/{token}": {
+    /** Open Share Link */
+    get: {
+      path: {
+        token: string;
+      };
+      header?: {
+        /** Password for protected links */
+        "x-share-password"?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["SharedView"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/me": {
+    /** Get Current User */
+    get: {
+      response: {
+        success: boolean;
+        data: {
+          /** User ID */
+          id?: string;
+          email?: string;
+          name?: string | null;
+          nick?: string | null;
+          role?: "USER" | "ADMIN";
+          avatarUrl?: string | null;
+          /** Email domain of the user */
+          domain?: string;
+          session?: {
+            /** JWT expiration timestamp */
+            exp?: number;
+            /** JWT issued at timestamp */
+            iat?: number;
+            /** JWT domain */
+            domain?: string;
+          };
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/users": {
+    /** List Users */
+    get: {
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        email?: string;
+        role?: "ADMIN" | "USER";
+        search?: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["User"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create User */
+    post: {
+      body: {
+        email: string;
+        name?: string;
+        nick?: string;
+        role?: "ADMIN" | "USER";
+        googleId?: string;
+        avatarUrl?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["User"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/users/me": {
+    /** Get My Profile */
+    get: {
+      response: {
+        success: boolean;
+        data: Schemas["User"] & {
+          domain?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/users/{id}": {
+    /** Get User by ID */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["User"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Update User */
+    put: {
+      path: {
+        id: string;
+      };
+      body: {
+        name?: string;
+        nick?: string;
+        role?: "ADMIN" | "USER";
+        avatarUrl?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["User"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete User */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/import": {
+    /** Import Threads */
+    post: {
+      body: Schemas["ThreadExport"] | Array<Record<string, unknown>>;
+      response: {
+        success: boolean;
+        data: Schemas["ThreadImport"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/imports/{id}": {
+    /** Get Import Progress */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ThreadImport"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads": {
+    /** List Threads */
+    get: {
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        status?: "ACTIVE" | "ARCHIVED" | "DELETED";
+        title?: string;
+        createdAfter?: string | null;
+        createdBefore?: string | null;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["Thread"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create Thread */
+    post: {
+      body: {
+        title?: string;
+        description?: string;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Thread"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{id}": {
+    /** Get Thread by ID */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Thread"] & {
+          role?: "OWNER" | "EDITOR" | "COMMENTER" | "VIEWER";
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Update Thread */
+    put: {
+      path: {
+        id: string;
+      };
+      body: {
+        title?: string;
+        status?: "ACTIVE" | "ARCHIVED" | "DELETED";
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Thread"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete Thread */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/members": {
+    /** List Thread Members */
+    get: {
+      path: {
+        threadId: string;
+      };
+      response: {
+        success: boolean;
+        data: Array<Schemas["ThreadMember"]>;
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Invite Thread Member */
+    post: {
+      path: {
+        threadId: string;
+      };
+      body: {
+        email: string;
+        role?: "OWNER" | "EDITOR" | "COMMENTER" | "VIEWER";
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ThreadMember"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/members/{memberId}": {
+    /** Change Member Role */
+    put: {
+      path: {
+        threadId: string;
+        memberId: string;
+      };
+      body: {
+        role: "OWNER" | "EDITOR" | "COMMENTER" | "VIEWER";
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ThreadMember"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Remove Thread Member */
+    delete: {
+      path: {
+        threadId: string;
+        memberId: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/share-links": {
+    /** List Share Links */
+    get: {
+      path: {
+        threadId: string;
+      };
+      response: {
+        success: boolean;
+        data: Array<Schemas["ShareLink"]>;
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Share Thread */
+    post: {
+      path: {
+        threadId: string;
+      };
+      body: {
+        expiresAt?: string;
+        password?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ShareLink"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}/share-links": {
+    /** Share Artifact */
+    post: {
+      path: {
+        id: string;
+      };
+      body: {
+        expiresAt?: string;
+        password?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ShareLink"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/share-links/{id}/accesses": {
+    /** List Share Link Accesses */
+    get: {
+      path: {
+        id: string;
+      };
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["ShareLinkAccess"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/share-links/{id}": {
+    /** Revoke Share Link */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ShareLink"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/messages": {
+    /** List Messages in Thread */
+    get: {
+      path: {
+        threadId: string;
+      };
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        role?: "USER" | "ASSISTANT" | "SYSTEM";
+        hasAttachments?: boolean | null;
+        createdAfter?: string | null;
+        createdBefore?: string | null;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["Message"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create Message */
+    post: {
+      path: {
+        threadId: string;
+      };
+      query?: {
+        /** Stream the assistant reply as Server-Sent Events when "true" */
+        stream?: string;
+      };
+      body: {
+        role: "USER" | "ASSISTANT" | "SYSTEM";
+        content?: string;
+        userId?: string;
+        blocks?: Array<Schemas["UIBlock"]>;
+        attachments?: Array<{
+          file_id: string;
+          title: string;
+        }>;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: {
+          userMessage?: Schemas["Message"];
+        };
+        metadata: Schemas["ResponseMetadata"];
+      } | {
+        success: boolean;
+        data: {
+          userMessage?: Schemas["Message"];
+          job?: Schemas["Job"];
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/messages/{id}": {
+    /** Get Message by ID */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Message"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Update Message */
+    put: {
+      path: {
+        id: string;
+      };
+      body: {
+        content?: string;
+        blocks?: Array<Schemas["UIBlock"]>;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Message"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete Message */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts": {
+    /** List Artifacts */
+    get: {
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        type?: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+        createdAfter?: string | null;
+        createdBefore?: string | null;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["Artifact"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/artifacts": {
+    /** List Artifacts in Thread */
+    get: {
+      path: {
+        threadId: string;
+      };
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        type?: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+        createdAfter?: string | null;
+        createdBefore?: string | null;
+      };
+      response: {
+        success: boolean;
+        data: Array<Schemas["Artifact"]>;
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create Artifact in Thread */
+    post: {
+      path: {
+        threadId: string;
+      };
+      body: {
+        type: "INSIGHT" | "REPORT" | "DASHBOARD" | "PDF" | "REFERENCE";
+        title: string;
+        description?: string;
+        content: string;
+        blocks?: Array<Schemas["UIBlock"]>;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Artifact"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}": {
+    /** Get Artifact by ID */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ArtifactDetailed"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Update Artifact */
+    put: {
+      path: {
+        id: string;
+      };
+      body: {
+        title?: string;
+        description?: string;
+        content?: string;
+        blocks?: Array<Schemas["UIBlock"]>;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Artifact"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete Artifact */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}/versions": {
+    /** List Artifact Versions */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          artifactId?: string;
+          currentVersion?: number;
+          versions?: Array<Schemas["ArtifactVersionSummary"]>;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}/versions/{version}": {
+    /** Get Artifact Version */
+    get: {
+      path: {
+        id: string;
+        version: number;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ArtifactVersion"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}/diff": {
+    /** Diff Artifact Versions */
+    get: {
+      path: {
+        id: string;
+      };
+      query: {
+        from: number;
+        to?: number;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["ArtifactVersionDiff"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/artifacts/{id}/versions/{version}/restore": {
+    /** Restore Artifact Version */
+    post: {
+      path: {
+        id: string;
+        version: number;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Artifact"] & {
+          restoredFrom?: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files": {
+    /** List Files */
+    get: {
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+        mimeType?: string;
+        sizeMin?: number;
+        sizeMax?: number;
+        createdAfter?: string | null;
+        createdBefore?: string | null;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["File"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create File Record */
+    post: {
+      body: {
+        filename: string;
+        originalName: string;
+        mimeType: string;
+        size: number;
+        checksum?: string;
+        storageUrl: string;
+        previewUrl?: string;
+        metadata?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["File"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/{id}": {
+    /** Get File by ID */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["FileDetailed"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete File */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/upload": {
+    /** Upload File */
+    post: {
+      query?: {
+        filename?: string;
+      };
+      body: FormData | BodyInit;
+      response: {
+        success: boolean;
+        data: Schemas["File"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/{id}/content": {
+    /** Download File Content */
+    get: {
+      path: {
+        id: string;
+      };
+      response: Blob;
+    };
+  };
+  "/api/v1/files/uploads": {
+    /** Start Resumable Upload */
+    post: {
+      body: {
+        description?: string;
+        tags?: Array<string>;
+        visibility?: "thread" | "public" | "private";
+        filename: string;
+        mimeType?: string;
+        size: number;
+        partSize?: number;
+        checksum?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["UploadSession"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/uploads/{id}": {
+    /** Get Upload Progress */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["UploadSession"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Abort Upload */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          aborted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/uploads/{id}/parts/{partNumber}": {
+    /** Upload Part */
+    put: {
+      path: {
+        id: string;
+        partNumber: number;
+      };
+      body: BodyInit;
+      response: {
+        success: boolean;
+        data: Schemas["UploadSession"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/files/uploads/{id}/complete": {
+    /** Complete Upload */
+    post: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["File"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/messages/{messageId}/reactions": {
+    /** Get Message Reactions */
+    get: {
+      path: {
+        messageId: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["MessageReactions"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Add or Remove Reaction */
+    post: {
+      path: {
+        messageId: string;
+      };
+      body: {
+        emoji: string;
+        action: "add" | "remove";
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Reaction"] | Schemas["RemovedReaction"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Remove My Reactions */
+    delete: {
+      path: {
+        messageId: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          removed?: boolean;
+          messageId?: string;
+          /** Number of reactions removed */
+          count?: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/actions": {
+    /** Handle Block Action */
+    post: {
+      body: {
+        action_id: string;
+        block_id?: string;
+        thread_id: string;
+        message_id: string;
+        user_id: string;
+        action_data?: Record<string, unknown | null>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["InteractiveActionResponse"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/messages/{id}/submissions": {
+    /** List Form Submissions */
+    get: {
+      path: {
+        id: string;
+      };
+      query?: {
+        cursor?: string;
+        limit?: number;
+        orderBy?: string;
+        orderDirection?: "asc" | "desc";
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["FormSubmission"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Submit Form */
+    post: {
+      path: {
+        id: string;
+      };
+      body: {
+        values: Record<string, string | Array<string>>;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["FormSubmission"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/export": {
+    /** Export Thread */
+    get: {
+      path: {
+        threadId: string;
+      };
+      query?: {
+        format?: "md" | "html" | "json" | "pdf";
+      };
+      response: Blob | Schemas["ThreadExport"];
+    };
+  };
+  "/api/v1/artifacts/{id}/export": {
+    /** Export Artifact */
+    get: {
+      path: {
+        id: string;
+      };
+      query?: {
+        format?: "md" | "html" | "json" | "pdf";
+      };
+      response: Blob | Schemas["ArtifactExport"];
+    };
+  };
+  "/api/v1/threads/{threadId}/summarize": {
+    /** Summarize Thread */
+    post: {
+      path: {
+        threadId: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Job"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/search": {
+    /** Search */
+    get: {
+      query: {
+        q: string;
+        type?: "message" | "thread" | "artifact";
+        threadId?: string;
+        cursor?: string;
+        limit?: number;
+      };
+      response: {
+        success: boolean;
+        data: {
+          items: Array<Schemas["SearchResult"]>;
+          /** Cursor for the next page */
+          continuationToken?: string;
+          totalItems?: number;
+          hasMore: boolean;
+          pageSize: number;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/threads/{threadId}/ws": {
+    /** Subscribe to Thread Events */
+    get: {
+      path: {
+        threadId: string;
+      };
+      response: void;
+    };
+  };
+  "/api/v1/usage": {
+    /** Get My Usage */
+    get: {
+      query?: {
+        from?: string | null;
+        to?: string | null;
+        model?: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["UsageReport"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/users/{id}/usage": {
+    /** Get User Usage */
+    get: {
+      path: {
+        id: string;
+      };
+      query?: {
+        from?: string | null;
+        to?: string | null;
+        model?: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          userId?: string;
+        } & Schemas["UsageReport"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/quotas": {
+    /** List Token Quotas */
+    get: {
+      response: {
+        success: boolean;
+        data: Array<Schemas["TokenQuota"]>;
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Create Token Quota */
+    post: {
+      body: {
+        userId?: string;
+        role?: "ADMIN" | "USER";
+        model?: string;
+        dailyTokens?: number | null;
+        monthlyTokens?: number | null;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["TokenQuota"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/quotas/{id}": {
+    /** Update Token Quota */
+    put: {
+      path: {
+        id: string;
+      };
+      body: {
+        dailyTokens?: number | null;
+        monthlyTokens?: number | null;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["TokenQuota"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+    /** Delete Token Quota */
+    delete: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: {
+          deleted?: boolean;
+          id?: string;
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/jobs/{id}": {
+    /** Get Job */
+    get: {
+      path: {
+        id: string;
+      };
+      response: {
+        success: boolean;
+        data: Schemas["Job"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/chat/completions": {
+    /** Create Chat Completion */
+    post: {
+      body: {
+        messages: Array<{
+          role: "system" | "user" | "assistant" | "tool";
+          content?: string | null;
+          name?: string;
+          tool_calls?: Array<{
+            id: string;
+            type: "function";
+            function: {
+              name: string;
+              arguments: string;
+            };
+          }>;
+          tool_call_id?: string;
+        }>;
+        model?: string;
+        max_tokens?: number;
+        temperature?: number;
+        top_p?: number;
+        n?: number;
+        stream?: boolean;
+        stop?: string | Array<string>;
+        presence_penalty?: number;
+        frequency_penalty?: number;
+        logit_bias?: Record<string, number>;
+        user?: string;
+        tools?: Array<{
+          type: "function";
+          function: {
+            name: string;
+            description?: string;
+            parameters?: Record<string, unknown | null>;
+            strict?: boolean;
+          };
+        }>;
+        tool_choice?: "none" | "auto" | "required" | {
+          type: "function";
+          function: {
+            name: string;
+          };
+        };
+        parallel_tool_calls?: boolean;
+        response_format?: {
+          type: "text";
+        } | {
+          type: "json_object";
+        } | {
+          type: "json_schema";
+          json_schema: {
+            name: string;
+            description?: string;
+            schema?: Record<string, unknown | null>;
+            strict?: boolean | null;
+          };
+        };
+        thread_id?: string;
+        include_thread_history?: boolean;
+      };
+      response: Schemas["ChatCompletion"];
+    };
+  };
+  "/api/v1/models": {
+    /** List Available Models */
+    get: {
+      response: {
+        success: boolean;
+        data: Schemas["ModelList"];
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+  "/api/v1/health": {
+    /** API Health Check */
+    get: {
+      response: {
+        success: boolean;
+        data: {
+          status?: "healthy" | "degraded";
+          services?: {
+            database?: {
+              status?: "healthy" | "unhealthy";
+              /** Milliseconds */
+              latency?: number;
+            };
+          };
+        };
+        metadata: Schemas["ResponseMetadata"];
+      };
+    };
+  };
+}
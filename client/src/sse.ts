@@ -0,0 +1,58 @@
+// Server-sent events parsing for streamed completions and messages
+
+import { StreamError } from './errors';
+
+export interface ServerSentEvent<T = unknown> {
+  /** The `event:` field, "message" when the server sent none */
+  event: string;
+  data: T;
+}
+
+/**
+ * The events of a server-sent events body with their `data:` parsed as JSON,
+ * until `data: [DONE]` or the end of the stream. Error events throw a StreamError:
+ * `event: error` from the message stream, `{"error":{...}}` from the completion stream.
+ */
+export async function* parseEventStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent<T>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+
+        if (data.length === 0) continue;
+        if (data[0] === '[DONE]') return;
+
+        const payload = JSON.parse(data.join('\n'));
+        if (event === 'error') {
+          throw new StreamError(payload?.detail ?? 'Stream failed', 'error');
+        }
+        if (payload?.error && !payload.choices) {
+          throw new StreamError(payload.error.message ?? 'Stream failed', payload.error.type ?? 'server_error');
+        }
+        yield { event, data: payload as T };
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stops the server-side stream when the consumer breaks out early
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,75 @@
+-- Migration: Add FTS5 full-text search index for messages, threads and artifacts
+-- Created: 2025-07-21
+
+-- The index is a single FTS5 virtual table shared by all searchable entities.
+-- "title" holds thread/artifact titles, "body" holds message content and
+-- artifact description + content. The UNINDEXED columns are used to map hits
+-- back to their source rows and to scope results to the caller's threads.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "search_index" USING fts5(
+    "entityType" UNINDEXED,
+    "entityId" UNINDEXED,
+    "threadId" UNINDEXED,
+    "title",
+    "body",
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+-- Messages
+CREATE TRIGGER "messages_search_insert" AFTER INSERT ON "messages" BEGIN
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('message', NEW."id", NEW."threadId", '', NEW."content");
+END;
+
+CREATE TRIGGER "messages_search_update" AFTER UPDATE OF "content" ON "messages" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'message' AND "entityId" = OLD."id";
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('message', NEW."id", NEW."threadId", '', NEW."content");
+END;
+
+CREATE TRIGGER "messages_search_delete" AFTER DELETE ON "messages" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'message' AND "entityId" = OLD."id";
+END;
+
+-- Threads
+CREATE TRIGGER "threads_search_insert" AFTER INSERT ON "threads" BEGIN
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('thread', NEW."id", NEW."id", COALESCE(NEW."title", ''), '');
+END;
+
+CREATE TRIGGER "threads_search_update" AFTER UPDATE OF "title" ON "threads" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'thread' AND "entityId" = OLD."id";
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('thread', NEW."id", NEW."id", COALESCE(NEW."title", ''), '');
+END;
+
+CREATE TRIGGER "threads_search_delete" AFTER DELETE ON "threads" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'thread' AND "entityId" = OLD."id";
+END;
+
+-- Artifacts
+CREATE TRIGGER "artifacts_search_insert" AFTER INSERT ON "artifacts" BEGIN
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('artifact', NEW."id", NEW."threadId", NEW."title", COALESCE(NEW."description", '') || char(10) || NEW."content");
+END;
+
+CREATE TRIGGER "artifacts_search_update" AFTER UPDATE OF "title", "description", "content" ON "artifacts" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'artifact' AND "entityId" = OLD."id";
+    INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+    VALUES ('artifact', NEW."id", NEW."threadId", NEW."title", COALESCE(NEW."description", '') || char(10) || NEW."content");
+END;
+
+CREATE TRIGGER "artifacts_search_delete" AFTER DELETE ON "artifacts" BEGIN
+    DELETE FROM "search_index" WHERE "entityType" = 'artifact' AND "entityId" = OLD."id";
+END;
+
+-- Backfill existing rows
+INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+SELECT 'message', "id", "threadId", '', "content" FROM "messages";
+
+INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+SELECT 'thread', "id", "id", COALESCE("title", ''), '' FROM "threads";
+
+INSERT INTO "search_index" ("entityType", "entityId", "threadId", "title", "body")
+SELECT 'artifact', "id", "threadId", "title", COALESCE("description", '') || char(10) || "content" FROM "artifacts";
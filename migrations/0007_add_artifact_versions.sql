@@ -0,0 +1,27 @@
+-- Migration: Add artifact version history
+-- Created: 2025-07-22
+
+-- CreateTable
+CREATE TABLE "artifact_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "artifactId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "content" TEXT NOT NULL,
+    "blocks" JSONB,
+    "metadata" JSONB,
+    "createdBy" TEXT,
+    "restoredFrom" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "artifact_versions_artifactId_fkey" FOREIGN KEY ("artifactId") REFERENCES "artifacts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "artifact_versions_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "artifact_versions_artifactId_version_key" ON "artifact_versions"("artifactId", "version");
+
+-- Snapshot the current state of existing artifacts so they have a baseline version
+INSERT INTO "artifact_versions" ("id", "artifactId", "version", "title", "description", "content", "blocks", "metadata", "createdBy", "createdAt")
+SELECT lower(hex(randomblob(12))) || 'v', "id", "version", "title", "description", "content", "blocks", "metadata", "userId", "updatedAt"
+FROM "artifacts";
@@ -0,0 +1,24 @@
+-- Migration: Add token quotas and index completions for usage reporting
+-- Created: 2025-07-23
+
+-- CreateTable
+CREATE TABLE "token_quotas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "role" TEXT,
+    "model" TEXT,
+    "dailyTokens" INTEGER,
+    "monthlyTokens" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "token_quotas_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "token_quotas_userId_idx" ON "token_quotas"("userId");
+
+-- CreateIndex
+CREATE INDEX "token_quotas_role_idx" ON "token_quotas"("role");
+
+-- CreateIndex
+CREATE INDEX "completions_userId_createdAt_idx" ON "completions"("userId", "createdAt");
@@ -0,0 +1,8 @@
+-- Migration: Track the R2 object key of files uploaded to the service
+-- Created: 2025-07-24
+
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN "storageKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "files_storageKey_key" ON "files"("storageKey");
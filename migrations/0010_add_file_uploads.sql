@@ -0,0 +1,49 @@
+-- Migration: Add resumable upload sessions backed by R2 multipart uploads
+-- Created: 2025-07-25
+
+-- CreateTable
+CREATE TABLE "file_uploads" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "mimeType" TEXT,
+    "size" INTEGER NOT NULL,
+    "partSize" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "r2UploadId" TEXT NOT NULL,
+    "checksum" TEXT,
+    "metadata" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "fileId" TEXT,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "file_uploads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "file_uploads_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "file_upload_parts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "uploadId" TEXT NOT NULL,
+    "partNumber" INTEGER NOT NULL,
+    "etag" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "file_upload_parts_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "file_uploads" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_uploads_storageKey_key" ON "file_uploads"("storageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_uploads_fileId_key" ON "file_uploads"("fileId");
+
+-- CreateIndex
+CREATE INDEX "file_uploads_userId_idx" ON "file_uploads"("userId");
+
+-- CreateIndex
+CREATE INDEX "file_uploads_status_expiresAt_idx" ON "file_uploads"("status", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_upload_parts_uploadId_partNumber_key" ON "file_upload_parts"("uploadId", "partNumber");
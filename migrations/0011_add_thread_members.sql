@@ -0,0 +1,32 @@
+-- Migration: Add thread members for sharing threads with collaborators
+-- Created: 2025-07-26
+
+-- CreateTable
+CREATE TABLE "thread_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "threadId" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'VIEWER',
+    "invitedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "thread_members_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "threads" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "thread_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "thread_members_invitedBy_fkey" FOREIGN KEY ("invitedBy") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "thread_members_threadId_email_key" ON "thread_members"("threadId", "email");
+
+-- CreateIndex
+CREATE INDEX "thread_members_email_idx" ON "thread_members"("email");
+
+-- CreateIndex
+CREATE INDEX "thread_members_userId_idx" ON "thread_members"("userId");
+
+-- Backfill: every existing thread is owned by its creator
+INSERT INTO "thread_members" ("id", "threadId", "userId", "email", "role", "createdAt", "updatedAt")
+SELECT 'c' || lower(hex(randomblob(12))), t."id", t."userId", lower(u."email"), 'OWNER', t."createdAt", CURRENT_TIMESTAMP
+FROM "threads" t
+JOIN "users" u ON u."id" = t."userId";
@@ -0,0 +1,43 @@
+-- Migration: Add public read-only share links for threads and artifacts
+-- Created: 2025-07-27
+
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "threadId" TEXT NOT NULL,
+    "artifactId" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "expiresAt" DATETIME,
+    "revokedAt" DATETIME,
+    "accessCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "share_links_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "threads" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "share_links_artifactId_fkey" FOREIGN KEY ("artifactId") REFERENCES "artifacts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "share_links_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "share_link_accesses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shareLinkId" TEXT NOT NULL,
+    "userId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "country" TEXT,
+    "referer" TEXT,
+    "accessedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "share_link_accesses_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "share_links" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "share_link_accesses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "share_links_threadId_idx" ON "share_links"("threadId");
+
+-- CreateIndex
+CREATE INDEX "share_links_artifactId_idx" ON "share_links"("artifactId");
+
+-- CreateIndex
+CREATE INDEX "share_link_accesses_shareLinkId_accessedAt_idx" ON "share_link_accesses"("shareLinkId", "accessedAt");
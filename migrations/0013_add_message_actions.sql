@@ -0,0 +1,22 @@
+-- Migration: Record interactions with interactive message blocks
+-- Created: 2025-07-28
+
+-- CreateTable
+CREATE TABLE "message_actions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "blockId" TEXT,
+    "actionId" TEXT NOT NULL,
+    "actionData" JSONB,
+    "handler" TEXT,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "followUpMessageId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_actions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "message_actions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "message_actions_messageId_createdAt_idx" ON "message_actions"("messageId", "createdAt");
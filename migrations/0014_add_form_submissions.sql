@@ -0,0 +1,19 @@
+-- Migration: Store values submitted for input block forms
+-- Created: 2025-07-29
+
+-- CreateTable
+CREATE TABLE "form_submissions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "values" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "form_submissions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "form_submissions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "form_submissions_messageId_createdAt_idx" ON "form_submissions"("messageId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "form_submissions_userId_idx" ON "form_submissions"("userId");
@@ -0,0 +1,28 @@
+-- Migration: Track thread imports from export documents and ChatGPT conversations
+-- Created: 2025-07-30
+
+-- CreateTable
+CREATE TABLE "thread_imports" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "storageKey" TEXT,
+    "totalThreads" INTEGER NOT NULL,
+    "importedThreads" INTEGER NOT NULL DEFAULT 0,
+    "totalMessages" INTEGER NOT NULL,
+    "importedMessages" INTEGER NOT NULL DEFAULT 0,
+    "threadIds" JSONB NOT NULL,
+    "currentThreadId" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    CONSTRAINT "thread_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "thread_imports_userId_createdAt_idx" ON "thread_imports"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "thread_imports_status_updatedAt_idx" ON "thread_imports"("status", "updatedAt");
@@ -0,0 +1,27 @@
+-- Migration: Track background jobs delivered by Cloudflare Queues
+-- Created: 2025-07-31
+
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "userId" TEXT,
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "error" TEXT,
+    "runAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_userId_createdAt_idx" ON "jobs"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_status_updatedAt_idx" ON "jobs"("status", "updatedAt");
@@ -0,0 +1,7 @@
+-- Migration: Record the provider, model and attempts that served each completion
+-- Created: 2025-08-01
+
+-- AlterTable
+ALTER TABLE "completions" ADD COLUMN "provider" TEXT;
+ALTER TABLE "completions" ADD COLUMN "servedModel" TEXT;
+ALTER TABLE "completions" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 1;
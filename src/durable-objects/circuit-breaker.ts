@@ -0,0 +1,28 @@
+// Durable Object holding the circuit breaker state of a single AI provider
+
+import { DurableObject } from 'cloudflare:workers';
+import { allowRequest, recordResult, type CircuitBreakerRule, type CircuitState } from '../utils/circuit-breaker';
+
+const STATE_KEY = 'circuit';
+
+/**
+ * One instance per provider (addressed with `idFromName(provider)`), so the
+ * failures seen by every isolate open and close the same circuit.
+ */
+export class CircuitBreaker extends DurableObject<Env> {
+  async allow(rule: CircuitBreakerRule): Promise<boolean> {
+    const stored = await this.ctx.storage.get<CircuitState>(STATE_KEY);
+    const { state, allowed } = allowRequest(stored ?? null, rule, Date.now());
+
+    if (state !== stored) {
+      await this.ctx.storage.put(STATE_KEY, state);
+    }
+
+    return allowed;
+  }
+
+  async record(success: boolean, rule: CircuitBreakerRule): Promise<void> {
+    const stored = await this.ctx.storage.get<CircuitState>(STATE_KEY);
+    await this.ctx.storage.put(STATE_KEY, recordResult(stored ?? null, rule, success, Date.now()));
+  }
+}
@@ -0,0 +1,28 @@
+// Durable Object holding the sliding window counter of a single rate limit key
+
+import { DurableObject } from 'cloudflare:workers';
+import { applySlidingWindow, type RateLimitResult, type RateLimitRule, type SlidingWindowState } from '../utils/rate-limit';
+
+const STATE_KEY = 'window';
+
+/**
+ * One instance per rate limit key (addressed with `idFromName(key)`), so every
+ * request for the key is counted by the same single-threaded object.
+ * State is dropped by an alarm once the key has been idle for two windows.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  async hit(rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const stored = await this.ctx.storage.get<SlidingWindowState>(STATE_KEY);
+    const { state, result } = applySlidingWindow(stored ?? null, rule, now);
+
+    await this.ctx.storage.put(STATE_KEY, state);
+    await this.ctx.storage.setAlarm(now + 2 * rule.windowMs);
+
+    return result;
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
@@ -0,0 +1,150 @@
+// Durable Object holding the WebSocket connections of a single thread
+
+import { DurableObject } from 'cloudflare:workers';
+import type { RealtimeUser, ThreadEvent } from '../types/realtime';
+import {
+  REALTIME_USER_HEADER,
+  REALTIME_THREAD_HEADER,
+  createThreadEvent,
+  parseClientMessage
+} from '../services/realtime-service';
+
+// Application close code sent to sockets of members removed from the thread
+const ACCESS_REVOKED_CLOSE_CODE = 4403;
+
+interface SocketAttachment {
+  user: RealtimeUser;
+  threadId: string;
+}
+
+/**
+ * One instance per thread (addressed with `idFromName(threadId)`).
+ * Uses the WebSocket Hibernation API so idle threads cost nothing; the
+ * connected user is stored as the socket attachment and survives hibernation.
+ * Authentication and thread access are checked by the worker before the
+ * upgrade request is forwarded here.
+ */
+export class ThreadRoom extends DurableObject<Env> {
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      return new Response('Expected WebSocket upgrade', { status: 426 });
+    }
+
+    const userHeader = request.headers.get(REALTIME_USER_HEADER);
+    const threadId = request.headers.get(REALTIME_THREAD_HEADER);
+    if (!userHeader || !threadId) {
+      return new Response('Missing connection context', { status: 400 });
+    }
+
+    const user = JSON.parse(userHeader) as RealtimeUser;
+    const alreadyPresent = this.connectedUsers().some(u => u.id === user.id);
+
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+
+    this.ctx.acceptWebSocket(server, [user.id]);
+    server.serializeAttachment({ user, threadId } satisfies SocketAttachment);
+
+    // Tell the new client who is here, and everyone else that someone joined
+    server.send(JSON.stringify(createThreadEvent(threadId, {
+      type: 'presence.sync',
+      users: this.connectedUsers()
+    })));
+
+    if (!alreadyPresent) {
+      this.broadcast(createThreadEvent(threadId, { type: 'presence.joined', user }), server);
+    }
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * RPC entry point used by the REST routes to broadcast resource changes.
+   */
+  async publish(event: ThreadEvent): Promise<void> {
+    this.broadcast(event);
+
+    // A removed member loses access immediately, not on their next reconnect
+    if (event.type === 'member.removed' && event.userId) {
+      for (const socket of this.ctx.getWebSockets(event.userId)) {
+        try {
+          socket.close(ACCESS_REVOKED_CLOSE_CODE, 'Access revoked');
+        } catch {
+          // Socket already closed
+        }
+      }
+    }
+  }
+
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const { user, threadId } = ws.deserializeAttachment() as SocketAttachment;
+    const message = parseClientMessage(data);
+
+    if (!message) {
+      ws.send(JSON.stringify(createThreadEvent(threadId, {
+        type: 'error',
+        detail: 'Unsupported message'
+      })));
+      return;
+    }
+
+    switch (message.type) {
+      case 'ping':
+        ws.send(JSON.stringify(createThreadEvent(threadId, { type: 'pong' })));
+        break;
+      case 'typing':
+        this.broadcast(createThreadEvent(threadId, {
+          type: 'typing',
+          user,
+          isTyping: message.isTyping
+        }), ws);
+        break;
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    this.handleDisconnect(ws);
+    try {
+      ws.close(code, reason);
+    } catch {
+      // Socket already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.handleDisconnect(ws);
+  }
+
+  private handleDisconnect(ws: WebSocket) {
+    const { user, threadId } = ws.deserializeAttachment() as SocketAttachment;
+
+    // Only announce departure once the user's last connection is gone
+    const stillConnected = this.ctx.getWebSockets(user.id).some(socket => socket !== ws);
+    if (!stillConnected) {
+      this.broadcast(createThreadEvent(threadId, { type: 'presence.left', user }), ws);
+    }
+  }
+
+  private connectedUsers(): RealtimeUser[] {
+    const users = new Map<string, RealtimeUser>();
+    for (const socket of this.ctx.getWebSockets()) {
+      const attachment = socket.deserializeAttachment() as SocketAttachment | null;
+      if (attachment) {
+        users.set(attachment.user.id, attachment.user);
+      }
+    }
+    return [...users.values()];
+  }
+
+  private broadcast(event: ThreadEvent, except?: WebSocket) {
+    const payload = JSON.stringify(event);
+    for (const socket of this.ctx.getWebSockets()) {
+      if (socket === except) continue;
+      try {
+        socket.send(payload);
+      } catch {
+        // Socket is closing; webSocketClose will clean it up
+      }
+    }
+  }
+}
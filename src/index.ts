@@ -1,4 +1,5 @@
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { HTTPException } from 'hono/http-exception';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { getDatabaseClient } from './utils/database';
@@ -13,34 +14,76 @@ import {
   optionalAuth,
   requireRole 
 } from './middleware/auth';
+import { rateLimit } from './middleware/rate-limit';
+import { validationHook } from './middleware/validation';
+import { errorResponses, successResponse } from './utils/openapi';
 import { userRoutes } from './routes/users';
 import { threadRoutes } from './routes/threads';
+import { threadMemberRoutes } from './routes/thread-members';
+import { shareLinkRoutes } from './routes/share-links';
+import { shareRoutes } from './routes/share';
 import { messageRoutes } from './routes/messages';
 import { artifactRoutes } from './routes/artifacts';
 import { fileRoutes } from './routes/files';
+import { fileUploadRoutes } from './routes/file-uploads';
 import { reactionRoutes } from './routes/reactions';
 import { authRoutes } from './routes/auth';
-import { createChatCompletion, listModels } from './routes/completions';
+import { searchRoutes } from './routes/search';
+import { realtimeRoutes } from './routes/realtime';
+import { usageRoutes } from './routes/usage';
+import { actionRoutes } from './routes/actions';
+import { formSubmissionRoutes } from './routes/form-submissions';
+import { exportRoutes } from './routes/exports';
+import { threadImportRoutes } from './routes/thread-imports';
+import { jobRoutes } from './routes/jobs';
+import { threadSummaryRoutes } from './routes/thread-summaries';
+import { UploadService } from './services/upload-service';
+import { JobService } from './services/job-service';
+import type { JobMessage } from './utils/jobs';
+import { completionRoutes } from './routes/completions';
+import { healthRoutes } from './routes/health';
 
-// OpenAPI documentation routes
-import { api as openApiApp } from './openapi/index';
+// OpenAPI document generated from the routes below
+import { registerOpenApiRoutes } from './openapi/index';
+
+// Durable Objects must be exported from the worker entry point
+export { ThreadRoom } from './durable-objects/thread-room';
+export { RateLimiter } from './durable-objects/rate-limiter';
+export { CircuitBreaker } from './durable-objects/circuit-breaker';
 
 export interface Env {
   DB: D1Database;
   JWT_SECRET?: string;
+  SHARE_LINK_SECRET?: string;
   ALLOWED_DOMAINS?: string;
   OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  AI?: import('./services/workers-ai-provider').WorkersAIBinding;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_MODELS?: string;
   DEFAULT_AI_MODEL?: string;
   AUTO_COMPLETION_ENABLED?: string;
+  THREAD_SUMMARY_INTERVAL?: string;
+  CONTEXT_TOKEN_LIMIT?: string;
+  THREAD_ROOMS?: DurableObjectNamespace<import('./durable-objects/thread-room').ThreadRoom>;
+  RATE_LIMITER?: DurableObjectNamespace<import('./durable-objects/rate-limiter').RateLimiter>;
+  RATE_LIMITS?: string;
+  CIRCUIT_BREAKER?: DurableObjectNamespace<import('./durable-objects/circuit-breaker').CircuitBreaker>;
+  MODEL_FALLBACKS?: string;
+  FILES?: R2Bucket;
+  JOBS?: Queue<JobMessage>;
+  ACTION_WEBHOOKS?: string;
+  ACTION_WEBHOOK_SECRET?: string;
 }
 
-const app = new Hono<{ 
+const app = new OpenAPIHono<{ 
   Bindings: Env,
   Variables: {
     authenticatedUser?: import('./middleware/auth').AuthenticatedUser;
     jwtPayload?: import('./middleware/auth').JWTPayload;
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // Middleware
 app.use('*', logger());
@@ -69,30 +112,63 @@ app.use('*', cors({
   },
   allowHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'Accept', 'Cookie'],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-  exposeHeaders: ['X-Correlation-ID'],
+  exposeHeaders: [
+    'X-Correlation-ID',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After'
+  ],
   maxAge: 86400,
   credentials: true
 }));
 
 // API version info
-app.get('/api/v1', (c) => {
-  return createSuccessResponse({
-    version: '1.0.0',
-    name: 'RPotential Experience Layer API',
-    description: 'Backend API for the Chief Potential Officer System',
-    documentation: 'https://experience.rpotential.dev/docs',
-    endpoints: {
-      me: '/api/v1/me',
-      auth: '/api/v1/auth',
-      users: '/api/v1/users',
-      threads: '/api/v1/threads',
-      messages: '/api/v1/messages',
-      artifacts: '/api/v1/artifacts',
-      files: '/api/v1/files',
-      reactions: '/api/v1/reactions'
+app.openapi(
+  createRoute({
+    method: 'get',
+    path: '/api/v1',
+    tags: ['System'],
+    summary: 'API Info',
+    description: 'Version of the API and its main endpoints',
+    security: [],
+    responses: {
+      200: successResponse('API version and endpoints', {
+        type: 'object',
+        properties: {
+          version: { type: 'string', example: '1.0.0' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          documentation: { type: 'string', format: 'uri' },
+          endpoints: { type: 'object', additionalProperties: { type: 'string' } }
+        }
+      })
     }
-  });
-});
+  }),
+  (c) => {
+    return createSuccessResponse({
+      version: '1.0.0',
+      name: 'RPotential Experience Layer API',
+      description: 'Backend API for the Chief Potential Officer System',
+      documentation: 'https://experience.rpotential.dev/docs',
+      endpoints: {
+        me: '/api/v1/me',
+        auth: '/api/v1/auth',
+        users: '/api/v1/users',
+        threads: '/api/v1/threads',
+        messages: '/api/v1/messages',
+        artifacts: '/api/v1/artifacts',
+        files: '/api/v1/files',
+        reactions: '/api/v1/reactions',
+        actions: '/api/v1/actions',
+        search: '/api/v1/search',
+        usage: '/api/v1/usage',
+        jobs: '/api/v1/jobs'
+      }
+    });
+  }
+);
 
 // Simple health check endpoint (non-OpenAPI)
 app.get('/health', (c) => {
@@ -105,68 +181,125 @@ app.get('/health', (c) => {
 });
 
 // Mount route modules with authentication
-// Auth routes (no authentication required for login/logout)
+// Auth routes (no authentication required for login/logout), rate limited per client IP
+app.use('/api/v1/auth/*', rateLimit('auth'));
 app.route('/api/v1', authRoutes);
 
+// Public share links (no authentication), rate limited per client IP to slow down password guessing
+app.use('/share/*', rateLimit('share'));
+app.route('/', shareRoutes);
+
 // Protected API routes - require JWT authentication
 app.use('/api/v1/*', authenticateWithRedirect);
 
+// Rate limits per authenticated user, stricter for endpoints that call the AI provider
+app.use('/api/v1/*', rateLimit('api'));
+app.post('/api/v1/chat/completions', rateLimit('completions'));
+app.post('/api/v1/threads/:threadId/messages', rateLimit('messages'));
+app.post('/api/v1/threads/:threadId/summarize', rateLimit('completions'));
+app.post('/api/v1/actions', rateLimit('actions'));
+app.post('/api/v1/threads/import', rateLimit('imports'));
+
 // GET /api/v1/me - Get current user session (simplified endpoint)
-app.get('/api/v1/me', async (c) => {
-  try {
-    const user = c.get('authenticatedUser');
-    const jwtPayload = c.get('jwtPayload');
+app.openapi(
+  createRoute({
+    method: 'get',
+    path: '/api/v1/me',
+    tags: ['Auth'],
+    summary: 'Get Current User',
+    description: 'Get information about the currently authenticated user and their session',
+    responses: {
+      200: successResponse('Current user information', {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'User ID' },
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string', nullable: true },
+          nick: { type: 'string', nullable: true },
+          role: { type: 'string', enum: ['USER', 'ADMIN'] },
+          avatarUrl: { type: 'string', nullable: true },
+          domain: { type: 'string', description: 'Email domain of the user' },
+          session: {
+            type: 'object',
+            properties: {
+              exp: { type: 'integer', description: 'JWT expiration timestamp' },
+              iat: { type: 'integer', description: 'JWT issued at timestamp' },
+              domain: { type: 'string', description: 'JWT domain' }
+            }
+          }
+        }
+      }),
+      ...errorResponses(401, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const user = c.get('authenticatedUser');
+      const jwtPayload = c.get('jwtPayload');
+
+      if (!user) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'No active session found'
+        }, getCorrelationId(c.req.raw));
+      }
 
-    if (!user) {
+      return createSuccessResponse({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        nick: user.nick,
+        role: user.role,
+        avatarUrl: user.avatarUrl,
+        domain: user.domain,
+        session: {
+          exp: jwtPayload?.exp,
+          iat: jwtPayload?.iat,
+          domain: jwtPayload?.domain
+        }
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error getting current user:', error);
       return createErrorResponse({
-        status: 401,
-        title: 'Authentication Required',
-        detail: 'No active session found'
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to get current user information'
       }, getCorrelationId(c.req.raw));
     }
-
-    return createSuccessResponse({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      nick: user.nick,
-      role: user.role,
-      avatarUrl: user.avatarUrl,
-      domain: user.domain,
-      session: {
-        exp: jwtPayload?.exp,
-        iat: jwtPayload?.iat,
-        domain: jwtPayload?.domain
-      }
-    }, {
-      correlation_id: getCorrelationId(c.req.raw)
-    });
-  } catch (error) {
-    console.error('Error getting current user:', error);
-    return createErrorResponse({
-      status: 500,
-      title: 'Internal Server Error',
-      detail: 'Failed to get current user information'
-    }, getCorrelationId(c.req.raw));
   }
-});
+);
 
 // Admin-only routes
 app.use('/api/v1/users', requireRole(['ADMIN']));
 
 app.route('/api/v1', userRoutes);
+app.route('/api/v1', threadImportRoutes);
 app.route('/api/v1', threadRoutes);
+app.route('/api/v1', threadMemberRoutes);
+app.route('/api/v1', shareLinkRoutes);
 app.route('/api/v1', messageRoutes);
 app.route('/api/v1', artifactRoutes);
 app.route('/api/v1', fileRoutes);
+app.route('/api/v1', fileUploadRoutes);
 app.route('/api/v1', reactionRoutes);
+app.route('/api/v1', actionRoutes);
+app.route('/api/v1', formSubmissionRoutes);
+app.route('/api/v1', exportRoutes);
+app.route('/api/v1', threadSummaryRoutes);
+app.route('/api/v1', searchRoutes);
+app.route('/api/v1', realtimeRoutes);
+app.route('/api/v1', usageRoutes);
+app.route('/api/v1', jobRoutes);
 
 // OpenAI-compatible completions endpoints
-app.post('/api/v1/chat/completions', createChatCompletion);
-app.get('/api/v1/models', listModels);
+app.route('/api/v1', completionRoutes);
+app.route('/api/v1', healthRoutes);
 
-// Mount OpenAPI documentation app
-app.route('/', openApiApp);
+// OpenAPI document and Swagger UI
+registerOpenApiRoutes(app);
 
 // Legacy endpoints for backward compatibility (protected)
 app.get('/users', authenticateUser, requireRole(['ADMIN']), async (c) => {
@@ -243,6 +376,15 @@ app.notFound((c) => {
 
 // Error handler
 app.onError((err, c) => {
+  // Request bodies that aren't valid JSON fail in the validator before reaching the handler
+  if (err instanceof HTTPException && err.status === 400) {
+    return createErrorResponse({
+      status: 400,
+      title: 'Bad Request',
+      detail: 'Invalid request body format'
+    }, getCorrelationId(c.req.raw));
+  }
+
   console.error('Unhandled error:', err);
   return createErrorResponse({
     status: 500,
@@ -251,4 +393,27 @@ app.onError((err, c) => {
   }, getCorrelationId(c.req.raw));
 });
 
-export default app;
\ No newline at end of file
+export { app };
+
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger: abort resumable uploads that were abandoned and requeue jobs whose message was lost
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      UploadService.expireSessions(env).then((count) => {
+        if (count > 0) console.log(`Expired ${count} upload session(s)`);
+      })
+    );
+    ctx.waitUntil(
+      JobService.requeueStale(env).then((count) => {
+        if (count > 0) console.log(`Requeued ${count} stale job(s)`);
+      })
+    );
+  },
+
+  // Queue consumer for background jobs
+  async queue(batch: MessageBatch<JobMessage>, env: Env) {
+    await JobService.consume(batch, env);
+  }
+};
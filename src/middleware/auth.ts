@@ -270,7 +270,8 @@ export async function authenticateWithRedirect(c: Context, next: Next) {
       // Check if this is an API request (has JSON Accept header or is preflight)
       const acceptHeader = c.req.header('Accept') || '';
       const isApiRequest = acceptHeader.includes('application/json') || 
-                          c.req.method === 'OPTIONS';
+                          c.req.method === 'OPTIONS' ||
+                          c.req.header('Upgrade') === 'websocket'; // WebSocket clients cannot follow redirects
 
       if (isApiRequest) {
         // Return JSON error for API requests
@@ -0,0 +1,140 @@
+// Rate limiting middleware
+
+import { Context, Next } from 'hono';
+import { createRateLimitResponse, getCorrelationId } from '../utils/response';
+import {
+  applySlidingWindow,
+  getRateLimitHeaders,
+  type RateLimitResult,
+  type RateLimitRule,
+  type SlidingWindowState
+} from '../utils/rate-limit';
+import type { AuthenticatedUser } from './auth';
+import type { RateLimiter } from '../durable-objects/rate-limiter';
+
+// Default limits per route group. Override any of them with the RATE_LIMITS
+// variable, e.g. {"completions": {"limit": 10, "windowSeconds": 60}}.
+export const RATE_LIMIT_GROUPS = {
+  auth: { limit: 20, windowMs: 60_000 },
+  api: { limit: 300, windowMs: 60_000 },
+  messages: { limit: 30, windowMs: 60_000 },
+  completions: { limit: 20, windowMs: 60_000 },
+  actions: { limit: 60, windowMs: 60_000 },
+  imports: { limit: 10, windowMs: 60 * 60_000 },
+  share: { limit: 60, windowMs: 60_000 }
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitGroup = keyof typeof RATE_LIMIT_GROUPS;
+
+export interface RateLimitStore {
+  hit(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+// Per-isolate store, used when no Durable Object binding is configured and in tests
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, SlidingWindowState>();
+
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const { state, result } = applySlidingWindow(this.windows.get(key) ?? null, rule, Date.now());
+    this.windows.set(key, state);
+    return result;
+  }
+
+  clear() {
+    this.windows.clear();
+  }
+}
+
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespace<RateLimiter>) {}
+
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    return stub.hit(rule);
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+let storeOverride: RateLimitStore | null = null;
+
+/**
+ * Replace the store for every rate limiter (tests); pass null to restore the default.
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  storeOverride = store;
+}
+
+function getStore(env: { RATE_LIMITER?: DurableObjectNamespace<RateLimiter> }): RateLimitStore {
+  if (storeOverride) return storeOverride;
+  return env.RATE_LIMITER ? new DurableObjectRateLimitStore(env.RATE_LIMITER) : memoryStore;
+}
+
+function getRule(group: RateLimitGroup, overrides: unknown): RateLimitRule {
+  const defaults = RATE_LIMIT_GROUPS[group];
+
+  try {
+    const config = typeof overrides === 'string' ? JSON.parse(overrides) : overrides;
+    const override = config?.[group];
+    if (!override) return defaults;
+
+    return {
+      limit: Number(override.limit) > 0 ? Number(override.limit) : defaults.limit,
+      windowMs: Number(override.windowSeconds) > 0 ? Number(override.windowSeconds) * 1000 : defaults.windowMs
+    };
+  } catch {
+    console.error('Invalid RATE_LIMITS configuration, using defaults');
+    return defaults;
+  }
+}
+
+// Authenticated requests are limited per user, anonymous ones per client IP
+function getClientKey(c: Context): string {
+  const user = c.get('authenticatedUser') as AuthenticatedUser | undefined;
+  if (user) {
+    return `user:${user.id}`;
+  }
+
+  const ip = c.req.header('CF-Connecting-IP')
+    || c.req.header('X-Forwarded-For')?.split(',')[0].trim()
+    || 'unknown';
+  return `ip:${ip}`;
+}
+
+/**
+ * Sliding window rate limit for a route group. Requests over the limit get a
+ * 429 with Retry-After; every response carries the RateLimit-* headers.
+ * If the store is unavailable the request is let through.
+ */
+export function rateLimit(group: RateLimitGroup) {
+  return async (c: Context, next: Next) => {
+    const rule = getRule(group, c.env?.RATE_LIMITS);
+
+    let result: RateLimitResult;
+    try {
+      result = await getStore(c.env ?? {}).hit(`${group}:${getClientKey(c)}`, rule);
+    } catch (error) {
+      console.error('Rate limit store error:', error);
+      return next();
+    }
+
+    const headers = getRateLimitHeaders(rule, result);
+
+    if (!result.allowed) {
+      const response = createRateLimitResponse(getCorrelationId(c.req.raw));
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+      return response;
+    }
+
+    await next();
+
+    try {
+      for (const [name, value] of Object.entries(headers)) {
+        c.res.headers.set(name, value);
+      }
+    } catch {
+      // Immutable headers (e.g. WebSocket upgrade responses)
+    }
+  };
+}
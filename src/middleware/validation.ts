@@ -1,9 +1,56 @@
 // Validation middleware for API endpoints
 
-import { Context, Next } from 'hono';
+import { Context, Next, type ValidationTargets } from 'hono';
 import { ZodSchema, ZodError } from 'zod';
 import { createErrorResponse, getCorrelationId } from '../utils/response';
 
+// Field paths use JavaScript notation, e.g. "blocks[3].elements[1].url"
+export function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((field, key) => {
+    if (typeof key === 'number') return `${field}[${key}]`;
+    return field ? `${field}.${String(key)}` : String(key);
+  }, '');
+}
+
+// Issue messages keyed by field path
+export function collectIssues(error: ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  error.issues.forEach((issue) => {
+    const field = formatIssuePath(issue.path);
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(issue.message);
+  });
+  return errors;
+}
+
+const VALIDATION_PROBLEMS: Partial<Record<keyof ValidationTargets, { title: string; detail: string }>> = {
+  json: { title: 'Validation Error', detail: 'The request body contains invalid data' },
+  query: { title: 'Query Parameter Validation Error', detail: 'The request query parameters contain invalid data' },
+  param: { title: 'Path Parameter Validation Error', detail: 'The path parameters contain invalid data' }
+};
+
+/**
+ * Default hook for OpenAPIHono apps: routes validated from their createRoute
+ * request schemas fail with the same problem responses as the middleware below
+ */
+export function validationHook(
+  result: { target: keyof ValidationTargets } & ({ success: true } | { success: false; error: ZodError }),
+  c: Context
+) {
+  if (result.success) return;
+
+  const problem = VALIDATION_PROBLEMS[result.target] ?? {
+    title: 'Validation Error',
+    detail: 'The request contains invalid data'
+  };
+
+  return createErrorResponse({
+    status: 400,
+    ...problem,
+    errors: collectIssues(result.error)
+  }, getCorrelationId(c.req.raw));
+}
+
 export function validateBody<T>(schema: ZodSchema<T>) {
   return async (c: Context, next: Next) => {
     try {
@@ -13,12 +60,7 @@ export function validateBody<T>(schema: ZodSchema<T>) {
       await next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors: Record<string, string[]> = {};
-        error.issues.forEach((issue) => {
-          const field = issue.path.join('.');
-          if (!errors[field]) errors[field] = [];
-          errors[field].push(issue.message);
-        });
+        const errors = collectIssues(error);
 
         return createErrorResponse({
           status: 400,
@@ -46,12 +88,7 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
       await next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors: Record<string, string[]> = {};
-        error.issues.forEach((issue) => {
-          const field = issue.path.join('.');
-          if (!errors[field]) errors[field] = [];
-          errors[field].push(issue.message);
-        });
+        const errors = collectIssues(error);
 
         return createErrorResponse({
           status: 400,
@@ -78,12 +115,7 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
       await next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors: Record<string, string[]> = {};
-        error.issues.forEach((issue) => {
-          const field = issue.path.join('.');
-          if (!errors[field]) errors[field] = [];
-          errors[field].push(issue.message);
-        });
+        const errors = collectIssues(error);
 
         return createErrorResponse({
           status: 400,
@@ -111,12 +143,7 @@ export function validateParams<T>(schema: ZodSchema<T>) {
       await next();
     } catch (error) {
       if (error instanceof ZodError) {
-        const errors: Record<string, string[]> = {};
-        error.issues.forEach((issue) => {
-          const field = issue.path.join('.');
-          if (!errors[field]) errors[field] = [];
-          errors[field].push(issue.message);
-        });
+        const errors = collectIssues(error);
 
         return createErrorResponse({
           status: 400,
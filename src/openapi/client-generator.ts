@@ -0,0 +1,178 @@
+// Generates the schema module of the typed API client (client/src/schema.ts) from the OpenAPI document
+
+type JsonSchema = Record<string, any>;
+
+interface OpenApiDocument {
+  paths?: Record<string, Record<string, any>>;
+  components?: { schemas?: Record<string, JsonSchema> };
+}
+
+const METHODS = ['get', 'put', 'post', 'patch', 'delete'] as const;
+
+const HEADER = `// Generated from the OpenAPI document by src/openapi/client-generator.ts - do not edit.
+// Regenerate with \`npm run client:generate\` after changing a route or a component schema.
+`;
+
+export function generateClientSchema(document: OpenApiDocument): string {
+  const schemas = Object.entries(document.components?.schemas ?? {})
+    .map(([name, schema]) => `${comment(schema.description, 1)}  ${key(name)}: ${render(schema, 1)};`);
+
+  const paths = Object.entries(document.paths ?? {}).map(([path, item]) => {
+    const operations = METHODS
+      .filter(method => item[method])
+      .map(method => `${comment(item[method].summary, 2)}    ${method}: ${renderOperation(item, item[method])};`);
+    return `  ${key(path)}: {\n${operations.join('\n')}\n  };`;
+  });
+
+  return `${HEADER}
+/** Component schemas, by name */
+export interface Schemas {
+${schemas.join('\n')}
+}
+
+/** Operations by path and method: parameters, request body and the body of a successful response */
+export interface Paths {
+${paths.join('\n')}
+}
+`;
+}
+
+// An operation's path, query and header parameters, body and success response
+function renderOperation(item: JsonSchema, operation: JsonSchema): string {
+  const fields: string[] = [];
+  const parameters: JsonSchema[] = [...(item.parameters ?? []), ...(operation.parameters ?? [])];
+
+  for (const [location, field] of [['path', 'path'], ['query', 'query'], ['header', 'header']]) {
+    const matching = parameters.filter(parameter => parameter.in === location);
+    if (matching.length === 0) continue;
+
+    const required = matching.some(parameter => parameter.required);
+    fields.push(`${field}${required ? '' : '?'}: ${renderObject(
+      Object.fromEntries(matching.map(parameter => [
+        parameter.name,
+        { description: parameter.description, ...parameter.schema }
+      ])),
+      matching.filter(parameter => parameter.required).map(parameter => parameter.name),
+      undefined,
+      3
+    )}`);
+  }
+
+  if (operation.requestBody) {
+    const body = union(Object.entries(operation.requestBody.content ?? {}).map(([mediaType, media]: [string, any]) =>
+      isJson(mediaType) ? render(media.schema, 3) : mediaType === 'multipart/form-data' ? 'FormData' : 'BodyInit'
+    ));
+    fields.push(`body${operation.requestBody.required ? '' : '?'}: ${body}`);
+  }
+
+  const responses = Object.entries(operation.responses ?? {})
+    .filter(([status]) => status.startsWith('2'))
+    .flatMap(([, response]: [string, any]) => {
+      // Event streams are read with the client's stream helpers instead
+      const content = Object.entries(response.content ?? {})
+        .filter(([mediaType]) => mediaType !== 'text/event-stream');
+      if (content.length === 0) return ['void'];
+      return content.map(([mediaType, media]: [string, any]) => isJson(mediaType) ? render(media.schema, 3) : 'Blob');
+    });
+  fields.push(`response: ${union(responses.length > 0 ? responses : ['void'])}`);
+
+  return `{\n${fields.map(field => `      ${field};`).join('\n')}\n    }`;
+}
+
+// The TypeScript type of a JSON schema, indented for `depth` levels of nesting
+function render(schema: JsonSchema | undefined, depth: number): string {
+  if (!schema) return 'unknown';
+
+  if (schema.$ref) {
+    return `Schemas[${JSON.stringify(schema.$ref.split('/').pop())}]`;
+  }
+
+  let type: string;
+  if (schema.oneOf || schema.anyOf) {
+    type = union((schema.oneOf ?? schema.anyOf).map((member: JsonSchema) => render(member, depth)));
+  } else if (schema.allOf) {
+    type = schema.allOf.map((member: JsonSchema) => group(render(member, depth))).join(' & ');
+  } else if (schema.enum) {
+    type = union(schema.enum.map((value: unknown) => JSON.stringify(value)));
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'Blob' : 'string';
+  } else if (schema.type === 'number' || schema.type === 'integer') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'array') {
+    type = `Array<${render(schema.items, depth)}>`;
+  } else if (schema.type === 'object' || schema.properties) {
+    type = renderObject(schema.properties ?? {}, schema.required ?? [], schema.additionalProperties, depth);
+  } else {
+    type = 'unknown';
+  }
+
+  return schema.nullable ? `${group(type)} | null` : type;
+}
+
+function renderObject(
+  properties: Record<string, JsonSchema>,
+  required: string[],
+  additionalProperties: boolean | JsonSchema | undefined,
+  depth: number
+): string {
+  const entries = Object.entries(properties);
+
+  if (entries.length === 0) {
+    const values = additionalProperties && additionalProperties !== true
+      ? render(additionalProperties, depth)
+      : 'unknown';
+    return `Record<string, ${values}>`;
+  }
+
+  const indent = '  '.repeat(depth + 1);
+  const lines = entries.map(([name, property]) =>
+    `${comment(property.description, depth + 1)}${indent}${key(name)}${required.includes(name) ? '' : '?'}: ${render(property, depth + 1)};`
+  );
+  // Declared properties need not match the type of the additional ones
+  if (additionalProperties) {
+    lines.push(`${indent}[key: string]: unknown;`);
+  }
+
+  return `{\n${lines.join('\n')}\n${'  '.repeat(depth)}}`;
+}
+
+function comment(text: string | undefined, depth: number): string {
+  if (!text) return '';
+  return `${'  '.repeat(depth)}/** ${text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`;
+}
+
+function key(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function union(types: string[]): string {
+  return [...new Set(types)].join(' | ');
+}
+
+// Parenthesize unions and intersections before combining them with another operator
+function group(type: string): string {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if ('{[(<'.includes(char)) {
+      depth++;
+    } else if ('}])>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return `(${type})`;
+    }
+  }
+  return type;
+}
+
+function isJson(mediaType: string): boolean {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
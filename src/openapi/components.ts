@@ -0,0 +1,1227 @@
+// Shared OpenAPI components: resource schemas, error responses and the auth scheme
+// that the routes' createRoute definitions refer to by $ref
+
+export const components = {
+  schemas: {
+    User: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+        email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+        name: { type: 'string', description: 'User full name', example: 'John Doe' },
+        nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+        role: { type: 'string', enum: ['USER', 'ADMIN'], description: 'User role', example: 'USER' },
+        avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' },
+        createdAt: { type: 'string', format: 'date-time', description: 'User creation timestamp', example: '2025-07-14T12:00:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', description: 'User last updated timestamp', example: '2025-07-14T12:30:00Z' },
+        lastLoginAt: { type: 'string', format: 'date-time', description: 'User last login timestamp', example: '2025-07-14T11:00:00Z' }
+      },
+      required: ['id', 'email', 'role', 'createdAt', 'updatedAt']
+    },
+    Thread: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Thread ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+        title: { type: 'string', description: 'Thread title', example: 'Discussion about AI ethics' },
+        status: { type: 'string', enum: ['ACTIVE', 'ARCHIVED', 'DELETED'], description: 'Thread status', example: 'ACTIVE' },
+        createdAt: { type: 'string', format: 'date-time', description: 'Thread creation timestamp', example: '2025-07-15T10:30:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', description: 'Thread last update timestamp', example: '2025-07-15T10:30:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional thread metadata. `summary` holds the rolling summary (`text`, `messageCount`, `updatedAt`) and is maintained by the server.', example: { tags: ['ai', 'ethics'], priority: 'high' } },
+        role: { type: 'string', enum: ['OWNER', 'EDITOR', 'COMMENTER', 'VIEWER'], description: "The caller's role in the thread (list and get only)", example: 'OWNER' },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email']
+        }
+      },
+      required: ['id', 'status', 'createdAt', 'updatedAt', 'user']
+    },
+    Message: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Message ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+        threadId: { type: 'string', description: 'Thread ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+        role: { type: 'string', enum: ['USER', 'ASSISTANT', 'SYSTEM'], description: 'Message role', example: 'USER' },
+        content: { type: 'string', description: 'Message content', example: 'What are the key ethical considerations when developing AI systems?' },
+        blocks: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+          description: 'Structured content blocks',
+          example: [{ type: 'text', text: 'Hello world' }, { type: 'image', url: 'https://example.com/image.jpg' }]
+        },
+        createdAt: { type: 'string', format: 'date-time', description: 'Message creation timestamp', example: '2025-07-15T10:35:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', description: 'Message last update timestamp', example: '2025-07-15T10:35:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional message metadata', example: { confidence: 0.95, model: 'gpt-4' } },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          description: 'User who created the message (only for USER role messages)'
+        },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'File ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a4' },
+              filename: { type: 'string', description: 'Original filename', example: 'document.pdf' },
+              title: { type: 'string', description: 'File title/description', example: 'AI Ethics Research Paper' },
+              mimeType: { type: 'string', description: 'File MIME type', example: 'application/pdf' },
+              size: { type: 'number', description: 'File size in bytes', example: 1024000 },
+              url: { type: 'string', format: 'url', description: 'File download URL', example: 'https://storage.example.com/files/document.pdf' }
+            },
+            required: ['id', 'filename', 'title']
+          },
+          description: 'Attached files'
+        }
+      },
+      required: ['id', 'threadId', 'role', 'content', 'createdAt', 'updatedAt']
+    },
+    Artifact: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Artifact ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a5' },
+        type: { type: 'string', enum: ['INSIGHT', 'REPORT', 'DASHBOARD', 'PDF', 'REFERENCE'], description: 'Artifact type', example: 'INSIGHT' },
+        title: { type: 'string', description: 'Artifact title', example: 'AI Market Analysis Report' },
+        description: { type: 'string', description: 'Artifact description', example: 'Comprehensive analysis of AI market trends and opportunities' },
+        content: { type: 'string', description: 'Artifact content (fallback text)', example: 'This report analyzes the current AI market trends...' },
+        blocks: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+          description: 'Rich UI blocks as JSON',
+          example: [{ type: 'text', text: 'Market Overview' }, { type: 'chart', data: { labels: ['Q1', 'Q2'], values: [100, 150] } }]
+        },
+        version: { type: 'number', description: 'Artifact version number', example: 1 },
+        createdAt: { type: 'string', format: 'date-time', description: 'Artifact creation timestamp', example: '2025-07-15T14:30:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', description: 'Artifact last update timestamp', example: '2025-07-15T14:30:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional artifact metadata', example: { tags: ['ai', 'market'], format: 'pdf' } },
+        thread: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Thread ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+            title: { type: 'string', description: 'Thread title', example: 'AI Market Research Discussion' },
+            status: { type: 'string', enum: ['ACTIVE', 'ARCHIVED', 'DELETED'], description: 'Thread status', example: 'ACTIVE' }
+          },
+          description: 'Associated thread information'
+        },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email'],
+          description: 'User who created the artifact'
+        }
+      },
+      required: ['id', 'type', 'title', 'content', 'version', 'createdAt', 'updatedAt', 'user']
+    },
+    ArtifactDetailed: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Artifact ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a5' },
+        type: { type: 'string', enum: ['INSIGHT', 'REPORT', 'DASHBOARD', 'PDF', 'REFERENCE'], description: 'Artifact type', example: 'INSIGHT' },
+        title: { type: 'string', description: 'Artifact title', example: 'AI Market Analysis Report' },
+        description: { type: 'string', description: 'Artifact description', example: 'Comprehensive analysis of AI market trends and opportunities' },
+        content: { type: 'string', description: 'Artifact content (fallback text)', example: 'This report analyzes the current AI market trends...' },
+        blocks: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+          description: 'Rich UI blocks as JSON',
+          example: [{ type: 'text', text: 'Market Overview' }, { type: 'chart', data: { labels: ['Q1', 'Q2'], values: [100, 150] } }]
+        },
+        version: { type: 'number', description: 'Artifact version number', example: 1 },
+        createdAt: { type: 'string', format: 'date-time', description: 'Artifact creation timestamp', example: '2025-07-15T14:30:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', description: 'Artifact last update timestamp', example: '2025-07-15T14:30:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional artifact metadata', example: { tags: ['ai', 'market'], format: 'pdf' } },
+        thread: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Thread ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+            title: { type: 'string', description: 'Thread title', example: 'AI Market Research Discussion' },
+            status: { type: 'string', enum: ['ACTIVE', 'ARCHIVED', 'DELETED'], description: 'Thread status', example: 'ACTIVE' }
+          },
+          description: 'Associated thread information'
+        },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email'],
+          description: 'User who created the artifact'
+        }
+      },
+      required: ['id', 'type', 'title', 'content', 'version', 'createdAt', 'updatedAt', 'user']
+    },
+    File: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'File ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a6' },
+        filename: { type: 'string', description: 'Stored filename', example: 'document_20250715_143000.pdf' },
+        originalName: { type: 'string', description: 'Original filename as uploaded', example: 'AI Research Paper.pdf' },
+        mimeType: { type: 'string', description: 'File MIME type', example: 'application/pdf' },
+        size: { type: 'number', description: 'File size in bytes', example: 2048576 },
+        checksum: { type: 'string', description: 'File checksum for integrity verification', example: 'sha256:abc123def456...' },
+        storageUrl: { type: 'string', format: 'url', description: 'File storage URL (the content endpoint for uploaded files)', example: 'https://storage.example.com/files/document_20250715_143000.pdf' },
+        previewUrl: { type: 'string', format: 'url', description: 'File preview URL (if available)', example: 'https://storage.example.com/previews/document_20250715_143000.jpg' },
+        createdAt: { type: 'string', format: 'date-time', description: 'File upload timestamp', example: '2025-07-15T14:30:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional file metadata', example: { tags: ['research', 'ai'], processed: true } },
+        uploader: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email'],
+          description: 'User who uploaded the file'
+        }
+      },
+      required: ['id', 'filename', 'originalName', 'mimeType', 'size', 'storageUrl', 'createdAt', 'uploader']
+    },
+    FileDetailed: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'File ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a6' },
+        filename: { type: 'string', description: 'Stored filename', example: 'document_20250715_143000.pdf' },
+        originalName: { type: 'string', description: 'Original filename as uploaded', example: 'AI Research Paper.pdf' },
+        mimeType: { type: 'string', description: 'File MIME type', example: 'application/pdf' },
+        size: { type: 'number', description: 'File size in bytes', example: 2048576 },
+        checksum: { type: 'string', description: 'File checksum for integrity verification', example: 'sha256:abc123def456...' },
+        storageUrl: { type: 'string', format: 'url', description: 'File storage URL', example: 'https://storage.example.com/files/document_20250715_143000.pdf' },
+        previewUrl: { type: 'string', format: 'url', description: 'File preview URL (if available)', example: 'https://storage.example.com/previews/document_20250715_143000.jpg' },
+        createdAt: { type: 'string', format: 'date-time', description: 'File upload timestamp', example: '2025-07-15T14:30:00Z' },
+        metadata: { type: 'object', additionalProperties: true, description: 'Additional file metadata', example: { tags: ['research', 'ai'], processed: true } },
+        uploader: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email'],
+          description: 'User who uploaded the file'
+        },
+        messages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              message: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Message ID', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+                  content: { type: 'string', description: 'Message content', example: 'Here is the research paper...' },
+                  createdAt: { type: 'string', format: 'date-time', description: 'Message creation timestamp', example: '2025-07-15T14:35:00Z' },
+                  thread: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', description: 'Thread ID', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+                      title: { type: 'string', description: 'Thread title', example: 'AI Research Discussion' }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          description: 'Messages that reference this file'
+        }
+      },
+      required: ['id', 'filename', 'originalName', 'mimeType', 'size', 'storageUrl', 'createdAt', 'uploader']
+    },
+    Reaction: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Reaction ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a7' },
+        emoji: { type: 'string', description: 'Emoji used for reaction', example: '👍' },
+        createdAt: { type: 'string', format: 'date-time', description: 'Reaction creation timestamp', example: '2025-07-15T14:40:00Z' },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+            name: { type: 'string', description: 'User full name', example: 'John Doe' },
+            nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+            avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+          },
+          required: ['id', 'email'],
+          description: 'User who created the reaction'
+        }
+      },
+      required: ['id', 'emoji', 'createdAt', 'user']
+    },
+    MessageReactions: {
+      type: 'object',
+      properties: {
+        messageId: { type: 'string', description: 'Message ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+        reactions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              emoji: { type: 'string', description: 'Emoji used for reaction', example: '👍' },
+              count: { type: 'number', description: 'Number of users who reacted with this emoji', example: 3 },
+              users: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', description: 'User ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+                    email: { type: 'string', format: 'email', description: 'User email address', example: 'user@example.com' },
+                    name: { type: 'string', description: 'User full name', example: 'John Doe' },
+                    nick: { type: 'string', description: 'User nickname/display name', example: 'johndoe' },
+                    avatarUrl: { type: 'string', format: 'url', description: 'User avatar URL', example: 'https://example.com/avatar.jpg' }
+                  },
+                  required: ['id', 'email']
+                },
+                description: 'Users who reacted with this emoji'
+              }
+            },
+            required: ['emoji', 'count', 'users']
+          },
+          description: 'Reactions grouped by emoji'
+        },
+        total: { type: 'number', description: 'Total number of reactions', example: 5 }
+      },
+      required: ['messageId', 'reactions', 'total']
+    },
+    RemovedReaction: {
+      type: 'object',
+      properties: {
+        removed: { type: 'boolean', example: true, description: 'Indicates the reaction was removed' },
+        emoji: { type: 'string', description: 'Emoji that was removed', example: '👍' },
+        messageId: { type: 'string', description: 'Message ID from which reaction was removed', example: 'ck9x8v7b600034l5r8jlkf0a3' }
+      },
+      required: ['removed', 'emoji', 'messageId']
+    },
+    SearchResult: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['message', 'thread', 'artifact'], description: 'Type of the matched entity', example: 'message' },
+        id: { type: 'string', description: 'ID of the matched entity', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+        threadId: { type: 'string', description: 'Thread containing the match', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+        threadTitle: { type: 'string', nullable: true, description: 'Title of the containing thread, as plain text', example: 'Q3 planning' },
+        title: { type: 'string', nullable: true, description: 'Thread or artifact title as plain text (null for messages)', example: 'Q3 Revenue Report' },
+        snippet: {
+          type: 'string',
+          description: 'HTML excerpt: the matched text is HTML-escaped and matches are wrapped in <mark></mark>, the only tags it contains. Safe to insert as HTML.',
+          example: '…the <mark>quarterly</mark> <mark>revenue</mark> grew 12% &amp; margins held…'
+        },
+        rank: { type: 'number', description: 'BM25 relevance score (lower is more relevant)', example: -4.21 }
+      },
+      required: ['type', 'id', 'threadId', 'snippet', 'rank']
+    },
+    ArtifactVersionSummary: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Version record ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0b1' },
+        version: { type: 'number', description: 'Version number', example: 2 },
+        title: { type: 'string', description: 'Artifact title at this version', example: 'Q3 Revenue Report' },
+        description: { type: 'string', nullable: true, description: 'Artifact description at this version' },
+        restoredFrom: { type: 'number', nullable: true, description: 'Source version when this version was created by a restore', example: null },
+        createdAt: { type: 'string', format: 'date-time', description: 'When this version was created', example: '2025-07-22T10:30:00Z' },
+        author: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+            email: { type: 'string', format: 'email', example: 'user@example.com' },
+            name: { type: 'string', example: 'John Doe' }
+          }
+        }
+      },
+      required: ['id', 'version', 'title', 'createdAt']
+    },
+    ArtifactVersion: {
+      allOf: [
+        { '$ref': '#/components/schemas/ArtifactVersionSummary' },
+        {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'Text content at this version' },
+            blocks: { type: 'array', items: { type: 'object' }, nullable: true, description: 'UI blocks at this version' },
+            metadata: { type: 'object', additionalProperties: true, nullable: true }
+          },
+          required: ['content']
+        }
+      ]
+    },
+    ArtifactVersionDiff: {
+      type: 'object',
+      properties: {
+        from: { type: 'number', example: 1 },
+        to: { type: 'number', example: 3 },
+        fields: {
+          type: 'object',
+          description: 'Changed scalar fields (title, description, metadata)',
+          additionalProperties: {
+            type: 'object',
+            properties: { from: {}, to: {} }
+          },
+          example: { title: { from: 'Draft', to: 'Q3 Revenue Report' } }
+        },
+        content: {
+          type: 'object',
+          properties: {
+            hunks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['equal', 'insert', 'delete'] },
+                  lines: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            },
+            insertions: { type: 'number', example: 4 },
+            deletions: { type: 'number', example: 1 }
+          }
+        },
+        blocks: {
+          type: 'object',
+          properties: {
+            added: { type: 'array', items: { type: 'object' } },
+            removed: { type: 'array', items: { type: 'object' } },
+            modified: { type: 'array', items: { type: 'object' } },
+            moved: { type: 'array', items: { type: 'object' } }
+          }
+        }
+      },
+      required: ['from', 'to', 'fields', 'content', 'blocks']
+    },
+    ThreadEvent: {
+      type: 'object',
+      description: 'Event delivered over the thread WebSocket. Fields beyond type, threadId and timestamp depend on the event type.',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [
+            'message.created', 'message.updated', 'message.deleted',
+            'reaction.added', 'reaction.removed',
+            'thread.updated',
+            'artifact.created', 'artifact.updated', 'artifact.deleted',
+            'typing', 'presence.joined', 'presence.left', 'presence.sync',
+            'pong', 'error'
+          ],
+          example: 'message.created'
+        },
+        threadId: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+        timestamp: { type: 'string', format: 'date-time', example: '2025-07-22T10:30:00Z' },
+        message: { type: 'object', description: 'Message payload (message.created, message.updated)' },
+        messageId: { type: 'string', description: 'Affected message (message.deleted, reaction.*)' },
+        emoji: { type: 'string', description: 'Reaction emoji (reaction.*)', example: '👍' },
+        userId: { type: 'string', description: 'User who reacted (reaction.*)' },
+        thread: { type: 'object', description: 'Changed thread fields and the thread ID (thread.updated)' },
+        artifact: { type: 'object', description: 'Artifact payload (artifact.created, artifact.updated)' },
+        artifactId: { type: 'string', description: 'Affected artifact (artifact.deleted)' },
+        user: { '$ref': '#/components/schemas/RealtimeUser' },
+        users: { type: 'array', items: { '$ref': '#/components/schemas/RealtimeUser' }, description: 'Connected users (presence.sync)' },
+        isTyping: { type: 'boolean', description: 'Typing state (typing)' },
+        detail: { type: 'string', description: 'Error description (error)' }
+      },
+      required: ['type', 'threadId', 'timestamp']
+    },
+    RealtimeUser: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a1' },
+        name: { type: 'string', nullable: true, example: 'John Doe' },
+        nick: { type: 'string', nullable: true, example: 'johnd' },
+        avatarUrl: { type: 'string', nullable: true, example: 'https://example.com/avatar.png' }
+      }
+    },
+    TokenQuota: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0q1' },
+        userId: { type: 'string', nullable: true, description: 'Target user, or null for a role quota' },
+        role: { type: 'string', enum: ['ADMIN', 'USER'], nullable: true, description: 'Target role, or null for a user quota' },
+        model: { type: 'string', nullable: true, description: 'Model this quota overrides, or null for all models' },
+        dailyTokens: { type: 'integer', nullable: true, description: 'Tokens per UTC day (null = unlimited)', example: 100000 },
+        monthlyTokens: { type: 'integer', nullable: true, description: 'Tokens per UTC month (null = unlimited)', example: 2000000 },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    QuotaStatus: {
+      type: 'object',
+      properties: {
+        window: { type: 'string', enum: ['daily', 'monthly'] },
+        limit: { type: 'integer', example: 100000 },
+        used: { type: 'integer', example: 42310 },
+        remaining: { type: 'integer', example: 57690 },
+        resetsAt: { type: 'string', format: 'date-time', example: '2025-07-24T00:00:00.000Z' },
+        quotaId: { type: 'string' },
+        scope: { type: 'string', enum: ['user', 'role'] },
+        model: { type: 'string', nullable: true, description: 'Set when only usage of this model counts' }
+      }
+    },
+    UsageReport: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', format: 'date-time' },
+        to: { type: 'string', format: 'date-time' },
+        totals: {
+          type: 'object',
+          properties: {
+            requests: { type: 'integer', example: 128 },
+            promptTokens: { type: 'integer', example: 51200 },
+            completionTokens: { type: 'integer', example: 20480 },
+            totalTokens: { type: 'integer', example: 71680 }
+          }
+        },
+        usage: {
+          type: 'array',
+          description: 'Usage per UTC day and model, oldest first',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date', example: '2025-07-22' },
+              model: { type: 'string', example: 'gpt-4o' },
+              requests: { type: 'integer', example: 12 },
+              promptTokens: { type: 'integer', example: 4800 },
+              completionTokens: { type: 'integer', example: 1900 },
+              totalTokens: { type: 'integer', example: 6700 }
+            }
+          }
+        },
+        quotas: { type: 'array', items: { '$ref': '#/components/schemas/QuotaStatus' } }
+      }
+    },
+    UploadSession: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Upload session ID (CUID)' },
+        filename: { type: 'string', example: 'Q3 Board Deck.pptx' },
+        mimeType: { type: 'string', nullable: true, description: 'Declared MIME type' },
+        size: { type: 'integer', description: 'Total size in bytes', example: 48234496 },
+        partSize: { type: 'integer', example: 10485760 },
+        partCount: { type: 'integer', example: 5 },
+        status: { type: 'string', enum: ['ACTIVE', 'COMPLETING', 'COMPLETED', 'ABORTED', 'EXPIRED'] },
+        uploadedBytes: { type: 'integer', example: 20971520 },
+        receivedParts: { type: 'array', items: { type: 'integer' }, example: [1, 2] },
+        missingParts: { type: 'array', items: { type: 'integer' }, example: [3, 4, 5] },
+        fileId: { type: 'string', nullable: true, description: 'File created on completion' },
+        expiresAt: { type: 'string', format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    ThreadMember: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Thread member ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0m1' },
+        email: { type: 'string', format: 'email', description: 'Invited email address (lowercased)', example: 'colleague@example.com' },
+        role: { type: 'string', enum: ['OWNER', 'EDITOR', 'COMMENTER', 'VIEWER'], description: 'OWNER: everything incl. sharing; EDITOR: edit thread, artifacts and any message; COMMENTER: post messages and reactions; VIEWER: read only', example: 'EDITOR' },
+        createdAt: { type: 'string', format: 'date-time', example: '2025-07-26T10:30:00Z' },
+        updatedAt: { type: 'string', format: 'date-time', example: '2025-07-26T10:30:00Z' },
+        user: {
+          type: 'object',
+          nullable: true,
+          description: 'The linked user; null until an invitee signs in for the first time',
+          properties: {
+            id: { type: 'string' },
+            email: { type: 'string', format: 'email' },
+            name: { type: 'string' },
+            nick: { type: 'string' },
+            avatarUrl: { type: 'string', format: 'url' }
+          }
+        },
+        inviter: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            nick: { type: 'string' }
+          }
+        }
+      },
+      required: ['id', 'email', 'role', 'createdAt', 'updatedAt']
+    },
+    ShareLink: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Share link ID (CUID)', example: 'ck9x8v7b600034l5r8jlkf0s1' },
+        token: { type: 'string', description: 'Signed share token', example: 'ck9x8v7b600034l5r8jlkf0s1.Qm9vZ3VzU2lnbmF0dXJl' },
+        url: { type: 'string', format: 'url', description: 'Public URL of the read-only view', example: 'https://dev-experience.rpotential.dev/share/ck9x8v7b600034l5r8jlkf0s1.Qm9vZ3VzU2lnbmF0dXJl' },
+        resource: { type: 'string', enum: ['thread', 'artifact'], example: 'thread' },
+        threadId: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+        artifactId: { type: 'string', nullable: true, example: null },
+        hasPassword: { type: 'boolean', example: false },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true, example: '2025-08-27T00:00:00Z' },
+        revokedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+        accessCount: { type: 'integer', example: 3 },
+        lastAccessedAt: { type: 'string', format: 'date-time', nullable: true, example: '2025-07-28T09:15:00Z' },
+        createdAt: { type: 'string', format: 'date-time', example: '2025-07-27T10:30:00Z' },
+        creator: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            nick: { type: 'string' }
+          }
+        }
+      },
+      required: ['id', 'token', 'url', 'resource', 'threadId', 'hasPassword', 'accessCount', 'createdAt']
+    },
+    ShareLinkAccess: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0s2' },
+        accessedAt: { type: 'string', format: 'date-time', example: '2025-07-28T09:15:00Z' },
+        ipAddress: { type: 'string', nullable: true, example: '203.0.113.7' },
+        userAgent: { type: 'string', nullable: true, example: 'Mozilla/5.0' },
+        country: { type: 'string', nullable: true, example: 'AR' },
+        referer: { type: 'string', nullable: true },
+        user: {
+          type: 'object',
+          nullable: true,
+          description: 'Set when the viewer was signed in',
+          properties: {
+            id: { type: 'string' },
+            email: { type: 'string', format: 'email' },
+            name: { type: 'string' },
+            nick: { type: 'string' }
+          }
+        }
+      }
+    },
+    SharedView: {
+      type: 'object',
+      description: 'Read-only view of a shared thread (resource "thread") or artifact (resource "artifact")',
+      properties: {
+        resource: { type: 'string', enum: ['thread', 'artifact'] },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true },
+        thread: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            author: { '$ref': '#/components/schemas/SharedAuthor' },
+            messages: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  role: { type: 'string', enum: ['USER', 'ASSISTANT', 'SYSTEM'] },
+                  content: { type: 'string' },
+                  blocks: { type: 'array', nullable: true, items: { type: 'object', additionalProperties: true } },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  editedAt: { type: 'string', format: 'date-time', nullable: true },
+                  author: { '$ref': '#/components/schemas/SharedAuthor' }
+                }
+              }
+            },
+            artifacts: { type: 'array', items: { '$ref': '#/components/schemas/SharedArtifact' } }
+          }
+        },
+        artifact: { '$ref': '#/components/schemas/SharedArtifact' }
+      },
+      required: ['resource']
+    },
+    SharedArtifact: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', example: 'DOCUMENT' },
+        title: { type: 'string' },
+        description: { type: 'string', nullable: true },
+        content: { type: 'string' },
+        blocks: { type: 'array', nullable: true, items: { type: 'object', additionalProperties: true } },
+        version: { type: 'integer' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        author: { '$ref': '#/components/schemas/SharedAuthor' }
+      }
+    },
+    SharedAuthor: {
+      type: 'object',
+      nullable: true,
+      description: 'Public author details (no email)',
+      properties: {
+        name: { type: 'string', nullable: true },
+        nick: { type: 'string', nullable: true },
+        avatarUrl: { type: 'string', nullable: true }
+      }
+    },
+    InteractiveActionResponse: {
+      type: 'object',
+      properties: {
+        interaction_id: { type: 'string', description: 'ID of the recorded interaction', example: 'ck9x8v7b600034l5r8jlkf0b1' },
+        action_handled: { type: 'boolean', example: true },
+        response_type: { type: 'string', enum: ['redirect', 'update', 'ephemeral'] },
+        redirect_url: { type: 'string', format: 'uri' },
+        ephemeral_message: {
+          type: 'object',
+          description: 'Shown to the acting user only, never stored',
+          properties: {
+            text: { type: 'string' },
+            blocks: { type: 'array', items: { type: 'object', additionalProperties: true } }
+          }
+        },
+        updated_message: { '$ref': '#/components/schemas/Message' },
+        follow_up_message: { '$ref': '#/components/schemas/Message' }
+      }
+    },
+    FormSubmission: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0f1' },
+        messageId: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+        values: {
+          type: 'object',
+          additionalProperties: true,
+          description: 'Validated values; empty optional inputs are left out',
+          example: { reason: 'Family trip', kind: 'vacation', start_date: '2025-08-04' }
+        },
+        createdAt: { type: 'string', format: 'date-time', example: '2025-07-29T10:00:00Z' },
+        user: { '$ref': '#/components/schemas/User' }
+      }
+    },
+    ExportAuthor: {
+      type: 'object',
+      nullable: true,
+      description: 'Author of a thread, message or artifact; null for assistant and system messages',
+      properties: {
+        name: { type: 'string', nullable: true, example: 'Ana Lima' },
+        nick: { type: 'string', nullable: true, example: 'ana' },
+        email: { type: 'string', format: 'email', example: 'ana@example.com' }
+      }
+    },
+    ExportArtifact: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a5' },
+        type: { type: 'string', enum: ['INSIGHT', 'REPORT', 'DASHBOARD', 'PDF', 'REFERENCE'] },
+        title: { type: 'string', example: 'Q3 Report' },
+        description: { type: 'string', nullable: true },
+        content: { type: 'string' },
+        blocks: { type: 'array', nullable: true, items: { type: 'object' } },
+        version: { type: 'integer', example: 2 },
+        metadata: { type: 'object', nullable: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        author: { '$ref': '#/components/schemas/ExportAuthor' }
+      }
+    },
+    ThreadExport: {
+      type: 'object',
+      description: 'Versioned thread export document. Fields are only added within a version.',
+      properties: {
+        schema: { type: 'string', enum: ['thread-export'] },
+        version: { type: 'integer', example: 1 },
+        exportedAt: { type: 'string', format: 'date-time', example: '2025-07-30T12:00:00Z' },
+        thread: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+            title: { type: 'string', nullable: true, example: 'Launch plan' },
+            status: { type: 'string', enum: ['ACTIVE', 'ARCHIVED'] },
+            metadata: { type: 'object', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            author: { '$ref': '#/components/schemas/ExportAuthor' }
+          }
+        },
+        messages: {
+          type: 'array',
+          description: 'Messages, oldest first (at most 5000)',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a3' },
+              role: { type: 'string', enum: ['USER', 'ASSISTANT', 'SYSTEM'] },
+              author: { '$ref': '#/components/schemas/ExportAuthor' },
+              content: { type: 'string' },
+              blocks: { type: 'array', nullable: true, items: { type: 'object' } },
+              metadata: { type: 'object', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              editedAt: { type: 'string', format: 'date-time', nullable: true },
+              reactions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    emoji: { type: 'string', example: '👍' },
+                    count: { type: 'integer', example: 2 },
+                    users: { type: 'array', items: { type: 'string' }, example: ['Ana Lima', 'ben'] }
+                  }
+                }
+              },
+              attachments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a6' },
+                    name: { type: 'string', example: 'plan.pdf' },
+                    mimeType: { type: 'string', example: 'application/pdf' },
+                    size: { type: 'integer', example: 2048 },
+                    checksum: { type: 'string', example: 'sha256:9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' }
+                  }
+                }
+              }
+            }
+          }
+        },
+        artifacts: { type: 'array', items: { '$ref': '#/components/schemas/ExportArtifact' } }
+      }
+    },
+    ArtifactExport: {
+      type: 'object',
+      description: 'Versioned artifact export document',
+      properties: {
+        schema: { type: 'string', enum: ['artifact-export'] },
+        version: { type: 'integer', example: 1 },
+        exportedAt: { type: 'string', format: 'date-time', example: '2025-07-30T12:00:00Z' },
+        thread: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0a2' },
+            title: { type: 'string', nullable: true, example: 'Launch plan' }
+          }
+        },
+        artifact: { '$ref': '#/components/schemas/ExportArtifact' }
+      }
+    },
+    ThreadImport: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0i1' },
+        source: { type: 'string', enum: ['THREAD_EXPORT', 'CHATGPT'] },
+        status: { type: 'string', enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED'] },
+        totalThreads: { type: 'integer', example: 120 },
+        importedThreads: { type: 'integer', example: 45 },
+        totalMessages: { type: 'integer', example: 3400 },
+        importedMessages: { type: 'integer', example: 1290 },
+        threadIds: { type: 'array', items: { type: 'string' }, description: 'Threads created so far, in import order' },
+        error: { type: 'string', nullable: true, example: 'Failed to import thread 46 of 120' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        completedAt: { type: 'string', format: 'date-time', nullable: true }
+      }
+    },
+    Job: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'ck9x8v7b600034l5r8jlkf0j1' },
+        type: { type: 'string', enum: ['message.auto_completion', 'thread.import', 'thread.title', 'thread.summary', 'thread.insight'] },
+        status: { type: 'string', enum: ['PENDING', 'RUNNING', 'RETRYING', 'SUCCEEDED', 'DEAD'] },
+        attempts: { type: 'integer', example: 1 },
+        maxAttempts: { type: 'integer', example: 5 },
+        result: {
+          type: 'object',
+          nullable: true,
+          additionalProperties: true,
+          description: 'Set once the job succeeded, e.g. `assistantMessageId` for auto-completions',
+          example: { assistantMessageId: 'ck9x8v7b600034l5r8jlkf0a3' }
+        },
+        error: { type: 'string', nullable: true, description: 'Error of the last failed attempt' },
+        runAt: { type: 'string', format: 'date-time', description: 'When the next attempt is due' },
+        startedAt: { type: 'string', format: 'date-time', nullable: true },
+        completedAt: { type: 'string', format: 'date-time', nullable: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    ChatCompletion: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'A unique identifier for the chat completion'
+        },
+        object: {
+          type: 'string',
+          enum: ['chat.completion'],
+          description: 'The object type, which is always "chat.completion"'
+        },
+        created: {
+          type: 'integer',
+          description: 'The Unix timestamp (in seconds) of when the chat completion was created'
+        },
+        model: {
+          type: 'string',
+          description: 'The model used for the chat completion'
+        },
+        choices: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: {
+                type: 'integer',
+                description: 'The index of the choice in the list of choices'
+              },
+              message: {
+                type: 'object',
+                properties: {
+                  role: {
+                    type: 'string',
+                    enum: ['assistant'],
+                    description: 'The role of the author of this message'
+                  },
+                  content: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'The contents of the message; null when the model only called tools'
+                  },
+                  tool_calls: {
+                    type: 'array',
+                    items: { '$ref': '#/components/schemas/ToolCall' },
+                    description: 'The functions the model called, with finish_reason "tool_calls"'
+                  }
+                },
+                required: ['role', 'content']
+              },
+              finish_reason: {
+                type: 'string',
+                enum: ['stop', 'length', 'content_filter', 'tool_calls'],
+                nullable: true,
+                description: 'The reason the model stopped generating tokens'
+              }
+            },
+            required: ['index', 'message', 'finish_reason']
+          }
+        },
+        usage: {
+          type: 'object',
+          properties: {
+            prompt_tokens: {
+              type: 'integer',
+              description: 'Number of tokens in the prompt'
+            },
+            completion_tokens: {
+              type: 'integer',
+              description: 'Number of tokens in the generated completion'
+            },
+            total_tokens: {
+              type: 'integer',
+              description: 'Total number of tokens used in the request'
+            }
+          },
+          required: ['prompt_tokens', 'completion_tokens', 'total_tokens']
+        },
+        system_fingerprint: {
+          type: 'string',
+          description: 'This fingerprint represents the backend configuration'
+        }
+      },
+      required: ['id', 'object', 'created', 'model', 'choices']
+    },
+    ToolCall: {
+      type: 'object',
+      description: 'A function call made by the model',
+      properties: {
+        id: { type: 'string', example: 'call_abc123', description: 'Sent back as tool_call_id with the result' },
+        type: { type: 'string', enum: ['function'] },
+        function: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'get_weather' },
+            arguments: { type: 'string', example: '{"location":"Lisbon"}', description: 'JSON text generated by the model; validate it before use' }
+          },
+          required: ['name', 'arguments']
+        }
+      },
+      required: ['id', 'type', 'function']
+    },
+    ToolCallDelta: {
+      type: 'object',
+      description: 'A piece of a streamed tool call. The first piece of each call has its id and name.',
+      properties: {
+        index: { type: 'integer', description: 'Which of the tool calls this piece belongs to' },
+        id: { type: 'string' },
+        type: { type: 'string', enum: ['function'] },
+        function: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            arguments: { type: 'string' }
+          }
+        }
+      },
+      required: ['index']
+    },
+    ChatCompletionChunk: {
+      type: 'object',
+      description: 'One `data:` event of a streamed chat completion',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'A unique identifier for the chat completion; the same for every chunk'
+        },
+        object: {
+          type: 'string',
+          enum: ['chat.completion.chunk'],
+          description: 'The object type, which is always "chat.completion.chunk"'
+        },
+        created: {
+          type: 'integer',
+          description: 'The Unix timestamp (in seconds) of when the chat completion was created'
+        },
+        model: {
+          type: 'string',
+          description: 'The model used for the chat completion'
+        },
+        choices: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: {
+                type: 'integer',
+                description: 'The index of the choice in the list of choices'
+              },
+              delta: {
+                type: 'object',
+                properties: {
+                  role: {
+                    type: 'string',
+                    enum: ['assistant'],
+                    description: 'The role of the author, sent with the first chunk'
+                  },
+                  content: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'The next piece of the message'
+                  },
+                  tool_calls: {
+                    type: 'array',
+                    items: { '$ref': '#/components/schemas/ToolCallDelta' },
+                    description: 'Pieces of tool calls; concatenate the arguments of each index'
+                  }
+                }
+              },
+              finish_reason: {
+                type: 'string',
+                enum: ['stop', 'length', 'content_filter', 'tool_calls'],
+                nullable: true,
+                description: 'The reason the model stopped generating tokens, set on the last chunk'
+              }
+            },
+            required: ['index', 'delta', 'finish_reason']
+          }
+        },
+        usage: {
+          type: 'object',
+          description: 'Token usage, on the final chunk when the provider reports it',
+          properties: {
+            prompt_tokens: { type: 'integer' },
+            completion_tokens: { type: 'integer' },
+            total_tokens: { type: 'integer' }
+          },
+          required: ['prompt_tokens', 'completion_tokens', 'total_tokens']
+        },
+        system_fingerprint: {
+          type: 'string',
+          description: 'This fingerprint represents the backend configuration'
+        }
+      },
+      required: ['id', 'object', 'created', 'model', 'choices']
+    },
+    ModelList: {
+      type: 'object',
+      properties: {
+        object: {
+          type: 'string',
+          enum: ['list'],
+          description: 'The object type, which is always "list"'
+        },
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'The model identifier'
+              },
+              object: {
+                type: 'string',
+                enum: ['model'],
+                description: 'The object type, which is always "model"'
+              },
+              created: {
+                type: 'integer',
+                description: 'The Unix timestamp (in seconds) when the model was created'
+              },
+              owned_by: {
+                type: 'string',
+                description: 'The organization that owns the model'
+              },
+              context_length: {
+                type: 'integer',
+                description: 'Maximum context length in tokens'
+              },
+              pricing: {
+                type: 'object',
+                properties: {
+                  input: {
+                    type: 'number',
+                    description: 'Input token price per 1K tokens'
+                  },
+                  output: {
+                    type: 'number',
+                    description: 'Output token price per 1K tokens'
+                  }
+                }
+              }
+            },
+            required: ['id', 'object', 'created', 'owned_by']
+          }
+        }
+      },
+      required: ['object', 'data']
+    },
+    ResponseMetadata: {
+      type: 'object',
+      properties: {
+        timestamp: { type: 'string', format: 'date-time', description: 'Response timestamp', example: '2025-07-14T12:00:00Z' },
+        correlation_id: { type: 'string', format: 'uuid', description: 'Request correlation ID', example: '123e4567-e89b-12d3-a456-426614174000' },
+        version: { type: 'string', description: 'API version', example: '1.0' }
+      }
+    },
+    Problem: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Problem type URI', example: 'https://experience.rpotential.dev/problems/validation-error' },
+        title: { type: 'string', description: 'Error title', example: 'Validation Error' },
+        status: { type: 'number', description: 'HTTP status code', example: 400 },
+        detail: { type: 'string', description: 'Error detail message', example: 'The request contains invalid parameters' },
+        instance: { type: 'string', description: 'Error instance path', example: '/api/v1/users' },
+        errors: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+          description: 'Validation messages by field'
+        },
+        timestamp: { type: 'string', format: 'date-time', description: 'Error timestamp', example: '2025-07-14T12:00:00Z' },
+        trace_id: { type: 'string', format: 'uuid', description: 'Error trace ID, also sent as X-Correlation-ID', example: '123e4567-e89b-12d3-a456-426614174000' }
+      },
+      required: ['type', 'title', 'status', 'detail', 'timestamp']
+    },
+    Error: {
+      type: 'object',
+      description: 'The envelope of createErrorResponse',
+      properties: {
+        success: { type: 'boolean', enum: [false] },
+        error: { '$ref': '#/components/schemas/Problem' }
+      },
+      required: ['success', 'error']
+    }
+  },
+  responses: {
+    BadRequest: {
+      description: 'Bad request - Invalid input parameters',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    Unauthorized: {
+      description: 'Unauthorized - Invalid or missing authentication',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    Forbidden: {
+      description: 'Forbidden - The user may not perform this action',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    NotFound: {
+      description: 'Resource not found',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    Conflict: {
+      description: 'Conflict - Resource already exists or constraint violation',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    PayloadTooLarge: {
+      description: 'Payload too large - The request body exceeds the size limit',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    RateLimitExceeded: {
+      description: 'Rate limit exceeded - Too many requests',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    InternalServerError: {
+      description: 'Internal server error',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    BadGateway: {
+      description: 'Bad gateway - Error from AI provider',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    },
+    ServiceUnavailable: {
+      description: 'Service unavailable - A required binding is not configured',
+      content: {
+        'application/problem+json': {
+          schema: { '$ref': '#/components/schemas/Error' }
+        }
+      }
+    }
+  },
+  securitySchemes: {
+    bearerAuth: {
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+      description: 'Enter your JWT token in the format: Bearer {token}'
+    }
+  }
+};
@@ -0,0 +1,106 @@
+// Interactive block action API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  getCorrelationId
+} from '../utils/response';
+import { interactiveActionSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { ActionService, ActionError } from '../services/action-service';
+import type { ThreadRoom } from '../durable-objects/thread-room';
+
+export interface Env {
+  DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
+  OPENAI_API_KEY?: string;
+  DEFAULT_AI_MODEL?: string;
+  AUTO_COMPLETION_ENABLED?: string;
+  ACTION_WEBHOOKS?: string;
+  ACTION_WEBHOOK_SECRET?: string;
+}
+
+const actionRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// POST /actions - Handle a button, select or picker interaction in a message's blocks
+actionRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/actions',
+    tags: ['Messages'],
+    summary: 'Handle Block Action',
+    description: 'Report an interaction with a button, select, date picker or navigation item in a message\'s blocks. The action_id (and block_id, when given) must exist in the message. The interaction is recorded and dispatched to a built-in handler, a webhook configured in ACTION_WEBHOOKS, or - for assistant messages - the AI provider. The handler may replace the message\'s blocks, post a follow-up message, return an ephemeral message or a redirect. Requires commenter access to the thread; actions that change the blocks of another user\'s or an assistant message require editor access.',
+    request: { body: jsonBody(interactiveActionSchema) },
+    responses: {
+      200: successResponse('Action recorded; action_handled is false when no handler matched', schemaRef('InteractiveActionResponse')),
+      403: problemResponse('user_id is not the authenticated user, the user can only view the thread, or the action would change a message the user may not edit'),
+      ...errorResponses(400, 401, 404, 429, 500, 502)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const action = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to interact with messages'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (action.user_id !== authenticatedUser.id) {
+        return createErrorResponse({
+          status: 403,
+          title: 'Forbidden',
+          detail: 'Actions can only be performed as the authenticated user'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Interacting can change the message or post to the thread, so viewers can't
+      const access = await ThreadAccessService.check(prisma, action.thread_id, authenticatedUser, 'comment');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const result = await ActionService.dispatch(prisma, c.env, authenticatedUser, access.role, action);
+
+      return createSuccessResponse(result, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      if (error instanceof ActionError) {
+        if (error.status === 429) {
+          return createRateLimitResponse(getCorrelationId(c.req.raw), error.retryAfter);
+        }
+
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error handling action:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to handle action'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { actionRoutes };
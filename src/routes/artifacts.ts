@@ -1,6 +1,6 @@
 // Artifact API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -15,11 +15,18 @@ import {
   artifactQuerySchema,
   cuidSchema 
 } from '../utils/validation';
-import type { CreateArtifactInput, UpdateArtifactInput, ArtifactQuery } from '../utils/validation';
-import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, errorResponses, jsonBody, paginatedResponse, schemaRef, successResponse } from '../utils/openapi';
+import { ArtifactVersionError, ArtifactVersionService, ARTIFACT_VERSION_SELECT } from '../services/artifact-version-service';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { accessibleThreadsWhere } from '../utils/thread-permissions';
+import { diffVersions } from '../utils/diff';
+import { publishThreadEvent } from '../services/realtime-service';
+import type { ThreadRoom } from '../durable-objects/thread-room';
 
 export interface Env {
   DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
 }
 
 // Parameter validation schemas
@@ -28,31 +35,44 @@ const artifactParamsSchema = z.object({
 });
 
 const threadArtifactParamsSchema = z.object({
-  threadId: cuidSchema,
-  id: cuidSchema.optional()
+  threadId: cuidSchema
 });
 
-type ArtifactParams = z.infer<typeof artifactParamsSchema>;
-type ThreadArtifactParams = z.infer<typeof threadArtifactParamsSchema>;
+const artifactVersionParamsSchema = z.object({
+  id: cuidSchema,
+  version: z.coerce.number().int().min(1)
+});
+
+const artifactDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional()
+});
 
-const artifactRoutes = new Hono<{ 
+const artifactRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: CreateArtifactInput | UpdateArtifactInput,
-    validatedQuery: ArtifactQuery,
-    validatedParams: ArtifactParams | ThreadArtifactParams,
     authenticatedUser?: import('../middleware/auth').AuthenticatedUser
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /artifacts - List all artifacts with pagination and filtering
-artifactRoutes.get(
-  '/artifacts',
-  validateQuery(artifactQuerySchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts',
+    tags: ['Artifacts'],
+    summary: 'List Artifacts',
+    description: 'Get a paginated list of artifacts with optional filtering',
+    request: { query: artifactQuerySchema },
+    responses: {
+      200: paginatedResponse('List of artifacts', schemaRef('Artifact')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const query = c.get('validatedQuery') as ArtifactQuery;
+      const query = c.req.valid('query');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -63,9 +83,9 @@ artifactRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
       
-      // Build where clause for filtering - only show artifacts owned by the authenticated user
+      // Build where clause for filtering - only show artifacts in threads the user can access
       const where: any = {
-        userId: authenticatedUser.id
+        thread: accessibleThreadsWhere(authenticatedUser)
       };
       if (query.type) {
         where.type = query.type;
@@ -145,15 +165,24 @@ artifactRoutes.get(
 );
 
 // GET /threads/:threadId/artifacts - List artifacts in a thread
-artifactRoutes.get(
-  '/threads/:threadId/artifacts',
-  validateParams(threadArtifactParamsSchema),
-  validateQuery(artifactQuerySchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/artifacts',
+    tags: ['Artifacts'],
+    summary: 'List Artifacts in Thread',
+    description: 'Get a list of artifacts in a specific thread',
+    request: { params: threadArtifactParamsSchema, query: artifactQuerySchema },
+    responses: {
+      200: successResponse('List of artifacts in thread', arrayOf(schemaRef('Artifact'))),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { threadId } = c.get('validatedParams') as ThreadArtifactParams;
-      const query = c.get('validatedQuery') as ArtifactQuery;
+      const { threadId } = c.req.valid('param');
+      const query = c.req.valid('query');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -164,26 +193,14 @@ artifactRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
       
-      // Check if thread exists and belongs to the authenticated user
-      const thread = await prisma.thread.findUnique({
-        where: { 
-          id: threadId,
-          userId: authenticatedUser.id // Ensure user owns the thread
-        }
-      });
-
-      if (!thread) {
-        return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${threadId} was not found or you don't have access to it`
-        }, getCorrelationId(c.req.raw));
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
       }
 
-      // Build where clause for filtering - only artifacts in this thread and owned by the user
+      // Build where clause for filtering - every artifact in the thread, whoever created it
       const where: any = {
-        threadId: threadId,
-        userId: authenticatedUser.id // Ensure user owns the artifacts
+        threadId: threadId
       };
       if (query.type) {
         where.type = query.type;
@@ -238,13 +255,23 @@ artifactRoutes.get(
 );
 
 // GET /artifacts/:id - Get artifact by ID
-artifactRoutes.get(
-  '/artifacts/:id',
-  validateParams(artifactParamsSchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts/{id}',
+    tags: ['Artifacts'],
+    summary: 'Get Artifact by ID',
+    description: 'Retrieve a specific artifact by its ID',
+    request: { params: artifactParamsSchema },
+    responses: {
+      200: successResponse('Artifact details', schemaRef('ArtifactDetailed')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ArtifactParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -256,10 +283,7 @@ artifactRoutes.get(
       }
 
       const artifact = await prisma.artifact.findUnique({
-        where: { 
-          id,
-          userId: authenticatedUser.id // Ensure user owns the artifact
-        },
+        where: { id },
         select: {
           id: true,
           type: true,
@@ -298,6 +322,11 @@ artifactRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, artifact.thread.id, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       return createSuccessResponse(artifact, {
         correlation_id: getCorrelationId(c.req.raw)
       });
@@ -313,15 +342,27 @@ artifactRoutes.get(
 );
 
 // POST /threads/:threadId/artifacts - Create new artifact in thread
-artifactRoutes.post(
-  '/threads/:threadId/artifacts',
-  validateParams(threadArtifactParamsSchema),
-  validateBody(createArtifactSchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/{threadId}/artifacts',
+    tags: ['Artifacts'],
+    summary: 'Create Artifact in Thread',
+    description: 'Create a new artifact in a specific thread',
+    request: {
+      params: threadArtifactParamsSchema,
+      body: jsonBody(createArtifactSchema)
+    },
+    responses: {
+      200: successResponse('Artifact created successfully', schemaRef('Artifact')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { threadId } = c.get('validatedParams') as ThreadArtifactParams;
-      const artifactData = c.get('validatedBody') as CreateArtifactInput;
+      const { threadId } = c.req.valid('param');
+      const artifactData = c.req.valid('json');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -332,20 +373,9 @@ artifactRoutes.post(
         }, getCorrelationId(c.req.raw));
       }
 
-      // Check if thread exists and belongs to the authenticated user
-      const thread = await prisma.thread.findUnique({
-        where: { 
-          id: threadId,
-          userId: authenticatedUser.id // Ensure user owns the thread
-        }
-      });
-
-      if (!thread) {
-        return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${threadId} was not found or you don't have access to it`
-        }, getCorrelationId(c.req.raw));
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
       }
 
       const artifact = await prisma.artifact.create({
@@ -380,6 +410,15 @@ artifactRoutes.post(
         }
       });
 
+      // Record the initial version in the artifact's history
+      await ArtifactVersionService.snapshot(prisma, {
+        ...artifact,
+        content: artifactData.content,
+        blocks: artifactData.blocks
+      }, authenticatedUser.id);
+
+      await publishThreadEvent(c.env, threadId, { type: 'artifact.created', artifact });
+
       return createSuccessResponse(artifact, {
         correlation_id: getCorrelationId(c.req.raw)
       });
@@ -395,15 +434,24 @@ artifactRoutes.post(
 );
 
 // PUT /artifacts/:id - Update artifact
-artifactRoutes.put(
-  '/artifacts/:id',
-  validateParams(artifactParamsSchema),
-  validateBody(updateArtifactSchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/artifacts/{id}',
+    tags: ['Artifacts'],
+    summary: 'Update Artifact',
+    description: 'Update an existing artifact',
+    request: { params: artifactParamsSchema, body: jsonBody(updateArtifactSchema) },
+    responses: {
+      200: successResponse('Artifact updated successfully', schemaRef('Artifact')),
+      ...errorResponses(400, 401, 403, 404, 409, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ArtifactParams;
-      const updateData = c.get('validatedBody') as UpdateArtifactInput;
+      const { id } = c.req.valid('param');
+      const updateData = c.req.valid('json');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -414,12 +462,9 @@ artifactRoutes.put(
         }, getCorrelationId(c.req.raw));
       }
 
-      // Check if artifact exists and belongs to the authenticated user
+      // Check if artifact exists
       const existingArtifact = await prisma.artifact.findUnique({
-        where: { 
-          id,
-          userId: authenticatedUser.id // Ensure user owns the artifact
-        }
+        where: { id }
       });
 
       if (!existingArtifact) {
@@ -430,12 +475,13 @@ artifactRoutes.put(
         }, getCorrelationId(c.req.raw));
       }
 
-      const artifact = await prisma.artifact.update({
-        where: { id },
-        data: {
-          ...updateData,
-          version: existingArtifact.version + 1 // Increment version
-        },
+      const access = await ThreadAccessService.check(prisma, existingArtifact.threadId, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Bumps the version and keeps a snapshot of it so earlier versions stay retrievable
+      const artifact = await ArtifactVersionService.writeVersion(prisma, existingArtifact, updateData, authenticatedUser.id, {
         select: {
           id: true,
           type: true,
@@ -459,10 +505,20 @@ artifactRoutes.put(
         }
       });
 
+      await publishThreadEvent(c.env, existingArtifact.threadId, { type: 'artifact.updated', artifact });
+
       return createSuccessResponse(artifact, {
         correlation_id: getCorrelationId(c.req.raw)
       });
     } catch (error) {
+      if (error instanceof ArtifactVersionError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
       console.error('Error updating artifact:', error);
       return createErrorResponse({
         status: 500,
@@ -473,14 +529,344 @@ artifactRoutes.put(
   }
 );
 
+// GET /artifacts/:id/versions - List the version history of an artifact
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts/{id}/versions',
+    tags: ['Artifacts'],
+    summary: 'List Artifact Versions',
+    description: 'List the version history of an artifact, newest first. Content and blocks are omitted; fetch a single version to get them.',
+    request: { params: artifactParamsSchema },
+    responses: {
+      200: successResponse('Artifact version history', {
+        type: 'object',
+        properties: {
+          artifactId: { type: 'string' },
+          currentVersion: { type: 'number' },
+          versions: arrayOf(schemaRef('ArtifactVersionSummary'))
+        }
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const artifact = await prisma.artifact.findUnique({
+        where: { id },
+        select: { id: true, threadId: true, version: true }
+      });
+
+      if (!artifact) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, artifact.threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Content and blocks are omitted from the list; fetch a single version for them
+      const versions = await prisma.artifactVersion.findMany({
+        where: { artifactId: id },
+        select: {
+          id: true,
+          version: true,
+          title: true,
+          description: true,
+          restoredFrom: true,
+          createdAt: true,
+          author: ARTIFACT_VERSION_SELECT.author
+        },
+        orderBy: { version: 'desc' }
+      });
+
+      return createSuccessResponse({
+        artifactId: id,
+        currentVersion: artifact.version,
+        versions
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching artifact versions:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch artifact versions'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /artifacts/:id/versions/:version - Get a specific artifact version
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts/{id}/versions/{version}',
+    tags: ['Artifacts'],
+    summary: 'Get Artifact Version',
+    description: 'Retrieve the full snapshot of a specific artifact version',
+    request: { params: artifactVersionParamsSchema },
+    responses: {
+      200: successResponse('Artifact version snapshot', schemaRef('ArtifactVersion')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id, version } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const artifact = await prisma.artifact.findUnique({
+        where: { id },
+        select: { id: true, threadId: true }
+      });
+
+      if (!artifact) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, artifact.threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const artifactVersion = await ArtifactVersionService.getVersion(prisma, id, version);
+
+      if (!artifactVersion) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Version Not Found',
+          detail: `Version ${version} of artifact ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      return createSuccessResponse(artifactVersion, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching artifact version:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch artifact version'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /artifacts/:id/diff?from=&to= - Structural diff between two versions (to defaults to current)
+artifactRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts/{id}/diff',
+    tags: ['Artifacts'],
+    summary: 'Diff Artifact Versions',
+    description: 'Structural diff between two versions: changed fields, a line diff of content and a block-level diff of blocks (matched by block_id)',
+    request: { params: artifactParamsSchema, query: artifactDiffQuerySchema },
+    responses: {
+      200: successResponse('Version diff', schemaRef('ArtifactVersionDiff')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const artifact = await prisma.artifact.findUnique({
+        where: { id },
+        select: { id: true, threadId: true, version: true }
+      });
+
+      if (!artifact) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, artifact.threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const toVersion = query.to ?? artifact.version;
+      const [from, to] = await Promise.all([
+        ArtifactVersionService.getVersion(prisma, id, query.from),
+        ArtifactVersionService.getVersion(prisma, id, toVersion)
+      ]);
+
+      if (!from || !to) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Version Not Found',
+          detail: `Version ${!from ? query.from : toVersion} of artifact ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      return createSuccessResponse(diffVersions(from, to), {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error diffing artifact versions:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to diff artifact versions'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// POST /artifacts/:id/versions/:version/restore - Restore an earlier version as a new version
+artifactRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/artifacts/{id}/versions/{version}/restore',
+    tags: ['Artifacts'],
+    summary: 'Restore Artifact Version',
+    description: 'Restore an earlier version. The restored content is written as a new version; history is never rewritten.',
+    request: { params: artifactVersionParamsSchema },
+    responses: {
+      200: successResponse('Artifact restored as a new version', {
+        allOf: [schemaRef('Artifact'), { type: 'object', properties: { restoredFrom: { type: 'number' } } }]
+      }),
+      ...errorResponses(400, 401, 403, 404, 409, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id, version } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to update artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const existingArtifact = await prisma.artifact.findUnique({
+        where: { id }
+      });
+
+      if (!existingArtifact) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, existingArtifact.threadId, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const source = await ArtifactVersionService.getVersion(prisma, id, version);
+
+      if (!source) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Version Not Found',
+          detail: `Version ${version} of artifact ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const artifact = await ArtifactVersionService.restore(prisma, existingArtifact, source, authenticatedUser.id);
+
+      await publishThreadEvent(c.env, existingArtifact.threadId, { type: 'artifact.updated', artifact });
+
+      return createSuccessResponse({
+        ...artifact,
+        restoredFrom: version
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      if (error instanceof ArtifactVersionError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error restoring artifact version:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to restore artifact version'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
 // DELETE /artifacts/:id - Delete artifact
-artifactRoutes.delete(
-  '/artifacts/:id',
-  validateParams(artifactParamsSchema),
+artifactRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/artifacts/{id}',
+    tags: ['Artifacts'],
+    summary: 'Delete Artifact',
+    description: 'Delete an artifact',
+    request: { params: artifactParamsSchema },
+    responses: {
+      200: successResponse('Artifact deleted successfully', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ArtifactParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -491,12 +877,9 @@ artifactRoutes.delete(
         }, getCorrelationId(c.req.raw));
       }
 
-      // Check if artifact exists and belongs to the authenticated user
+      // Check if artifact exists
       const existingArtifact = await prisma.artifact.findUnique({
-        where: { 
-          id,
-          userId: authenticatedUser.id // Ensure user owns the artifact
-        }
+        where: { id }
       });
 
       if (!existingArtifact) {
@@ -507,10 +890,17 @@ artifactRoutes.delete(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, existingArtifact.threadId, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       await prisma.artifact.delete({
         where: { id }
       });
 
+      await publishThreadEvent(c.env, existingArtifact.threadId, { type: 'artifact.deleted', artifactId: id });
+
       return createSuccessResponse({
         deleted: true,
         id
@@ -1,6 +1,6 @@
 // Authentication API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -8,7 +8,8 @@ import {
   createErrorResponse, 
   getCorrelationId 
 } from '../utils/response';
-import { validateBody } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, errorResponses, jsonBody, schemaRef, successResponse } from '../utils/openapi';
 import { authenticateUser, getCurrentUser } from '../middleware/auth';
 import type { AuthenticatedUser, JWTPayload } from '../middleware/auth';
 
@@ -28,26 +29,40 @@ const logoutSchema = z.object({
   token: z.string().optional() // Optional, will use current session if not provided
 });
 
-type LoginInput = z.infer<typeof loginSchema>;
-type LogoutInput = z.infer<typeof logoutSchema>;
-
-const authRoutes = new Hono<{ 
+const authRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: LoginInput | LogoutInput,
     authenticatedUser?: AuthenticatedUser,
     jwtPayload?: JWTPayload
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // POST /auth/login - Create or update user session
-authRoutes.post(
-  '/auth/login',
-  validateBody(loginSchema),
+authRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/auth/login',
+    tags: ['Auth'],
+    summary: 'Log In',
+    description: 'Create or update the user with the given email and start a 30 day session. The returned token is sent as a Bearer token on later requests.',
+    security: [],
+    request: { body: jsonBody(loginSchema) },
+    responses: {
+      200: successResponse('Session created', {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          expiresAt: { type: 'string', format: 'date-time' },
+          user: schemaRef('User')
+        }
+      }),
+      ...errorResponses(400, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const loginData = c.get('validatedBody') as LoginInput;
+      const loginData = c.req.valid('json');
 
       // Find or create user
       let user = await prisma.user.findUnique({
@@ -116,15 +131,28 @@ authRoutes.post(
 );
 
 // POST /auth/logout - Invalidate current session
-authRoutes.post(
-  '/auth/logout',
-  authenticateUser,
-  validateBody(logoutSchema),
+authRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/auth/logout',
+    tags: ['Auth'],
+    summary: 'Log Out',
+    description: 'Invalidate the given session token, or the current session when no token is sent.',
+    middleware: [authenticateUser],
+    request: { body: jsonBody(logoutSchema) },
+    responses: {
+      200: successResponse('Session invalidated', {
+        type: 'object',
+        properties: { message: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
       const user = getCurrentUser(c);
-      const logoutData = c.get('validatedBody') as LogoutInput;
+      const logoutData = c.req.valid('json');
 
       if (!user) {
         return createErrorResponse({
@@ -168,9 +196,18 @@ authRoutes.post(
 );
 
 // GET /auth/me - Get current user information
-authRoutes.get(
-  '/auth/me',
-  authenticateUser,
+authRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/auth/me',
+    tags: ['Auth'],
+    summary: 'Get Authenticated User',
+    middleware: [authenticateUser],
+    responses: {
+      200: successResponse('Current user information', schemaRef('User')),
+      ...errorResponses(401, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -203,9 +240,33 @@ authRoutes.get(
 );
 
 // GET /auth/sessions - List user's active sessions (admin only)
-authRoutes.get(
-  '/auth/sessions',
-  authenticateUser,
+authRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/auth/sessions',
+    tags: ['Auth'],
+    summary: 'List Sessions',
+    description: 'List active sessions. Admins see every session with its user; other users see their own. Tokens are truncated.',
+    middleware: [authenticateUser],
+    responses: {
+      200: successResponse('Active sessions', {
+        type: 'object',
+        properties: {
+          sessions: arrayOf({
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              token: { type: 'string', description: 'First 8 characters of the token' },
+              expiresAt: { type: 'string', format: 'date-time' },
+              createdAt: { type: 'string', format: 'date-time' },
+              user: schemaRef('User')
+            }
+          })
+        }
+      }),
+      ...errorResponses(401, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -266,9 +327,33 @@ authRoutes.get(
 );
 
 // GET /auth/verify - Verify JWT token (useful for frontend to check auth status)
-authRoutes.get(
-  '/auth/verify',
-  authenticateUser,
+authRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/auth/verify',
+    tags: ['Auth'],
+    summary: 'Verify Token',
+    description: 'Check that the Bearer token is valid and return its user and claims.',
+    middleware: [authenticateUser],
+    responses: {
+      200: successResponse('Token is valid', {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          user: schemaRef('User'),
+          token: {
+            type: 'object',
+            properties: {
+              exp: { type: 'number' },
+              iat: { type: 'number' },
+              domain: { type: 'string' }
+            }
+          }
+        }
+      }),
+      ...errorResponses(401, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const user = getCurrentUser(c);
@@ -1,146 +1,205 @@
-import { Context } from 'hono';
-import { z } from 'zod';
-import { CompletionService } from '../services/completion-service';
-import { createAIProvider } from '../services/ai-provider';
+// Chat completion API routes (OpenAI-compatible)
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { CompletionService, CompletionError } from '../services/completion-service';
+import { ProviderError } from '../services/ai-provider';
 import { chatCompletionRequestSchema } from '../utils/validation';
-import { createSuccessResponse, createErrorResponse } from '../utils/response';
+import { createSuccessResponse, createErrorResponse, createRateLimitResponse, getCorrelationId } from '../utils/response';
+import { QuotaService } from '../services/quota-service';
 import { getCurrentUser } from '../middleware/auth';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, jsonResponse, schemaRef, successResponse } from '../utils/openapi';
 
-export async function createChatCompletion(c: Context) {
-  try {
-    // Get authenticated user
-    const user = getCurrentUser(c);
-    if (!user) {
-      return createErrorResponse({
-        type: 'authentication_error',
-        title: 'Unauthorized',
-        detail: 'Authentication required',
-        status: 401
-      });
-    }
+const completionRoutes = new OpenAPIHono<{
+  Bindings: any,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
 
-    // Validate request body
-    const body = await c.req.json();
-    const validationResult = chatCompletionRequestSchema.safeParse(body);
-    
-    if (!validationResult.success) {
-      return createErrorResponse({
-        type: 'validation_error',
-        title: 'Bad Request',
-        detail: 'Invalid request body',
-        status: 400
-      });
+// POST /chat/completions - Create a chat completion, streamed as server-sent events when `stream` is set
+completionRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/chat/completions',
+    tags: ['Completions'],
+    summary: 'Create Chat Completion',
+    description: 'Creates a model response for the given chat conversation. Compatible with OpenAI Chat Completions API. ' +
+      'With `thread_id` the exchange is stored in the thread, and with `include_thread_history` the thread\'s history that fits the model\'s context window is sent ahead of `messages`.',
+    request: { body: jsonBody(chatCompletionRequestSchema) },
+    responses: {
+      200: jsonResponse(
+        'Successful completion response',
+        schemaRef('ChatCompletion'),
+        'Server-sent events stream of ChatCompletionChunk objects, ending with `data: [DONE]`'
+      ),
+      ...errorResponses(400, 401, 403, 404, 429, 500, 502)
     }
+  }),
+  async (c) => {
+    try {
+      // Get authenticated user
+      const user = getCurrentUser(c);
+      if (!user) {
+        return createErrorResponse({
+          type: 'authentication_error',
+          title: 'Unauthorized',
+          detail: 'Authentication required',
+          status: 401
+        });
+      }
+
+      const request = c.req.valid('json');
+
+      // Enforce the caller's token budget before calling the provider
+      const quota = await QuotaService.check(user, request.model || c.env.DEFAULT_AI_MODEL || 'gpt-4o', c.env);
+      if (!quota.allowed) {
+        return createRateLimitResponse(getCorrelationId(c.req.raw), quota.retryAfter);
+      }
+
+      // Assemble the thread's history when the client opted in
+      const messages = await CompletionService.resolveMessages(request, user, c.env);
+
+      // Handle streaming vs non-streaming
+      if (request.stream) {
+        // Set headers for streaming response
+        c.header('Content-Type', 'text/event-stream');
+        c.header('Cache-Control', 'no-cache');
+        c.header('Connection', 'keep-alive');
+        c.header('Access-Control-Allow-Origin', '*');
+
+        // Create streaming response
+        const streamGenerator = CompletionService.createStreamingCompletion(request, user, c.env, messages);
+        const encoder = new TextEncoder();
+
+        const stream = new ReadableStream({
+          async pull(controller) {
+            try {
+              const { value: chunk, done } = await streamGenerator.next();
+
+              if (done) {
+                // Send final chunk
+                controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                controller.close();
+                return;
+              }
 
-    const request = validationResult.data;
-
-    // Handle streaming vs non-streaming
-    if (request.stream) {
-      // Set headers for streaming response
-      c.header('Content-Type', 'text/event-stream');
-      c.header('Cache-Control', 'no-cache');
-      c.header('Connection', 'keep-alive');
-      c.header('Access-Control-Allow-Origin', '*');
-
-      // Create streaming response
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            const streamGenerator = await CompletionService.createStreamingCompletion(request, user, c.env);
-            
-            for await (const chunk of streamGenerator) {
               const data = `data: ${JSON.stringify(chunk)}\n\n`;
-              controller.enqueue(new TextEncoder().encode(data));
+              controller.enqueue(encoder.encode(data));
+            } catch (error) {
+              console.error('Streaming error:', error);
+              const errorChunk = {
+                error: {
+                  message: error instanceof Error ? error.message : 'Unknown error',
+                  type: 'server_error'
+                }
+              };
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
+              controller.close();
             }
-            
-            // Send final chunk
-            controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-            controller.close();
-          } catch (error) {
-            console.error('Streaming error:', error);
-            const errorChunk = {
-              error: {
-                message: error instanceof Error ? error.message : 'Unknown error',
-                type: 'server_error'
-              }
-            };
-            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
-            controller.close();
+          },
+          async cancel() {
+            // Client disconnected: stop the provider stream so the partial completion is recorded
+            await streamGenerator.return(null);
           }
-        }
-      });
+        });
 
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
-    } else {
-      // Non-streaming response
-      const result = await CompletionService.createCompletion(request, user, c.env);
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      } else {
+        // Non-streaming response
+        const result = await CompletionService.createCompletion(request, user, c.env, messages);
       
-      return c.json(result.completion);
-    }
-  } catch (error) {
-    console.error('Chat completion error:', error);
+        return c.json(result.completion);
+      }
+    } catch (error) {
+      console.error('Chat completion error:', error);
+
+      if (error instanceof CompletionError) {
+        return createErrorResponse({
+          title: error.title,
+          detail: error.message,
+          status: error.status
+        });
+      }
     
-    if (error instanceof Error && error.message.includes('OpenAI API error')) {
+      if (error instanceof ProviderError) {
+        return createErrorResponse({
+          type: 'ai_provider_error',
+          title: 'Bad Gateway',
+          detail: error.message,
+          status: 502
+        });
+      }
+
       return createErrorResponse({
-        type: 'ai_provider_error',
-        title: 'Bad Gateway',
-        detail: error.message,
-        status: 502
+        type: 'internal_error',
+        title: 'Internal Server Error',
+        detail: 'An internal error occurred while processing the completion',
+        status: 500
       });
     }
-
-    return createErrorResponse({
-      type: 'internal_error',
-      title: 'Internal Server Error',
-      detail: 'An internal error occurred while processing the completion',
-      status: 500
-    });
   }
-}
+);
+
+// GET /models - List the models available for completions
+completionRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/models',
+    tags: ['Completions'],
+    summary: 'List Available Models',
+    description: 'Lists the currently available models, and provides basic information about each one such as the owner and context length.',
+    responses: {
+      200: successResponse('List of available models', schemaRef('ModelList')),
+      ...errorResponses(401, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      // Get authenticated user
+      const user = getCurrentUser(c);
+      if (!user) {
+        return createErrorResponse({
+          type: 'authentication_error',
+          title: 'Unauthorized',
+          detail: 'Authentication required',
+          status: 401
+        });
+      }
+
+      // Get available models from completion service
+      const models = await CompletionService.getAvailableModels(c.env);
 
-export async function listModels(c: Context) {
-  try {
-    // Get authenticated user
-    const user = getCurrentUser(c);
-    if (!user) {
+      // Transform to OpenAI API format
+      const modelList = {
+        object: 'list',
+        data: models.map(model => ({
+          id: model.id,
+          object: 'model',
+          created: Math.floor(Date.now() / 1000),
+          owned_by: model.provider,
+          context_length: model.maxTokens || 4096
+        }))
+      };
+
+      return createSuccessResponse(modelList);
+    } catch (error) {
+      console.error('List models error:', error);
       return createErrorResponse({
-        type: 'authentication_error',
-        title: 'Unauthorized',
-        detail: 'Authentication required',
-        status: 401
+        type: 'internal_error',
+        title: 'Internal Server Error',
+        detail: 'An error occurred while fetching available models',
+        status: 500
       });
     }
-
-    // Get available models from completion service
-    const models = await CompletionService.getAvailableModels(c.env);
-
-    // Transform to OpenAI API format
-    const modelList = {
-      object: 'list',
-      data: models.map(model => ({
-        id: model.id,
-        object: 'model',
-        created: Math.floor(Date.now() / 1000),
-        owned_by: model.provider,
-        context_length: model.maxTokens || 4096
-      }))
-    };
-
-    return createSuccessResponse(modelList);
-  } catch (error) {
-    console.error('List models error:', error);
-    return createErrorResponse({
-      type: 'internal_error',
-      title: 'Internal Server Error',
-      detail: 'An error occurred while fetching available models',
-      status: 500
-    });
   }
-}
+);
+
+export { completionRoutes };
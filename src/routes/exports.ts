@@ -0,0 +1,171 @@
+// Thread and artifact export routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import {
+  exportQuerySchema,
+  cuidSchema
+} from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { binary, contentResponse, errorResponses, schemaRef } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { ExportService } from '../services/export-service';
+import { renderArtifactExport, renderThreadExport, type RenderedExport } from '../utils/exports';
+
+export interface Env {
+  DB: D1Database;
+}
+
+// Parameter validation schemas
+const threadParamsSchema = z.object({
+  threadId: cuidSchema
+});
+
+const artifactParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const exportRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// Export filenames are slugs, so they need no encoding
+function createExportResponse(rendered: RenderedExport): Response {
+  return new Response(rendered.body, {
+    headers: {
+      'Content-Type': rendered.contentType,
+      'Content-Disposition': `attachment; filename="${rendered.filename}"`,
+      'Cache-Control': 'private, no-store'
+    }
+  });
+}
+
+// GET /threads/:threadId/export?format=md|html|json|pdf - Download a thread
+exportRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/export',
+    tags: ['Threads'],
+    summary: 'Export Thread',
+    description: 'Download a thread with its messages, authors, timestamps, reactions, attachments and artifacts. Markdown, HTML and PDF are for reading; JSON is the versioned ThreadExport document, which can be imported again. Requires view access.',
+    request: { params: threadParamsSchema, query: exportQuerySchema },
+    responses: {
+      200: contentResponse('Thread export, sent as an attachment', {
+        'text/markdown': { type: 'string' },
+        'text/html': { type: 'string' },
+        'application/json': schemaRef('ThreadExport'),
+        'application/pdf': binary()
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const { format } = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to export threads'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const data = await ExportService.buildThreadExport(prisma, threadId);
+      if (!data) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Thread Not Found',
+          detail: `Thread with ID ${threadId} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      return createExportResponse(renderThreadExport(data, format));
+    } catch (error) {
+      console.error('Error exporting thread:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to export thread'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /artifacts/:id/export?format=md|html|json|pdf - Download an artifact
+exportRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/artifacts/{id}/export',
+    tags: ['Artifacts'],
+    summary: 'Export Artifact',
+    description: 'Download the current version of an artifact. JSON is the versioned ArtifactExport document. Requires view access to the artifact\'s thread.',
+    request: { params: artifactParamsSchema, query: exportQuerySchema },
+    responses: {
+      200: contentResponse('Artifact export, sent as an attachment', {
+        'text/markdown': { type: 'string' },
+        'text/html': { type: 'string' },
+        'application/json': schemaRef('ArtifactExport'),
+        'application/pdf': binary()
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const { format } = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to export artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const data = await ExportService.buildArtifactExport(prisma, id);
+      if (!data) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, data.thread.id, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      return createExportResponse(renderArtifactExport(data, format));
+    } catch (error) {
+      console.error('Error exporting artifact:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to export artifact'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { exportRoutes };
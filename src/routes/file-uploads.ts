@@ -0,0 +1,285 @@
+// Resumable file upload API routes
+
+import type { Context } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import { createUploadSessionSchema, cuidSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { binary, contentBody, errorResponses, jsonBody, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { UploadService, UploadSessionError } from '../services/upload-service';
+import { MAX_PART_SIZE } from '../utils/files';
+
+export interface Env {
+  DB: D1Database;
+  FILES?: R2Bucket;
+}
+
+// Parameter validation schemas
+const uploadParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const uploadPartParamsSchema = z.object({
+  id: cuidSchema,
+  partNumber: z.coerce.number().int().min(1).max(10000)
+});
+
+const fileUploadRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// Authentication and storage checks shared by every upload route
+fileUploadRoutes.use('/files/uploads', requireUploadAccess);
+fileUploadRoutes.use('/files/uploads/*', requireUploadAccess);
+
+async function requireUploadAccess(c: Context, next: () => Promise<void>) {
+  if (!c.get('authenticatedUser')) {
+    return createErrorResponse({
+      status: 401,
+      title: 'Authentication Required',
+      detail: 'Must be authenticated to upload files'
+    }, getCorrelationId(c.req.raw));
+  }
+
+  if (!c.env.FILES) {
+    return createErrorResponse({
+      status: 503,
+      title: 'Service Unavailable',
+      detail: 'File storage is not configured'
+    }, getCorrelationId(c.req.raw));
+  }
+
+  await next();
+}
+
+function createUploadErrorResponse(error: unknown, c: Context, fallbackDetail: string): Response {
+  if (error instanceof UploadSessionError) {
+    return createErrorResponse({
+      status: error.status,
+      title: error.title,
+      detail: error.message
+    }, getCorrelationId(c.req.raw));
+  }
+
+  console.error(`${fallbackDetail}:`, error);
+  return createErrorResponse({
+    status: 500,
+    title: 'Internal Server Error',
+    detail: fallbackDetail
+  }, getCorrelationId(c.req.raw));
+}
+
+function createSessionNotFoundResponse(id: string, c: Context): Response {
+  return createErrorResponse({
+    status: 404,
+    title: 'Upload Session Not Found',
+    detail: `Upload session with ID ${id} was not found or you don't have access to it`
+  }, getCorrelationId(c.req.raw));
+}
+
+// POST /files/uploads - Start a resumable upload session
+fileUploadRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/files/uploads',
+    tags: ['Files'],
+    summary: 'Start Resumable Upload',
+    description: 'Start an upload session for a large file. Send the parts with PUT /files/uploads/{id}/parts/{partNumber}, then complete the session. Every part except the last must be exactly partSize bytes. Sessions expire after 24 hours.',
+    request: { body: jsonBody(createUploadSessionSchema) },
+    responses: {
+      200: successResponse('Upload session started', schemaRef('UploadSession')),
+      ...errorResponses(400, 401, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const input = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser')!;
+
+      const session = await UploadService.start(authenticatedUser.id, input, c.env);
+
+      return createSuccessResponse(UploadService.toView(session), {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      return createUploadErrorResponse(error, c, 'Failed to start upload');
+    }
+  }
+);
+
+// GET /files/uploads/:id - Get upload session progress (received and missing parts)
+fileUploadRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/files/uploads/{id}',
+    tags: ['Files'],
+    summary: 'Get Upload Progress',
+    description: 'Get an upload session with its received and missing parts, to resume an interrupted upload',
+    request: { params: uploadParamsSchema },
+    responses: {
+      200: successResponse('Upload session progress', schemaRef('UploadSession')),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser')!;
+
+      const session = await UploadService.get(id, authenticatedUser.id, c.env);
+      if (!session) {
+        return createSessionNotFoundResponse(id, c);
+      }
+
+      const view = UploadService.toView(session);
+      if (UploadService.isExpired(session)) {
+        view.status = 'EXPIRED';
+      }
+
+      return createSuccessResponse(view, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      return createUploadErrorResponse(error, c, 'Failed to fetch upload session');
+    }
+  }
+);
+
+// PUT /files/uploads/:id/parts/:partNumber - Upload (or re-upload) one part as the raw request body
+fileUploadRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/files/uploads/{id}/parts/{partNumber}',
+    tags: ['Files'],
+    summary: 'Upload Part',
+    description: 'Upload one part as the raw request body. Parts may arrive in any order; re-sending a part replaces it.',
+    request: {
+      params: uploadPartParamsSchema,
+      body: contentBody({ 'application/octet-stream': binary() })
+    },
+    responses: {
+      200: successResponse('Part stored; returns the updated session progress', schemaRef('UploadSession')),
+      410: problemResponse('Upload session expired'),
+      413: problemResponse('Part exceeds the maximum part size'),
+      ...errorResponses(400, 401, 404, 409, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const { id, partNumber } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser')!;
+
+      if (Number(c.req.header('Content-Length') || 0) > MAX_PART_SIZE) {
+        return createErrorResponse({
+          status: 413,
+          title: 'Payload Too Large',
+          detail: `Parts may be at most ${MAX_PART_SIZE} bytes`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const session = await UploadService.get(id, authenticatedUser.id, c.env);
+      if (!session) {
+        return createSessionNotFoundResponse(id, c);
+      }
+
+      const data = await c.req.arrayBuffer();
+      const updated = await UploadService.uploadPart(session, partNumber, data, c.env);
+
+      return createSuccessResponse(UploadService.toView(updated), {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      return createUploadErrorResponse(error, c, 'Failed to upload part');
+    }
+  }
+);
+
+// POST /files/uploads/:id/complete - Assemble the parts and create the file record
+fileUploadRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/files/uploads/{id}/complete',
+    tags: ['Files'],
+    summary: 'Complete Upload',
+    description: 'Assemble the uploaded parts and create the file record. The checksum and MIME type are computed from the stored content.',
+    request: { params: uploadParamsSchema },
+    responses: {
+      200: successResponse('Upload completed', schemaRef('File')),
+      409: problemResponse('Parts are missing or the session is closed'),
+      410: problemResponse('Upload session expired'),
+      422: problemResponse('Content does not match the expected checksum'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser')!;
+
+      const session = await UploadService.get(id, authenticatedUser.id, c.env);
+      if (!session) {
+        return createSessionNotFoundResponse(id, c);
+      }
+
+      const file = await UploadService.complete(session, new URL('/api/v1/files', c.req.url).toString(), c.env);
+
+      return createSuccessResponse(file, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      return createUploadErrorResponse(error, c, 'Failed to complete upload');
+    }
+  }
+);
+
+// DELETE /files/uploads/:id - Abort an upload session and discard its parts
+fileUploadRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/files/uploads/{id}',
+    tags: ['Files'],
+    summary: 'Abort Upload',
+    description: 'Abort an upload session and discard the parts received so far',
+    request: { params: uploadParamsSchema },
+    responses: {
+      200: successResponse('Upload aborted', {
+        type: 'object',
+        properties: { aborted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      410: problemResponse('Upload session expired'),
+      ...errorResponses(400, 401, 404, 409, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser')!;
+
+      const session = await UploadService.get(id, authenticatedUser.id, c.env);
+      if (!session) {
+        return createSessionNotFoundResponse(id, c);
+      }
+
+      await UploadService.abort(session, c.env);
+
+      return createSuccessResponse({
+        aborted: true,
+        id
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      return createUploadErrorResponse(error, c, 'Failed to abort upload');
+    }
+  }
+);
+
+export { fileUploadRoutes };
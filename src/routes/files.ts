@@ -1,6 +1,6 @@
 // File API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -12,13 +12,19 @@ import {
 import { 
   createFileSchema, 
   fileQuerySchema,
+  fileUploadSchema,
   cuidSchema 
 } from '../utils/validation';
-import type { CreateFileInput, FileQuery } from '../utils/validation';
-import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import type { FileUploadInput } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, binary, contentBody, contentResponse, emptyResponse, errorResponses, jsonBody, paginatedResponse, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { FileStorageError, FileStorageService } from '../services/file-storage-service';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { MAX_FILE_SIZE, createByteCounter, getContentDisposition, parseRangeHeader, sanitizeFilename } from '../utils/files';
 
 export interface Env {
   DB: D1Database;
+  FILES?: R2Bucket;
 }
 
 // Parameter validation schemas
@@ -26,26 +32,228 @@ const fileParamsSchema = z.object({
   id: cuidSchema
 });
 
-type FileParams = z.infer<typeof fileParamsSchema>;
+// Raw body uploads name the file in the query; multipart uploads use the file's own name
+const fileUploadQuerySchema = z.object({
+  filename: z.string().optional()
+});
+
+// formData() holds the whole form in memory, so multipart uploads are kept small;
+// larger files go as a raw body or through a resumable upload
+const MAX_MULTIPART_FILE_SIZE = 10 * 1024 * 1024;
+
+// Allowance for multipart boundaries and form fields around the file itself
+const MULTIPART_OVERHEAD = 1024 * 1024;
+
+interface UploadRequest {
+  originalName: string;
+  declaredType?: string;
+  body: ReadableStream<Uint8Array>;
+  size: number;
+  details: FileUploadInput;
+}
+
+interface UploadError {
+  status: number;
+  title: string;
+  detail: string;
+  errors?: Record<string, string[]>;
+}
+
+const fileTooLarge: UploadError = {
+  status: 413,
+  title: 'Payload Too Large',
+  detail: `Files may be at most ${MAX_FILE_SIZE} bytes`
+};
+
+const multipartTooLarge: UploadError = {
+  status: 413,
+  title: 'Payload Too Large',
+  detail: `Multipart uploads may be at most ${MAX_MULTIPART_FILE_SIZE} bytes; send larger files as the raw request body or through /api/v1/files/uploads`
+};
+
+/**
+ * Read an upload from a multipart form or a raw request body. Declared sizes
+ * are checked up front, and the bytes actually received are counted as well:
+ * a multipart form is cut off once it outgrows its smaller limit, and a raw
+ * body is streamed to storage, which enforces the limit and its Content-Length.
+ */
+async function readUploadRequest(request: Request): Promise<UploadRequest | UploadError> {
+  const contentType = request.headers.get('Content-Type') || '';
+  const contentLength = Number(request.headers.get('Content-Length') || 0);
+  const isMultipart = contentType.startsWith('multipart/form-data');
+
+  if (isMultipart && contentLength > MAX_MULTIPART_FILE_SIZE + MULTIPART_OVERHEAD) {
+    return multipartTooLarge;
+  }
+  if (contentLength > MAX_FILE_SIZE) {
+    return fileTooLarge;
+  }
+
+  let upload: { originalName: string; declaredType?: string; body: ReadableStream<Uint8Array> | null; size: number; details: unknown };
+
+  if (isMultipart) {
+    // Stop reading forms without a Content-Length once they pass the limit
+    const counter = createByteCounter(MAX_MULTIPART_FILE_SIZE + MULTIPART_OVERHEAD);
+    let form: FormData;
+    try {
+      form = await new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body?.pipeThrough(counter.stream)
+      }).formData();
+    } catch (error) {
+      if (counter.exceeded) return multipartTooLarge;
+      throw error;
+    }
+
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return {
+        status: 400,
+        title: 'Bad Request',
+        detail: 'Multipart uploads must include the file in a "file" field'
+      };
+    }
+
+    if (file.size > MAX_MULTIPART_FILE_SIZE) {
+      return multipartTooLarge;
+    }
 
-const fileRoutes = new Hono<{ 
+    const tags = form.getAll('tags').filter((tag): tag is string => typeof tag === 'string');
+    upload = {
+      originalName: file.name,
+      declaredType: file.type || undefined,
+      body: file.stream(),
+      size: file.size,
+      details: {
+        description: form.get('description') ?? undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        visibility: form.get('visibility') ?? undefined
+      }
+    };
+  } else {
+    const url = new URL(request.url);
+    const originalName = url.searchParams.get('filename');
+    if (!originalName) {
+      return {
+        status: 400,
+        title: 'Bad Request',
+        detail: 'Direct uploads must name the file with the "filename" query parameter'
+      };
+    }
+    // Storage needs the length before the first byte is written
+    if (!request.headers.has('Content-Length')) {
+      return {
+        status: 411,
+        title: 'Length Required',
+        detail: 'Direct uploads must send a Content-Length header'
+      };
+    }
+
+    upload = {
+      originalName,
+      declaredType: contentType || undefined,
+      body: request.body,
+      size: contentLength,
+      details: {}
+    };
+  }
+
+  if (upload.size > MAX_FILE_SIZE) {
+    return fileTooLarge;
+  }
+  if (upload.size === 0 || !upload.body) {
+    return {
+      status: 400,
+      title: 'Bad Request',
+      detail: 'Uploaded file is empty'
+    };
+  }
+  if (upload.originalName.length > 255) {
+    return {
+      status: 400,
+      title: 'Bad Request',
+      detail: 'File names may be at most 255 characters'
+    };
+  }
+
+  const details = fileUploadSchema.safeParse(upload.details);
+  if (!details.success) {
+    const errors: Record<string, string[]> = {};
+    details.error.issues.forEach((issue) => {
+      const field = issue.path.join('.');
+      if (!errors[field]) errors[field] = [];
+      errors[field].push(issue.message);
+    });
+
+    return {
+      status: 400,
+      title: 'Validation Error',
+      detail: 'The upload form contains invalid data',
+      errors
+    };
+  }
+
+  return { ...upload, body: upload.body, details: details.data };
+}
+
+/**
+ * Whether the user may read a file's contents: its uploader may, and so may
+ * anyone who can view a thread it is attached to through a message or an
+ * artifact. Files attached to no thread stay private to their uploader.
+ */
+async function canReadFile(
+  prisma: any,
+  file: {
+    uploadedBy: string;
+    messages: { message: { threadId: string } }[];
+    artifacts: { artifact: { threadId: string } }[];
+  },
+  user: { id: string; email: string }
+): Promise<boolean> {
+  if (file.uploadedBy === user.id) {
+    return true;
+  }
+
+  const threadIds = new Set([
+    ...file.messages.map(({ message }) => message.threadId),
+    ...file.artifacts.map(({ artifact }) => artifact.threadId)
+  ]);
+  for (const threadId of threadIds) {
+    const access = await ThreadAccessService.check(prisma, threadId, user, 'view');
+    if (access.allowed) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+const fileRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: CreateFileInput,
-    validatedQuery: FileQuery,
-    validatedParams: FileParams,
     authenticatedUser?: import('../middleware/auth').AuthenticatedUser
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /files - List files with pagination and filtering
-fileRoutes.get(
-  '/files',
-  validateQuery(fileQuerySchema),
+fileRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/files',
+    tags: ['Files'],
+    summary: 'List Files',
+    description: 'Get a paginated list of files with optional filtering',
+    request: { query: fileQuerySchema },
+    responses: {
+      200: paginatedResponse('List of files', schemaRef('File')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const query = c.get('validatedQuery') as FileQuery;
+      const query = c.req.valid('query');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -137,13 +345,23 @@ fileRoutes.get(
 );
 
 // GET /files/:id - Get file by ID
-fileRoutes.get(
-  '/files/:id',
-  validateParams(fileParamsSchema),
+fileRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/files/{id}',
+    tags: ['Files'],
+    summary: 'Get File by ID',
+    description: 'Retrieve a specific file by its ID with detailed information',
+    request: { params: fileParamsSchema },
+    responses: {
+      200: successResponse('File details with usage information', schemaRef('FileDetailed')),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as FileParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -222,13 +440,23 @@ fileRoutes.get(
 );
 
 // POST /files - Create new file record
-fileRoutes.post(
-  '/files',
-  validateBody(createFileSchema),
+fileRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/files',
+    tags: ['Files'],
+    summary: 'Create File Record',
+    description: 'Create a new file record in the system',
+    request: { body: jsonBody(createFileSchema) },
+    responses: {
+      200: successResponse('File record created successfully', schemaRef('File')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const fileData = c.get('validatedBody') as CreateFileInput;
+      const fileData = c.req.valid('json');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -288,14 +516,305 @@ fileRoutes.post(
   }
 );
 
+// POST /files/upload - Upload file contents to storage
+// Accepts multipart/form-data with a "file" field of at most 10MiB (plus optional
+// description, tags and visibility fields), or the raw bytes as the request body with the
+// name in the "filename" query parameter. Checksum, size and MIME type are
+// determined by the server.
+fileRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/files/upload',
+    tags: ['Files'],
+    summary: 'Upload File',
+    description: 'Upload file contents to storage and create the file record. Send multipart/form-data with a "file" field (at most 10MiB), or the raw bytes as the body with the name in the filename query parameter and a Content-Length header (at most 100MB). The body is streamed to storage and the size limit applies to the bytes received. The checksum, size and MIME type are determined by the server; the returned storageUrl points at the content endpoint.',
+    request: {
+      query: fileUploadQuerySchema,
+      body: contentBody({
+        'multipart/form-data': {
+          type: 'object',
+          properties: {
+            file: { ...binary(), description: 'File contents' },
+            description: { type: 'string', maxLength: 500 },
+            tags: arrayOf({ type: 'string', maxLength: 50 }),
+            visibility: { type: 'string', enum: ['thread', 'public', 'private'] }
+          },
+          required: ['file']
+        },
+        'application/octet-stream': binary()
+      })
+    },
+    responses: {
+      200: successResponse('File uploaded successfully', schemaRef('File')),
+      411: problemResponse('Direct upload without a Content-Length header'),
+      ...errorResponses(400, 401, 413, 500, 503)
+    }
+  }),
+  async (c) => {
+    const correlationId = getCorrelationId(c.req.raw);
+    let storedKey: string | undefined;
+
+    try {
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to upload files'
+        }, correlationId);
+      }
+
+      if (!c.env.FILES) {
+        return createErrorResponse({
+          status: 503,
+          title: 'Service Unavailable',
+          detail: 'File storage is not configured'
+        }, correlationId);
+      }
+
+      const upload = await readUploadRequest(c.req.raw);
+      if ('status' in upload) {
+        return createErrorResponse(upload, correlationId);
+      }
+
+      const stored = await FileStorageService.store(c.env.FILES, {
+        userId: authenticatedUser.id,
+        originalName: upload.originalName,
+        declaredType: upload.declaredType,
+        body: upload.body,
+        size: upload.size
+      });
+      storedKey = stored.key;
+
+      const prisma = getDatabaseClient(c.env.DB);
+
+      const created = await prisma.file.create({
+        data: {
+          filename: sanitizeFilename(upload.originalName),
+          originalName: upload.originalName,
+          mimeType: stored.mimeType,
+          size: stored.size,
+          checksum: stored.checksum,
+          storageUrl: `r2://${stored.key}`,
+          storageKey: stored.key,
+          uploadedBy: authenticatedUser.id,
+          metadata: upload.details
+        }
+      });
+
+      // Downloads go through the API so access stays checked
+      const file = await prisma.file.update({
+        where: { id: created.id },
+        data: {
+          storageUrl: new URL(`/api/v1/files/${created.id}/content`, c.req.url).toString()
+        },
+        select: {
+          id: true,
+          filename: true,
+          originalName: true,
+          mimeType: true,
+          size: true,
+          checksum: true,
+          storageUrl: true,
+          previewUrl: true,
+          createdAt: true,
+          metadata: true,
+          uploader: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              nick: true,
+              avatarUrl: true
+            }
+          }
+        }
+      });
+
+      return createSuccessResponse(file, {
+        correlation_id: correlationId
+      });
+    } catch (error) {
+      if (error instanceof FileStorageError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, correlationId);
+      }
+
+      console.error('Error uploading file:', error);
+
+      // Don't leave an object behind without a file record
+      if (storedKey && c.env.FILES) {
+        await FileStorageService.remove(c.env.FILES, storedKey).catch((cleanupError) => {
+          console.error('Error removing orphaned upload:', cleanupError);
+        });
+      }
+
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to upload file'
+      }, correlationId);
+    }
+  }
+);
+
+// GET /files/:id/content - Download file contents (supports Range requests)
+fileRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/files/{id}/content',
+    tags: ['Files'],
+    summary: 'Download File Content',
+    description: 'Stream the contents of an uploaded file. Its uploader and anyone who can view a thread it is attached to, through a message or an artifact, may download it. Supports single byte ranges (Range: bytes=start-end) and conditional requests (If-None-Match).',
+    request: { params: fileParamsSchema },
+    responses: {
+      200: contentResponse('File contents', { '*/*': binary() }),
+      206: contentResponse('Requested byte range of the file contents', { '*/*': binary() }),
+      304: emptyResponse('Not modified'),
+      416: problemResponse('Requested range is outside the file'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    const correlationId = getCorrelationId(c.req.raw);
+
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access files'
+        }, correlationId);
+      }
+
+      const file = await prisma.file.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          originalName: true,
+          mimeType: true,
+          size: true,
+          storageKey: true,
+          uploadedBy: true,
+          messages: { select: { message: { select: { threadId: true } } } },
+          artifacts: { select: { artifact: { select: { threadId: true } } } }
+        }
+      });
+
+      if (!file || !await canReadFile(prisma, file, authenticatedUser)) {
+        return createErrorResponse({
+          status: 404,
+          title: 'File Not Found',
+          detail: `File with ID ${id} was not found or you don't have access to it`
+        }, correlationId);
+      }
+
+      // Records created with a client-supplied storage URL have no stored contents
+      if (!file.storageKey) {
+        return createErrorResponse({
+          status: 404,
+          title: 'File Content Not Found',
+          detail: 'The contents of this file are not stored by this service; use its storageUrl'
+        }, correlationId);
+      }
+
+      if (!c.env.FILES) {
+        return createErrorResponse({
+          status: 503,
+          title: 'Service Unavailable',
+          detail: 'File storage is not configured'
+        }, correlationId);
+      }
+
+      const range = parseRangeHeader(c.req.header('Range'), file.size);
+      if (range === 'unsatisfiable') {
+        const response = createErrorResponse({
+          status: 416,
+          title: 'Range Not Satisfiable',
+          detail: `The requested range is outside the file's ${file.size} bytes`
+        }, correlationId);
+        response.headers.set('Content-Range', `bytes */${file.size}`);
+        return response;
+      }
+
+      const object = await FileStorageService.read(c.env.FILES, file.storageKey, {
+        range: range ?? undefined,
+        conditions: c.req.raw.headers
+      });
+
+      if (!object) {
+        console.error(`Stored object ${file.storageKey} missing for file ${file.id}`);
+        return createErrorResponse({
+          status: 404,
+          title: 'File Content Not Found',
+          detail: `The contents of file ${id} are no longer available`
+        }, correlationId);
+      }
+
+      const headers = new Headers({
+        'Content-Type': file.mimeType,
+        'Content-Disposition': getContentDisposition(file.mimeType, file.originalName),
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'private, no-cache',
+        'ETag': object.httpEtag,
+        'Last-Modified': object.uploaded.toUTCString(),
+        'X-Content-Type-Options': 'nosniff',
+        'X-Correlation-ID': correlationId
+      });
+
+      // Conditional request matched: R2 returns the metadata without a body
+      if (!('body' in object)) {
+        return new Response(null, { status: 304, headers });
+      }
+
+      if (range) {
+        headers.set('Content-Range', `bytes ${range.offset}-${range.offset + range.length - 1}/${file.size}`);
+        headers.set('Content-Length', String(range.length));
+        return new Response(object.body, { status: 206, headers });
+      }
+
+      headers.set('Content-Length', String(object.size));
+      return new Response(object.body, { status: 200, headers });
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to download file'
+      }, correlationId);
+    }
+  }
+);
+
 // DELETE /files/:id - Delete file
-fileRoutes.delete(
-  '/files/:id',
-  validateParams(fileParamsSchema),
+fileRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/files/{id}',
+    tags: ['Files'],
+    summary: 'Delete File',
+    description: 'Delete a file record from the system, along with its stored contents',
+    request: { params: fileParamsSchema },
+    responses: {
+      200: successResponse('File deleted successfully', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as FileParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
 
       if (!authenticatedUser) {
@@ -326,6 +845,17 @@ fileRoutes.delete(
         where: { id }
       });
 
+      // Remove the stored contents once the record is gone
+      if (existingFile.storageKey) {
+        if (c.env.FILES) {
+          await FileStorageService.remove(c.env.FILES, existingFile.storageKey).catch((error) => {
+            console.error(`Error removing stored object ${existingFile.storageKey}:`, error);
+          });
+        } else {
+          console.error(`File storage not configured, object ${existingFile.storageKey} was not removed`);
+        }
+      }
+
       return createSuccessResponse({
         deleted: true,
         id
@@ -0,0 +1,240 @@
+// Form submission API routes for messages with input blocks
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  createValidationErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import {
+  submitFormSchema,
+  paginationQuerySchema,
+  cuidSchema
+} from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, paginatedResponse, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { hasThreadPermission } from '../utils/thread-permissions';
+import { collectFormFields, findDuplicateFields, validateFormValues } from '../utils/form-submissions';
+
+export interface Env {
+  DB: D1Database;
+}
+
+// Parameter validation schemas
+const messageParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const SUBMISSION_SELECT = {
+  id: true,
+  messageId: true,
+  values: true,
+  createdAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      nick: true,
+      avatarUrl: true
+    }
+  }
+} as const;
+
+const formSubmissionRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// POST /messages/:id/submissions - Submit values for the message's input blocks
+formSubmissionRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/messages/{id}/submissions',
+    tags: ['Messages'],
+    summary: 'Submit Form',
+    description: 'Submit values for every input block of a message. Values are keyed by the input element\'s action_id and checked against its definition: required unless the block is optional, select values must be among the options, dates are YYYY-MM-DD and times HH:mm. Errors are keyed like "values.start_date". Requires commenter access to the thread.',
+    request: { params: messageParamsSchema, body: jsonBody(submitFormSchema) },
+    responses: {
+      200: successResponse('Submission stored', schemaRef('FormSubmission')),
+      403: problemResponse('The user can only view the thread'),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const { values } = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to submit forms'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const message = await prisma.message.findUnique({
+        where: { id },
+        select: { id: true, threadId: true, blocks: true }
+      });
+
+      if (!message) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Message Not Found',
+          detail: `Message with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Viewers can read a form but not answer it
+      const access = await ThreadAccessService.check(prisma, message.threadId, authenticatedUser, 'comment');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const fields = collectFormFields(message.blocks);
+      if (fields.length === 0) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Not a Form',
+          detail: `Message ${id} has no input blocks`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const duplicates = findDuplicateFields(fields);
+      if (duplicates.length > 0) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Invalid Form',
+          detail: `Inputs share the action_id ${duplicates.join(', ')}, so their values can't be told apart`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const result = validateFormValues(fields, values);
+      if (Object.keys(result.errors).length > 0) {
+        return createValidationErrorResponse(result.errors, getCorrelationId(c.req.raw));
+      }
+
+      const submission = await prisma.formSubmission.create({
+        data: {
+          messageId: message.id,
+          userId: authenticatedUser.id,
+          values: result.values
+        },
+        select: SUBMISSION_SELECT
+      });
+
+      return createSuccessResponse(submission, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error submitting form:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to submit form'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /messages/:id/submissions - List a form's submissions, newest first
+formSubmissionRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/messages/{id}/submissions',
+    tags: ['Messages'],
+    summary: 'List Form Submissions',
+    description: 'Submissions for the input blocks of a message, newest first. Thread editors and owners see every submission; other members only see their own.',
+    request: { params: messageParamsSchema, query: paginationQuerySchema },
+    responses: {
+      200: paginatedResponse('Form submissions', schemaRef('FormSubmission')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access form submissions'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const message = await prisma.message.findUnique({
+        where: { id },
+        select: { id: true, threadId: true }
+      });
+
+      if (!message) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Message Not Found',
+          detail: `Message with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, message.threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Editors collect everyone's answers; other members only see their own
+      const where: any = { messageId: id };
+      if (!hasThreadPermission(access.role, 'edit')) {
+        where.userId = authenticatedUser.id;
+      }
+
+      const queryOptions: any = {
+        where,
+        select: SUBMISSION_SELECT,
+        take: query.limit + 1,
+        orderBy: { createdAt: 'desc' }
+      };
+
+      if (query.cursor) {
+        queryOptions.cursor = { id: query.cursor };
+        queryOptions.skip = 1;
+      }
+
+      const submissions = await prisma.formSubmission.findMany(queryOptions);
+
+      const hasMore = submissions.length > query.limit;
+      const items = hasMore ? submissions.slice(0, -1) : submissions;
+      const continuationToken = hasMore ? items[items.length - 1].id : undefined;
+
+      return createPaginatedResponse(items, {
+        hasMore,
+        continuationToken,
+        pageSize: query.limit
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching form submissions:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch form submissions'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { formSubmissionRoutes };
@@ -1,34 +1,76 @@
-import { Context } from 'hono';
+// Health check API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { getDatabaseClient } from '../utils/database';
 import { createSuccessResponse } from '../utils/response';
+import { validationHook } from '../middleware/validation';
+import { successResponse } from '../utils/openapi';
+
+export interface Env {
+  DB: D1Database;
+}
+
+const healthRoutes = new OpenAPIHono<{ Bindings: Env }>({ defaultHook: validationHook });
 
-export async function healthCheck(c: Context) {
-  const startTime = Date.now();
-  const prisma = getDatabaseClient(c.env.DB);
-  
-  try {
-    // Check database connection
-    await prisma.$queryRaw`SELECT 1`;
-    const dbLatency = Date.now() - startTime;
+// GET /health - Check that the API and its database are reachable
+healthRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/health',
+    tags: ['System'],
+    summary: 'API Health Check',
+    description: 'Check if the API is operational. The status is `degraded` when the database cannot be reached.',
+    responses: {
+      200: successResponse('API status', {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['healthy', 'degraded'] },
+          services: {
+            type: 'object',
+            properties: {
+              database: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['healthy', 'unhealthy'] },
+                  latency: { type: 'number', description: 'Milliseconds' }
+                }
+              }
+            }
+          }
+        }
+      })
+    }
+  }),
+  async (c) => {
+    const startTime = Date.now();
+
+    try {
+      // Check database connection
+      const prisma = getDatabaseClient(c.env.DB);
+      await prisma.$queryRaw`SELECT 1`;
+      const dbLatency = Date.now() - startTime;
 
-    return createSuccessResponse({
-      status: 'healthy',
-      services: {
-        database: {
-          status: 'healthy',
-          latency: dbLatency
+      return createSuccessResponse({
+        status: 'healthy',
+        services: {
+          database: {
+            status: 'healthy',
+            latency: dbLatency
+          }
         }
-      }
-    });
-  } catch (error) {
-    return createSuccessResponse({
-      status: 'degraded',
-      services: {
-        database: {
-          status: 'unhealthy',
-          latency: Date.now() - startTime
+      });
+    } catch (error) {
+      return createSuccessResponse({
+        status: 'degraded',
+        services: {
+          database: {
+            status: 'unhealthy',
+            latency: Date.now() - startTime
+          }
         }
-      }
-    });
+      });
+    }
   }
-}
+);
+
+export { healthRoutes };
@@ -0,0 +1,83 @@
+// Background job API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import { createSuccessResponse, createErrorResponse, getCorrelationId } from '../utils/response';
+import { cuidSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, schemaRef, successResponse } from '../utils/openapi';
+import { JOB_SELECT } from '../services/job-service';
+
+export interface Env {
+  DB: D1Database;
+}
+
+// Parameter validation schemas
+const jobParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const jobRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// GET /jobs/:id - Get the status and result of a background job
+jobRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/jobs/{id}',
+    tags: ['Jobs'],
+    summary: 'Get Job',
+    description: 'Status, attempts and result of one of your background jobs. Failed attempts are retried with exponential backoff; a job whose attempts all failed is `DEAD`.',
+    request: { params: jobParamsSchema },
+    responses: {
+      200: successResponse('Job status', schemaRef('Job')),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access jobs'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const job = await prisma.job.findFirst({
+        where: { id, userId: authenticatedUser.id },
+        select: JOB_SELECT
+      });
+
+      if (!job) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Job Not Found',
+          detail: `Job with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      return createSuccessResponse(job, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching job:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch job'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { jobRoutes };
@@ -1,13 +1,16 @@
 // Message API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
   createSuccessResponse, 
+  createAcceptedResponse,
   createErrorResponse, 
   getCorrelationId,
-  createPaginatedResponse 
+  createPaginatedResponse,
+  createRateLimitResponse,
+  sendServerSentEvent
 } from '../utils/response';
 import { 
   createMessageSchema, 
@@ -15,16 +18,30 @@ import {
   messageQuerySchema,
   cuidSchema 
 } from '../utils/validation';
-import type { CreateMessageInput, UpdateMessageInput, MessageQuery } from '../utils/validation';
-import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { acceptedResponse, errorResponses, jsonBody, paginatedResponse, schemaRef, successResponse } from '../utils/openapi';
 import { CompletionService } from '../services/completion-service';
-import type { ChatMessage } from '../types/completions';
+import { AutoCompletionService } from '../services/auto-completion-service';
+import { JobService } from '../services/job-service';
+import { ThreadSummaryService } from '../services/thread-summary-service';
+import { QuotaService } from '../services/quota-service';
+import type { CompletionRecord } from '../types/completions';
+import type { AuthenticatedUser } from '../middleware/auth';
+import { publishThreadEvent } from '../services/realtime-service';
+import { ThreadAccessService } from '../services/thread-access-service';
+import type { ThreadRoom } from '../durable-objects/thread-room';
+import { blocksToMarkdown } from '../utils/markdown-blocks';
+import type { JobMessage } from '../utils/jobs';
 
 export interface Env {
   DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
+  JOBS?: Queue<JobMessage>;
   OPENAI_API_KEY?: string;
   DEFAULT_AI_MODEL?: string;
   AUTO_COMPLETION_ENABLED?: string;
+  THREAD_SUMMARY_INTERVAL?: string;
+  CONTEXT_TOKEN_LIMIT?: string;
 }
 
 // Parameter validation schemas
@@ -33,165 +50,162 @@ const messageParamsSchema = z.object({
 });
 
 const threadMessageParamsSchema = z.object({
-  threadId: cuidSchema,
-  id: cuidSchema.optional()
+  threadId: cuidSchema
 });
 
-type MessageParams = z.infer<typeof messageParamsSchema>;
-type ThreadMessageParams = z.infer<typeof threadMessageParamsSchema>;
-
-// Helper function to convert database messages to chat completion format
-function convertMessagesToChatFormat(messages: any[]): ChatMessage[] {
-  return messages.map(msg => ({
-    role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
-    content: msg.content,
-    // Only add name if user exists and sanitize it for OpenAI compatibility
-    ...(msg.user?.name && { 
-      name: sanitizeNameForOpenAI(msg.user.name) 
-    })
-  }));
-}
-
-// Helper function to sanitize name for OpenAI API compatibility
-// OpenAI requires name field to match pattern: ^[^\s<|\\/>]+$
-// (no whitespace, no < | \ / > characters)
-function sanitizeNameForOpenAI(name: string): string {
-  return name
-    .replace(/[\s<|\\/>]+/g, '_')  // Replace invalid characters with underscore
-    .replace(/^_+|_+$/g, '')      // Remove leading/trailing underscores
-    .substring(0, 64) || 'user';   // Limit length and fallback to 'user' if empty
-}
+const createMessageQuerySchema = z.object({
+  stream: z.string().optional().describe('Stream the assistant reply as Server-Sent Events when "true"')
+});
 
-// Helper function to automatically generate completion for user messages
-async function generateAutoCompletion(
-  threadId: string, 
-  userMessage: any, 
-  env: any,
-  authenticatedUser: any
-): Promise<any | null> {
-  try {
-    const prisma = getDatabaseClient(env.DB);
-    
-    // Get recent messages from the thread (last 10 messages for context)
-    const recentMessages = await prisma.message.findMany({
-      where: { threadId },
-      orderBy: { createdAt: 'asc' },
-      take: 10,
-      select: {
-        role: true,
-        content: true,
-        user: {
-          select: {
-            name: true,
-            nick: true
+// Helper function to stream the completion for a user message as Server-Sent Events.
+// Emits `message.created` (the user message), `completion.delta` for each content
+// chunk and `completion.done` once the assistant message has been stored.
+function streamAutoCompletion(
+  threadId: string,
+  userMessage: any,
+  env: Env,
+  authenticatedUser: AuthenticatedUser,
+  correlationId: string,
+  waitUntil: (promise: Promise<unknown>) => void
+): Response {
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+
+  const run = async () => {
+    try {
+      await sendServerSentEvent(writer, { type: 'message.created', data: userMessage });
+
+      const prisma = getDatabaseClient(env.DB);
+      const completionRequest = await AutoCompletionService.buildRequest(prisma, threadId, env);
+
+      const completionStream = CompletionService.createStreamingCompletion(
+        completionRequest,
+        authenticatedUser,
+        env,
+        completionRequest.messages,
+        { threadId }
+      );
+      let record: CompletionRecord | null = null;
+      let content = '';
+
+      try {
+        let step = await completionStream.next();
+        while (!step.done) {
+          const delta = step.value.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            await sendServerSentEvent(writer, {
+              type: 'completion.delta',
+              data: { content: delta }
+            });
           }
+          step = await completionStream.next();
         }
+        record = step.value;
+      } finally {
+        // Stops the provider stream (and records the disconnect) if the client went away
+        await completionStream.return(null);
       }
-    });
-
-    // Convert to chat completion format
-    const chatMessages = convertMessagesToChatFormat(recentMessages);
-    
-    // Create completion request
-    const completionRequest = {
-      model: env.DEFAULT_AI_MODEL || 'gpt-4o',
-      messages: chatMessages,
-      temperature: 0.7,
-      max_tokens: 1000,
-      n: 1,
-      stream: false
-    };
-
-    // Generate completion using the service
-    const result = await CompletionService.createCompletion(
-      completionRequest, 
-      authenticatedUser, 
-      env
-    );
-
-    // Create assistant message with the completion
-    if (result?.completion?.choices?.[0]?.message?.content) {
-      const assistantMessage = await prisma.message.create({
-        data: {
-          threadId: threadId,
-          userId: null, // Assistant messages don't have a userId
-          role: 'ASSISTANT',
-          content: result.completion.choices[0].message.content,
-          blocks: [],
-          metadata: {
-            completionId: result.record?.id,
-            model: result.completion.model,
-            usage: {
-              prompt_tokens: result.completion.usage?.prompt_tokens,
-              completion_tokens: result.completion.usage?.completion_tokens,
-              total_tokens: result.completion.usage?.total_tokens
-            }
-          }
-        },
-        select: {
-          id: true,
-          role: true,
-          content: true,
-          blocks: true,
-          createdAt: true,
-          updatedAt: true,
-          metadata: true,
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              nick: true,
-              avatarUrl: true
-            }
-          }
+
+      let assistantMessage = null;
+      if (content) {
+        assistantMessage = await AutoCompletionService.createAssistantMessage(prisma, threadId, content, {
+          completionId: record?.id,
+          model: record?.model,
+          usage: record?.usage,
+          finishReason: record?.finishReason
+        });
+
+        if (record) {
+          // Link the completion to the message it produced
+          await prisma.completion.update({
+            where: { id: record.id },
+            data: { messageId: assistantMessage.id }
+          });
         }
-      });
 
-      return assistantMessage;
-    }
+        await publishThreadEvent(env, threadId, { type: 'message.created', message: assistantMessage });
+        await ThreadSummaryService.scheduleUpdates(
+          prisma,
+          env,
+          threadId,
+          authenticatedUser.id,
+          input => JobService.enqueue(prisma, env, input, waitUntil)
+        );
+      }
 
-    return null;
-  } catch (error) {
-    console.error('Error generating auto completion:', error);
-    return null;
-  }
+      await sendServerSentEvent(writer, {
+        type: 'completion.done',
+        data: { assistantMessage }
+      });
+    } catch (error) {
+      console.error('Error streaming auto completion:', error);
+      // The client may already be gone, in which case there is nobody to tell
+      await sendServerSentEvent(writer, {
+        type: 'error',
+        data: { detail: 'Failed to generate completion' }
+      }).catch(() => {});
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  };
+
+  // Streaming the body does not keep the Worker alive by itself: without waitUntil
+  // the completion (and storing its message) could be cut off once the handler returns.
+  // run() reports its own errors, so the promise never rejects.
+  waitUntil(run());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Correlation-ID': correlationId
+    }
+  });
 }
 
-const messageRoutes = new Hono<{ 
+const messageRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: CreateMessageInput | UpdateMessageInput,
-    validatedQuery: MessageQuery,
-    validatedParams: MessageParams | ThreadMessageParams,
     authenticatedUser?: import('../middleware/auth').AuthenticatedUser
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /threads/:threadId/messages - List messages in a thread with pagination
-messageRoutes.get(
-  '/threads/:threadId/messages',
-  validateParams(threadMessageParamsSchema),
-  validateQuery(messageQuerySchema),
+messageRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/messages',
+    tags: ['Messages'],
+    summary: 'List Messages in Thread',
+    description: 'Get a paginated list of messages in a specific thread',
+    request: { params: threadMessageParamsSchema, query: messageQuerySchema },
+    responses: {
+      200: paginatedResponse('List of messages', schemaRef('Message')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { threadId } = c.get('validatedParams') as ThreadMessageParams;
-      const query = c.get('validatedQuery') as MessageQuery;
-      
-      // Check if thread exists
-      const thread = await prisma.thread.findUnique({
-        where: { id: threadId }
-      });
+      const { threadId } = c.req.valid('param');
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
 
-      if (!thread) {
+      if (!authenticatedUser) {
         return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${threadId} was not found`
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access messages'
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       // Build where clause for filtering
       const where: any = {
         threadId: threadId
@@ -298,13 +312,32 @@ messageRoutes.get(
 );
 
 // GET /messages/:id - Get message by ID
-messageRoutes.get(
-  '/messages/:id',
-  validateParams(messageParamsSchema),
+messageRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/messages/{id}',
+    tags: ['Messages'],
+    summary: 'Get Message by ID',
+    description: 'Retrieve a specific message by its ID',
+    request: { params: messageParamsSchema },
+    responses: {
+      200: successResponse('Message details', schemaRef('Message')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as MessageParams;
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access messages'
+        }, getCorrelationId(c.req.raw));
+      }
 
       const message = await prisma.message.findUnique({
         where: { id },
@@ -369,6 +402,11 @@ messageRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, message.thread.id, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       return createSuccessResponse(message, {
         correlation_id: getCorrelationId(c.req.raw)
       });
@@ -383,32 +421,54 @@ messageRoutes.get(
   }
 );
 
-// POST /threads/:threadId/messages - Create new message in thread
-messageRoutes.post(
-  '/threads/:threadId/messages',
-  validateParams(threadMessageParamsSchema),
-  validateBody(createMessageSchema),
+// POST /threads/:threadId/messages - Create new message in thread; the assistant reply is generated
+// by a background job (202), or streamed with ?stream=true
+messageRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/{threadId}/messages',
+    tags: ['Messages'],
+    summary: 'Create Message',
+    description: 'Create a new message in a thread. USER messages trigger an assistant reply, generated by a background job: the response is `202` with the job, and the reply arrives as a `message.created` event (the job\'s result holds its `assistantMessageId`). With `stream=true` the reply is streamed as Server-Sent Events (`message.created`, `completion.delta`, `completion.done`, `error`) instead.',
+    request: {
+      params: threadMessageParamsSchema,
+      query: createMessageQuerySchema,
+      body: jsonBody(createMessageSchema)
+    },
+    responses: {
+      200: successResponse('Message created; no assistant reply was requested', {
+        type: 'object',
+        properties: { userMessage: schemaRef('Message') }
+      }, { eventStream: 'Returned when stream=true' }),
+      202: acceptedResponse('Message created; the assistant reply is being generated by the job in the Location header', {
+        type: 'object',
+        properties: { userMessage: schemaRef('Message'), job: schemaRef('Job') }
+      }),
+      ...errorResponses(400, 401, 403, 404, 429, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { threadId } = c.get('validatedParams') as ThreadMessageParams;
-      const messageData = c.get('validatedBody') as CreateMessageInput;
-
-      // Check if thread exists
-      const thread = await prisma.thread.findUnique({
-        where: { id: threadId }
-      });
+      const { threadId } = c.req.valid('param');
+      const messageData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
 
-      if (!thread) {
+      if (!authenticatedUser) {
         return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${threadId} was not found`
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to post messages'
         }, getCorrelationId(c.req.raw));
       }
 
+      // Viewers can read a thread but not post to it
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'comment');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       // For user messages, get userId from authenticated user; for assistant messages it's null
-      const authenticatedUser = c.get('authenticatedUser');
       const userId = authenticatedUser?.id
       // messageData.role === 'USER' ? 
       //   (messageData.userId || authenticatedUser?.id) : null;
@@ -422,12 +482,22 @@ messageRoutes.post(
         }, getCorrelationId(c.req.raw));
       }
 
+      const autoComplete = messageData.role === 'USER' && !!authenticatedUser && c.env.AUTO_COMPLETION_ENABLED !== 'false';
+
+      // Enforce the token budget before storing a message that would call the provider
+      if (autoComplete) {
+        const quota = await QuotaService.check(authenticatedUser, c.env.DEFAULT_AI_MODEL || 'gpt-4o', c.env);
+        if (!quota.allowed) {
+          return createRateLimitResponse(getCorrelationId(c.req.raw), quota.retryAfter);
+        }
+      }
+
       const message = await prisma.message.create({
         data: {
           threadId: threadId,
           userId: userId,
           role: messageData.role,
-          content: messageData.content,
+          content: messageData.content ?? blocksToMarkdown(messageData.blocks),
           blocks: messageData.blocks || [],
           metadata: messageData.metadata || {}
         },
@@ -459,29 +529,40 @@ messageRoutes.post(
           });
         }
 
+      await publishThreadEvent(c.env, threadId, { type: 'message.created', message });
+
       // Auto-generate completion for user messages
-      let assistantMessage = null;
-      if (messageData.role === 'USER' && authenticatedUser && c.env.AUTO_COMPLETION_ENABLED !== 'false') {
-        try {
-          assistantMessage = await generateAutoCompletion(
-            threadId, 
-            message, 
-            c.env, 
-            authenticatedUser
+      if (autoComplete && authenticatedUser) {
+        // Opt-in: stream the assistant reply instead of waiting for it
+        if (c.req.valid('query').stream === 'true') {
+          return streamAutoCompletion(
+            threadId,
+            message,
+            c.env,
+            authenticatedUser,
+            getCorrelationId(c.req.raw),
+            promise => c.executionCtx.waitUntil(promise)
           );
-        } catch (error) {
-          console.error('Error generating auto completion:', error);
-          // Continue without failing the entire request
         }
-      }
 
-      // Return both the user message and assistant message if generated
-      const response = {
-        userMessage: message,
-        ...(assistantMessage && { assistantMessage })
-      };
+        // The reply arrives as a message.created event; the job reports its ID once done
+        const job = await JobService.enqueue(
+          prisma,
+          c.env,
+          {
+            type: 'message.auto_completion',
+            payload: { threadId, messageId: message.id },
+            userId: authenticatedUser.id
+          },
+          promise => c.executionCtx.waitUntil(promise)
+        );
+
+        return createAcceptedResponse({ userMessage: message, job }, `/api/v1/jobs/${job.id}`, {
+          correlation_id: getCorrelationId(c.req.raw)
+        });
+      }
 
-      return createSuccessResponse(response, {
+      return createSuccessResponse({ userMessage: message }, {
         correlation_id: getCorrelationId(c.req.raw)
       });
     } catch (error) {
@@ -496,15 +577,33 @@ messageRoutes.post(
 );
 
 // PUT /messages/:id - Update message
-messageRoutes.put(
-  '/messages/:id',
-  validateParams(messageParamsSchema),
-  validateBody(updateMessageSchema),
+messageRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/messages/{id}',
+    tags: ['Messages'],
+    summary: 'Update Message',
+    description: 'Update an existing message',
+    request: { params: messageParamsSchema, body: jsonBody(updateMessageSchema) },
+    responses: {
+      200: successResponse('Message updated successfully', schemaRef('Message')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as MessageParams;
-      const updateData = c.get('validatedBody') as UpdateMessageInput;
+      const { id } = c.req.valid('param');
+      const updateData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to update messages'
+        }, getCorrelationId(c.req.raw));
+      }
 
       // Check if message exists
       const existingMessage = await prisma.message.findUnique({
@@ -519,9 +618,21 @@ messageRoutes.put(
         }, getCorrelationId(c.req.raw));
       }
 
+      // Authors may edit their own messages; anyone else's require the edit permission
+      const isAuthor = existingMessage.userId === authenticatedUser.id;
+      const access = await ThreadAccessService.check(prisma, existingMessage.threadId, authenticatedUser, isAuthor ? 'comment' : 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Keep the text fallback in sync when only the blocks change
+      const data = updateData.blocks && updateData.content === undefined
+        ? { ...updateData, content: blocksToMarkdown(updateData.blocks) }
+        : updateData;
+
       const message = await prisma.message.update({
         where: { id },
-        data: updateData,
+        data,
         select: {
           id: true,
           role: true,
@@ -542,6 +653,8 @@ messageRoutes.put(
         }
       });
 
+      await publishThreadEvent(c.env, existingMessage.threadId, { type: 'message.updated', message });
+
       return createSuccessResponse(message, {
         correlation_id: getCorrelationId(c.req.raw)
       });
@@ -557,13 +670,35 @@ messageRoutes.put(
 );
 
 // DELETE /messages/:id - Delete message
-messageRoutes.delete(
-  '/messages/:id',
-  validateParams(messageParamsSchema),
+messageRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/messages/{id}',
+    tags: ['Messages'],
+    summary: 'Delete Message',
+    description: 'Delete a message',
+    request: { params: messageParamsSchema },
+    responses: {
+      200: successResponse('Message deleted successfully', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as MessageParams;
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to delete messages'
+        }, getCorrelationId(c.req.raw));
+      }
 
       // Check if message exists
       const existingMessage = await prisma.message.findUnique({
@@ -578,10 +713,19 @@ messageRoutes.delete(
         }, getCorrelationId(c.req.raw));
       }
 
+      // Authors may delete their own messages; anyone else's require the edit permission
+      const isAuthor = existingMessage.userId === authenticatedUser.id;
+      const access = await ThreadAccessService.check(prisma, existingMessage.threadId, authenticatedUser, isAuthor ? 'comment' : 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       await prisma.message.delete({
         where: { id }
       });
 
+      await publishThreadEvent(c.env, existingMessage.threadId, { type: 'message.deleted', messageId: id });
+
       return createSuccessResponse({
         deleted: true,
         id
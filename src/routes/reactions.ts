@@ -1,6 +1,6 @@
 // Reaction API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -12,12 +12,16 @@ import {
   addReactionSchema,
   cuidSchema 
 } from '../utils/validation';
-import type { AddReactionInput } from '../utils/validation';
-import { validateBody, validateParams } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, schemaRef, successResponse } from '../utils/openapi';
 import { authenticateUser, getCurrentUser, type AuthenticatedUser } from '../middleware/auth';
+import { publishThreadEvent } from '../services/realtime-service';
+import { ThreadAccessService } from '../services/thread-access-service';
+import type { ThreadRoom } from '../durable-objects/thread-room';
 
 export interface Env {
   DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
 }
 
 // Parameter validation schemas
@@ -25,25 +29,40 @@ const messageReactionParamsSchema = z.object({
   messageId: cuidSchema
 });
 
-type MessageReactionParams = z.infer<typeof messageReactionParamsSchema>;
-
-const reactionRoutes = new Hono<{ 
+const reactionRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: AddReactionInput,
-    validatedParams: MessageReactionParams,
     authenticatedUser: AuthenticatedUser
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /messages/:messageId/reactions - Get reactions for a message
-reactionRoutes.get(
-  '/messages/:messageId/reactions',
-  validateParams(messageReactionParamsSchema),
+reactionRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/messages/{messageId}/reactions',
+    tags: ['Reactions'],
+    summary: 'Get Message Reactions',
+    description: 'Get all reactions for a specific message, grouped by emoji',
+    request: { params: messageReactionParamsSchema },
+    responses: {
+      200: successResponse('Message reactions grouped by emoji', schemaRef('MessageReactions')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { messageId } = c.get('validatedParams') as MessageReactionParams;
+      const { messageId } = c.req.valid('param');
+      const user = getCurrentUser(c);
+
+      if (!user) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'User must be authenticated to view reactions'
+        }, getCorrelationId(c.req.raw));
+      }
 
       // Check if message exists
       const message = await prisma.message.findUnique({
@@ -58,6 +77,11 @@ reactionRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, message.threadId, user, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       const reactions = await prisma.reaction.findMany({
         where: { messageId },
         select: {
@@ -112,16 +136,30 @@ reactionRoutes.get(
 );
 
 // POST /messages/:messageId/reactions - Add or remove reaction
-reactionRoutes.post(
-  '/messages/:messageId/reactions',
-  authenticateUser,
-  validateParams(messageReactionParamsSchema),
-  validateBody(addReactionSchema),
+reactionRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/messages/{messageId}/reactions',
+    tags: ['Reactions'],
+    summary: 'Add or Remove Reaction',
+    description: 'Add or remove a reaction to/from a message',
+    middleware: [authenticateUser],
+    request: {
+      params: messageReactionParamsSchema,
+      body: jsonBody(addReactionSchema)
+    },
+    responses: {
+      200: successResponse('Reaction added or removed successfully', {
+        oneOf: [schemaRef('Reaction'), schemaRef('RemovedReaction')]
+      }),
+      ...errorResponses(400, 401, 403, 404, 409, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { messageId } = c.get('validatedParams') as MessageReactionParams;
-      const reactionData = c.get('validatedBody') as AddReactionInput;
+      const { messageId } = c.req.valid('param');
+      const reactionData = c.req.valid('json');
       const user = getCurrentUser(c);
 
       if (!user) {
@@ -145,6 +183,11 @@ reactionRoutes.post(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, message.threadId, user, 'comment');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       const userId = user.id;
 
       // Ensure the user exists in the database (auto-create if authenticated but not in DB)
@@ -208,6 +251,13 @@ reactionRoutes.post(
           }
         });
 
+        await publishThreadEvent(c.env, message.threadId, {
+          type: 'reaction.added',
+          messageId,
+          emoji: reactionData.emoji,
+          userId
+        });
+
         return createSuccessResponse(reaction, {
           correlation_id: getCorrelationId(c.req.raw)
         });
@@ -233,6 +283,13 @@ reactionRoutes.post(
           where: { id: existingReaction.id }
         });
 
+        await publishThreadEvent(c.env, message.threadId, {
+          type: 'reaction.removed',
+          messageId,
+          emoji: reactionData.emoji,
+          userId
+        });
+
         return createSuccessResponse({
           removed: true,
           emoji: reactionData.emoji,
@@ -259,14 +316,31 @@ reactionRoutes.post(
 );
 
 // DELETE /messages/:messageId/reactions - Remove all user reactions from a message
-reactionRoutes.delete(
-  '/messages/:messageId/reactions',
-  authenticateUser,
-  validateParams(messageReactionParamsSchema),
+reactionRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/messages/{messageId}/reactions',
+    tags: ['Reactions'],
+    summary: 'Remove My Reactions',
+    description: 'Remove all of the authenticated user\'s reactions from a message',
+    middleware: [authenticateUser],
+    request: { params: messageReactionParamsSchema },
+    responses: {
+      200: successResponse('Reactions removed', {
+        type: 'object',
+        properties: {
+          removed: { type: 'boolean' },
+          messageId: { type: 'string' },
+          count: { type: 'number', description: 'Number of reactions removed' }
+        }
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { messageId } = c.get('validatedParams') as MessageReactionParams;
+      const { messageId } = c.req.valid('param');
       const user = getCurrentUser(c);
 
       if (!user) {
@@ -290,6 +364,11 @@ reactionRoutes.delete(
         }, getCorrelationId(c.req.raw));
       }
 
+      const access = await ThreadAccessService.check(prisma, message.threadId, user, 'comment');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
       const userId = user.id;
 
       // Ensure the user exists in the database
@@ -312,6 +391,12 @@ reactionRoutes.delete(
         });
       }
 
+      // Remember which emojis are removed so connected clients can be told
+      const userReactions = await prisma.reaction.findMany({
+        where: { messageId, userId },
+        select: { emoji: true }
+      });
+
       // Remove all user reactions for this message
       const deleteResult = await prisma.reaction.deleteMany({
         where: {
@@ -320,6 +405,15 @@ reactionRoutes.delete(
         }
       });
 
+      for (const reaction of userReactions) {
+        await publishThreadEvent(c.env, message.threadId, {
+          type: 'reaction.removed',
+          messageId,
+          emoji: reaction.emoji,
+          userId
+        });
+      }
+
       return createSuccessResponse({
         removed: true,
         messageId,
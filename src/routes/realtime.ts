@@ -0,0 +1,105 @@
+// Real-time (WebSocket) API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import { createErrorResponse, getCorrelationId } from '../utils/response';
+import { cuidSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { emptyResponse, errorResponses, problemResponse } from '../utils/openapi';
+import {
+  REALTIME_USER_HEADER,
+  REALTIME_THREAD_HEADER,
+  toRealtimeUser
+} from '../services/realtime-service';
+import { ThreadAccessService } from '../services/thread-access-service';
+import type { ThreadRoom } from '../durable-objects/thread-room';
+
+export interface Env {
+  DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
+}
+
+// Parameter validation schemas
+const threadSocketParamsSchema = z.object({
+  threadId: cuidSchema
+});
+
+const realtimeRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// GET /threads/:threadId/ws - Open a WebSocket for live thread events
+realtimeRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/ws',
+    tags: ['Realtime'],
+    summary: 'Subscribe to Thread Events',
+    description: 'Upgrade to a WebSocket that streams live events for a thread: message, reaction and artifact changes, typing indicators and presence. Clients may send `{"type":"typing","isTyping":true}` and `{"type":"ping"}` frames. Every server frame is a JSON-encoded ThreadEvent.',
+    request: { params: threadSocketParamsSchema },
+    responses: {
+      101: emptyResponse('Switching protocols; the connection now carries ThreadEvent frames'),
+      426: problemResponse('Request is not a WebSocket upgrade'),
+      ...errorResponses(400, 401, 403, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const { threadId } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to subscribe to thread events'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (c.req.header('Upgrade') !== 'websocket') {
+        return createErrorResponse({
+          status: 426,
+          title: 'Upgrade Required',
+          detail: 'This endpoint only accepts WebSocket connections'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (!c.env.THREAD_ROOMS) {
+        return createErrorResponse({
+          status: 503,
+          title: 'Service Unavailable',
+          detail: 'Real-time updates are not configured'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const prisma = getDatabaseClient(c.env.DB);
+
+      // Any member of the thread may subscribe
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Forward the upgrade to the thread's Durable Object with the verified user attached
+      const headers = new Headers(c.req.raw.headers);
+      headers.set(REALTIME_USER_HEADER, JSON.stringify(toRealtimeUser(authenticatedUser)));
+      headers.set(REALTIME_THREAD_HEADER, threadId);
+
+      const stub = c.env.THREAD_ROOMS.get(c.env.THREAD_ROOMS.idFromName(threadId));
+      return stub.fetch(new Request(c.req.url, { headers }));
+    } catch (error) {
+      console.error('Error opening thread socket:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to open thread socket'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { realtimeRoutes };
@@ -0,0 +1,94 @@
+// Search API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import {
+  createErrorResponse,
+  getCorrelationId,
+  createPaginatedResponse
+} from '../utils/response';
+import { searchQuerySchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, paginatedResponse, schemaRef } from '../utils/openapi';
+import { SearchService } from '../services/search-service';
+import { buildFtsQuery, decodeSearchCursor, encodeSearchCursor } from '../utils/search';
+
+export interface Env {
+  DB: D1Database;
+}
+
+const searchRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// GET /search - Full-text search across the user's messages, threads and artifacts
+searchRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/search',
+    tags: ['Search'],
+    summary: 'Search',
+    description: 'Full-text search across message content, thread titles and artifact titles, descriptions and content in the caller\'s own threads. Results are ranked by relevance and include highlighted snippets: HTML-escaped excerpts with matches wrapped in <mark></mark>.',
+    request: { query: searchQuerySchema },
+    responses: {
+      200: paginatedResponse('Ranked search results', schemaRef('SearchResult')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to search'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (!buildFtsQuery(query.q)) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Validation Error',
+          detail: 'The search query must contain at least one letter or digit',
+          errors: { q: ['No searchable terms found'] }
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const offset = decodeSearchCursor(query.cursor);
+      const results = await SearchService.search({
+        q: query.q,
+        type: query.type,
+        threadId: query.threadId,
+        offset,
+        limit: query.limit
+      }, authenticatedUser, c.env);
+
+      // Check if there are more results
+      const hasMore = results.length > query.limit;
+      const items = hasMore ? results.slice(0, -1) : results;
+      const continuationToken = hasMore ? encodeSearchCursor(offset + items.length) : undefined;
+
+      return createPaginatedResponse(items, {
+        hasMore,
+        continuationToken,
+        pageSize: query.limit
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error searching:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to perform search'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { searchRoutes };
@@ -0,0 +1,448 @@
+// Share link management API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  getCorrelationId
+} from '../utils/response';
+import {
+  createShareLinkSchema,
+  paginationQuerySchema,
+  cuidSchema
+} from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, errorResponses, jsonBody, paginatedResponse, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { ShareLinkError, ShareLinkService } from '../services/share-link-service';
+
+export interface Env {
+  DB: D1Database;
+  JWT_SECRET?: string;
+  SHARE_LINK_SECRET?: string;
+}
+
+// Parameter validation schemas
+const threadShareParamsSchema = z.object({
+  threadId: cuidSchema
+});
+
+const shareLinkParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const CREATOR_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    nick: true
+  }
+} as const;
+
+const shareLinkRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// POST /threads/:threadId/share-links - Create a public read-only link to a thread
+shareLinkRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/{threadId}/share-links',
+    tags: ['Sharing'],
+    summary: 'Share Thread',
+    description: 'Create a signed, read-only public link to the thread with an optional expiry and password. Requires the OWNER role.',
+    request: {
+      params: threadShareParamsSchema,
+      body: jsonBody(createShareLinkSchema)
+    },
+    responses: {
+      200: successResponse('Share link created', schemaRef('ShareLink')),
+      403: problemResponse('Only owners can share threads'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const linkData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to share threads'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Checked before anything is written so a misconfiguration changes nothing
+      const secret = ShareLinkService.getSecret(c.env);
+
+      // Public links reach people outside the thread, so only owners may create them
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const link = await ShareLinkService.create(prisma, {
+        threadId,
+        createdBy: authenticatedUser.id,
+        expiresAt: linkData.expiresAt,
+        password: linkData.password
+      });
+
+      return createSuccessResponse(
+        await ShareLinkService.toView(link, new URL(c.req.url).origin, secret),
+        { correlation_id: getCorrelationId(c.req.raw) }
+      );
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error creating thread share link:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to create share link'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// POST /artifacts/:id/share-links - Create a public read-only link to a single artifact
+shareLinkRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/artifacts/{id}/share-links',
+    tags: ['Sharing'],
+    summary: 'Share Artifact',
+    description: 'Create a signed, read-only public link to a single artifact. Requires the OWNER role in its thread.',
+    request: { params: shareLinkParamsSchema, body: jsonBody(createShareLinkSchema) },
+    responses: {
+      200: successResponse('Share link created', schemaRef('ShareLink')),
+      403: problemResponse('Only owners can share artifacts'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const linkData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to share artifacts'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Checked before anything is written so a misconfiguration changes nothing
+      const secret = ShareLinkService.getSecret(c.env);
+
+      const artifact = await prisma.artifact.findUnique({
+        where: { id },
+        select: { id: true, threadId: true }
+      });
+
+      if (!artifact) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Artifact Not Found',
+          detail: `Artifact with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, artifact.threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const link = await ShareLinkService.create(prisma, {
+        threadId: artifact.threadId,
+        artifactId: artifact.id,
+        createdBy: authenticatedUser.id,
+        expiresAt: linkData.expiresAt,
+        password: linkData.password
+      });
+
+      return createSuccessResponse(
+        await ShareLinkService.toView(link, new URL(c.req.url).origin, secret),
+        { correlation_id: getCorrelationId(c.req.raw) }
+      );
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error creating artifact share link:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to create share link'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /threads/:threadId/share-links - List the thread's share links, including artifact links
+shareLinkRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/share-links',
+    tags: ['Sharing'],
+    summary: 'List Share Links',
+    request: { params: threadShareParamsSchema },
+    responses: {
+      200: successResponse('Share links', arrayOf(schemaRef('ShareLink'))),
+      403: problemResponse('Only owners can manage share links'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access share links'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const secret = ShareLinkService.getSecret(c.env);
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const links = await prisma.shareLink.findMany({
+        where: { threadId },
+        include: { creator: CREATOR_SELECT },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      const baseUrl = new URL(c.req.url).origin;
+      return createSuccessResponse(
+        await Promise.all(links.map((link: any) => ShareLinkService.toView(link, baseUrl, secret))),
+        { correlation_id: getCorrelationId(c.req.raw) }
+      );
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error fetching share links:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch share links'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /share-links/:id/accesses - Who opened a share link, newest first
+shareLinkRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/share-links/{id}/accesses',
+    tags: ['Sharing'],
+    summary: 'List Share Link Accesses',
+    description: 'Who opened a share link, newest first. Signed-in viewers are identified by account, others by IP address, user agent and country.',
+    request: { params: shareLinkParamsSchema, query: paginationQuerySchema },
+    responses: {
+      200: paginatedResponse('Paginated share link accesses', schemaRef('ShareLinkAccess')),
+      403: problemResponse('Only owners can view share link accesses'),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access share links'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const link = await prisma.shareLink.findUnique({
+        where: { id },
+        select: { id: true, threadId: true }
+      });
+
+      if (!link) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Share Link Not Found',
+          detail: `Share link with ID ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, link.threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const queryOptions: any = {
+        where: { shareLinkId: id },
+        select: {
+          id: true,
+          accessedAt: true,
+          ipAddress: true,
+          userAgent: true,
+          country: true,
+          referer: true,
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              nick: true
+            }
+          }
+        },
+        take: query.limit + 1,
+        orderBy: { accessedAt: 'desc' }
+      };
+
+      if (query.cursor) {
+        queryOptions.cursor = { id: query.cursor };
+        queryOptions.skip = 1;
+      }
+
+      const accesses = await prisma.shareLinkAccess.findMany(queryOptions);
+
+      const hasMore = accesses.length > query.limit;
+      const items = hasMore ? accesses.slice(0, -1) : accesses;
+      const continuationToken = hasMore ? items[items.length - 1].id : undefined;
+
+      return createPaginatedResponse(items, {
+        hasMore,
+        continuationToken,
+        pageSize: query.limit
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching share link accesses:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch share link accesses'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// DELETE /share-links/:id - Revoke a share link
+shareLinkRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/share-links/{id}',
+    tags: ['Sharing'],
+    summary: 'Revoke Share Link',
+    description: 'Revoke a share link. The link stops working immediately; its access history is kept.',
+    request: { params: shareLinkParamsSchema },
+    responses: {
+      200: successResponse('Share link revoked', schemaRef('ShareLink')),
+      403: problemResponse('Only owners can revoke share links'),
+      ...errorResponses(400, 401, 404, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to revoke share links'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Checked before anything is written so a misconfiguration changes nothing
+      const secret = ShareLinkService.getSecret(c.env);
+
+      const existingLink = await prisma.shareLink.findUnique({
+        where: { id }
+      });
+
+      if (!existingLink) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Share Link Not Found',
+          detail: `Share link with ID ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, existingLink.threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      // Revoked links are kept so their access history stays available
+      const link = existingLink.revokedAt ? existingLink : await prisma.shareLink.update({
+        where: { id },
+        data: { revokedAt: new Date() }
+      });
+
+      return createSuccessResponse(
+        await ShareLinkService.toView(link, new URL(c.req.url).origin, secret),
+        { correlation_id: getCorrelationId(c.req.raw) }
+      );
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error revoking share link:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to revoke share link'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { shareLinkRoutes };
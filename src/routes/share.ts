@@ -0,0 +1,106 @@
+// Public share link routes (no authentication required)
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { optionalAuth } from '../middleware/auth';
+import { ShareLinkService, ShareLinkError } from '../services/share-link-service';
+
+export interface Env {
+  DB: D1Database;
+  JWT_SECRET?: string;
+  SHARE_LINK_SECRET?: string;
+  ALLOWED_DOMAINS?: string;
+}
+
+// Parameter validation schemas
+const shareTokenParamsSchema = z.object({
+  token: z.string().min(1).max(200)
+});
+
+// Header names are matched in lower case
+const shareHeadersSchema = z.object({
+  'x-share-password': z.string().optional().describe('Password for protected links')
+});
+
+const shareRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// GET /share/:token - Read-only view of a shared thread or artifact
+shareRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/share/{token}',
+    tags: ['Sharing'],
+    summary: 'Open Share Link',
+    description: 'Public, unauthenticated read-only view of a shared thread or artifact. Blocks are sanitized (no interactive elements or metadata) and authors are shown without emails. Each successful open is recorded.',
+    security: [],
+    middleware: [optionalAuth],
+    request: { params: shareTokenParamsSchema, headers: shareHeadersSchema },
+    responses: {
+      200: successResponse('Shared content', schemaRef('SharedView')),
+      401: problemResponse('Password required or incorrect'),
+      410: problemResponse('Share link revoked or expired'),
+      ...errorResponses(400, 404, 429, 500, 503)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { token } = c.req.valid('param');
+
+      const link = await ShareLinkService.resolve(
+        prisma,
+        token,
+        c.req.header('X-Share-Password'),
+        ShareLinkService.getSecret(c.env)
+      );
+
+      const view = await ShareLinkService.buildPublicView(prisma, link);
+
+      // Signed-in viewers are recorded by account, everyone else by client details
+      await ShareLinkService.recordAccess(prisma, link.id, {
+        userId: c.get('authenticatedUser')?.id,
+        ipAddress: c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For')?.split(',')[0].trim(),
+        userAgent: c.req.header('User-Agent')?.slice(0, 500),
+        country: (c.req.raw.cf?.country as string | undefined) ?? undefined,
+        referer: c.req.header('Referer')?.slice(0, 500)
+      }).catch(error => console.error('Error recording share link access:', error));
+
+      const response = createSuccessResponse(view, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+      response.headers.set('Cache-Control', 'private, no-store');
+      response.headers.set('X-Robots-Tag', 'noindex, nofollow');
+      return response;
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error opening share link:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to open share link'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { shareRoutes };
@@ -0,0 +1,215 @@
+// Thread import API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createAcceptedResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import { cuidSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { acceptedResponse, arrayOf, contentBody, errorResponses, schemaRef, successResponse } from '../utils/openapi';
+import { ImportService, ThreadImportError, THREAD_IMPORT_SELECT } from '../services/import-service';
+import { JobService } from '../services/job-service';
+import { MAX_IMPORT_BYTES, parseImportPayload } from '../utils/thread-import';
+import type { JobMessage } from '../utils/jobs';
+
+export interface Env {
+  DB: D1Database;
+  FILES?: R2Bucket;
+  JOBS?: Queue<JobMessage>;
+}
+
+// Parameter validation schemas
+const importParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const threadImportRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+const importTooLarge = {
+  status: 413,
+  title: 'Payload Too Large',
+  detail: `Imports may be at most ${MAX_IMPORT_BYTES} bytes; split larger exports`
+};
+
+// POST /threads/import - Import threads from a thread export or a ChatGPT conversations.json
+threadImportRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/import',
+    tags: ['Threads'],
+    summary: 'Import Threads',
+    description: 'Import a thread export document or a ChatGPT conversations.json file (at most 25 MB). Imports of up to 500 messages complete within the request; larger ones return 202 and continue in the background; poll the Location for progress. The importer owns the imported threads.',
+    request: {
+      body: contentBody({
+        'application/json': {
+          oneOf: [
+            schemaRef('ThreadExport'),
+            {
+              ...arrayOf({ type: 'object', additionalProperties: true }),
+              description: 'ChatGPT conversations.json: conversations with a mapping of message nodes and a current_node'
+            }
+          ]
+        }
+      })
+    },
+    responses: {
+      200: successResponse('Import completed', schemaRef('ThreadImport')),
+      202: acceptedResponse('Import accepted and running in the background', schemaRef('ThreadImport')),
+      ...errorResponses(400, 401, 413, 429, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to import threads'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (Number(c.req.header('Content-Length') ?? 0) > MAX_IMPORT_BYTES) {
+        return createErrorResponse(importTooLarge, getCorrelationId(c.req.raw));
+      }
+
+      const body = await c.req.text();
+      if (body.length > MAX_IMPORT_BYTES) {
+        return createErrorResponse(importTooLarge, getCorrelationId(c.req.raw));
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return createErrorResponse({
+          status: 400,
+          title: 'Bad Request',
+          detail: 'Invalid request body format'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const parsed = parseImportPayload(payload);
+      if (!parsed.success) {
+        return createValidationErrorResponse(parsed.errors, getCorrelationId(c.req.raw));
+      }
+
+      const threadImport = await ImportService.start(
+        prisma,
+        c.env,
+        authenticatedUser,
+        parsed.data,
+        importId => JobService.enqueue(
+          prisma,
+          c.env,
+          { type: 'thread.import', payload: { importId }, userId: authenticatedUser.id },
+          promise => c.executionCtx.waitUntil(promise)
+        )
+      );
+
+      if (threadImport.status === 'FAILED') {
+        return createErrorResponse({
+          status: 500,
+          title: 'Import Failed',
+          detail: threadImport.error ?? 'Failed to import threads'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Large imports continue in the background; poll the import for progress
+      if (threadImport.status !== 'COMPLETED') {
+        return createAcceptedResponse(threadImport, `/api/v1/threads/imports/${threadImport.id}`, {
+          correlation_id: getCorrelationId(c.req.raw)
+        });
+      }
+
+      return createSuccessResponse(threadImport, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      if (error instanceof ThreadImportError) {
+        return createErrorResponse({
+          status: error.status,
+          title: error.title,
+          detail: error.message
+        }, getCorrelationId(c.req.raw));
+      }
+
+      console.error('Error importing threads:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to import threads'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /threads/imports/:id - Get the progress of an import
+threadImportRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/imports/{id}',
+    tags: ['Threads'],
+    summary: 'Get Import Progress',
+    description: 'Status and progress of one of your imports',
+    request: { params: importParamsSchema },
+    responses: {
+      200: successResponse('Import progress', schemaRef('ThreadImport')),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access imports'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const threadImport = await prisma.threadImport.findFirst({
+        where: { id, userId: authenticatedUser.id },
+        select: THREAD_IMPORT_SELECT
+      });
+
+      if (!threadImport) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Import Not Found',
+          detail: `Import with ID ${id} was not found or you don't have access to it`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      return createSuccessResponse(threadImport, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching import:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch import'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { threadImportRoutes };
@@ -0,0 +1,377 @@
+// Thread member (sharing) API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createConflictResponse,
+  getCorrelationId
+} from '../utils/response';
+import {
+  addThreadMemberSchema,
+  updateThreadMemberSchema,
+  cuidSchema
+} from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, errorResponses, jsonBody, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { publishThreadEvent } from '../services/realtime-service';
+import { normalizeEmail } from '../utils/thread-permissions';
+import type { ThreadRoom } from '../durable-objects/thread-room';
+
+export interface Env {
+  DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<ThreadRoom>;
+}
+
+// Parameter validation schemas
+const threadMembersParamsSchema = z.object({
+  threadId: cuidSchema
+});
+
+const threadMemberParamsSchema = z.object({
+  threadId: cuidSchema,
+  memberId: cuidSchema
+});
+
+const MEMBER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      nick: true,
+      avatarUrl: true
+    }
+  },
+  inviter: {
+    select: {
+      id: true,
+      name: true,
+      nick: true
+    }
+  }
+} as const;
+
+const threadMemberRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// GET /threads/:threadId/members - List the people a thread is shared with
+threadMemberRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{threadId}/members',
+    tags: ['Threads'],
+    summary: 'List Thread Members',
+    description: 'List the people a thread is shared with and their roles. Any member may list members.',
+    request: { params: threadMembersParamsSchema },
+    responses: {
+      200: successResponse('Thread members', arrayOf(schemaRef('ThreadMember'))),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to access thread members'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const members = await prisma.threadMember.findMany({
+        where: { threadId },
+        select: MEMBER_SELECT,
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return createSuccessResponse(members, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching thread members:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch thread members'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// POST /threads/:threadId/members - Invite a user by email
+threadMemberRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/{threadId}/members',
+    tags: ['Threads'],
+    summary: 'Invite Thread Member',
+    description: 'Share a thread with someone by email. People who have not signed in yet get access on their first sign-in. Requires the OWNER role.',
+    request: {
+      params: threadMembersParamsSchema,
+      body: jsonBody(addThreadMemberSchema)
+    },
+    responses: {
+      200: successResponse('Member added', schemaRef('ThreadMember')),
+      403: problemResponse('Only owners can invite members'),
+      ...errorResponses(400, 401, 404, 409, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const memberData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to invite thread members'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const email = normalizeEmail(memberData.email);
+
+      const existingMember = await prisma.threadMember.findUnique({
+        where: { threadId_email: { threadId, email } }
+      });
+
+      if (existingMember) {
+        return createConflictResponse(
+          `${email} is already a member of this thread`,
+          getCorrelationId(c.req.raw)
+        );
+      }
+
+      // Users who have not signed in yet are linked on their first access
+      const invitee = await prisma.user.findFirst({
+        where: { email: { in: [memberData.email, email] } },
+        select: { id: true }
+      });
+
+      const member = await prisma.threadMember.create({
+        data: {
+          threadId,
+          email,
+          userId: invitee?.id,
+          role: memberData.role,
+          invitedBy: authenticatedUser.id
+        },
+        select: MEMBER_SELECT
+      });
+
+      await publishThreadEvent(c.env, threadId, { type: 'member.added', member });
+
+      return createSuccessResponse(member, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error adding thread member:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to add thread member'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// PUT /threads/:threadId/members/:memberId - Change a member's role
+threadMemberRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/threads/{threadId}/members/{memberId}',
+    tags: ['Threads'],
+    summary: 'Change Member Role',
+    request: {
+      params: threadMemberParamsSchema,
+      body: jsonBody(updateThreadMemberSchema)
+    },
+    responses: {
+      200: successResponse('Member updated', schemaRef('ThreadMember')),
+      403: problemResponse('Only owners can change roles'),
+      ...errorResponses(400, 401, 404, 409, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId, memberId } = c.req.valid('param');
+      const updateData = c.req.valid('json');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to update thread members'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const existingMember = await prisma.threadMember.findFirst({
+        where: { id: memberId, threadId }
+      });
+
+      if (!existingMember) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Member Not Found',
+          detail: `Member with ID ${memberId} was not found in this thread`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (existingMember.userId && existingMember.userId === access.thread.userId) {
+        return createConflictResponse(
+          'The thread creator always remains an owner',
+          getCorrelationId(c.req.raw)
+        );
+      }
+
+      const member = await prisma.threadMember.update({
+        where: { id: memberId },
+        data: { role: updateData.role },
+        select: MEMBER_SELECT
+      });
+
+      await publishThreadEvent(c.env, threadId, { type: 'member.updated', member });
+
+      return createSuccessResponse(member, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error updating thread member:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to update thread member'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// DELETE /threads/:threadId/members/:memberId - Remove access (owners, or members leaving a thread)
+threadMemberRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/threads/{threadId}/members/{memberId}',
+    tags: ['Threads'],
+    summary: 'Remove Thread Member',
+    description: 'Revoke access to a thread. Owners can remove anyone but the thread creator; other members can only remove themselves. Open WebSocket connections of the removed user are closed with code 4403.',
+    request: { params: threadMemberParamsSchema },
+    responses: {
+      200: successResponse('Member removed', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      403: problemResponse('Only owners can remove other members'),
+      ...errorResponses(400, 401, 404, 409, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId, memberId } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to remove thread members'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const existingMember = await prisma.threadMember.findFirst({
+        where: { id: memberId, threadId }
+      });
+
+      if (!existingMember) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Member Not Found',
+          detail: `Member with ID ${memberId} was not found in this thread`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const isSelf = existingMember.email === normalizeEmail(authenticatedUser.email);
+      if (!isSelf && access.role !== 'OWNER') {
+        return createErrorResponse({
+          status: 403,
+          title: 'Insufficient Permissions',
+          detail: 'Only owners can remove other members'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (existingMember.userId && existingMember.userId === access.thread.userId) {
+        return createConflictResponse(
+          'The thread creator cannot be removed',
+          getCorrelationId(c.req.raw)
+        );
+      }
+
+      await prisma.threadMember.delete({
+        where: { id: memberId }
+      });
+
+      await publishThreadEvent(c.env, threadId, {
+        type: 'member.removed',
+        memberId,
+        userId: existingMember.userId
+      });
+
+      return createSuccessResponse({
+        deleted: true,
+        id: memberId
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error removing thread member:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to remove thread member'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { threadMemberRoutes };
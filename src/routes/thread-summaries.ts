@@ -0,0 +1,107 @@
+// Thread summary API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createAcceptedResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  getCorrelationId
+} from '../utils/response';
+import { cuidSchema } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { acceptedResponse, errorResponses, schemaRef } from '../utils/openapi';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { QuotaService } from '../services/quota-service';
+import { JobService } from '../services/job-service';
+import type { JobMessage } from '../utils/jobs';
+
+export interface Env {
+  DB: D1Database;
+  JOBS?: Queue<JobMessage>;
+  DEFAULT_AI_MODEL?: string;
+}
+
+// Parameter validation schemas
+const threadParamsSchema = z.object({
+  threadId: cuidSchema
+});
+
+const threadSummaryRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// POST /threads/:threadId/summarize - Summarize the conversation as an INSIGHT artifact (background job)
+threadSummaryRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads/{threadId}/summarize',
+    tags: ['Threads'],
+    summary: 'Summarize Thread',
+    description: 'Queue a job that summarizes the conversation as an `INSIGHT` artifact, written by the configured AI provider from the latest 100 messages and the rolling summary of older ones. Requires the edit permission. The artifact arrives as an `artifact.created` event; the job\'s result holds its `artifactId`.',
+    request: { params: threadParamsSchema },
+    responses: {
+      202: acceptedResponse('Summary job queued', schemaRef('Job')),
+      ...errorResponses(400, 401, 403, 404, 429, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { threadId } = c.req.valid('param');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to summarize threads'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // The summary is stored as an artifact, so it takes the same permission as creating one
+      const access = await ThreadAccessService.check(prisma, threadId, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const messageCount = await prisma.message.count({ where: { threadId } });
+      if (messageCount === 0) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Bad Request',
+          detail: 'Thread has no messages to summarize'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const quota = await QuotaService.check(authenticatedUser, c.env.DEFAULT_AI_MODEL || 'gpt-4o', c.env);
+      if (!quota.allowed) {
+        return createRateLimitResponse(getCorrelationId(c.req.raw), quota.retryAfter);
+      }
+
+      const job = await JobService.enqueue(
+        prisma,
+        c.env,
+        { type: 'thread.insight', payload: { threadId }, userId: authenticatedUser.id },
+        promise => c.executionCtx.waitUntil(promise)
+      );
+
+      return createAcceptedResponse(job, `/api/v1/jobs/${job.id}`, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error summarizing thread:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to summarize thread'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { threadSummaryRoutes };
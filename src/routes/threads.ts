@@ -1,6 +1,6 @@
 // Thread API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -15,9 +15,11 @@ import {
   threadQuerySchema,
   cuidSchema 
 } from '../utils/validation';
-import type { CreateThreadInput, UpdateThreadInput, ThreadQuery } from '../utils/validation';
-import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, paginatedResponse, schemaRef, successResponse } from '../utils/openapi';
 import { authenticateUser, type AuthenticatedUser } from '../middleware/auth';
+import { ThreadAccessService } from '../services/thread-access-service';
+import { accessibleThreadsWhere, normalizeEmail } from '../utils/thread-permissions';
 
 export interface Env {
   DB: D1Database;
@@ -28,26 +30,31 @@ const threadParamsSchema = z.object({
   id: cuidSchema
 });
 
-type ThreadParams = z.infer<typeof threadParamsSchema>;
-
-const threadRoutes = new Hono<{ 
+const threadRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: CreateThreadInput | UpdateThreadInput,
-    validatedQuery: ThreadQuery,
-    validatedParams: ThreadParams,
     authenticatedUser?: AuthenticatedUser
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /threads - List threads with pagination and filtering
-threadRoutes.get(
-  '/threads',
-  validateQuery(threadQuerySchema),
+threadRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads',
+    tags: ['Threads'],
+    summary: 'List Threads',
+    description: 'Get a paginated list of threads with optional filtering',
+    request: { query: threadQuerySchema },
+    responses: {
+      200: paginatedResponse('List of threads', schemaRef('Thread')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const query = c.get('validatedQuery') as ThreadQuery;
+      const query = c.req.valid('query');
       const authenticatedUser = c.get('authenticatedUser');
       
       if (!authenticatedUser) {
@@ -58,10 +65,8 @@ threadRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
       
-      // Build where clause for filtering - only show user's own threads
-      const where: any = {
-        userId: authenticatedUser.id
-      };
+      // Build where clause for filtering - only show threads the user created or was invited to
+      const where: any = accessibleThreadsWhere(authenticatedUser);
       if (query.status) {
         where.status = query.status;
       }
@@ -93,6 +98,10 @@ threadRoutes.get(
               nick: true,
               avatarUrl: true
             }
+          },
+          members: {
+            where: { email: normalizeEmail(authenticatedUser.email) },
+            select: { role: true }
           }
         },
         take: query.limit + 1, // Take one extra to check if there are more
@@ -110,7 +119,10 @@ threadRoutes.get(
       
       // Check if there are more results
       const hasMore = threads.length > query.limit;
-      const items = hasMore ? threads.slice(0, -1) : threads;
+      const items = (hasMore ? threads.slice(0, -1) : threads).map(({ members, ...thread }: any) => ({
+        ...thread,
+        role: thread.user.id === authenticatedUser.id ? 'OWNER' : members[0]?.role
+      }));
       const continuationToken = hasMore ? items[items.length - 1].id : undefined;
 
       return createPaginatedResponse(items, {
@@ -132,13 +144,31 @@ threadRoutes.get(
 );
 
 // GET /threads/:id - Get thread by ID
-threadRoutes.get(
-  '/threads/:id',
-  validateParams(threadParamsSchema),
+threadRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/threads/{id}',
+    tags: ['Threads'],
+    summary: 'Get Thread by ID',
+    description: 'Retrieve a specific thread by its ID',
+    request: { params: threadParamsSchema },
+    responses: {
+      200: successResponse('Thread details', {
+        allOf: [
+          schemaRef('Thread'),
+          {
+            type: 'object',
+            properties: { role: { type: 'string', enum: ['OWNER', 'EDITOR', 'COMMENTER', 'VIEWER'] } }
+          }
+        ]
+      }),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ThreadParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
       
       if (!authenticatedUser) {
@@ -149,11 +179,13 @@ threadRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
 
-      const thread = await prisma.thread.findFirst({
-        where: { 
-          id,
-          userId: authenticatedUser.id  // Only allow access to user's own threads
-        },
+      const access = await ThreadAccessService.check(prisma, id, authenticatedUser, 'view');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
+      }
+
+      const thread = await prisma.thread.findUnique({
+        where: { id },
         select: {
           id: true,
           title: true,
@@ -181,7 +213,7 @@ threadRoutes.get(
         }, getCorrelationId(c.req.raw));
       }
 
-      return createSuccessResponse(thread, {
+      return createSuccessResponse({ ...thread, role: access.role }, {
         correlation_id: getCorrelationId(c.req.raw)
       });
     } catch (error) {
@@ -196,14 +228,24 @@ threadRoutes.get(
 );
 
 // POST /threads - Create new thread
-threadRoutes.post(
-  '/threads',
-  validateBody(createThreadSchema),
+threadRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/threads',
+    tags: ['Threads'],
+    summary: 'Create Thread',
+    description: 'Create a new conversation thread',
+    request: { body: jsonBody(createThreadSchema) },
+    responses: {
+      200: successResponse('Thread created successfully', schemaRef('Thread')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
   async (c) => {
     try {
       console.log('=== Thread Creation Started ===');
       const prisma = getDatabaseClient(c.env.DB);
-      const threadData = c.get('validatedBody') as CreateThreadInput;
+      const threadData = c.req.valid('json');
       const authenticatedUser = c.get('authenticatedUser');
       
       if (!authenticatedUser) {
@@ -224,6 +266,13 @@ threadRoutes.post(
           metadata: {
             ...threadData.metadata || {},
             ...(threadData.description && { description: threadData.description })
+          },
+          members: {
+            create: {
+              userId: authenticatedUser.id,
+              email: normalizeEmail(authenticatedUser.email),
+              role: 'OWNER'
+            }
           }
         },
         select: {
@@ -267,16 +316,25 @@ threadRoutes.post(
 );
 
 // PUT /threads/:id - Update thread
-threadRoutes.put(
-  '/threads/:id',
-  authenticateUser,
-  validateParams(threadParamsSchema),
-  validateBody(updateThreadSchema),
+threadRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/threads/{id}',
+    tags: ['Threads'],
+    summary: 'Update Thread',
+    description: 'Update an existing thread',
+    middleware: [authenticateUser],
+    request: { params: threadParamsSchema, body: jsonBody(updateThreadSchema) },
+    responses: {
+      200: successResponse('Thread updated successfully', schemaRef('Thread')),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ThreadParams;
-      const updateData = c.get('validatedBody') as UpdateThreadInput;
+      const { id } = c.req.valid('param');
+      const updateData = c.req.valid('json');
       const authenticatedUser = c.get('authenticatedUser');
       
       if (!authenticatedUser) {
@@ -287,20 +345,10 @@ threadRoutes.put(
         }, getCorrelationId(c.req.raw));
       }
 
-      // Check if thread exists and belongs to user
-      const existingThread = await prisma.thread.findFirst({
-        where: { 
-          id,
-          userId: authenticatedUser.id
-        }
-      });
-
-      if (!existingThread) {
-        return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${id} was not found`
-        }, getCorrelationId(c.req.raw));
+      // Editors may rename, archive and update thread metadata
+      const access = await ThreadAccessService.check(prisma, id, authenticatedUser, 'edit');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
       }
 
       const thread = await prisma.thread.update({
@@ -340,14 +388,27 @@ threadRoutes.put(
 );
 
 // DELETE /threads/:id - Delete thread
-threadRoutes.delete(
-  '/threads/:id',
-  authenticateUser,
-  validateParams(threadParamsSchema),
+threadRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/threads/{id}',
+    tags: ['Threads'],
+    summary: 'Delete Thread',
+    description: 'Delete a thread (soft delete - marks as DELETED)',
+    middleware: [authenticateUser],
+    request: { params: threadParamsSchema },
+    responses: {
+      200: successResponse('Thread deleted successfully', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 403, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as ThreadParams;
+      const { id } = c.req.valid('param');
       const authenticatedUser = c.get('authenticatedUser');
       
       if (!authenticatedUser) {
@@ -358,20 +419,10 @@ threadRoutes.delete(
         }, getCorrelationId(c.req.raw));
       }
 
-      // Check if thread exists and belongs to user
-      const existingThread = await prisma.thread.findFirst({
-        where: { 
-          id,
-          userId: authenticatedUser.id
-        }
-      });
-
-      if (!existingThread) {
-        return createErrorResponse({
-          status: 404,
-          title: 'Thread Not Found',
-          detail: `Thread with ID ${id} was not found or you don't have permission to access it`
-        }, getCorrelationId(c.req.raw));
+      // Only owners may delete a thread
+      const access = await ThreadAccessService.check(prisma, id, authenticatedUser, 'manage');
+      if (!access.allowed) {
+        return createErrorResponse(access.error, getCorrelationId(c.req.raw));
       }
 
       await prisma.thread.delete({
@@ -0,0 +1,410 @@
+// Usage and token quota API routes
+
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import { getDatabaseClient } from '../utils/database';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  getCorrelationId
+} from '../utils/response';
+import {
+  usageQuerySchema,
+  createTokenQuotaSchema,
+  updateTokenQuotaSchema,
+  cuidSchema
+} from '../utils/validation';
+import type { UsageQuery } from '../utils/validation';
+import { validationHook } from '../middleware/validation';
+import { arrayOf, errorResponses, jsonBody, problemResponse, schemaRef, successResponse } from '../utils/openapi';
+import { requireRole } from '../middleware/auth';
+import { QuotaService } from '../services/quota-service';
+
+export interface Env {
+  DB: D1Database;
+  DEFAULT_AI_MODEL?: string;
+}
+
+// Default and maximum reporting range
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parameter validation schemas
+const idParamsSchema = z.object({
+  id: cuidSchema
+});
+
+const usageRoutes = new OpenAPIHono<{
+  Bindings: Env,
+  Variables: {
+    authenticatedUser?: import('../middleware/auth').AuthenticatedUser
+  }
+}>({ defaultHook: validationHook });
+
+// Resolve the reporting range, or null when it is invalid
+function getUsageRange(query: UsageQuery): { from: Date; to: Date } | null {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_USAGE_DAYS * DAY_MS);
+
+  if (from > to || to.getTime() - from.getTime() > MAX_USAGE_DAYS * DAY_MS) {
+    return null;
+  }
+
+  return { from, to };
+}
+
+const QUOTA_SELECT = {
+  id: true,
+  userId: true,
+  role: true,
+  model: true,
+  dailyTokens: true,
+  monthlyTokens: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+// GET /usage - Token usage of the authenticated user by day and model
+usageRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/usage',
+    tags: ['Usage'],
+    summary: 'Get My Usage',
+    description: 'Token usage of the authenticated user aggregated by UTC day and model, with totals and the current quota status. Defaults to the last 30 days.',
+    request: { query: usageQuerySchema },
+    responses: {
+      200: successResponse('Usage report', schemaRef('UsageReport')),
+      ...errorResponses(400, 401, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const query = c.req.valid('query');
+      const authenticatedUser = c.get('authenticatedUser');
+
+      if (!authenticatedUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'Must be authenticated to view usage'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const range = getUsageRange(query);
+      if (!range) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Invalid Date Range',
+          detail: `"from" must be before "to" and the range cannot exceed ${MAX_USAGE_DAYS} days`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const model = query.model || c.env.DEFAULT_AI_MODEL || 'gpt-4o';
+      const report = await QuotaService.getUsage(authenticatedUser, range, model, c.env);
+
+      return createSuccessResponse(report, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch usage'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /users/:id/usage - Token usage of any user (admin only)
+usageRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/users/{id}/usage',
+    tags: ['Usage'],
+    summary: 'Get User Usage',
+    description: 'Token usage of any user aggregated by UTC day and model (admin only). Accepts the same query parameters as /api/v1/usage.',
+    middleware: [requireRole(['ADMIN'])],
+    request: { params: idParamsSchema, query: usageQuerySchema },
+    responses: {
+      200: successResponse('Usage report for the user', {
+        allOf: [{ type: 'object', properties: { userId: { type: 'string' } } }, schemaRef('UsageReport')]
+      }),
+      403: problemResponse('Admin role required'),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const query = c.req.valid('query');
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, role: true }
+      });
+
+      if (!user) {
+        return createErrorResponse({
+          status: 404,
+          title: 'User Not Found',
+          detail: `User with ID ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const range = getUsageRange(query);
+      if (!range) {
+        return createErrorResponse({
+          status: 400,
+          title: 'Invalid Date Range',
+          detail: `"from" must be before "to" and the range cannot exceed ${MAX_USAGE_DAYS} days`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const model = query.model || c.env.DEFAULT_AI_MODEL || 'gpt-4o';
+      const report = await QuotaService.getUsage(user, range, model, c.env);
+
+      return createSuccessResponse({ userId: id, ...report }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching user usage:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch user usage'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// GET /quotas - List token quotas (admin only)
+usageRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/quotas',
+    tags: ['Usage'],
+    summary: 'List Token Quotas',
+    description: 'List all configured token quotas (admin only)',
+    middleware: [requireRole(['ADMIN'])],
+    responses: {
+      200: successResponse('Token quotas', arrayOf(schemaRef('TokenQuota'))),
+      403: problemResponse('Admin role required'),
+      ...errorResponses(401, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+
+      const quotas = await prisma.tokenQuota.findMany({
+        select: QUOTA_SELECT,
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return createSuccessResponse(quotas, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching quotas:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch quotas'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// POST /quotas - Create a token quota for a user or role (admin only)
+usageRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/quotas',
+    tags: ['Usage'],
+    summary: 'Create Token Quota',
+    description: 'Create a daily and/or monthly token budget for a user or for every user with a role (admin only). Set `model` to override the budget for one model. The most specific quota wins per window: user+model, role+model, user, then role.',
+    middleware: [requireRole(['ADMIN'])],
+    request: { body: jsonBody(createTokenQuotaSchema) },
+    responses: {
+      200: successResponse('Quota created', schemaRef('TokenQuota')),
+      403: problemResponse('Admin role required'),
+      ...errorResponses(400, 401, 404, 409, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const quotaData = c.req.valid('json');
+
+      // One quota per target and model, so resolution is unambiguous
+      const existingQuota = await prisma.tokenQuota.findFirst({
+        where: {
+          userId: quotaData.userId ?? null,
+          role: quotaData.role ?? null,
+          model: quotaData.model ?? null
+        }
+      });
+
+      if (existingQuota) {
+        return createErrorResponse({
+          status: 409,
+          title: 'Quota Already Exists',
+          detail: `A quota for this target and model already exists (${existingQuota.id})`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      if (quotaData.userId) {
+        const user = await prisma.user.findUnique({
+          where: { id: quotaData.userId }
+        });
+
+        if (!user) {
+          return createErrorResponse({
+            status: 404,
+            title: 'User Not Found',
+            detail: `User with ID ${quotaData.userId} was not found`
+          }, getCorrelationId(c.req.raw));
+        }
+      }
+
+      const quota = await prisma.tokenQuota.create({
+        data: {
+          userId: quotaData.userId,
+          role: quotaData.role,
+          model: quotaData.model,
+          dailyTokens: quotaData.dailyTokens ?? null,
+          monthlyTokens: quotaData.monthlyTokens ?? null
+        },
+        select: QUOTA_SELECT
+      });
+
+      return createSuccessResponse(quota, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error creating quota:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to create quota'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// PUT /quotas/:id - Update quota limits (admin only)
+usageRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/quotas/{id}',
+    tags: ['Usage'],
+    summary: 'Update Token Quota',
+    description: 'Change the limits of a quota (admin only). Null removes the limit for that window.',
+    middleware: [requireRole(['ADMIN'])],
+    request: { params: idParamsSchema, body: jsonBody(updateTokenQuotaSchema) },
+    responses: {
+      200: successResponse('Quota updated', schemaRef('TokenQuota')),
+      403: problemResponse('Admin role required'),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+      const updateData = c.req.valid('json');
+
+      const existingQuota = await prisma.tokenQuota.findUnique({
+        where: { id }
+      });
+
+      if (!existingQuota) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Quota Not Found',
+          detail: `Quota with ID ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const quota = await prisma.tokenQuota.update({
+        where: { id },
+        data: updateData,
+        select: QUOTA_SELECT
+      });
+
+      return createSuccessResponse(quota, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error updating quota:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to update quota'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+// DELETE /quotas/:id - Delete a quota (admin only)
+usageRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/quotas/{id}',
+    tags: ['Usage'],
+    summary: 'Delete Token Quota',
+    description: 'Delete a quota (admin only)',
+    middleware: [requireRole(['ADMIN'])],
+    request: { params: idParamsSchema },
+    responses: {
+      200: successResponse('Quota deleted', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      403: problemResponse('Admin role required'),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const prisma = getDatabaseClient(c.env.DB);
+      const { id } = c.req.valid('param');
+
+      const existingQuota = await prisma.tokenQuota.findUnique({
+        where: { id }
+      });
+
+      if (!existingQuota) {
+        return createErrorResponse({
+          status: 404,
+          title: 'Quota Not Found',
+          detail: `Quota with ID ${id} was not found`
+        }, getCorrelationId(c.req.raw));
+      }
+
+      await prisma.tokenQuota.delete({
+        where: { id }
+      });
+
+      return createSuccessResponse({
+        deleted: true,
+        id
+      }, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error deleting quota:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to delete quota'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
+export { usageRoutes };
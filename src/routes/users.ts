@@ -1,6 +1,6 @@
 // User API routes
 
-import { Hono } from 'hono';
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import { getDatabaseClient } from '../utils/database';
 import { 
@@ -15,8 +15,8 @@ import {
   paginationQuerySchema,
   cuidSchema 
 } from '../utils/validation';
-import type { CreateUserInput, UpdateUserInput, PaginationQuery } from '../utils/validation';
-import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { validationHook } from '../middleware/validation';
+import { errorResponses, jsonBody, paginatedResponse, schemaRef, successResponse } from '../utils/openapi';
 import { getCurrentUser, requireCurrentUser } from '../middleware/auth';
 import type { AuthenticatedUser, JWTPayload } from '../middleware/auth';
 
@@ -35,28 +35,32 @@ const userQuerySchema = paginationQuerySchema.extend({
   search: z.string().optional()
 });
 
-type UserParams = z.infer<typeof userParamsSchema>;
-type UserQuery = z.infer<typeof userQuerySchema>;
-
-const userRoutes = new Hono<{ 
+const userRoutes = new OpenAPIHono<{
   Bindings: Env,
   Variables: {
-    validatedBody: CreateUserInput | UpdateUserInput,
-    validatedQuery: UserQuery,
-    validatedParams: UserParams,
     authenticatedUser?: AuthenticatedUser;
     jwtPayload?: JWTPayload;
   }
-}>();
+}>({ defaultHook: validationHook });
 
 // GET /users - List users with pagination and filtering
-userRoutes.get(
-  '/users',
-  validateQuery(userQuerySchema),
+userRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/users',
+    tags: ['Users'],
+    summary: 'List Users',
+    description: 'Get a paginated list of users with optional filtering',
+    request: { query: userQuerySchema },
+    responses: {
+      200: paginatedResponse('List of users', schemaRef('User')),
+      ...errorResponses(400, 401, 403, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const query = c.get('validatedQuery') as UserQuery;
+      const query = c.req.valid('query');
       
       // Build where clause for filtering
       const where: any = {};
@@ -124,14 +128,98 @@ userRoutes.get(
   }
 );
 
+// GET /users/me - Get current user profile
+userRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/users/me',
+    tags: ['Users'],
+    summary: 'Get My Profile',
+    description: 'Get the authenticated user\'s profile with the domain of their token',
+    responses: {
+      200: successResponse('Current user profile', {
+        allOf: [schemaRef('User'), { type: 'object', properties: { domain: { type: 'string' } } }]
+      }),
+      ...errorResponses(401, 404, 500)
+    }
+  }),
+  async (c) => {
+    try {
+      const currentUser = getCurrentUser(c);
+      
+      if (!currentUser) {
+        return createErrorResponse({
+          status: 401,
+          title: 'Authentication Required',
+          detail: 'You must be authenticated to access your profile'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      const prisma = getDatabaseClient(c.env.DB);
+      
+      // Get fresh user data from database
+      const user = await prisma.user.findUnique({
+        where: { id: currentUser.id },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          nick: true,
+          role: true,
+          avatarUrl: true,
+          createdAt: true,
+          updatedAt: true,
+          lastLoginAt: true
+        }
+      });
+
+      if (!user) {
+        return createErrorResponse({
+          status: 404,
+          title: 'User Not Found',
+          detail: 'Your user profile was not found in the database'
+        }, getCorrelationId(c.req.raw));
+      }
+
+      // Add JWT domain information to the response
+      const jwtPayload = c.get('jwtPayload');
+      const userProfile = {
+        ...user,
+        domain: currentUser.domain || jwtPayload?.domain
+      };
+
+      return createSuccessResponse(userProfile, {
+        correlation_id: getCorrelationId(c.req.raw)
+      });
+    } catch (error) {
+      console.error('Error fetching current user profile:', error);
+      return createErrorResponse({
+        status: 500,
+        title: 'Internal Server Error',
+        detail: 'Failed to fetch user profile'
+      }, getCorrelationId(c.req.raw));
+    }
+  }
+);
+
 // GET /users/:id - Get user by ID
-userRoutes.get(
-  '/users/:id',
-  validateParams(userParamsSchema),
+userRoutes.openapi(
+  createRoute({
+    method: 'get',
+    path: '/users/{id}',
+    tags: ['Users'],
+    summary: 'Get User by ID',
+    description: 'Retrieve a specific user by their ID',
+    request: { params: userParamsSchema },
+    responses: {
+      200: successResponse('User details', schemaRef('User')),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as UserParams;
+      const { id } = c.req.valid('param');
 
       const user = await prisma.user.findUnique({
         where: { id },
@@ -171,13 +259,23 @@ userRoutes.get(
 );
 
 // POST /users - Create new user
-userRoutes.post(
-  '/users',
-  validateBody(createUserSchema),
+userRoutes.openapi(
+  createRoute({
+    method: 'post',
+    path: '/users',
+    tags: ['Users'],
+    summary: 'Create User',
+    description: 'Create a new user account',
+    request: { body: jsonBody(createUserSchema) },
+    responses: {
+      200: successResponse('User created successfully', schemaRef('User')),
+      ...errorResponses(400, 401, 403, 409, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const userData = c.get('validatedBody') as CreateUserInput;
+      const userData = c.req.valid('json');
 
       // Check if user with email already exists
       const existingUser = await prisma.user.findUnique({
@@ -228,15 +326,24 @@ userRoutes.post(
 );
 
 // PUT /users/:id - Update user
-userRoutes.put(
-  '/users/:id',
-  validateParams(userParamsSchema),
-  validateBody(updateUserSchema),
+userRoutes.openapi(
+  createRoute({
+    method: 'put',
+    path: '/users/{id}',
+    tags: ['Users'],
+    summary: 'Update User',
+    description: 'Update an existing user account',
+    request: { params: userParamsSchema, body: jsonBody(updateUserSchema) },
+    responses: {
+      200: successResponse('User updated successfully', schemaRef('User')),
+      ...errorResponses(400, 401, 404, 409, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as UserParams;
-      const updateData = c.get('validatedBody') as UpdateUserInput;
+      const { id } = c.req.valid('param');
+      const updateData = c.req.valid('json');
 
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
@@ -281,13 +388,26 @@ userRoutes.put(
 );
 
 // DELETE /users/:id - Delete user
-userRoutes.delete(
-  '/:id',
-  validateParams(userParamsSchema),
+userRoutes.openapi(
+  createRoute({
+    method: 'delete',
+    path: '/users/{id}',
+    tags: ['Users'],
+    summary: 'Delete User',
+    description: 'Delete a user account',
+    request: { params: userParamsSchema },
+    responses: {
+      200: successResponse('User deleted successfully', {
+        type: 'object',
+        properties: { deleted: { type: 'boolean' }, id: { type: 'string' } }
+      }),
+      ...errorResponses(400, 401, 404, 500)
+    }
+  }),
   async (c) => {
     try {
       const prisma = getDatabaseClient(c.env.DB);
-      const { id } = c.get('validatedParams') as UserParams;
+      const { id } = c.req.valid('param');
 
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
@@ -323,66 +443,4 @@ userRoutes.delete(
   }
 );
 
-// GET /users/me - Get current user profile
-userRoutes.get(
-  '/users/me',
-  async (c) => {
-    try {
-      const currentUser = getCurrentUser(c);
-      
-      if (!currentUser) {
-        return createErrorResponse({
-          status: 401,
-          title: 'Authentication Required',
-          detail: 'You must be authenticated to access your profile'
-        }, getCorrelationId(c.req.raw));
-      }
-
-      const prisma = getDatabaseClient(c.env.DB);
-      
-      // Get fresh user data from database
-      const user = await prisma.user.findUnique({
-        where: { id: currentUser.id },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          nick: true,
-          role: true,
-          avatarUrl: true,
-          createdAt: true,
-          updatedAt: true,
-          lastLoginAt: true
-        }
-      });
-
-      if (!user) {
-        return createErrorResponse({
-          status: 404,
-          title: 'User Not Found',
-          detail: 'Your user profile was not found in the database'
-        }, getCorrelationId(c.req.raw));
-      }
-
-      // Add JWT domain information to the response
-      const jwtPayload = c.get('jwtPayload');
-      const userProfile = {
-        ...user,
-        domain: currentUser.domain || jwtPayload?.domain
-      };
-
-      return createSuccessResponse(userProfile, {
-        correlation_id: getCorrelationId(c.req.raw)
-      });
-    } catch (error) {
-      console.error('Error fetching current user profile:', error);
-      return createErrorResponse({
-        status: 500,
-        title: 'Internal Server Error',
-        detail: 'Failed to fetch user profile'
-      }, getCorrelationId(c.req.raw));
-    }
-  }
-);
-
 export { userRoutes };
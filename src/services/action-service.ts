@@ -0,0 +1,328 @@
+// Interactive block actions: dispatch button, select and picker interactions to their handlers
+
+import { CompletionService } from './completion-service';
+import { QuotaService } from './quota-service';
+import { publishThreadEvent } from './realtime-service';
+import type { AuthenticatedUser } from '../middleware/auth';
+import type { InteractiveActionResponse } from '../types/api';
+import type { InteractiveActionInput } from '../utils/validation';
+import {
+  actionHandlerResultSchema,
+  describeAction,
+  findActionTarget,
+  findActionWebhook,
+  getActionResponseType,
+  signActionPayload,
+  type ActionHandlerResult,
+  type ActionTarget
+} from '../utils/block-actions';
+import { markdownToBlocks } from '../utils/markdown-blocks';
+import { hasThreadPermission, type ThreadRole } from '../utils/thread-permissions';
+
+// Webhooks that take longer than this fail the interaction
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface ActionEnv {
+  DB: D1Database;
+  THREAD_ROOMS?: DurableObjectNamespace<import('../durable-objects/thread-room').ThreadRoom>;
+  OPENAI_API_KEY?: string;
+  DEFAULT_AI_MODEL?: string;
+  AUTO_COMPLETION_ENABLED?: string;
+  ACTION_WEBHOOKS?: string;
+  ACTION_WEBHOOK_SECRET?: string;
+}
+
+// Action failures, mapped to problem responses by the route
+export class ActionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ActionError';
+  }
+}
+
+export interface ActionContext {
+  prisma: any;
+  env: ActionEnv;
+  user: AuthenticatedUser;
+  message: { id: string; threadId: string; userId: string | null; role: string; content: string; blocks: any };
+  target: ActionTarget;
+  action: InteractiveActionInput;
+}
+
+export type ActionHandlerName = 'builtin' | 'webhook' | 'ai';
+
+export type ActionHandler = (context: ActionContext) => Promise<ActionHandlerResult>;
+
+// Built-in handlers, by exact action_id
+const BUILTIN_HANDLERS: Record<string, ActionHandler> = {
+  // Remove the block holding the element, e.g. a suggestion the user is done with
+  dismiss: async ({ message, target }) => ({
+    blocks: (message.blocks as any[]).filter((_, index) => index !== target.blockIndex)
+  })
+};
+
+const MESSAGE_SELECT = {
+  id: true,
+  threadId: true,
+  role: true,
+  content: true,
+  blocks: true,
+  createdAt: true,
+  updatedAt: true,
+  metadata: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      nick: true,
+      avatarUrl: true
+    }
+  }
+} as const;
+
+export class ActionService {
+  /**
+   * Pick the handler for an interaction: a built-in handler for its action_id,
+   * then a webhook configured for its prefix, then - for assistant messages -
+   * the AI provider. Returns null when nothing handles it.
+   */
+  static resolveHandler(context: ActionContext): { name: ActionHandlerName; handle: ActionHandler } | null {
+    const { action, env, message } = context;
+
+    const builtin = BUILTIN_HANDLERS[action.action_id];
+    if (builtin) {
+      return { name: 'builtin', handle: builtin };
+    }
+
+    const webhookUrl = findActionWebhook(action.action_id, env.ACTION_WEBHOOKS);
+    if (webhookUrl) {
+      return { name: 'webhook', handle: ctx => this.callWebhook(webhookUrl, ctx) };
+    }
+
+    if (message.role === 'ASSISTANT' && env.AUTO_COMPLETION_ENABLED !== 'false') {
+      return { name: 'ai', handle: ctx => this.askAssistant(ctx) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate an interaction against the message's blocks, run its handler,
+   * apply the result and record it. The caller has already checked that the
+   * user may post in the thread; `role` is their role there. Like editing,
+   * changing the blocks of someone else's message takes edit access.
+   */
+  static async dispatch(
+    prisma: any,
+    env: ActionEnv,
+    user: AuthenticatedUser,
+    role: ThreadRole,
+    action: InteractiveActionInput
+  ): Promise<InteractiveActionResponse> {
+    const message = await prisma.message.findUnique({
+      where: { id: action.message_id },
+      select: { id: true, threadId: true, userId: true, role: true, content: true, blocks: true }
+    });
+
+    if (!message || message.threadId !== action.thread_id) {
+      throw new ActionError(`Message with ID ${action.message_id} was not found in this thread`, 404, 'Message Not Found');
+    }
+
+    const target = findActionTarget(message.blocks, action.action_id, action.block_id);
+    if (!target) {
+      throw new ActionError(
+        action.block_id
+          ? `Block ${action.block_id} of message ${message.id} has no element with action_id ${action.action_id}`
+          : `Message ${message.id} has no element with action_id ${action.action_id}`,
+        400,
+        'Unknown Action'
+      );
+    }
+
+    const context: ActionContext = { prisma, env, user, message, target, action };
+    const handler = this.resolveHandler(context);
+
+    const record = {
+      messageId: message.id,
+      userId: user.id,
+      blockId: target.block.block_id ?? null,
+      actionId: action.action_id,
+      actionData: action.action_data ?? null,
+      handler: handler?.name ?? null
+    };
+
+    if (!handler) {
+      const interaction = await prisma.messageAction.create({
+        data: { ...record, status: 'UNHANDLED' }
+      });
+      return { interaction_id: interaction.id, action_handled: false };
+    }
+
+    let result: ActionHandlerResult;
+    try {
+      const parsed = actionHandlerResultSchema.safeParse(await handler.handle(context));
+      if (!parsed.success) {
+        throw new ActionError('The action handler returned an invalid response', 502, 'Action Handler Failed');
+      }
+      if (parsed.data.blocks && message.userId !== user.id && !hasThreadPermission(role, 'edit')) {
+        throw new ActionError(
+          `Your role (${role}) does not allow you to change message ${message.id}`,
+          403,
+          'Insufficient Permissions'
+        );
+      }
+      result = parsed.data;
+    } catch (error) {
+      await prisma.messageAction.create({
+        data: {
+          ...record,
+          status: 'FAILED',
+          error: (error instanceof Error ? error.message : String(error)).slice(0, 1000)
+        }
+      }).catch((recordError: unknown) => console.error('Error recording failed action:', recordError));
+      throw error;
+    }
+
+    let updatedMessage;
+    if (result.blocks) {
+      updatedMessage = await prisma.message.update({
+        where: { id: message.id },
+        data: { blocks: result.blocks },
+        select: MESSAGE_SELECT
+      });
+      await publishThreadEvent(env, message.threadId, { type: 'message.updated', message: updatedMessage });
+    }
+
+    let followUpMessage;
+    if (result.follow_up) {
+      followUpMessage = await prisma.message.create({
+        data: {
+          threadId: message.threadId,
+          userId: null, // Posted on behalf of the handler, like assistant replies
+          role: 'ASSISTANT',
+          content: result.follow_up.content,
+          blocks: result.follow_up.blocks ?? markdownToBlocks(result.follow_up.content),
+          metadata: {
+            inReplyTo: message.id,
+            actionId: action.action_id,
+            actionHandler: handler.name
+          }
+        },
+        select: MESSAGE_SELECT
+      });
+      await publishThreadEvent(env, message.threadId, { type: 'message.created', message: followUpMessage });
+    }
+
+    const interaction = await prisma.messageAction.create({
+      data: {
+        ...record,
+        status: 'HANDLED',
+        followUpMessageId: followUpMessage?.id ?? null
+      }
+    });
+
+    return {
+      interaction_id: interaction.id,
+      action_handled: true,
+      response_type: getActionResponseType(result),
+      redirect_url: result.redirect_url,
+      ephemeral_message: result.ephemeral_message,
+      updated_message: updatedMessage,
+      follow_up_message: followUpMessage
+    };
+  }
+
+  /**
+   * POST the interaction to an external handler. The body is signed with
+   * ACTION_WEBHOOK_SECRET when set; the JSON reply is a handler result and an
+   * empty reply means "handled, nothing to change".
+   */
+  private static async callWebhook(url: string, context: ActionContext): Promise<ActionHandlerResult> {
+    const { action, user, message, target, env } = context;
+
+    const body = JSON.stringify({
+      type: 'block_action',
+      action: {
+        action_id: action.action_id,
+        block_id: target.block.block_id ?? null,
+        type: target.element.type,
+        value: target.element.value ?? null,
+        action_data: action.action_data ?? null
+      },
+      user: { id: user.id, email: user.email, name: user.name },
+      message: { id: message.id, thread_id: message.threadId, blocks: message.blocks }
+    });
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Action-Timestamp': String(timestamp)
+    };
+    if (env.ACTION_WEBHOOK_SECRET) {
+      headers['X-Action-Signature'] = await signActionPayload(body, timestamp, env.ACTION_WEBHOOK_SECRET);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+    } catch (error) {
+      console.error('Error calling action webhook:', error);
+      throw new ActionError('The action handler could not be reached', 502, 'Action Handler Failed');
+    }
+
+    if (!response.ok) {
+      throw new ActionError(`The action handler responded with status ${response.status}`, 502, 'Action Handler Failed');
+    }
+
+    const text = await response.text();
+    if (!text.trim()) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ActionError('The action handler returned an invalid response', 502, 'Action Handler Failed');
+    }
+  }
+
+  /**
+   * Tell the model what the user did with its message and post the reply
+   * as a follow-up. Counts against the user's token quota.
+   */
+  private static async askAssistant(context: ActionContext): Promise<ActionHandlerResult> {
+    const { env, user, message, target, action } = context;
+    const model = env.DEFAULT_AI_MODEL || 'gpt-4o';
+
+    const quota = await QuotaService.check(user, model, env);
+    if (!quota.allowed) {
+      throw new ActionError('Token quota exceeded', 429, 'Too Many Requests', quota.retryAfter);
+    }
+
+    const { completion } = await CompletionService.createCompletion({
+      model,
+      messages: [
+        { role: 'assistant', content: message.content },
+        { role: 'user', content: describeAction(target, action.action_data) }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000,
+      n: 1,
+      stream: false
+    }, user, env);
+
+    const content = completion.choices[0]?.message.content;
+    return content ? { follow_up: { content } } : {};
+  }
+}
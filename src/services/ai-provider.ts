@@ -4,7 +4,10 @@ import type {
   ChatCompletionRequest, 
   ChatCompletionResponse, 
   ChatCompletionStreamChunk, 
-  AIModel
+  ChatCompletionTool,
+  AIModel,
+  FinishReason,
+  ToolCall
 } from '../types/completions';
 import { DEFAULT_MODELS } from '../types/completions';
 
@@ -14,7 +17,10 @@ export interface AIProvider {
   getSupportedModels(): AIModel[];
 }
 
-// Mock AI Provider for development/testing
+// Mock AI Provider for development/testing. Replies are derived from the last
+// user message, so the same request always gets the same reply. Tool calling
+// and JSON output are emulated: a tool is called when tool_choice asks for it
+// or the user message names it, and its result is acknowledged in the reply.
 export class MockAIProvider implements AIProvider {
   async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     const model = request.model || 'gpt-4o';
@@ -24,9 +30,7 @@ export class MockAIProvider implements AIProvider {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    // Generate mock response based on the last user message
-    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
-    const content = this.generateMockResponse(lastUserMessage?.content || '');
+    const { content, toolCalls } = this.generateReply(request);
     
     return {
       id,
@@ -37,13 +41,14 @@ export class MockAIProvider implements AIProvider {
         index: 0,
         message: {
           role: 'assistant',
-          content
+          content,
+          ...(toolCalls && { tool_calls: toolCalls })
         },
-        finish_reason: 'stop'
+        finish_reason: toolCalls ? 'tool_calls' : 'stop'
       }],
       usage: {
-        prompt_tokens: this.estimateTokens(request.messages.map(m => m.content).join(' ')),
-        completion_tokens: this.estimateTokens(content),
+        prompt_tokens: this.estimateTokens(request.messages.map(m => m.content ?? '').join(' ')),
+        completion_tokens: this.estimateTokens(content ?? JSON.stringify(toolCalls)),
         total_tokens: 0 // Will be calculated
       }
     };
@@ -53,61 +58,117 @@ export class MockAIProvider implements AIProvider {
     const model = request.model || 'gpt-4o';
     const id = `chatcmpl-${Date.now()}`;
     const created = Math.floor(Date.now() / 1000);
+    const chunk = (
+      delta: ChatCompletionStreamChunk['choices'][number]['delta'],
+      finishReason: FinishReason = null
+    ): ChatCompletionStreamChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    });
     
-    // Generate mock response
-    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
-    const content = this.generateMockResponse(lastUserMessage?.content || '');
+    const { content, toolCalls } = this.generateReply(request);
+    
+    if (toolCalls) {
+      // Like OpenAI: the id and name first, then the arguments
+      for (const [index, call] of toolCalls.entries()) {
+        yield chunk({
+          ...(index === 0 && { role: 'assistant', content: null }),
+          tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }]
+        });
+        await new Promise(resolve => setTimeout(resolve, 50)); // Simulate streaming delay
+        yield chunk({ tool_calls: [{ index, function: { arguments: call.function.arguments } }] });
+      }
+      yield chunk({}, 'tool_calls');
+      return;
+    }
     
     // Split content into chunks for streaming
-    const words = content.split(' ');
+    const words = (content ?? '').split(' ');
     
     for (let i = 0; i < words.length; i++) {
       await new Promise(resolve => setTimeout(resolve, 50)); // Simulate streaming delay
       
-      const chunk: ChatCompletionStreamChunk = {
-        id,
-        object: 'chat.completion.chunk',
-        created,
-        model,
-        choices: [{
-          index: 0,
-          delta: {
-            content: (i === 0 ? '' : ' ') + words[i]
-          },
-          finish_reason: null
-        }]
-      };
-      
-      yield chunk;
+      yield chunk({ content: (i === 0 ? '' : ' ') + words[i] });
     }
     
     // Final chunk with finish_reason
-    yield {
-      id,
-      object: 'chat.completion.chunk',
-      created,
-      model,
-      choices: [{
-        index: 0,
-        delta: {},
-        finish_reason: 'stop'
-      }]
-    };
+    yield chunk({}, 'stop');
   }
 
   getSupportedModels(): AIModel[] {
     return DEFAULT_MODELS;
   }
 
+  private generateReply(request: ChatCompletionRequest): { content: string | null; toolCalls?: ToolCall[] } {
+    const lastMessage = request.messages[request.messages.length - 1];
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+    const userInput = lastUserMessage?.content ?? '';
+
+    // Results of earlier calls are answered, not followed by more calls
+    const tool = lastMessage?.role === 'tool' ? undefined : this.pickTool(request, userInput);
+    if (tool) {
+      return {
+        content: null,
+        toolCalls: [{
+          id: `call_${this.hash(`${tool.function.name}:${userInput}`).toString(36)}`,
+          type: 'function',
+          function: {
+            name: tool.function.name,
+            arguments: JSON.stringify(mockJsonValue(tool.function.parameters ?? { type: 'object' }, this.excerpt(userInput)))
+          }
+        }]
+      };
+    }
+
+    let content = this.generateMockResponse(userInput);
+    if (lastMessage?.role === 'tool') {
+      const call = request.messages
+        .flatMap(m => m.tool_calls ?? [])
+        .find(candidate => candidate.id === lastMessage.tool_call_id);
+      content = `The ${call?.function.name ?? 'tool'} tool returned: ${this.excerpt(lastMessage.content ?? '')}`;
+    }
+
+    switch (request.response_format?.type) {
+      case 'json_schema':
+        return { content: JSON.stringify(mockJsonValue(request.response_format.json_schema.schema ?? { type: 'object' }, content)) };
+      case 'json_object':
+        return { content: JSON.stringify({ response: content }) };
+      default:
+        return { content };
+    }
+  }
+
+  // The tool tool_choice names, or one whose name appears in the user's message
+  private pickTool(request: ChatCompletionRequest, userInput: string): ChatCompletionTool | undefined {
+    const tools = request.tools ?? [];
+    const choice = request.tool_choice ?? 'auto';
+    if (choice === 'none') return undefined;
+    if (typeof choice === 'object') {
+      return tools.find(tool => tool.function.name === choice.function.name);
+    }
+
+    const input = userInput.toLowerCase();
+    const mentioned = tools.find(tool => {
+      const name = tool.function.name.toLowerCase();
+      return input.includes(name) || input.includes(name.replace(/[_-]+/g, ' '));
+    });
+    return mentioned ?? (choice === 'required' ? tools[0] : undefined);
+  }
+
   private generateMockResponse(userInput: string): string {
+    const topic = this.excerpt(userInput);
     const responses = [
-      `I understand you're asking about "${userInput}". Let me help you with that.`,
-      `That's an interesting question about "${userInput}". Here's what I think:`,
-      `Based on your query about "${userInput}", I can provide some insights.`,
-      `Great question! Regarding "${userInput}", here's my response:`,
+      `I understand you're asking about "${topic}". Let me help you with that.`,
+      `That's an interesting question about "${topic}". Here's what I think:`,
+      `Based on your query about "${topic}", I can provide some insights.`,
+      `Great question! Regarding "${topic}", here's my response:`,
     ];
     
-    const baseResponse = responses[Math.floor(Math.random() * responses.length)];
+    const seed = this.hash(userInput);
+    const baseResponse = responses[seed % responses.length];
     const additionalContent = [
       'This is a comprehensive topic that involves several key considerations.',
       'There are multiple approaches to this, each with their own benefits.',
@@ -115,7 +176,23 @@ export class MockAIProvider implements AIProvider {
       'I recommend considering the following factors when addressing this.'
     ];
     
-    return `${baseResponse}\n\n${additionalContent[Math.floor(Math.random() * additionalContent.length)]}`;
+    return `${baseResponse}\n\n${additionalContent[Math.floor(seed / responses.length) % additionalContent.length]}`;
+  }
+
+  // First line of the input, shortened so long prompts don't get echoed back whole
+  private excerpt(text: string): string {
+    const line = text.trim().split('\n')[0].trim();
+    return line.length > 60 ? `${line.slice(0, 60).trimEnd()}...` : line;
+  }
+
+  // Stable non-negative hash (FNV-1a) used to pick the reply
+  private hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
   }
 
   private estimateTokens(text: string): number {
@@ -124,37 +201,120 @@ export class MockAIProvider implements AIProvider {
   }
 }
 
+/**
+ * A value matching a JSON Schema, for the mock provider's tool arguments and
+ * JSON replies: every listed property is filled in, strings with `text`.
+ */
+function mockJsonValue(schema: any, text: string): unknown {
+  if (schema?.const !== undefined) return schema.const;
+  if (Array.isArray(schema?.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema?.type)
+    ? schema.type.find((candidate: string) => candidate !== 'null')
+    : schema?.type ?? (schema?.properties ? 'object' : 'string');
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, mockJsonValue(property, text)])
+      );
+    case 'array':
+      return schema.items ? [mockJsonValue(schema.items, text)] : [];
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return text;
+  }
+}
+
+// A failed call to a provider's API, answered with 502 Bad Gateway
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    // Seconds the provider asked us to wait before retrying (Retry-After)
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// The Retry-After header in seconds; it holds either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - now) / 1000);
+}
+
+/**
+ * The events of a server-sent events body, buffered so an event split across
+ * reads is yielded once it is complete. Providers decide what ends the stream.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event: string | undefined;
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 // OpenAI Provider (real implementation)
 export class OpenAIProvider implements AIProvider {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.openai.com/v1';
+  protected readonly name: string = 'OpenAI';
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
+  constructor(
+    protected apiKey: string | undefined,
+    protected baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
 
   async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     const { stream, ...requestBody } = request;
     
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        ...requestBody,
-        model: request.model || 'gpt-4o',
-        stream: false
-      })
+    const response = await this.post({
+      ...requestBody,
+      model: this.upstreamModel(request.model || 'gpt-4o'),
+      stream: false
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
-    }
-
     const completion: ChatCompletionResponse = await response.json();
+    completion.model = this.exposedModel(completion.model);
     
     // Calculate total tokens if not provided
     if (completion.usage) {
@@ -167,69 +327,112 @@ export class OpenAIProvider implements AIProvider {
   async* generateStreamingCompletion(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionStreamChunk> {
     const { stream, ...requestBody } = request;
     
+    const response = await this.post({
+      ...requestBody,
+      model: this.upstreamModel(request.model || 'gpt-4o'),
+      stream: true,
+      stream_options: { include_usage: true } // Final chunk carries token usage
+    });
+
+    if (!response.body) {
+      throw new ProviderError('Response body is null', this.name);
+    }
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') {
+        return;
+      }
+
+      try {
+        const parsed: ChatCompletionStreamChunk = JSON.parse(data);
+        parsed.model = this.exposedModel(parsed.model);
+        yield parsed;
+      } catch (e) {
+        // Skip invalid JSON chunks
+        continue;
+      }
+    }
+  }
+
+  getSupportedModels(): AIModel[] {
+    return DEFAULT_MODELS.filter(model => model.provider === 'openai');
+  }
+
+  // The model id the API knows the model by, and the id it is exposed as
+  protected upstreamModel(model: string): string {
+    return model;
+  }
+
+  protected exposedModel(model: string): string {
+    return model;
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        ...requestBody,
-        model: request.model || 'gpt-4o',
-        stream: true
-      })
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw new ProviderError(
+        `${this.name} API error: ${response.status} ${error}`,
+        this.name,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
-    if (!response.body) {
-      throw new Error('Response body is null');
-    }
+    return response;
+  }
+}
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  // Model ids served, without the local/ prefix
+  models: string[];
+}
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+// Self-hosted models behind an OpenAI-compatible API (vLLM, Ollama, LM Studio, ...).
+// They are exposed as "local/<model>" and sent upstream without the prefix.
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  static readonly PREFIX = 'local/';
+  protected readonly name = 'OpenAI-compatible';
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
+  constructor(private config: OpenAICompatibleConfig) {
+    super(config.apiKey, config.baseUrl.replace(/\/+$/, ''));
+  }
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            
-            if (data === '[DONE]') {
-              return;
-            }
+  getSupportedModels(): AIModel[] {
+    return this.config.models.map(model => ({
+      id: `${OpenAICompatibleProvider.PREFIX}${model}`,
+      name: model,
+      description: `Self-hosted model served at ${this.baseUrl}`,
+      provider: 'local',
+      maxTokens: 8192,
+      supportsStreaming: true
+    }));
+  }
 
-            try {
-              const parsed: ChatCompletionStreamChunk = JSON.parse(data);
-              yield parsed;
-            } catch (e) {
-              // Skip invalid JSON chunks
-              continue;
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+  protected upstreamModel(model: string): string {
+    return model.startsWith(OpenAICompatibleProvider.PREFIX)
+      ? model.slice(OpenAICompatibleProvider.PREFIX.length)
+      : model;
   }
 
-  getSupportedModels(): AIModel[] {
-    return DEFAULT_MODELS.filter(model => model.provider === 'openai');
+  protected exposedModel(model: string): string {
+    return `${OpenAICompatibleProvider.PREFIX}${this.upstreamModel(model)}`;
   }
 }
 
 // Azure Workflow Provider
 export class AzureWorkflowProvider implements AIProvider {
+  private readonly name = 'Azure Workflow';
   private baseUrl: string = 'http://52.152.196.217:4500';
 
   async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
@@ -264,7 +467,12 @@ export class AzureWorkflowProvider implements AIProvider {
 
     if (!workflowResponse.ok) {
       const error = await workflowResponse.text();
-      throw new Error(`Azure Workflow API error: ${workflowResponse.status} ${error}`);
+      throw new ProviderError(
+        `${this.name} API error: ${workflowResponse.status} ${error}`,
+        this.name,
+        workflowResponse.status,
+        parseRetryAfter(workflowResponse.headers.get('Retry-After'))
+      );
     }
 
     // Get execution details
@@ -273,7 +481,7 @@ export class AzureWorkflowProvider implements AIProvider {
     const eventId = workflowResult.event_id;
 
     if (!eventId) {
-      throw new Error('No event ID returned from workflow');
+      throw new ProviderError('No event ID returned from workflow', this.name);
     }
 
     // Connect to SSE stream to get the response
@@ -287,11 +495,11 @@ export class AzureWorkflowProvider implements AIProvider {
     });
 
     if (!sseResponse.ok) {
-      throw new Error(`SSE connection failed: ${sseResponse.status}`);
+      throw new ProviderError(`SSE connection failed: ${sseResponse.status}`, this.name, sseResponse.status);
     }
 
     if (!sseResponse.body) {
-      throw new Error('SSE response body is null');
+      throw new ProviderError('SSE response body is null', this.name);
     }
 
     const reader = sseResponse.body.getReader();
@@ -331,7 +539,7 @@ export class AzureWorkflowProvider implements AIProvider {
                     finish_reason: 'stop'
                   }],
                   usage: {
-                    prompt_tokens: this.estimateTokens(lastUserMessage.content),
+                    prompt_tokens: this.estimateTokens(lastUserMessage.content ?? ''),
                     completion_tokens: this.estimateTokens(content),
                     total_tokens: 0 // Will be calculated
                   }
@@ -348,7 +556,7 @@ export class AzureWorkflowProvider implements AIProvider {
       reader.releaseLock();
     }
 
-    throw new Error('No response received from Azure Workflow');
+    throw new ProviderError('No response received from Azure Workflow', this.name);
   }
 
   async* generateStreamingCompletion(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionStreamChunk> {
@@ -383,14 +591,19 @@ export class AzureWorkflowProvider implements AIProvider {
 
     if (!workflowResponse.ok) {
       const error = await workflowResponse.text();
-      throw new Error(`Azure Workflow API error: ${workflowResponse.status} ${error}`);
+      throw new ProviderError(
+        `${this.name} API error: ${workflowResponse.status} ${error}`,
+        this.name,
+        workflowResponse.status,
+        parseRetryAfter(workflowResponse.headers.get('Retry-After'))
+      );
     }
 
     const workflowResult = await workflowResponse.json() as { execution_id?: string; event_id?: string };
     const eventId = workflowResult.event_id;
 
     if (!eventId) {
-      throw new Error('No event ID returned from workflow');
+      throw new ProviderError('No event ID returned from workflow', this.name);
     }
 
     // Connect to SSE stream to get the response
@@ -404,11 +617,11 @@ export class AzureWorkflowProvider implements AIProvider {
     });
 
     if (!sseResponse.ok) {
-      throw new Error(`SSE connection failed: ${sseResponse.status}`);
+      throw new ProviderError(`SSE connection failed: ${sseResponse.status}`, this.name, sseResponse.status);
     }
 
     if (!sseResponse.body) {
-      throw new Error('SSE response body is null');
+      throw new ProviderError('SSE response body is null', this.name);
     }
 
     const reader = sseResponse.body.getReader();
@@ -481,7 +694,7 @@ export class AzureWorkflowProvider implements AIProvider {
       reader.releaseLock();
     }
 
-    throw new Error('No response received from Azure Workflow');
+    throw new ProviderError('No response received from Azure Workflow', this.name);
   }
 
   getSupportedModels(): AIModel[] {
@@ -502,21 +715,3 @@ export class AzureWorkflowProvider implements AIProvider {
     return Math.ceil(text.length / 4);
   }
 }
-
-// Factory to get the appropriate provider
-export function createAIProvider(env: any, model?: string): AIProvider {
-  // Use Azure Workflow provider if model starts with "azure/"
-  if (model?.startsWith('azure/')) {
-    console.log('Using Azure Workflow provider for model:', model);
-    return new AzureWorkflowProvider();
-  }
-  
-  // Use OpenAI provider if API key is available, otherwise fallback to mock
-  if (env.OPENAI_API_KEY) {
-    console.log('Using OpenAI provider with API key');
-    return new OpenAIProvider(env.OPENAI_API_KEY);
-  }
-  
-  console.log('No OpenAI API key found, using mock provider');
-  return new MockAIProvider();
-}
@@ -0,0 +1,312 @@
+// Anthropic Messages API adapter: translates chat completion requests to /v1/messages
+// and its responses and stream events back to the OpenAI-compatible shapes
+
+import type {
+  AIModel,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ChatCompletionUsage,
+  FinishReason,
+  ToolCall
+} from '../types/completions';
+import { ANTHROPIC_MODELS } from '../types/completions';
+import { ProviderError, parseRetryAfter, readServerSentEvents, type AIProvider } from './ai-provider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// max_tokens is required by the Messages API
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export class AnthropicProvider implements AIProvider {
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://api.anthropic.com/v1'
+  ) {}
+
+  async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const response = await this.post(request, false);
+    const message: AnthropicResponse = await response.json();
+    const content = message.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+    const toolCalls: ToolCall[] = message.content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id!,
+        type: 'function',
+        function: { name: block.name!, arguments: JSON.stringify(block.input ?? {}) }
+      }));
+
+    return {
+      id: message.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: message.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: toolCalls.length > 0 && !content ? null : content,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+        },
+        finish_reason: toFinishReason(message.stop_reason)
+      }],
+      usage: toUsage(message.usage.input_tokens, message.usage.output_tokens)
+    };
+  }
+
+  async* generateStreamingCompletion(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionStreamChunk> {
+    const response = await this.post(request, true);
+
+    if (!response.body) {
+      throw new ProviderError('Response body is null', 'Anthropic');
+    }
+
+    let id = '';
+    let model = request.model || '';
+    let inputTokens = 0;
+    // Content block index of each tool_use block -> index among the tool calls
+    const toolIndexes = new Map<number, number>();
+    const created = Math.floor(Date.now() / 1000);
+    const chunk = (
+      delta: ChatCompletionStreamChunk['choices'][number]['delta'],
+      finishReason: FinishReason = null
+    ): ChatCompletionStreamChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    });
+
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      const payload = JSON.parse(data);
+
+      switch (event ?? payload.type) {
+        case 'message_start':
+          id = payload.message.id;
+          model = payload.message.model;
+          inputTokens = payload.message.usage?.input_tokens ?? 0;
+          yield chunk({ role: 'assistant', content: '' });
+          break;
+        case 'content_block_start':
+          if (payload.content_block?.type === 'tool_use') {
+            const index = toolIndexes.size;
+            toolIndexes.set(payload.index, index);
+            yield chunk({
+              tool_calls: [{
+                index,
+                id: payload.content_block.id,
+                type: 'function',
+                function: { name: payload.content_block.name, arguments: '' }
+              }]
+            });
+          }
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta') {
+            yield chunk({ content: payload.delta.text });
+          } else if (payload.delta?.type === 'input_json_delta' && toolIndexes.has(payload.index)) {
+            yield chunk({
+              tool_calls: [{ index: toolIndexes.get(payload.index)!, function: { arguments: payload.delta.partial_json } }]
+            });
+          }
+          break;
+        case 'message_delta':
+          yield {
+            ...chunk({}, toFinishReason(payload.delta?.stop_reason ?? null)),
+            usage: toUsage(inputTokens, payload.usage?.output_tokens ?? 0)
+          };
+          break;
+        case 'message_stop':
+          return;
+        case 'error':
+          throw new ProviderError(`Anthropic API error: ${payload.error?.type} ${payload.error?.message}`, 'Anthropic');
+        // ping and content_block_stop carry nothing to translate
+      }
+    }
+  }
+
+  getSupportedModels(): AIModel[] {
+    return ANTHROPIC_MODELS;
+  }
+
+  private async post(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        ...(system && { system }),
+        messages: toAnthropicMessages(request),
+        // Anthropic's temperature range is 0-1, OpenAI's 0-2
+        ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+        ...(request.top_p !== undefined && { top_p: request.top_p }),
+        ...(request.stop && { stop_sequences: Array.isArray(request.stop) ? request.stop : [request.stop] }),
+        ...(request.user && { metadata: { user_id: request.user } }),
+        ...toAnthropicTools(request),
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new ProviderError(
+        `Anthropic API error: ${response.status} ${error}`,
+        'Anthropic',
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return response;
+  }
+}
+
+/**
+ * The conversation without system messages (they go in `system`), with
+ * consecutive messages of the same role merged and a user turn first, as
+ * the Messages API requires. Tool calls become tool_use blocks and tool
+ * messages tool_result blocks in a user turn.
+ */
+export function toAnthropicMessages(request: ChatCompletionRequest): AnthropicMessage[] {
+  const messages: AnthropicMessage[] = [];
+
+  for (const message of request.messages) {
+    if (message.role === 'system') continue;
+
+    const next = toAnthropicMessage(message);
+    const previous = messages[messages.length - 1];
+    if (previous?.role !== next.role) {
+      messages.push(next);
+    } else if (typeof previous.content === 'string' && typeof next.content === 'string') {
+      previous.content += `\n\n${next.content}`;
+    } else {
+      previous.content = [...toBlocks(previous.content), ...toBlocks(next.content)];
+    }
+  }
+
+  if (messages[0]?.role === 'assistant') {
+    messages.unshift({ role: 'user', content: '(continued)' });
+  }
+
+  return messages;
+}
+
+function toAnthropicMessage(message: ChatCompletionRequest['messages'][number]): AnthropicMessage {
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: message.tool_call_id ?? '', content: message.content ?? '' }]
+    };
+  }
+
+  const role = message.role === 'assistant' ? 'assistant' : 'user';
+  if (!message.tool_calls?.length) {
+    return { role, content: message.content ?? '' };
+  }
+
+  return {
+    role,
+    content: [
+      ...toBlocks(message.content ?? ''),
+      ...message.tool_calls.map((call): AnthropicContentBlock => ({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: parseArguments(call.function.arguments)
+      }))
+    ]
+  };
+}
+
+function toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+  if (typeof content !== 'string') return content;
+  return content ? [{ type: 'text', text: content }] : [];
+}
+
+// Arguments are generated by the model and may not be valid JSON
+function parseArguments(text: string): unknown {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// `tools` and `tool_choice` in the Messages API's shapes
+function toAnthropicTools(request: ChatCompletionRequest): Record<string, unknown> {
+  if (!request.tools?.length) return {};
+
+  const choice = request.tool_choice;
+  const toolChoice = choice === 'none' ? { type: 'none' }
+    : choice === 'required' ? { type: 'any' }
+    : typeof choice === 'object' ? { type: 'tool', name: choice.function.name }
+    : { type: 'auto' };
+
+  return {
+    tools: request.tools.map(tool => ({
+      name: tool.function.name,
+      ...(tool.function.description && { description: tool.function.description }),
+      input_schema: tool.function.parameters ?? { type: 'object', properties: {} }
+    })),
+    tool_choice: {
+      ...toolChoice,
+      ...(request.parallel_tool_calls === false && choice !== 'none' && { disable_parallel_tool_use: true })
+    }
+  };
+}
+
+function toFinishReason(stopReason: string | null): FinishReason {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return null;
+  }
+}
+
+function toUsage(inputTokens: number, outputTokens: number): ChatCompletionUsage {
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens
+  };
+}
@@ -0,0 +1,166 @@
+// Artifact version history service
+
+import type { VersionSnapshot } from '../utils/diff';
+
+export const ARTIFACT_VERSION_SELECT = {
+  id: true,
+  version: true,
+  title: true,
+  description: true,
+  content: true,
+  blocks: true,
+  metadata: true,
+  restoredFrom: true,
+  createdAt: true,
+  author: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      nick: true,
+      avatarUrl: true
+    }
+  }
+} as const;
+
+// Attempts at writing a new version before concurrent edits are reported as a conflict
+const MAX_WRITE_ATTEMPTS = 3;
+
+export class ArtifactVersionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'ArtifactVersionError';
+  }
+}
+
+interface VersionedArtifact {
+  id: string;
+  version: number;
+  title: string;
+  description?: string | null;
+  content: string;
+  blocks?: any;
+  metadata?: any;
+}
+
+export interface ArtifactChanges {
+  title?: string;
+  description?: string | null;
+  content?: string;
+  blocks?: any;
+  metadata?: any;
+}
+
+// Another write took the version first: the guarded update matched nothing (P2025)
+// or the snapshot hit the (artifactId, version) unique index (P2002)
+function isVersionConflict(error: any): boolean {
+  return error?.code === 'P2025' || error?.code === 'P2002';
+}
+
+export class ArtifactVersionService {
+  /**
+   * Store an immutable snapshot of the artifact as it is now.
+   * Only for artifacts just created; later versions are written with `writeVersion`.
+   */
+  static async snapshot(prisma: any, artifact: VersionedArtifact, userId: string) {
+    return prisma.artifactVersion.create({
+      data: this.snapshotData(artifact, userId),
+      select: ARTIFACT_VERSION_SELECT
+    });
+  }
+
+  /**
+   * Apply `changes` as the artifact's next version and store its snapshot in the
+   * same batch, so neither is written without the other. The update only matches
+   * the version it was computed from: of two concurrent edits one wins and the
+   * other is reapplied on top of it, up to MAX_WRITE_ATTEMPTS times.
+   */
+  static async writeVersion(
+    prisma: any,
+    artifact: VersionedArtifact,
+    changes: ArtifactChanges,
+    userId: string,
+    options: { select?: Record<string, unknown>; restoredFrom?: number } = {}
+  ) {
+    const defined = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    ) as ArtifactChanges;
+    let current = artifact;
+
+    for (let attempt = 1; ; attempt++) {
+      const version = current.version + 1;
+
+      try {
+        const [updated] = await prisma.$transaction([
+          prisma.artifact.update({
+            where: { id: current.id, version: current.version },
+            data: { ...defined, version },
+            select: options.select
+          }),
+          prisma.artifactVersion.create({
+            data: this.snapshotData({ ...current, ...defined, version }, userId, options.restoredFrom),
+            select: { id: true }
+          })
+        ]);
+        return updated;
+      } catch (error) {
+        if (!isVersionConflict(error)) throw error;
+
+        if (attempt >= MAX_WRITE_ATTEMPTS) {
+          throw new ArtifactVersionError(
+            `Artifact ${artifact.id} kept changing while it was being saved, try again`,
+            409,
+            'Version Conflict'
+          );
+        }
+
+        const latest = await prisma.artifact.findUnique({ where: { id: artifact.id } });
+        if (!latest) {
+          throw new ArtifactVersionError(`Artifact with ID ${artifact.id} was not found`, 404, 'Artifact Not Found');
+        }
+        current = latest;
+      }
+    }
+  }
+
+  static async getVersion(prisma: any, artifactId: string, version: number) {
+    return prisma.artifactVersion.findUnique({
+      where: {
+        artifactId_version: { artifactId, version }
+      },
+      select: ARTIFACT_VERSION_SELECT
+    });
+  }
+
+  /**
+   * Restore an earlier version by writing its content as a new version.
+   * History is never rewritten: restoring v2 of a v5 artifact produces v6.
+   */
+  static async restore(prisma: any, artifact: VersionedArtifact, source: VersionSnapshot, userId: string) {
+    return this.writeVersion(prisma, artifact, {
+      title: source.title,
+      description: source.description ?? null,
+      content: source.content,
+      blocks: source.blocks ?? null,
+      metadata: source.metadata ?? null
+    }, userId, { restoredFrom: source.version });
+  }
+
+  private static snapshotData(artifact: VersionedArtifact, userId: string, restoredFrom?: number) {
+    return {
+      artifactId: artifact.id,
+      version: artifact.version,
+      title: artifact.title,
+      description: artifact.description ?? null,
+      content: artifact.content,
+      blocks: artifact.blocks ?? null,
+      metadata: artifact.metadata ?? null,
+      createdBy: userId,
+      restoredFrom
+    };
+  }
+}
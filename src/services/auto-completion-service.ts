@@ -0,0 +1,107 @@
+// Assistant replies to user messages: build the completion request from the thread and store the reply
+
+import { getDatabaseClient } from '../utils/database';
+import { markdownToBlocks } from '../utils/markdown-blocks';
+import { DEFAULT_REPLY_TOKENS } from '../utils/context-window';
+import { CompletionService } from './completion-service';
+import { ContextService } from './context-service';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+export const ASSISTANT_MESSAGE_SELECT = {
+  id: true,
+  role: true,
+  content: true,
+  blocks: true,
+  createdAt: true,
+  updatedAt: true,
+  metadata: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      nick: true,
+      avatarUrl: true
+    }
+  }
+} as const;
+
+export class AutoCompletionService {
+  /**
+   * Build the completion request from the thread's most recent messages that
+   * fit the model's context window
+   */
+  static async buildRequest(prisma: any, threadId: string, env: any) {
+    const model = env.DEFAULT_AI_MODEL || 'gpt-4o';
+    const context = await ContextService.buildThreadContext(prisma, env, threadId, {
+      model,
+      replyTokens: DEFAULT_REPLY_TOKENS
+    });
+
+    return {
+      model,
+      messages: context.messages,
+      temperature: 0.7,
+      max_tokens: DEFAULT_REPLY_TOKENS,
+      n: 1,
+      stream: false
+    };
+  }
+
+  /**
+   * Store a generated assistant reply in the thread, with its markdown as blocks
+   */
+  static async createAssistantMessage(
+    prisma: any,
+    threadId: string,
+    content: string,
+    metadata: Record<string, any>
+  ) {
+    return prisma.message.create({
+      data: {
+        threadId: threadId,
+        userId: null, // Assistant messages don't have a userId
+        role: 'ASSISTANT',
+        content,
+        blocks: markdownToBlocks(content),
+        metadata
+      },
+      select: ASSISTANT_MESSAGE_SELECT
+    });
+  }
+
+  /**
+   * Generate and store the assistant reply to a thread on behalf of a user.
+   * Returns null when the provider returned no content; provider errors are thrown.
+   */
+  static async generate(env: any, threadId: string, user: AuthenticatedUser) {
+    const prisma = getDatabaseClient(env.DB);
+    const completionRequest = await this.buildRequest(prisma, threadId, env);
+    const result = await CompletionService.createCompletion(completionRequest, user, env, completionRequest.messages, { threadId });
+
+    const content = result?.completion?.choices?.[0]?.message?.content;
+    if (!content) {
+      return null;
+    }
+
+    const assistantMessage = await this.createAssistantMessage(prisma, threadId, content, {
+      completionId: result.record?.id,
+      model: result.completion.model,
+      usage: {
+        prompt_tokens: result.completion.usage?.prompt_tokens,
+        completion_tokens: result.completion.usage?.completion_tokens,
+        total_tokens: result.completion.usage?.total_tokens
+      }
+    });
+
+    if (result.record) {
+      // Link the completion to the message it produced
+      await prisma.completion.update({
+        where: { id: result.record.id },
+        data: { messageId: assistantMessage.id }
+      });
+    }
+
+    return assistantMessage;
+  }
+}
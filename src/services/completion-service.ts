@@ -1,7 +1,9 @@
 // Completion service for handling chat completion requests
 
 import { getDatabaseClient } from '../utils/database';
-import { createAIProvider } from './ai-provider';
+import { listModels } from './provider-registry';
+import { ResilientProvider } from './resilient-provider';
+import { ThreadAccessService } from './thread-access-service';
 import type { AuthenticatedUser } from '../middleware/auth';
 import type { 
   ChatCompletionRequest, 
@@ -11,27 +13,94 @@ import type {
   CompletionRecord
 } from '../types/completions';
 import type { ChatCompletionRequestInput } from '../utils/validation';
+import {
+  applyStreamChunk,
+  createStreamedCompletion,
+  toCompletionResponse,
+  type StreamedCompletion
+} from '../utils/completion-stream';
+import { hasThreadPermission } from '../utils/thread-permissions';
+import { markdownToBlocks } from '../utils/markdown-blocks';
+import { DEFAULT_REPLY_TOKENS } from '../utils/context-window';
+import { ContextService } from './context-service';
+
+// How a streamed completion ended
+type StreamOutcome = 'completed' | 'error' | 'disconnected';
+
+export interface CompletionOptions {
+  // Thread the completion is recorded against when the caller stores the reply
+  // itself, as auto-completions do; a request's thread_id also writes the exchange
+  threadId?: string;
+}
+
+// Request failures, mapped to problem responses by the route
+export class CompletionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'CompletionError';
+  }
+}
 
 export class CompletionService {
+  /**
+   * The messages to send to the provider. With `include_thread_history`, the
+   * thread's stored history that fits the model's context window goes between
+   * the request's system messages and the rest of its messages; otherwise the
+   * request's messages are sent as they are.
+   */
+  static async resolveMessages(
+    request: ChatCompletionRequestInput,
+    user: AuthenticatedUser,
+    env: any
+  ): Promise<ChatMessage[]> {
+    if (!request.include_thread_history || !request.thread_id) {
+      return request.messages;
+    }
+
+    const prisma = getDatabaseClient(env.DB);
+    const access = await ThreadAccessService.check(prisma, request.thread_id, user, 'comment');
+    if (!access.allowed) {
+      throw new CompletionError(access.error.detail, access.error.status, access.error.title);
+    }
+
+    const context = await ContextService.buildThreadContext(prisma, env, request.thread_id, {
+      model: request.model || env.DEFAULT_AI_MODEL || 'gpt-4o',
+      replyTokens: request.max_tokens ?? DEFAULT_REPLY_TOKENS,
+      system: request.messages.filter(message => message.role === 'system'),
+      pending: request.messages.filter(message => message.role !== 'system')
+    });
+
+    return context.messages;
+  }
+
   static async createCompletion(
     request: ChatCompletionRequestInput, 
     user: AuthenticatedUser,
-    env: any
+    env: any,
+    messages: ChatMessage[] = request.messages,
+    options: CompletionOptions = {}
   ): Promise<{ completion: ChatCompletionResponse; record: CompletionRecord }> {
     const prisma = getDatabaseClient(env.DB);
+    const threadId = request.thread_id ?? options.threadId;
     
     // Set default model if not provided
     const model = request.model || env.DEFAULT_AI_MODEL || 'gpt-4o';
     
-    // Create provider based on model
-    const provider = createAIProvider(env, model);
+    // Provider for the model, with retries and its fallback models
+    const provider = new ResilientProvider(env, model);
     
     // Generate unique request ID
     const requestId = crypto.randomUUID();
     
     // Convert request to provider format
+    const { include_thread_history, ...fields } = request;
     const providerRequest: ChatCompletionRequest = {
-      ...request,
+      ...fields,
+      messages,
       model
     };
     
@@ -58,7 +127,7 @@ export class CompletionService {
       const completionRecord = await prisma.completion.create({
         data: {
           userId: user.id,
-          threadId: request.thread_id,
+          threadId,
           messageId,
           model,
           messages: request.messages,
@@ -70,6 +139,9 @@ export class CompletionService {
           response: completion,
           usage: completion.usage,
           finishReason: completion.choices[0]?.finish_reason,
+          provider: provider.servedBy?.provider,
+          servedModel: provider.servedBy?.model,
+          attempts: provider.attempts,
           requestId,
           completedAt: new Date()
         }
@@ -91,7 +163,7 @@ export class CompletionService {
       await prisma.completion.create({
         data: {
           userId: user.id,
-          threadId: request.thread_id,
+          threadId,
           model,
           messages: request.messages,
           maxTokens: request.max_tokens,
@@ -100,6 +172,7 @@ export class CompletionService {
           stop: request.stop ? (Array.isArray(request.stop) ? request.stop : [request.stop]) : null,
           stream: request.stream || false,
           response: { error: error.message },
+          attempts: provider.attempts,
           requestId
         }
       });
@@ -108,30 +181,149 @@ export class CompletionService {
     }
   }
   
+  /**
+   * Stream a completion from the provider. The chunks are accumulated so that
+   * once the stream ends - normally, with an error, or because the consumer
+   * stopped reading (client disconnect) - a Completion record is stored with
+   * the collected or estimated usage. When `thread_id` is set and the stream
+   * finishes normally, the exchange is also written to the thread.
+   * `messages` are those sent to the provider, from `resolveMessages`.
+   * The generator's return value is the stored record.
+   */
   static async* createStreamingCompletion(
     request: ChatCompletionRequestInput, 
     user: AuthenticatedUser,
-    env: any
-  ): AsyncGenerator<ChatCompletionStreamChunk> {
+    env: any,
+    messages: ChatMessage[] = request.messages,
+    options: CompletionOptions = {}
+  ): AsyncGenerator<ChatCompletionStreamChunk, CompletionRecord | null> {
+    const prisma = getDatabaseClient(env.DB);
+
     // Set default model if not provided
     const model = request.model || env.DEFAULT_AI_MODEL || 'gpt-4o';
     
-    // Create provider based on model
-    const provider = createAIProvider(env, model);
+    // Provider for the model, with retries and its fallback models
+    const provider = new ResilientProvider(env, model);
     
+    // Generate unique request ID
+    const requestId = crypto.randomUUID();
+
     // Convert request to provider format
+    const { include_thread_history, ...fields } = request;
     const providerRequest: ChatCompletionRequest = {
-      ...request,
+      ...fields,
+      messages,
       model,
       stream: true
     };
     
-    // Stream completion from AI provider
-    for await (const chunk of provider.generateStreamingCompletion(providerRequest)) {
-      yield chunk;
+    const streamed = createStreamedCompletion(model);
+    let outcome: StreamOutcome = 'disconnected';
+    let failure: unknown;
+    let record: CompletionRecord | null = null;
+
+    try {
+      // Stream completion from AI provider
+      for await (const chunk of provider.generateStreamingCompletion(providerRequest)) {
+        applyStreamChunk(streamed, chunk);
+        yield chunk;
+      }
+      outcome = 'completed';
+    } catch (error) {
+      console.error('Error streaming completion:', error);
+      outcome = 'error';
+      failure = error;
+      throw error;
+    } finally {
+      // Runs on normal completion, on error and when the consumer stops early
+      record = await this.recordStreamedCompletion(request, user, prisma, {
+        threadId: request.thread_id ?? options.threadId,
+        model,
+        requestId,
+        messages,
+        streamed,
+        outcome,
+        failure,
+        provider
+      });
+    }
+
+    return record;
+  }
+
+  private static async recordStreamedCompletion(
+    request: ChatCompletionRequestInput,
+    user: AuthenticatedUser,
+    prisma: any,
+    result: {
+      threadId?: string;
+      model: string;
+      requestId: string;
+      // Sent to the provider; usage is estimated from them when the stream has none
+      messages: ChatMessage[];
+      streamed: StreamedCompletion;
+      outcome: StreamOutcome;
+      failure?: unknown;
+      // Says which provider and model served the stream, after how many attempts
+      provider: ResilientProvider;
+    }
+  ): Promise<CompletionRecord | null> {
+    const { streamed, outcome } = result;
+    const completion = toCompletionResponse(streamed, result.messages);
+
+    try {
+      // Handle thread integration if thread_id is provided
+      let messageId: string | undefined;
+      if (outcome === 'completed' && request.thread_id) {
+        messageId = await this.integrateWithThread(
+          request.thread_id,
+          request.messages,
+          completion,
+          user,
+          prisma
+        );
+      }
+
+      const completionRecord = await prisma.completion.create({
+        data: {
+          userId: user.id,
+          threadId: result.threadId,
+          messageId,
+          model: result.model,
+          messages: request.messages,
+          maxTokens: request.max_tokens,
+          temperature: request.temperature,
+          topP: request.top_p,
+          stop: request.stop ? (Array.isArray(request.stop) ? request.stop : [request.stop]) : null,
+          stream: true,
+          response: outcome === 'completed' ? completion : {
+            ...completion,
+            incomplete: outcome === 'error' ? 'provider_error' : 'client_disconnected',
+            ...(outcome === 'error' && {
+              error: result.failure instanceof Error ? result.failure.message : String(result.failure)
+            })
+          },
+          usage: completion.usage,
+          finishReason: streamed.finishReason,
+          provider: result.provider.servedBy?.provider,
+          servedModel: result.provider.servedBy?.model,
+          attempts: result.provider.attempts,
+          requestId: result.requestId,
+          completedAt: outcome === 'completed' ? new Date() : null
+        }
+      });
+
+      return {
+        ...completionRecord,
+        messages: completionRecord.messages as ChatMessage[],
+        response: completionRecord.response as ChatCompletionResponse,
+        stop: completionRecord.stop as string[] | null
+      };
+    } catch (error) {
+      // Never let bookkeeping failures mask the stream's own outcome
+      console.error('Error storing streamed completion:', error);
+      return null;
     }
-    
-    // TODO: Store streaming completion record after completion
   }
   
   private static async integrateWithThread(
@@ -141,21 +333,24 @@ export class CompletionService {
     user: AuthenticatedUser,
     prisma: any
   ): Promise<string> {
-    // Verify thread exists and user has access
-    const thread = await prisma.thread.findUnique({
-      where: { id: threadId }
-    });
+    // Verify thread exists and user may post to it
+    const access = await ThreadAccessService.getRole(prisma, threadId, user);
     
-    if (!thread) {
+    if (!access) {
       throw new Error('Thread not found');
     }
     
-    if (thread.userId !== user.id) {
+    if (!hasThreadPermission(access.role, 'comment')) {
       throw new Error('Access denied to thread');
     }
     
-    // Get the last user message from the completion request
-    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    // Messages after the last assistant turn are new; earlier ones are stored already
+    const lastAssistantIndex = messages.map(m => m.role).lastIndexOf('assistant');
+    const newMessages = messages.slice(lastAssistantIndex + 1);
+    const lastUserMessage = [...newMessages].reverse().find(m => m.role === 'user');
+    const toolResults = newMessages
+      .filter(m => m.role === 'tool')
+      .map(m => ({ toolCallId: m.tool_call_id, content: m.content ?? '' }));
     
     // Create user message in thread if there's a new user message
     let userMessageId: string | undefined;
@@ -176,20 +371,25 @@ export class CompletionService {
       userMessageId = userMessage.id;
     }
     
-    // Create assistant message with the completion response
+    // Create assistant message with the completion response, rendered as blocks.
+    // Tool calls, and the results of the previous calls it answered, go in its metadata.
+    const content = completion.choices[0]?.message.content || '';
+    const toolCalls = completion.choices[0]?.message.tool_calls;
     const assistantMessage = await prisma.message.create({
       data: {
         threadId,
         userId: null, // Assistant messages don't have a user
         role: 'ASSISTANT',
-        content: completion.choices[0]?.message.content || '',
-        blocks: null,
+        content,
+        blocks: markdownToBlocks(content),
         metadata: {
           fromCompletion: true,
           completionId: completion.id,
           model: completion.model,
           usage: completion.usage,
-          finishReason: completion.choices[0]?.finish_reason
+          finishReason: completion.choices[0]?.finish_reason,
+          ...(toolCalls?.length && { toolCalls }),
+          ...(toolResults.length > 0 && { toolResults })
         }
       }
     });
@@ -198,15 +398,7 @@ export class CompletionService {
   }
   
   static async getAvailableModels(env: any) {
-    const openAIProvider = createAIProvider(env);
-    const azureProvider = createAIProvider(env, 'azure/SimpleAgent');
-    
-    const allModels = [
-      ...openAIProvider.getSupportedModels(),
-      ...azureProvider.getSupportedModels()
-    ];
-    
-    return allModels;
+    return listModels(env);
   }
   
   static async getCompletion(id: string, user: AuthenticatedUser, env: any) {
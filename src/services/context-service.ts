@@ -0,0 +1,75 @@
+// Context service: assemble the messages sent to the provider for a thread-based completion
+
+import {
+  buildContextWindow,
+  getContextBudget,
+  toChatMessages,
+  type ContextWindow
+} from '../utils/context-window';
+import { getThreadSummary } from '../utils/thread-summary';
+import type { ChatMessage } from '../types/completions';
+
+// Most recent messages considered; older ones are covered by the thread summary
+const HISTORY_LIMIT = 500;
+// Stored system prompts kept ahead of the history
+const SYSTEM_MESSAGE_LIMIT = 20;
+
+export interface ThreadContextOptions {
+  model: string;
+  // Tokens kept free for the reply
+  replyTokens: number;
+  // System messages sent ahead of the thread's own
+  system?: ChatMessage[];
+  // New messages not stored in the thread yet, sent after its history
+  pending?: ChatMessage[];
+}
+
+export class ContextService {
+  /**
+   * The thread's system prompts and the most recent history that fits the
+   * model's context window, with the rolling summary in place of the older
+   * messages
+   */
+  static async buildThreadContext(
+    prisma: any,
+    env: any,
+    threadId: string,
+    options: ThreadContextOptions
+  ): Promise<ContextWindow> {
+    const messageSelect = {
+      role: true,
+      content: true,
+      metadata: true, // Tool calls and results
+      user: {
+        select: {
+          name: true,
+          nick: true
+        }
+      }
+    };
+
+    const [thread, systemMessages, recentMessages] = await Promise.all([
+      prisma.thread.findUnique({ where: { id: threadId }, select: { metadata: true } }),
+      prisma.message.findMany({
+        where: { threadId, role: 'SYSTEM' },
+        orderBy: { createdAt: 'asc' },
+        take: SYSTEM_MESSAGE_LIMIT,
+        select: messageSelect
+      }),
+      prisma.message.findMany({
+        where: { threadId, role: { not: 'SYSTEM' } },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: messageSelect
+      })
+    ]);
+
+    return buildContextWindow({
+      system: [...(options.system ?? []), ...toChatMessages(systemMessages)],
+      history: toChatMessages([...recentMessages].reverse()),
+      pending: options.pending,
+      summary: getThreadSummary(thread?.metadata)?.text,
+      budgetTokens: getContextBudget(options.model, options.replyTokens, env.CONTEXT_TOKEN_LIMIT)
+    });
+  }
+}
@@ -0,0 +1,171 @@
+// Thread and artifact exports: load a resource into the versioned export document
+
+import {
+  EXPORT_VERSION,
+  summarizeReactions,
+  toIsoString,
+  type ArtifactExport,
+  type ExportArtifact,
+  type ExportAuthor,
+  type ExportMessage,
+  type ThreadExport
+} from '../utils/exports';
+
+// Messages included in a thread export, oldest first
+const MAX_EXPORTED_MESSAGES = 5000;
+
+// Emails are kept so an import can match authors to accounts
+const AUTHOR_SELECT = {
+  name: true,
+  nick: true,
+  email: true
+} as const;
+
+const ARTIFACT_SELECT = {
+  id: true,
+  type: true,
+  title: true,
+  description: true,
+  content: true,
+  blocks: true,
+  version: true,
+  metadata: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: AUTHOR_SELECT }
+} as const;
+
+export class ExportService {
+  /**
+   * Everything a member can see in a thread: messages with their authors,
+   * reactions and attachments, and the thread's artifacts. Returns null for
+   * missing or deleted threads; the caller has already checked access.
+   */
+  static async buildThreadExport(prisma: any, threadId: string, now = new Date()): Promise<ThreadExport | null> {
+    const thread = await prisma.thread.findUnique({
+      where: { id: threadId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        metadata: true,
+        createdAt: true,
+        updatedAt: true,
+        user: { select: AUTHOR_SELECT },
+        messages: {
+          select: {
+            id: true,
+            role: true,
+            content: true,
+            blocks: true,
+            metadata: true,
+            createdAt: true,
+            editedAt: true,
+            user: { select: AUTHOR_SELECT },
+            reactions: {
+              select: { emoji: true, user: { select: AUTHOR_SELECT } },
+              orderBy: { createdAt: 'asc' }
+            },
+            files: {
+              select: {
+                file: {
+                  select: { id: true, originalName: true, mimeType: true, size: true, checksum: true }
+                }
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' },
+          take: MAX_EXPORTED_MESSAGES
+        },
+        artifacts: {
+          select: ARTIFACT_SELECT,
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!thread || thread.status === 'DELETED') {
+      return null;
+    }
+
+    return {
+      schema: 'thread-export',
+      version: EXPORT_VERSION,
+      exportedAt: now.toISOString(),
+      thread: {
+        id: thread.id,
+        title: thread.title,
+        status: thread.status,
+        metadata: thread.metadata ?? null,
+        createdAt: toIsoString(thread.createdAt)!,
+        updatedAt: toIsoString(thread.updatedAt)!,
+        author: toExportAuthor(thread.user)
+      },
+      messages: thread.messages.map(toExportMessage),
+      artifacts: thread.artifacts.map(toExportArtifact)
+    };
+  }
+
+  static async buildArtifactExport(prisma: any, artifactId: string, now = new Date()): Promise<ArtifactExport | null> {
+    const artifact = await prisma.artifact.findUnique({
+      where: { id: artifactId },
+      select: {
+        ...ARTIFACT_SELECT,
+        thread: { select: { id: true, title: true } }
+      }
+    });
+
+    if (!artifact) {
+      return null;
+    }
+
+    return {
+      schema: 'artifact-export',
+      version: EXPORT_VERSION,
+      exportedAt: now.toISOString(),
+      thread: { id: artifact.thread.id, title: artifact.thread.title },
+      artifact: toExportArtifact(artifact)
+    };
+  }
+}
+
+function toExportAuthor(user: any): ExportAuthor | null {
+  return user ? { name: user.name ?? null, nick: user.nick ?? null, email: user.email } : null;
+}
+
+function toExportMessage(message: any): ExportMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    author: toExportAuthor(message.user),
+    content: message.content,
+    blocks: Array.isArray(message.blocks) ? message.blocks : null,
+    metadata: message.metadata ?? null,
+    createdAt: toIsoString(message.createdAt)!,
+    editedAt: toIsoString(message.editedAt),
+    reactions: summarizeReactions(message.reactions ?? []),
+    attachments: (message.files ?? []).map(({ file }: any) => ({
+      id: file.id,
+      name: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      checksum: file.checksum
+    }))
+  };
+}
+
+function toExportArtifact(artifact: any): ExportArtifact {
+  return {
+    id: artifact.id,
+    type: artifact.type,
+    title: artifact.title,
+    description: artifact.description ?? null,
+    content: artifact.content,
+    blocks: Array.isArray(artifact.blocks) ? artifact.blocks : null,
+    version: artifact.version,
+    metadata: artifact.metadata ?? null,
+    createdAt: toIsoString(artifact.createdAt)!,
+    updatedAt: toIsoString(artifact.updatedAt)!,
+    author: toExportAuthor(artifact.user)
+  };
+}
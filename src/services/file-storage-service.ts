@@ -0,0 +1,117 @@
+// File storage service: keep uploaded file contents in R2
+
+import {
+  createByteCounter,
+  getContentDisposition,
+  MAX_FILE_SIZE,
+  peekStream,
+  sniffMimeType,
+  SNIFF_LENGTH,
+  toHex,
+  type ByteRange
+} from '../utils/files';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  checksum: string; // "sha256:<hex>"
+  mimeType: string;
+}
+
+export interface StoreObjectInput {
+  userId: string;
+  originalName: string;
+  declaredType?: string;
+  body: ReadableStream<Uint8Array>;
+  size: number; // Declared length of the body; R2 needs it before the first byte
+}
+
+export class FileStorageError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'FileStorageError';
+  }
+}
+
+export class FileStorageService {
+  /**
+   * Object keys are generated server-side and never derived from the client's filename.
+   */
+  static createObjectKey(userId: string): string {
+    return `files/${userId}/${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Stream an upload into R2 without holding it in memory. The MIME type is
+   * sniffed from the first bytes, the SHA-256 is computed from a tee of the
+   * bytes sent to R2, and the size limit applies to the bytes actually read.
+   * A body that turns out longer or shorter than `size` is not stored.
+   */
+  static async store(bucket: R2Bucket, input: StoreObjectInput): Promise<StoredObject> {
+    if (input.size > MAX_FILE_SIZE) {
+      throw new FileStorageError(`Files may be at most ${MAX_FILE_SIZE} bytes`, 413, 'Payload Too Large');
+    }
+
+    const counter = createByteCounter(MAX_FILE_SIZE);
+    const key = this.createObjectKey(input.userId);
+
+    try {
+      const { head, stream } = await peekStream(input.body.pipeThrough(counter.stream), SNIFF_LENGTH);
+      const mimeType = sniffMimeType(head, input.originalName, input.declaredType);
+
+      const [content, hashed] = stream.tee();
+      const digest = new crypto.DigestStream('SHA-256');
+
+      const [, hash] = await Promise.all([
+        bucket.put(key, content.pipeThrough(new FixedLengthStream(input.size)), {
+          httpMetadata: {
+            contentType: mimeType,
+            contentDisposition: getContentDisposition(mimeType, input.originalName)
+          },
+          customMetadata: {
+            uploadedBy: input.userId,
+            originalName: input.originalName
+          }
+        }),
+        hashed.pipeTo(digest).then(() => digest.digest)
+      ]);
+
+      return { key, size: input.size, checksum: `sha256:${toHex(hash)}`, mimeType };
+    } catch (error) {
+      // The put may have finished before the hash failed
+      await bucket.delete(key).catch(() => {});
+
+      if (counter.exceeded) {
+        throw new FileStorageError(`Files may be at most ${MAX_FILE_SIZE} bytes`, 413, 'Payload Too Large');
+      }
+      if (counter.bytes > input.size || (counter.finished && counter.bytes < input.size)) {
+        throw new FileStorageError(`The upload declared ${input.size} bytes but sent a different amount`, 400, 'Bad Request');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read an object, optionally a byte range of it. Conditional request headers
+   * (If-None-Match, If-Modified-Since) are evaluated by R2: when they match, the
+   * object is returned without a body.
+   */
+  static async read(
+    bucket: R2Bucket,
+    key: string,
+    options: { range?: ByteRange; conditions?: Headers } = {}
+  ): Promise<R2Object | R2ObjectBody | null> {
+    return bucket.get(key, {
+      range: options.range,
+      onlyIf: options.conditions
+    });
+  }
+
+  static async remove(bucket: R2Bucket, key: string): Promise<void> {
+    await bucket.delete(key);
+  }
+}
@@ -0,0 +1,293 @@
+// Thread imports: create threads from parsed imports, inline for small ones and as background jobs for large ones
+
+import { getDatabaseClient } from '../utils/database';
+import { markdownToBlocks } from '../utils/markdown-blocks';
+import { normalizeEmail } from '../utils/thread-permissions';
+import { countImportMessages, type ImportedThread, type ParsedImport } from '../utils/thread-import';
+import { ArtifactVersionService } from './artifact-version-service';
+
+// Imports up to this many messages finish within the request
+const INLINE_IMPORT_MESSAGES = 500;
+// Messages written per query
+const MESSAGE_BATCH_SIZE = 100;
+// Background runs stop starting new threads after this long; a follow-up job continues them
+const IMPORT_TIME_BUDGET_MS = 20_000;
+
+export interface ImportEnv {
+  DB: D1Database;
+  FILES?: R2Bucket;
+}
+
+export interface ImportUser {
+  id: string;
+  email: string;
+}
+
+// Import failures, mapped to problem responses by the route
+export class ThreadImportError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'ThreadImportError';
+  }
+}
+
+export const THREAD_IMPORT_SELECT = {
+  id: true,
+  source: true,
+  status: true,
+  totalThreads: true,
+  importedThreads: true,
+  totalMessages: true,
+  importedMessages: true,
+  threadIds: true,
+  error: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true
+} as const;
+
+export class ImportService {
+  /**
+   * Create the import record and run it: within the request when it is small,
+   * otherwise from R2 in the background, by a job the caller enqueues. Returns
+   * the record as it stands when the response is sent.
+   */
+  static async start(
+    prisma: any,
+    env: ImportEnv,
+    user: ImportUser,
+    parsed: ParsedImport,
+    runInBackground: (importId: string) => Promise<unknown>
+  ) {
+    const totalMessages = countImportMessages(parsed.threads);
+    const inline = totalMessages <= INLINE_IMPORT_MESSAGES;
+
+    if (!inline && !env.FILES) {
+      throw new ThreadImportError(
+        `Imports of more than ${INLINE_IMPORT_MESSAGES} messages need file storage, which is not configured`,
+        503,
+        'Import Unavailable'
+      );
+    }
+
+    const storageKey = inline ? null : `imports/${user.id}/${crypto.randomUUID()}.json`;
+    if (storageKey) {
+      await env.FILES!.put(storageKey, JSON.stringify(parsed), {
+        httpMetadata: { contentType: 'application/json' }
+      });
+    }
+
+    const record = await prisma.threadImport.create({
+      data: {
+        userId: user.id,
+        source: parsed.source,
+        storageKey,
+        totalThreads: parsed.threads.length,
+        totalMessages,
+        threadIds: []
+      }
+    });
+
+    if (inline) {
+      await this.process(prisma, record, user, parsed, Infinity);
+    } else {
+      await runInBackground(record.id);
+    }
+
+    return prisma.threadImport.findUnique({ where: { id: record.id }, select: THREAD_IMPORT_SELECT });
+  }
+
+  /**
+   * Continue a background import from where it stopped. Safe to call again:
+   * finished imports are left alone. Returns false when the deadline passed
+   * before every thread was written.
+   */
+  static async run(env: ImportEnv, importId: string, deadline = Date.now() + IMPORT_TIME_BUDGET_MS): Promise<boolean> {
+    const prisma = getDatabaseClient(env.DB);
+    const record = await prisma.threadImport.findUnique({
+      where: { id: importId },
+      include: { user: { select: { id: true, email: true } } }
+    });
+
+    if (!record || record.status === 'COMPLETED' || record.status === 'FAILED') {
+      return true;
+    }
+
+    const object = record.storageKey && env.FILES ? await env.FILES.get(record.storageKey) : null;
+    if (!object) {
+      await this.fail(prisma, env, record, 'The import data is no longer available');
+      return true;
+    }
+
+    await prisma.threadImport.update({ where: { id: record.id }, data: { status: 'RUNNING' } });
+    return this.process(prisma, record, record.user, await object.json<ParsedImport>(), deadline, env);
+  }
+
+  /**
+   * Write the threads not imported yet, one at a time, recording progress after
+   * each. A thread left half-written by an interrupted run is removed and redone.
+   * Returns false when the deadline stopped it early.
+   */
+  private static async process(
+    prisma: any,
+    record: any,
+    user: ImportUser,
+    parsed: ParsedImport,
+    deadline: number,
+    env?: ImportEnv
+  ): Promise<boolean> {
+    const threadIds: string[] = [...(record.threadIds ?? [])];
+    let importedMessages: number = record.importedMessages;
+    let index: number = record.importedThreads;
+    let currentThreadId: string | null = null;
+
+    try {
+      if (record.currentThreadId) {
+        await prisma.thread.deleteMany({ where: { id: record.currentThreadId } });
+      }
+
+      for (; index < parsed.threads.length; index++) {
+        if (Date.now() > deadline) return false;
+
+        const thread = parsed.threads[index];
+        const threadId = await this.createThread(prisma, record, user, parsed, thread, async (id) => {
+          currentThreadId = id;
+          await prisma.threadImport.update({ where: { id: record.id }, data: { currentThreadId: id } });
+        });
+        currentThreadId = null;
+
+        threadIds.push(threadId);
+        importedMessages += thread.messages.length;
+        await prisma.threadImport.update({
+          where: { id: record.id },
+          data: { importedThreads: index + 1, importedMessages, threadIds, currentThreadId: null }
+        });
+      }
+
+      await prisma.threadImport.update({
+        where: { id: record.id },
+        data: { status: 'COMPLETED', storageKey: null, completedAt: new Date() }
+      });
+      if (record.storageKey && env?.FILES) {
+        await env.FILES.delete(record.storageKey);
+      }
+      return true;
+    } catch (error) {
+      // Details stay in the logs; the record tells the user which thread failed
+      console.error(`Error importing threads for import ${record.id}:`, error);
+      if (currentThreadId) {
+        await prisma.thread.deleteMany({ where: { id: currentThreadId } })
+          .catch((deleteError: unknown) => console.error('Error removing partly imported thread:', deleteError));
+      }
+      await this.fail(prisma, env, record, `Failed to import thread ${index + 1} of ${parsed.threads.length}`);
+      return true;
+    }
+  }
+
+  private static async createThread(
+    prisma: any,
+    record: { id: string },
+    user: ImportUser,
+    parsed: ParsedImport,
+    thread: ImportedThread,
+    onCreated: (threadId: string) => Promise<void>
+  ): Promise<string> {
+    const importedAt = new Date();
+    const lastActivity = thread.messages.reduce<string | null>(
+      (latest, message) => message.createdAt && (!latest || message.createdAt > latest) ? message.createdAt : latest,
+      thread.createdAt
+    );
+
+    const created = await prisma.thread.create({
+      data: {
+        title: thread.title,
+        userId: user.id,
+        createdAt: thread.createdAt ? new Date(thread.createdAt) : importedAt,
+        updatedAt: lastActivity ? new Date(lastActivity) : importedAt,
+        metadata: {
+          ...thread.metadata,
+          // Provenance: where the thread came from and who brought it in
+          import: {
+            importId: record.id,
+            source: parsed.source,
+            sourceId: thread.sourceId,
+            importedBy: user.id,
+            importedAt: importedAt.toISOString()
+          }
+        },
+        members: {
+          create: {
+            userId: user.id,
+            email: normalizeEmail(user.email),
+            role: 'OWNER'
+          }
+        }
+      },
+      select: { id: true }
+    });
+    await onCreated(created.id);
+
+    const importerEmail = normalizeEmail(user.email);
+    const messages = thread.messages.map(message => {
+      // Imported user messages are only attributed to the importer when they wrote them;
+      // anyone else's are kept without an account so they can't be forged
+      const byImporter = message.role === 'USER'
+        && (parsed.source === 'CHATGPT' || (!!message.author && normalizeEmail(message.author.email) === importerEmail));
+      const createdAt = message.createdAt ? new Date(message.createdAt) : importedAt;
+
+      return {
+        threadId: created.id,
+        userId: byImporter ? user.id : null,
+        role: message.role,
+        content: message.content,
+        // Assistant replies get the same markdown rendering as live ones
+        blocks: message.blocks ?? (message.role === 'ASSISTANT' ? markdownToBlocks(message.content) : []),
+        createdAt,
+        updatedAt: createdAt,
+        metadata: {
+          ...message.metadata,
+          import: {
+            sourceId: message.sourceId,
+            ...(message.author && !byImporter && { author: { name: message.author.name ?? message.author.nick, email: message.author.email } })
+          }
+        }
+      };
+    });
+
+    for (let start = 0; start < messages.length; start += MESSAGE_BATCH_SIZE) {
+      await prisma.message.createMany({ data: messages.slice(start, start + MESSAGE_BATCH_SIZE) });
+    }
+
+    for (const artifact of thread.artifacts) {
+      const data = {
+        threadId: created.id,
+        userId: user.id,
+        type: artifact.type,
+        title: artifact.title,
+        description: artifact.description,
+        content: artifact.content,
+        blocks: artifact.blocks,
+        metadata: artifact.metadata ?? {},
+        ...(artifact.createdAt && { createdAt: new Date(artifact.createdAt) })
+      };
+      const { id, version } = await prisma.artifact.create({ data, select: { id: true, version: true } });
+      await ArtifactVersionService.snapshot(prisma, { ...data, id, version }, user.id);
+    }
+
+    return created.id;
+  }
+
+  private static async fail(prisma: any, env: ImportEnv | undefined, record: any, message: string) {
+    await prisma.threadImport.update({
+      where: { id: record.id },
+      data: { status: 'FAILED', error: message.slice(0, 1000), storageKey: null, completedAt: new Date() }
+    });
+    if (record.storageKey && env?.FILES) {
+      await env.FILES.delete(record.storageKey).catch((error: unknown) => console.error('Error deleting import data:', error));
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// Handlers for each background job type, run by JobService
+
+import { AutoCompletionService } from './auto-completion-service';
+import { ImportService } from './import-service';
+import { ThreadSummaryService } from './thread-summary-service';
+import { publishThreadEvent } from './realtime-service';
+import type { JobHandlers } from './job-service';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+// The user a job runs for, shaped like the authenticated user of a request
+async function loadUser(prisma: any, userId: string | null): Promise<AuthenticatedUser | null> {
+  if (!userId) return null;
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, nick: true, role: true, avatarUrl: true }
+  });
+}
+
+export const JOB_HANDLERS: JobHandlers = {
+  // Reply to a user message; payload { threadId, messageId }
+  'message.auto_completion': async (payload, { env, prisma, job, enqueue }) => {
+    const [thread, user] = await Promise.all([
+      prisma.thread.findUnique({ where: { id: payload.threadId }, select: { id: true } }),
+      loadUser(prisma, job.userId)
+    ]);
+
+    // Nothing to reply to once the thread or its author is gone
+    if (!thread || !user) {
+      return { assistantMessageId: null };
+    }
+
+    const assistantMessage = await AutoCompletionService.generate(env, payload.threadId, user);
+    if (assistantMessage) {
+      await publishThreadEvent(env, payload.threadId, { type: 'message.created', message: assistantMessage });
+      await ThreadSummaryService.scheduleUpdates(prisma, env, payload.threadId, user.id, enqueue);
+    }
+
+    return { assistantMessageId: assistantMessage?.id ?? null };
+  },
+
+  // Write an import stored in R2; payload { importId }. Imports that don't
+  // finish within one run continue in a follow-up job.
+  'thread.import': async (payload, { env, job, enqueue }) => {
+    const finished = await ImportService.run(env, payload.importId);
+    if (finished) {
+      return { importId: payload.importId };
+    }
+
+    const next = await enqueue({ type: 'thread.import', payload, userId: job.userId });
+    return { importId: payload.importId, continuedBy: next.id };
+  },
+
+  // Title an untitled thread; payload { threadId }
+  'thread.title': async (payload, { env, prisma, job }) => {
+    const user = await loadUser(prisma, job.userId);
+    if (!user) return { title: null };
+
+    return { title: await ThreadSummaryService.generateTitle(env, payload.threadId, user) };
+  },
+
+  // Update the rolling summary in the thread's metadata; payload { threadId }
+  'thread.summary': async (payload, { env, prisma, job }) => {
+    const user = await loadUser(prisma, job.userId);
+    if (!user) return { messageCount: null };
+
+    const summary = await ThreadSummaryService.updateSummary(env, payload.threadId, user);
+    return { messageCount: summary?.messageCount ?? null };
+  },
+
+  // Summarize a thread as an INSIGHT artifact; payload { threadId }
+  'thread.insight': async (payload, { env, prisma, job }) => {
+    const user = await loadUser(prisma, job.userId);
+    if (!user) return { artifactId: null };
+
+    const artifact = await ThreadSummaryService.createInsight(env, payload.threadId, user);
+    return { artifactId: artifact?.id ?? null };
+  }
+};
@@ -0,0 +1,202 @@
+// Background jobs: tracked in D1 and delivered by Cloudflare Queues, with retries and a dead state
+
+import { getDatabaseClient } from '../utils/database';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  MemoryJobQueue,
+  getRetryDelaySeconds,
+  type JobMessage,
+  type JobQueue
+} from '../utils/jobs';
+import { JOB_HANDLERS } from './job-handlers';
+
+// Jobs not updated for this long lost their queue message and are sent again
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+export interface JobEnv {
+  DB: D1Database;
+  JOBS?: Queue<JobMessage>;
+}
+
+export interface EnqueueJobInput {
+  type: string;
+  payload: Record<string, unknown>;
+  userId?: string | null;
+  maxAttempts?: number;
+}
+
+export interface JobContext {
+  env: any;
+  prisma: any;
+  job: { id: string; type: string; userId: string | null; attempts: number };
+  // Queue another job, e.g. to continue work that didn't fit in this one
+  enqueue: (input: EnqueueJobInput) => Promise<{ id: string }>;
+}
+
+// The return value is stored as the job's result; a thrown error fails the attempt
+export type JobHandler = (payload: any, context: JobContext) => Promise<Record<string, unknown> | void>;
+export type JobHandlers = Record<string, JobHandler>;
+
+export const JOB_SELECT = {
+  id: true,
+  type: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  result: true,
+  error: true,
+  runAt: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const memoryQueue = new MemoryJobQueue();
+
+export class JobService {
+  static getQueue(env: JobEnv): JobQueue {
+    return env.JOBS ?? memoryQueue;
+  }
+
+  /**
+   * Record a job and send it to the queue. Without a Queues binding the job
+   * runs in this isolate, after the response when waitUntil is given.
+   */
+  static async enqueue(
+    prisma: any,
+    env: JobEnv,
+    input: EnqueueJobInput,
+    waitUntil?: (promise: Promise<unknown>) => void
+  ) {
+    const job = await prisma.job.create({
+      data: {
+        type: input.type,
+        payload: input.payload,
+        userId: input.userId ?? null,
+        maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+      },
+      select: JOB_SELECT
+    });
+
+    await this.getQueue(env).send({ jobId: job.id });
+    if (!env.JOBS && waitUntil) {
+      waitUntil(this.drain(env).catch(error => console.error('Error running queued jobs:', error)));
+    }
+
+    return job;
+  }
+
+  /**
+   * Run one attempt of a job. A failed attempt is retried with backoff until
+   * maxAttempts is reached, after which the job is dead. Jobs that already
+   * succeeded or died are left alone, so redelivered messages are harmless.
+   */
+  static async process(env: JobEnv, jobId: string, handlers: JobHandlers = JOB_HANDLERS) {
+    const prisma = getDatabaseClient(env.DB);
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job || job.status === 'SUCCEEDED' || job.status === 'DEAD') {
+      return;
+    }
+
+    const handler = handlers[job.type];
+    if (!handler) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'DEAD', error: `Unknown job type ${job.type}`, completedAt: new Date() }
+      });
+      return;
+    }
+
+    const attempts = job.attempts + 1;
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'RUNNING', attempts, startedAt: job.startedAt ?? new Date() }
+    });
+
+    try {
+      const result = await handler(job.payload, {
+        env,
+        prisma,
+        job: { id: job.id, type: job.type, userId: job.userId, attempts },
+        enqueue: input => this.enqueue(prisma, env, input)
+      });
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'SUCCEEDED', error: null, completedAt: new Date(), ...(result && { result }) }
+      });
+    } catch (error) {
+      console.error(`Error running job ${job.id} (${job.type}), attempt ${attempts}:`, error);
+      const message = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+
+      if (attempts >= job.maxAttempts) {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { status: 'DEAD', error: message, completedAt: new Date() }
+        });
+        return;
+      }
+
+      const delaySeconds = getRetryDelaySeconds(attempts);
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'RETRYING', error: message, runAt: new Date(Date.now() + delaySeconds * 1000) }
+      });
+      await this.getQueue(env).send({ jobId: job.id }, { delaySeconds });
+    }
+  }
+
+  /**
+   * Queue consumer. Jobs handle their own retries; a message is only retried
+   * by the queue when the job could not be processed at all (e.g. D1 errors).
+   */
+  static async consume(batch: MessageBatch<JobMessage>, env: JobEnv) {
+    for (const message of batch.messages) {
+      try {
+        await this.process(env, message.body.jobId);
+        message.ack();
+      } catch (error) {
+        console.error(`Error processing job ${message.body.jobId}:`, error);
+        message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
+      }
+    }
+  }
+
+  /**
+   * Run every job in the in-memory queue, retries and follow-up jobs included,
+   * until it is empty. Tests call this to run enqueued jobs synchronously.
+   * Returns the number of attempts made.
+   */
+  static async drain(env: JobEnv, handlers: JobHandlers = JOB_HANDLERS): Promise<number> {
+    return memoryQueue.drain(message => this.process(env, message.jobId, handlers));
+  }
+
+  /**
+   * Send jobs whose queue message was lost (a failed send, or a consumer that
+   * died mid-run) to the queue again. Run from the scheduled handler; returns
+   * the number of jobs sent.
+   */
+  static async requeueStale(env: JobEnv, now = new Date(), batchSize = 50): Promise<number> {
+    const prisma = getDatabaseClient(env.DB);
+
+    const stale = await prisma.job.findMany({
+      where: {
+        status: { in: ['PENDING', 'RUNNING', 'RETRYING'] },
+        updatedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) }
+      },
+      select: { id: true },
+      orderBy: { updatedAt: 'asc' },
+      take: batchSize
+    });
+
+    for (const { id } of stale) {
+      // Touch the job so it isn't picked up again before this delivery runs
+      await prisma.job.update({ where: { id }, data: { runAt: now } });
+      await this.getQueue(env).send({ jobId: id });
+    }
+
+    return stale.length;
+  }
+}
@@ -0,0 +1,149 @@
+// Provider registry: picks the AI provider for a model by its id prefix
+
+import type { AIModel } from '../types/completions';
+import {
+  AzureWorkflowProvider,
+  MockAIProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+  type AIProvider
+} from './ai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { WorkersAIProvider, type WorkersAIBinding } from './workers-ai-provider';
+
+// The bindings and secrets the providers are configured with
+export interface ProviderEnv {
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  AI?: WorkersAIBinding;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_MODELS?: string;
+}
+
+// Parts of a request a provider may not honour
+export type ProviderFeature = 'tools' | 'response_format' | 'history';
+
+export const ALL_PROVIDER_FEATURES: ProviderFeature[] = ['tools', 'response_format', 'history'];
+
+export interface ProviderDefinition {
+  name: string;
+  // Model ids starting with one of these are served by this provider
+  prefixes: string[];
+  // What the provider passes on to its model; the rest of a request is ignored
+  features: ProviderFeature[];
+  // Whether the environment has what the provider needs, e.g. its API key
+  isConfigured(env: ProviderEnv): boolean;
+  create(env: ProviderEnv): AIProvider;
+}
+
+export class ProviderRegistry {
+  private definitions: ProviderDefinition[] = [];
+
+  // `defaultProvider` serves model ids no prefix matches
+  constructor(private defaultProvider: string) {}
+
+  register(definition: ProviderDefinition): this {
+    this.definitions.push(definition);
+    return this;
+  }
+
+  /**
+   * The provider registered with the longest prefix of `model`, or the default
+   * provider when none matches. The MockAIProvider answers when that provider
+   * is not configured, so development works without any API keys.
+   */
+  resolve(env: ProviderEnv, model?: string): AIProvider {
+    return this.resolveNamed(env, model).provider;
+  }
+
+  // As `resolve`, with the name of the provider ("mock" for the MockAIProvider) and its features
+  resolveNamed(env: ProviderEnv, model?: string): { name: string; provider: AIProvider; features: ProviderFeature[] } {
+    const definition = this.find(model);
+    if (definition?.isConfigured(env)) {
+      return { name: definition.name, provider: definition.create(env), features: definition.features };
+    }
+    return { name: 'mock', provider: new MockAIProvider(), features: ALL_PROVIDER_FEATURES };
+  }
+
+  // The models of every configured provider, plus the mock's when the default provider isn't configured
+  listModels(env: ProviderEnv): AIModel[] {
+    const providers = this.definitions
+      .filter(definition => definition.isConfigured(env))
+      .map(definition => definition.create(env));
+    if (!this.definitions.some(definition => definition.name === this.defaultProvider && definition.isConfigured(env))) {
+      providers.unshift(new MockAIProvider());
+    }
+
+    const models = new Map<string, AIModel>();
+    for (const model of providers.flatMap(provider => provider.getSupportedModels())) {
+      if (!models.has(model.id)) models.set(model.id, model);
+    }
+    return [...models.values()];
+  }
+
+  private find(model?: string): ProviderDefinition | undefined {
+    let match: { definition: ProviderDefinition; length: number } | undefined;
+    for (const definition of this.definitions) {
+      for (const prefix of definition.prefixes) {
+        if (model?.startsWith(prefix) && prefix.length > (match?.length ?? -1)) {
+          match = { definition, length: prefix.length };
+        }
+      }
+    }
+    return match?.definition ?? this.definitions.find(definition => definition.name === this.defaultProvider);
+  }
+}
+
+export const providerRegistry = new ProviderRegistry('openai')
+  .register({
+    name: 'openai',
+    prefixes: ['gpt-', 'chatgpt-', 'o1', 'o3', 'o4'],
+    features: ALL_PROVIDER_FEATURES,
+    isConfigured: env => Boolean(env.OPENAI_API_KEY),
+    create: env => new OpenAIProvider(env.OPENAI_API_KEY)
+  })
+  .register({
+    name: 'anthropic',
+    prefixes: ['claude-'],
+    features: ['tools', 'history'],
+    isConfigured: env => Boolean(env.ANTHROPIC_API_KEY),
+    create: env => new AnthropicProvider(env.ANTHROPIC_API_KEY!)
+  })
+  .register({
+    name: 'workers-ai',
+    prefixes: ['@cf/', '@hf/'],
+    features: ['history'],
+    isConfigured: env => Boolean(env.AI),
+    create: env => new WorkersAIProvider(env.AI!)
+  })
+  .register({
+    name: 'local',
+    prefixes: [OpenAICompatibleProvider.PREFIX],
+    features: ALL_PROVIDER_FEATURES,
+    isConfigured: env => Boolean(env.OPENAI_COMPATIBLE_BASE_URL),
+    create: env => new OpenAICompatibleProvider({
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL!,
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      models: (env.OPENAI_COMPATIBLE_MODELS ?? '').split(',').map(model => model.trim()).filter(Boolean)
+    })
+  })
+  .register({
+    name: 'azure',
+    prefixes: ['azure/'],
+    // Only the last user message reaches the workflow
+    features: [],
+    // The workflow endpoint needs no credentials
+    isConfigured: () => true,
+    create: () => new AzureWorkflowProvider()
+  });
+
+// The provider for `model`
+export function createAIProvider(env: ProviderEnv, model?: string): AIProvider {
+  return providerRegistry.resolve(env, model);
+}
+
+// The union of the models of all configured providers
+export function listModels(env: ProviderEnv): AIModel[] {
+  return providerRegistry.listModels(env);
+}
@@ -0,0 +1,122 @@
+// Token quota service: enforce budgets and report completion usage
+
+import { getDatabaseClient } from '../utils/database';
+import {
+  aggregateUsage,
+  getQuotaStatus,
+  getWindowStart,
+  readUsage,
+  resolveQuotas,
+  type QuotaStatus,
+  type UsageBucket
+} from '../utils/quota';
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  quotas: QuotaStatus[];
+  retryAfter?: number; // Seconds until the first exhausted window resets
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  usage: UsageBucket[];
+  quotas: QuotaStatus[];
+}
+
+export class QuotaService {
+  /**
+   * Current budget status of a user for requests to `model`.
+   */
+  static async getStatus(user: { id: string; role: string }, model: string, env: any): Promise<QuotaStatus[]> {
+    const prisma = getDatabaseClient(env.DB);
+
+    const quotas = await prisma.tokenQuota.findMany({
+      where: {
+        OR: [
+          { userId: user.id },
+          { userId: null, role: user.role }
+        ]
+      }
+    });
+
+    const resolved = resolveQuotas(quotas, { userId: user.id, role: user.role, model });
+    if (resolved.length === 0) {
+      return [];
+    }
+
+    // Load usage once for the longest window in play
+    const now = new Date();
+    const since = new Date(Math.min(...resolved.map(q => getWindowStart(q.window, now).getTime())));
+    const records = await prisma.completion.findMany({
+      where: {
+        userId: user.id,
+        createdAt: { gte: since }
+      },
+      select: { model: true, usage: true, createdAt: true }
+    });
+
+    return getQuotaStatus(resolved, records, now);
+  }
+
+  /**
+   * Check the budget before calling the provider.
+   */
+  static async check(user: { id: string; role: string }, model: string, env: any): Promise<QuotaCheckResult> {
+    const quotas = await this.getStatus(user, model, env);
+    const exhausted = quotas.filter(q => q.remaining <= 0);
+
+    if (exhausted.length === 0) {
+      return { allowed: true, quotas };
+    }
+
+    // Over budget until every exhausted window has reset
+    const resetsAt = Math.max(...exhausted.map(q => new Date(q.resetsAt).getTime()));
+    return {
+      allowed: false,
+      quotas,
+      retryAfter: Math.max(Math.ceil((resetsAt - Date.now()) / 1000), 1)
+    };
+  }
+
+  static async getUsage(
+    user: { id: string; role: string },
+    range: { from: Date; to: Date },
+    model: string,
+    env: any
+  ): Promise<UsageReport> {
+    const prisma = getDatabaseClient(env.DB);
+
+    const records = await prisma.completion.findMany({
+      where: {
+        userId: user.id,
+        createdAt: { gte: range.from, lte: range.to }
+      },
+      select: { model: true, usage: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const totals = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for (const record of records) {
+      const tokens = readUsage(record.usage);
+      totals.requests += 1;
+      totals.promptTokens += tokens.promptTokens;
+      totals.completionTokens += tokens.completionTokens;
+      totals.totalTokens += tokens.totalTokens;
+    }
+
+    return {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      totals,
+      usage: aggregateUsage(records),
+      quotas: await this.getStatus(user, model, env)
+    };
+  }
+}
@@ -0,0 +1,74 @@
+// Real-time service: publish thread events to the per-thread Durable Object
+
+import type { ClientMessage, RealtimeUser, ResourceEventInput, ThreadEvent, ThreadEventInput } from '../types/realtime';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+// Internal headers used to hand the authenticated user to the Durable Object
+export const REALTIME_USER_HEADER = 'X-Realtime-User';
+export const REALTIME_THREAD_HEADER = 'X-Realtime-Thread';
+
+// Longest client frame accepted by the Durable Object
+const MAX_CLIENT_MESSAGE_LENGTH = 1024;
+
+export function toRealtimeUser(user: AuthenticatedUser): RealtimeUser {
+  return {
+    id: user.id,
+    name: user.name,
+    nick: user.nick,
+    avatarUrl: user.avatarUrl
+  };
+}
+
+/**
+ * Validate a frame sent by a client. Returns null for anything that is not
+ * a known client message so the Durable Object can reply with an error event.
+ */
+export function parseClientMessage(data: string | ArrayBuffer): ClientMessage | null {
+  if (typeof data !== 'string' || data.length > MAX_CLIENT_MESSAGE_LENGTH) {
+    return null;
+  }
+
+  try {
+    const message = JSON.parse(data);
+
+    if (message?.type === 'typing' && typeof message.isTyping === 'boolean') {
+      return { type: 'typing', isTyping: message.isTyping };
+    }
+    if (message?.type === 'ping') {
+      return { type: 'ping' };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function createThreadEvent(threadId: string, event: ThreadEventInput): ThreadEvent {
+  return {
+    ...event,
+    threadId,
+    timestamp: new Date().toISOString()
+  } as ThreadEvent;
+}
+
+/**
+ * Broadcast a resource change to every client connected to the thread.
+ * Publishing is best-effort: a missing binding or a failing Durable Object
+ * never fails the REST request that triggered the event.
+ */
+export async function publishThreadEvent(
+  env: { THREAD_ROOMS?: DurableObjectNamespace<import('../durable-objects/thread-room').ThreadRoom> },
+  threadId: string,
+  event: ResourceEventInput
+): Promise<void> {
+  if (!env.THREAD_ROOMS) {
+    return;
+  }
+
+  try {
+    const stub = env.THREAD_ROOMS.get(env.THREAD_ROOMS.idFromName(threadId));
+    await stub.publish(createThreadEvent(threadId, event));
+  } catch (error) {
+    console.error('Error publishing thread event:', error);
+  }
+}
@@ -0,0 +1,312 @@
+// Resilience layer around the AI providers: retries with jittered backoff,
+// ordered fallback chains per model and a circuit breaker per provider
+
+import type {
+  AIModel,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk
+} from '../types/completions';
+import { ProviderError, type AIProvider } from './ai-provider';
+import { providerRegistry, type ProviderEnv, type ProviderFeature } from './provider-registry';
+import {
+  allowRequest,
+  DEFAULT_CIRCUIT_BREAKER_RULE,
+  recordResult,
+  type CircuitBreakerRule,
+  type CircuitState
+} from '../utils/circuit-breaker';
+import type { CircuitBreaker } from '../durable-objects/circuit-breaker';
+
+// Models tried, in order, when a model's provider keeps failing. Override them
+// with the MODEL_FALLBACKS variable, e.g. {"gpt-4o": ["claude-sonnet-4-20250514"]}.
+// A fallback is skipped when its provider isn't configured or can't serve the request.
+export const MODEL_FALLBACKS: Record<string, string[]> = {
+  'gpt-4o': ['gpt-4o-mini', 'azure/SimpleAgent'],
+  'gpt-4o-mini': ['azure/SimpleAgent'],
+  'gpt-4': ['gpt-4o-mini', 'azure/SimpleAgent'],
+  'claude-sonnet-4-20250514': ['gpt-4o', 'azure/SimpleAgent']
+};
+
+export interface RetryPolicy {
+  maxRetries: number;       // Retries per model, after the first attempt
+  baseDelayMs: number;      // Backoff before the first retry, doubled for each one after
+  maxDelayMs: number;       // Cap on the backoff
+  maxRetryAfterMs: number;  // A longer Retry-After moves on to the next model instead of waiting
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 4_000,
+  maxRetryAfterMs: 5_000
+};
+
+export interface ResilienceEnv extends ProviderEnv {
+  CIRCUIT_BREAKER?: DurableObjectNamespace<CircuitBreaker>;
+  MODEL_FALLBACKS?: string | Record<string, string[]>;
+}
+
+export interface CircuitBreakerStore {
+  allow(provider: string, rule: CircuitBreakerRule): Promise<boolean>;
+  record(provider: string, success: boolean, rule: CircuitBreakerRule): Promise<void>;
+}
+
+// Per-isolate store, used when no Durable Object binding is configured and in tests
+export class MemoryCircuitBreakerStore implements CircuitBreakerStore {
+  private circuits = new Map<string, CircuitState>();
+
+  async allow(provider: string, rule: CircuitBreakerRule): Promise<boolean> {
+    const { state, allowed } = allowRequest(this.circuits.get(provider) ?? null, rule, Date.now());
+    this.circuits.set(provider, state);
+    return allowed;
+  }
+
+  async record(provider: string, success: boolean, rule: CircuitBreakerRule): Promise<void> {
+    this.circuits.set(provider, recordResult(this.circuits.get(provider) ?? null, rule, success, Date.now()));
+  }
+
+  clear() {
+    this.circuits.clear();
+  }
+}
+
+export class DurableObjectCircuitBreakerStore implements CircuitBreakerStore {
+  constructor(private namespace: DurableObjectNamespace<CircuitBreaker>) {}
+
+  async allow(provider: string, rule: CircuitBreakerRule): Promise<boolean> {
+    return this.stub(provider).allow(rule);
+  }
+
+  async record(provider: string, success: boolean, rule: CircuitBreakerRule): Promise<void> {
+    await this.stub(provider).record(success, rule);
+  }
+
+  private stub(provider: string) {
+    return this.namespace.get(this.namespace.idFromName(provider));
+  }
+}
+
+const memoryStore = new MemoryCircuitBreakerStore();
+let storeOverride: CircuitBreakerStore | null = null;
+
+/**
+ * Replace the circuit breaker store (tests); pass null to restore the default.
+ */
+export function setCircuitBreakerStore(store: CircuitBreakerStore | null) {
+  storeOverride = store;
+}
+
+function getStore(env: ResilienceEnv): CircuitBreakerStore {
+  if (storeOverride) return storeOverride;
+  return env.CIRCUIT_BREAKER ? new DurableObjectCircuitBreakerStore(env.CIRCUIT_BREAKER) : memoryStore;
+}
+
+// `model` followed by its fallbacks, without repeats
+export function getFallbackChain(model: string, overrides?: unknown): string[] {
+  let fallbacks = MODEL_FALLBACKS[model] ?? [];
+
+  try {
+    const config = typeof overrides === 'string' ? JSON.parse(overrides) : overrides;
+    const override = config?.[model];
+    if (Array.isArray(override)) {
+      fallbacks = override.filter((entry): entry is string => typeof entry === 'string');
+    }
+  } catch {
+    console.error('Invalid MODEL_FALLBACKS configuration, using defaults');
+  }
+
+  return [...new Set([model, ...fallbacks])];
+}
+
+// The features a provider needs to serve `request` as asked
+export function getRequiredFeatures(request: ChatCompletionRequest): ProviderFeature[] {
+  const features: ProviderFeature[] = [];
+  if (request.tools?.length) features.push('tools');
+  if (request.response_format && request.response_format.type !== 'text') features.push('response_format');
+  if (request.messages.length > 1) features.push('history');
+  return features;
+}
+
+// Rate limits, timeouts, server errors and network failures are worth retrying;
+// other client errors would fail the same way everywhere
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.status === undefined || error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Milliseconds to wait before retry number `retry` (0-based): the provider's
+ * Retry-After when it sent one, otherwise exponential backoff with full jitter.
+ */
+export function getRetryDelay(retry: number, error: unknown, policy: RetryPolicy, random = Math.random): number {
+  if (error instanceof ProviderError && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+  return Math.floor(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+}
+
+// Who actually answered a request
+export interface ServedBy {
+  provider: string;
+  model: string;
+}
+
+export interface ResilientProviderOptions {
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerRule;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+interface Candidate {
+  name: string;
+  model: string;
+  provider: AIProvider;
+}
+
+/**
+ * An AIProvider that tries the requested model and then its fallbacks. Each is
+ * retried while its errors are retryable; a provider whose circuit is open is
+ * skipped, as are fallbacks that are unconfigured or lack a feature the request
+ * uses. Streams are only retried until their first chunk has been passed on.
+ *
+ * After a call, `servedBy` names the provider and model that answered and
+ * `attempts` counts the calls made to providers. When a fallback answered, the
+ * response's `model` names it.
+ */
+export class ResilientProvider implements AIProvider {
+  servedBy: ServedBy | null = null;
+  attempts = 0;
+
+  private readonly retry: RetryPolicy;
+  private readonly rule: CircuitBreakerRule;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(
+    private env: ResilienceEnv,
+    private model: string,
+    options: ResilientProviderOptions = {}
+  ) {
+    this.retry = options.retry ?? DEFAULT_RETRY_POLICY;
+    this.rule = options.circuitBreaker ?? DEFAULT_CIRCUIT_BREAKER_RULE;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+  }
+
+  async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const completion = await this.run(request, candidate => candidate.provider.generateCompletion({ ...request, model: candidate.model }));
+    return this.withServedModel(completion);
+  }
+
+  async* generateStreamingCompletion(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionStreamChunk> {
+    const { iterator, first } = await this.run(request, async candidate => {
+      const iterator = candidate.provider.generateStreamingCompletion({ ...request, model: candidate.model });
+      try {
+        return { iterator, first: await iterator.next() };
+      } catch (error) {
+        await iterator.return(undefined).catch(() => {});
+        throw error;
+      }
+    }, false);
+
+    const store = getStore(this.env);
+    const provider = this.servedBy!.provider;
+    let failure: unknown;
+    try {
+      if (!first.done) {
+        yield this.withServedModel(first.value);
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield this.withServedModel(next.value);
+        }
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      await iterator.return(undefined).catch(() => {});
+      // A stream the client stopped reading still counts as served
+      if (failure === undefined) await this.report(store, provider, true);
+      else if (isRetryable(failure)) await this.report(store, provider, false);
+    }
+  }
+
+  getSupportedModels(): AIModel[] {
+    return providerRegistry.resolve(this.env, this.model).getSupportedModels();
+  }
+
+  /**
+   * Tries the chain until a call succeeds. `recordSuccess` is false for streams,
+   * whose outcome is only known once they have been read to the end.
+   */
+  private async run<T>(
+    request: ChatCompletionRequest,
+    call: (candidate: Candidate) => Promise<T>,
+    recordSuccess = true
+  ): Promise<T> {
+    const store = getStore(this.env);
+    const required = getRequiredFeatures(request);
+    let lastError: unknown;
+
+    for (const model of getFallbackChain(this.model, this.env.MODEL_FALLBACKS)) {
+      const { name, provider, features } = providerRegistry.resolveNamed(this.env, model);
+
+      // A fallback must answer as well as the requested model would, so never the mock
+      if (model !== this.model && (name === 'mock' || required.some(feature => !features.includes(feature)))) {
+        continue;
+      }
+
+      if (!await this.isAllowed(store, name)) {
+        lastError ??= new ProviderError(`Circuit open for ${name}`, name, 503);
+        continue;
+      }
+
+      for (let retry = 0; ; retry++) {
+        this.attempts++;
+        try {
+          const result = await call({ name, model, provider });
+          this.servedBy = { provider: name, model };
+          if (recordSuccess) await this.report(store, name, true);
+          return result;
+        } catch (error) {
+          if (!isRetryable(error)) throw error;
+
+          lastError = error;
+          await this.report(store, name, false);
+
+          const delay = getRetryDelay(retry, error, this.retry, this.random);
+          if (retry >= this.retry.maxRetries || delay > this.retry.maxRetryAfterMs) break;
+          await this.sleep(delay);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private withServedModel<T extends { model: string }>(response: T): T {
+    const served = this.servedBy?.model;
+    return served && served !== this.model ? { ...response, model: served } : response;
+  }
+
+  // If the circuit breaker store is unavailable the request is let through
+  private async isAllowed(store: CircuitBreakerStore, provider: string): Promise<boolean> {
+    try {
+      return await store.allow(provider, this.rule);
+    } catch (error) {
+      console.error('Circuit breaker store error:', error);
+      return true;
+    }
+  }
+
+  private async report(store: CircuitBreakerStore, provider: string, success: boolean): Promise<void> {
+    try {
+      await store.record(provider, success, this.rule);
+    } catch (error) {
+      console.error('Circuit breaker store error:', error);
+    }
+  }
+}
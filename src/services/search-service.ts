@@ -0,0 +1,110 @@
+// Search service backed by the FTS5 "search_index" virtual table
+
+import { getDatabaseClient } from '../utils/database';
+import {
+  buildFtsQuery,
+  createSnippetMarkers,
+  formatSnippet,
+  type SearchEntityType
+} from '../utils/search';
+import { normalizeEmail } from '../utils/thread-permissions';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+export interface SearchOptions {
+  q: string;
+  type?: SearchEntityType;
+  threadId?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  threadId: string;
+  threadTitle: string | null;
+  title: string | null;
+  snippet: string; // HTML: escaped text with matches wrapped in <mark></mark>
+  rank: number;
+}
+
+interface SearchRow {
+  entityType: SearchEntityType;
+  entityId: string;
+  threadId: string;
+  threadTitle: string | null;
+  title: string;
+  titleSnippet: string;
+  bodySnippet: string;
+  rank: number;
+}
+
+export class SearchService {
+  /**
+   * Search messages, threads and artifacts in threads the caller created or was invited to.
+   * Returns up to `limit + 1` rows so callers can detect another page.
+   */
+  static async search(
+    options: SearchOptions,
+    user: AuthenticatedUser,
+    env: any
+  ): Promise<SearchResult[]> {
+    const match = buildFtsQuery(options.q);
+    if (!match) {
+      return [];
+    }
+
+    const prisma = getDatabaseClient(env.DB);
+
+    const conditions = [
+      'search_index MATCH ?',
+      '(t."userId" = ? OR EXISTS (SELECT 1 FROM "thread_members" m WHERE m."threadId" = t."id" AND m."email" = ?))'
+    ];
+    const params: any[] = [match, user.id, normalizeEmail(user.email)];
+
+    if (options.type) {
+      conditions.push('search_index."entityType" = ?');
+      params.push(options.type);
+    }
+    if (options.threadId) {
+      conditions.push('search_index."threadId" = ?');
+      params.push(options.threadId);
+    }
+
+    params.push(options.limit + 1, options.offset);
+
+    // Bound like the other parameters; they come first because snippet() precedes WHERE
+    const markers = createSnippetMarkers();
+    const snippetParams = [markers.start, markers.end, markers.start, markers.end];
+
+    // bm25 weights: title matches count five times as much as body matches
+    const rows = await prisma.$queryRawUnsafe(
+      `SELECT
+        search_index."entityType" AS "entityType",
+        search_index."entityId" AS "entityId",
+        search_index."threadId" AS "threadId",
+        t."title" AS "threadTitle",
+        search_index."title" AS "title",
+        snippet(search_index, 3, ?, ?, '…', 12) AS "titleSnippet",
+        snippet(search_index, 4, ?, ?, '…', 24) AS "bodySnippet",
+        bm25(search_index, 0.0, 0.0, 0.0, 5.0, 1.0) AS "rank"
+      FROM search_index
+      JOIN "threads" t ON t."id" = search_index."threadId"
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY "rank"
+      LIMIT ? OFFSET ?`,
+      ...snippetParams,
+      ...params
+    ) as SearchRow[];
+
+    return rows.map(row => ({
+      type: row.entityType,
+      id: row.entityId,
+      threadId: row.threadId,
+      threadTitle: row.threadTitle,
+      title: row.entityType === 'message' ? null : row.title,
+      snippet: formatSnippet(row.bodySnippet || row.titleSnippet, markers),
+      rank: Number(row.rank)
+    }));
+  }
+}
@@ -0,0 +1,244 @@
+// Public share links for threads and artifacts
+
+import {
+  createShareToken,
+  hashSharePassword,
+  toPublicBlocks,
+  verifySharePassword,
+  verifyShareToken
+} from '../utils/share-links';
+
+// Messages included in a shared thread view, oldest first
+const MAX_SHARED_MESSAGES = 1000;
+
+// Share link failures shown to anonymous viewers, mapped to problem responses by the routes
+export class ShareLinkError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export interface ShareLinkView {
+  id: string;
+  token: string;
+  url: string;
+  resource: 'thread' | 'artifact';
+  threadId: string;
+  artifactId: string | null;
+  hasPassword: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  accessCount: number;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+  creator?: { id: string; name: string | null; nick: string | null };
+}
+
+export interface ShareAccessDetails {
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  country?: string;
+  referer?: string;
+}
+
+// Public author info: never emails or IDs
+const AUTHOR_SELECT = {
+  name: true,
+  nick: true,
+  avatarUrl: true
+} as const;
+
+const PUBLIC_ARTIFACT_SELECT = {
+  type: true,
+  title: true,
+  description: true,
+  content: true,
+  blocks: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: AUTHOR_SELECT }
+} as const;
+
+export class ShareLinkService {
+  /**
+   * The key share tokens are signed with: SHARE_LINK_SECRET, or JWT_SECRET when
+   * that is not set. Without either, links could be forged, so they are refused.
+   */
+  static getSecret(env: { SHARE_LINK_SECRET?: string; JWT_SECRET?: string }): string {
+    const secret = env.SHARE_LINK_SECRET || env.JWT_SECRET;
+    if (!secret) {
+      throw new ShareLinkError('Share links are not configured', 503, 'Service Unavailable');
+    }
+    return secret;
+  }
+
+  static async toView(link: any, baseUrl: string, secret: string): Promise<ShareLinkView> {
+    const token = await createShareToken(link.id, secret);
+    return {
+      id: link.id,
+      token,
+      url: `${baseUrl}/share/${token}`,
+      resource: link.artifactId ? 'artifact' : 'thread',
+      threadId: link.threadId,
+      artifactId: link.artifactId,
+      hasPassword: !!link.passwordHash,
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      accessCount: link.accessCount,
+      lastAccessedAt: link.lastAccessedAt,
+      createdAt: link.createdAt,
+      ...(link.creator && { creator: link.creator })
+    };
+  }
+
+  static async create(
+    prisma: any,
+    data: { threadId: string; artifactId?: string; createdBy: string; expiresAt?: Date; password?: string }
+  ) {
+    return prisma.shareLink.create({
+      data: {
+        threadId: data.threadId,
+        artifactId: data.artifactId,
+        createdBy: data.createdBy,
+        expiresAt: data.expiresAt,
+        passwordHash: data.password ? await hashSharePassword(data.password) : undefined
+      }
+    });
+  }
+
+  /**
+   * Resolve a token to a usable link. Tampered, unknown, revoked and expired
+   * links are rejected before the password is checked.
+   */
+  static async resolve(prisma: any, token: string, password: string | undefined, secret: string, now = new Date()) {
+    const linkId = await verifyShareToken(token, secret);
+    const link = linkId && await prisma.shareLink.findUnique({ where: { id: linkId } });
+
+    if (!link) {
+      throw new ShareLinkError('This share link does not exist', 404, 'Share Link Not Found');
+    }
+    if (link.revokedAt) {
+      throw new ShareLinkError('This share link has been revoked', 410, 'Share Link Revoked');
+    }
+    if (link.expiresAt && new Date(link.expiresAt) <= now) {
+      throw new ShareLinkError('This share link has expired', 410, 'Share Link Expired');
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw new ShareLinkError('This share link is password protected; send the password in the X-Share-Password header', 401, 'Password Required');
+      }
+      if (!await verifySharePassword(password, link.passwordHash)) {
+        throw new ShareLinkError('The password is incorrect', 401, 'Invalid Password');
+      }
+    }
+
+    return link;
+  }
+
+  static async recordAccess(prisma: any, linkId: string, details: ShareAccessDetails) {
+    await prisma.shareLinkAccess.create({
+      data: { shareLinkId: linkId, ...details }
+    });
+    await prisma.shareLink.update({
+      where: { id: linkId },
+      data: {
+        accessCount: { increment: 1 },
+        lastAccessedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Read-only view of the shared thread or artifact: content and public blocks
+   * only, without emails, user IDs or metadata.
+   */
+  static async buildPublicView(prisma: any, link: { threadId: string; artifactId: string | null; expiresAt: Date | null }) {
+    if (link.artifactId) {
+      const found = await prisma.artifact.findUnique({
+        where: { id: link.artifactId },
+        select: { ...PUBLIC_ARTIFACT_SELECT, thread: { select: { status: true } } }
+      });
+
+      // Artifacts go with their thread, like in thread links
+      if (!found || found.thread.status === 'DELETED') {
+        throw new ShareLinkError('The shared artifact no longer exists', 404, 'Share Link Not Found');
+      }
+
+      const { thread, ...artifact } = found;
+      return {
+        resource: 'artifact' as const,
+        expiresAt: link.expiresAt,
+        artifact: toPublicArtifact(artifact)
+      };
+    }
+
+    const thread = await prisma.thread.findUnique({
+      where: { id: link.threadId },
+      select: {
+        title: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        user: { select: AUTHOR_SELECT },
+        messages: {
+          select: {
+            id: true,
+            role: true,
+            content: true,
+            blocks: true,
+            createdAt: true,
+            editedAt: true,
+            user: { select: AUTHOR_SELECT }
+          },
+          orderBy: { createdAt: 'asc' },
+          take: MAX_SHARED_MESSAGES
+        },
+        artifacts: {
+          select: PUBLIC_ARTIFACT_SELECT,
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!thread || thread.status === 'DELETED') {
+      throw new ShareLinkError('The shared thread no longer exists', 404, 'Share Link Not Found');
+    }
+
+    return {
+      resource: 'thread' as const,
+      expiresAt: link.expiresAt,
+      thread: {
+        title: thread.title,
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+        author: thread.user,
+        messages: thread.messages.map((message: any) => ({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          blocks: toPublicBlocks(message.blocks),
+          createdAt: message.createdAt,
+          editedAt: message.editedAt,
+          author: message.user
+        })),
+        artifacts: thread.artifacts.map(toPublicArtifact)
+      }
+    };
+  }
+}
+
+function toPublicArtifact({ user, blocks, ...artifact }: any) {
+  return {
+    ...artifact,
+    blocks: toPublicBlocks(blocks),
+    author: user
+  };
+}
@@ -0,0 +1,115 @@
+// Thread access service: resolve a user's role in a thread and enforce it
+
+import {
+  hasThreadPermission,
+  normalizeEmail,
+  type ThreadPermission,
+  type ThreadRole
+} from '../utils/thread-permissions';
+
+export interface ThreadAccessError {
+  status: number;
+  title: string;
+  detail: string;
+}
+
+export type ThreadAccessResult =
+  | { allowed: true; role: ThreadRole; thread: { id: string; userId: string; status: string } }
+  | { allowed: false; error: ThreadAccessError };
+
+const PERMISSION_DESCRIPTIONS: Record<ThreadPermission, string> = {
+  view: 'view this thread',
+  comment: 'post in this thread',
+  edit: 'edit this thread',
+  manage: 'manage this thread'
+};
+
+export class ThreadAccessService {
+  /**
+   * The user's role in the thread, or null when they are not a member.
+   * Returns undefined when the thread does not exist.
+   */
+  static async getRole(
+    prisma: any,
+    threadId: string,
+    user: { id: string; email: string }
+  ): Promise<{ thread: { id: string; userId: string; status: string }; role: ThreadRole | null } | undefined> {
+    const email = normalizeEmail(user.email);
+
+    const thread = await prisma.thread.findUnique({
+      where: { id: threadId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        members: {
+          where: { email },
+          select: { id: true, userId: true, role: true }
+        }
+      }
+    });
+
+    if (!thread) {
+      return undefined;
+    }
+
+    const { members, ...threadInfo } = thread;
+
+    // The creator always owns the thread, even without a member row
+    if (thread.userId === user.id) {
+      return { thread: threadInfo, role: 'OWNER' };
+    }
+
+    const member = members[0];
+    if (!member) {
+      return { thread: threadInfo, role: null };
+    }
+
+    // Link invitations sent before the user's first sign-in
+    if (!member.userId) {
+      await prisma.threadMember.update({
+        where: { id: member.id },
+        data: { userId: user.id }
+      }).catch((error: unknown) => console.error('Error linking thread member:', error));
+    }
+
+    return { thread: threadInfo, role: member.role };
+  }
+
+  /**
+   * Check that the user may perform `permission` on the thread. Non-members
+   * get a 404 so thread IDs don't leak; members without the permission a 403.
+   */
+  static async check(
+    prisma: any,
+    threadId: string,
+    user: { id: string; email: string },
+    permission: ThreadPermission
+  ): Promise<ThreadAccessResult> {
+    const access = await this.getRole(prisma, threadId, user);
+
+    if (!access || !access.role) {
+      return {
+        allowed: false,
+        error: {
+          status: 404,
+          title: 'Thread Not Found',
+          detail: `Thread with ID ${threadId} was not found or you don't have access to it`
+        }
+      };
+    }
+
+    if (!hasThreadPermission(access.role, permission)) {
+      return {
+        allowed: false,
+        error: {
+          status: 403,
+          title: 'Insufficient Permissions',
+          detail: `Your role (${access.role}) does not allow you to ${PERMISSION_DESCRIPTIONS[permission]}`
+        }
+      };
+    }
+
+    return { allowed: true, role: access.role, thread: access.thread };
+  }
+}
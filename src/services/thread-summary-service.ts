@@ -0,0 +1,210 @@
+// Thread titles, rolling summaries and summary artifacts, generated by the configured AI provider
+
+import { getDatabaseClient } from '../utils/database';
+import { markdownToBlocks } from '../utils/markdown-blocks';
+import {
+  buildInsightPrompt,
+  buildSummaryPrompt,
+  buildTitlePrompt,
+  cleanTitle,
+  formatTranscript,
+  getSummaryInterval,
+  getThreadSummary,
+  type ThreadSummary
+} from '../utils/thread-summary';
+import { ArtifactVersionService } from './artifact-version-service';
+import { CompletionService } from './completion-service';
+import { publishThreadEvent } from './realtime-service';
+import type { EnqueueJobInput } from './job-service';
+import type { AuthenticatedUser } from '../middleware/auth';
+import type { ChatMessage } from '../types/completions';
+
+// Messages a title is generated from
+const TITLE_MESSAGES = 4;
+// Most messages folded into the rolling summary at once
+const SUMMARY_BATCH_MESSAGES = 200;
+// Most recent messages an insight artifact is written from; older ones come in through the rolling summary
+const INSIGHT_MESSAGES = 100;
+
+const TRANSCRIPT_SELECT = {
+  role: true,
+  content: true,
+  user: { select: { name: true, nick: true } }
+} as const;
+
+export class ThreadSummaryService {
+  /**
+   * Queue the title and rolling summary jobs a thread is due for after a
+   * reply. Best-effort: failures are logged and never fail the reply.
+   */
+  static async scheduleUpdates(
+    prisma: any,
+    env: any,
+    threadId: string,
+    userId: string,
+    enqueue: (input: EnqueueJobInput) => Promise<unknown>
+  ): Promise<void> {
+    try {
+      const [thread, messageCount] = await Promise.all([
+        prisma.thread.findUnique({ where: { id: threadId }, select: { title: true, metadata: true } }),
+        prisma.message.count({ where: { threadId } })
+      ]);
+      if (!thread) return;
+
+      if (!thread.title?.trim() && messageCount >= 2) {
+        await enqueue({ type: 'thread.title', payload: { threadId }, userId });
+      }
+
+      const summarized = getThreadSummary(thread.metadata)?.messageCount ?? 0;
+      if (messageCount - summarized >= getSummaryInterval(env.THREAD_SUMMARY_INTERVAL)) {
+        await enqueue({ type: 'thread.summary', payload: { threadId }, userId });
+      }
+    } catch (error) {
+      console.error(`Error scheduling summary updates for thread ${threadId}:`, error);
+    }
+  }
+
+  /**
+   * Title an untitled thread from its first messages. A title set in the
+   * meantime is kept. Returns the new title, or null when none was set.
+   */
+  static async generateTitle(env: any, threadId: string, user: AuthenticatedUser): Promise<string | null> {
+    const prisma = getDatabaseClient(env.DB);
+    const messages = await prisma.message.findMany({
+      where: { threadId },
+      orderBy: { createdAt: 'asc' },
+      take: TITLE_MESSAGES,
+      select: TRANSCRIPT_SELECT
+    });
+    if (messages.length === 0) return null;
+
+    const title = cleanTitle(await this.complete(env, user, buildTitlePrompt(formatTranscript(messages)), 30));
+    if (!title) return null;
+
+    const { count } = await prisma.thread.updateMany({
+      where: { id: threadId, OR: [{ title: null }, { title: '' }] },
+      data: { title }
+    });
+    if (count === 0) return null;
+
+    await publishThreadEvent(env, threadId, { type: 'thread.updated', thread: { id: threadId, title } });
+    return title;
+  }
+
+  /**
+   * Fold the messages written since the last update into the rolling summary
+   * in Thread.metadata.summary. Returns the updated summary.
+   */
+  static async updateSummary(env: any, threadId: string, user: AuthenticatedUser): Promise<ThreadSummary | null> {
+    const prisma = getDatabaseClient(env.DB);
+    const thread = await prisma.thread.findUnique({ where: { id: threadId }, select: { metadata: true } });
+    if (!thread) return null;
+
+    const previous = getThreadSummary(thread.metadata);
+    const messages = await prisma.message.findMany({
+      where: { threadId },
+      orderBy: { createdAt: 'asc' },
+      skip: previous?.messageCount ?? 0,
+      take: SUMMARY_BATCH_MESSAGES,
+      select: TRANSCRIPT_SELECT
+    });
+    if (messages.length === 0) return previous;
+
+    const text = await this.complete(env, user, buildSummaryPrompt(previous?.text ?? null, formatTranscript(messages)), 400);
+    const summary: ThreadSummary = {
+      text: text.trim(),
+      messageCount: (previous?.messageCount ?? 0) + messages.length,
+      updatedAt: new Date().toISOString()
+    };
+
+    // Re-read the metadata so changes made while the provider ran are kept
+    const current = await prisma.thread.findUnique({ where: { id: threadId }, select: { metadata: true } });
+    if (!current) return null;
+    await prisma.thread.update({
+      where: { id: threadId },
+      data: { metadata: { ...(current.metadata ?? {}), summary } }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Write an INSIGHT artifact summarizing the conversation: the recent
+   * messages, plus the rolling summary for anything older.
+   */
+  static async createInsight(env: any, threadId: string, user: AuthenticatedUser) {
+    const prisma = getDatabaseClient(env.DB);
+    const [thread, latest, messageCount] = await Promise.all([
+      prisma.thread.findUnique({ where: { id: threadId }, select: { title: true, metadata: true } }),
+      prisma.message.findMany({
+        where: { threadId },
+        orderBy: { createdAt: 'desc' },
+        take: INSIGHT_MESSAGES,
+        select: TRANSCRIPT_SELECT
+      }),
+      prisma.message.count({ where: { threadId } })
+    ]);
+    if (!thread || latest.length === 0) return null;
+
+    const earlier = messageCount > latest.length ? getThreadSummary(thread.metadata)?.text ?? null : null;
+    const content = (await this.complete(env, user, buildInsightPrompt(earlier, formatTranscript(latest.reverse())), 1000)).trim();
+
+    const data = {
+      threadId,
+      userId: user.id,
+      type: 'INSIGHT',
+      title: `Summary: ${thread.title?.trim() || 'Conversation'}`.slice(0, 200),
+      description: `Summary of ${messageCount} message${messageCount === 1 ? '' : 's'}`,
+      content,
+      blocks: markdownToBlocks(content),
+      metadata: { generatedBy: 'summarize', messageCount }
+    };
+
+    const artifact = await prisma.artifact.create({
+      data,
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        description: true,
+        version: true,
+        createdAt: true,
+        updatedAt: true,
+        metadata: true,
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            nick: true,
+            avatarUrl: true
+          }
+        }
+      }
+    });
+
+    // Record the initial version in the artifact's history
+    await ArtifactVersionService.snapshot(prisma, { ...artifact, content, blocks: data.blocks }, user.id);
+    await publishThreadEvent(env, threadId, { type: 'artifact.created', artifact });
+
+    return artifact;
+  }
+
+  // Run a completion for the user (recorded against their usage) and return its text
+  private static async complete(env: any, user: AuthenticatedUser, messages: ChatMessage[], maxTokens: number): Promise<string> {
+    const { completion } = await CompletionService.createCompletion({
+      model: env.DEFAULT_AI_MODEL || 'gpt-4o',
+      messages,
+      temperature: 0.3,
+      max_tokens: maxTokens,
+      n: 1,
+      stream: false
+    }, user, env);
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content?.trim()) {
+      throw new Error('The AI provider returned an empty reply');
+    }
+    return content;
+  }
+}
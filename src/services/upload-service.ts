@@ -0,0 +1,337 @@
+// Resumable upload sessions on top of R2 multipart uploads
+
+import { getDatabaseClient } from '../utils/database';
+import {
+  DEFAULT_PART_SIZE,
+  UPLOAD_SESSION_TTL_MS,
+  createFileId,
+  getExpectedPartSize,
+  getUploadProgress,
+  sanitizeFilename,
+  sniffMimeType,
+  toHex,
+  type UploadProgress
+} from '../utils/files';
+import type { CreateUploadSessionInput } from '../utils/validation';
+import { FileStorageService } from './file-storage-service';
+
+// Bytes read from the start of the object to determine its type
+const SNIFF_LENGTH = 4096;
+
+// Upload failures the client can act on, mapped to problem responses by the routes
+export class UploadSessionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public title: string
+  ) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+export interface UploadSessionView extends UploadProgress {
+  id: string;
+  filename: string;
+  mimeType: string | null;
+  size: number;
+  partSize: number;
+  status: string;
+  fileId: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export class UploadService {
+  static toView(session: any): UploadSessionView {
+    return {
+      id: session.id,
+      filename: session.originalName,
+      mimeType: session.mimeType,
+      size: session.size,
+      partSize: session.partSize,
+      status: session.status,
+      fileId: session.fileId,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+      ...getUploadProgress(session.size, session.partSize, session.parts ?? [])
+    };
+  }
+
+  /**
+   * Load a session owned by the user, with its received parts.
+   */
+  static async get(id: string, userId: string, env: any) {
+    const prisma = getDatabaseClient(env.DB);
+    return prisma.fileUpload.findFirst({
+      where: { id, userId },
+      include: {
+        parts: {
+          select: { partNumber: true, etag: true, size: true },
+          orderBy: { partNumber: 'asc' }
+        }
+      }
+    });
+  }
+
+  static async start(userId: string, input: CreateUploadSessionInput, env: any) {
+    const prisma = getDatabaseClient(env.DB);
+    const bucket: R2Bucket = env.FILES;
+
+    const { filename, mimeType, size, partSize, checksum, ...details } = input;
+    const key = FileStorageService.createObjectKey(userId);
+    const multipart = await bucket.createMultipartUpload(key, {
+      customMetadata: { uploadedBy: userId, originalName: filename }
+    });
+
+    try {
+      return await prisma.fileUpload.create({
+        data: {
+          userId,
+          originalName: filename,
+          mimeType,
+          size,
+          partSize: partSize ?? DEFAULT_PART_SIZE,
+          storageKey: key,
+          r2UploadId: multipart.uploadId,
+          checksum,
+          metadata: details,
+          expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
+        },
+        include: { parts: true }
+      });
+    } catch (error) {
+      await multipart.abort().catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Store one part. Parts can be sent in any order and re-sent to replace a
+   * previous attempt, which is what makes an interrupted upload resumable.
+   */
+  static async uploadPart(session: any, partNumber: number, data: ArrayBuffer, env: any) {
+    assertActive(session);
+
+    const expectedSize = getExpectedPartSize(session.size, session.partSize, partNumber);
+    if (expectedSize === null) {
+      throw new UploadSessionError(
+        `Part number must be between 1 and ${getUploadProgress(session.size, session.partSize, []).partCount}`,
+        400,
+        'Invalid Part Number'
+      );
+    }
+    if (data.byteLength !== expectedSize) {
+      throw new UploadSessionError(
+        `Part ${partNumber} must be exactly ${expectedSize} bytes, received ${data.byteLength}`,
+        400,
+        'Invalid Part Size'
+      );
+    }
+
+    const bucket: R2Bucket = env.FILES;
+    const multipart = bucket.resumeMultipartUpload(session.storageKey, session.r2UploadId);
+    const uploaded = await multipart.uploadPart(partNumber, data);
+
+    const prisma = getDatabaseClient(env.DB);
+    await prisma.fileUploadPart.upsert({
+      where: { uploadId_partNumber: { uploadId: session.id, partNumber } },
+      create: { uploadId: session.id, partNumber, etag: uploaded.etag, size: data.byteLength },
+      update: { etag: uploaded.etag, size: data.byteLength, createdAt: new Date() }
+    });
+
+    return this.get(session.id, session.userId, env);
+  }
+
+  /**
+   * Assemble the parts into the final object and create its File record.
+   * The checksum and MIME type are computed from the stored object.
+   *
+   * The session is claimed by moving it to COMPLETING, so of concurrent calls
+   * only one gets to create a File. The File and the COMPLETED session are
+   * written in one batch; after a failure the session is ACTIVE again and the
+   * client can retry.
+   */
+  static async complete(session: any, contentBaseUrl: string, env: any) {
+    assertActive(session);
+
+    const progress = getUploadProgress(session.size, session.partSize, session.parts);
+    if (progress.missingParts.length > 0) {
+      throw new UploadSessionError(
+        `Missing parts: ${progress.missingParts.join(', ')}`,
+        409,
+        'Upload Incomplete'
+      );
+    }
+
+    const prisma = getDatabaseClient(env.DB);
+    const bucket: R2Bucket = env.FILES;
+
+    const claimed = await prisma.fileUpload.updateMany({
+      where: { id: session.id, status: 'ACTIVE' },
+      data: { status: 'COMPLETING' }
+    });
+    if (claimed.count === 0) {
+      throw new UploadSessionError(
+        'This upload session is already being completed or no longer accepts changes',
+        409,
+        'Upload Session Closed'
+      );
+    }
+
+    let settled = false;
+    try {
+      // A previous attempt may have assembled the object before failing
+      if (!(await bucket.head(session.storageKey))) {
+        const multipart = bucket.resumeMultipartUpload(session.storageKey, session.r2UploadId);
+        await multipart.complete(session.parts.map((p: any) => ({ partNumber: p.partNumber, etag: p.etag })));
+      }
+
+      const { checksum, mimeType } = await inspectObject(bucket, session.storageKey, session.originalName, session.mimeType);
+
+      if (session.checksum && session.checksum !== checksum) {
+        await FileStorageService.remove(bucket, session.storageKey);
+        await prisma.$transaction([
+          prisma.fileUploadPart.deleteMany({ where: { uploadId: session.id } }),
+          prisma.fileUpload.update({
+            where: { id: session.id },
+            data: { status: 'ABORTED' }
+          })
+        ]);
+        settled = true;
+        throw new UploadSessionError(
+          `Uploaded content has checksum ${checksum}, expected ${session.checksum}`,
+          422,
+          'Checksum Mismatch'
+        );
+      }
+
+      const fileId = createFileId();
+      const [file] = await prisma.$transaction([
+        prisma.file.create({
+          data: {
+            id: fileId,
+            filename: sanitizeFilename(session.originalName),
+            originalName: session.originalName,
+            mimeType,
+            size: session.size,
+            checksum,
+            storageUrl: `${contentBaseUrl}/${fileId}/content`,
+            storageKey: session.storageKey,
+            uploadedBy: session.userId,
+            metadata: session.metadata || {}
+          },
+          select: {
+            id: true,
+            filename: true,
+            originalName: true,
+            mimeType: true,
+            size: true,
+            checksum: true,
+            storageUrl: true,
+            previewUrl: true,
+            createdAt: true,
+            metadata: true
+          }
+        }),
+        prisma.fileUpload.update({
+          where: { id: session.id, status: 'COMPLETING' },
+          data: { status: 'COMPLETED', fileId }
+        })
+      ]);
+      settled = true;
+
+      return file;
+    } finally {
+      if (!settled) {
+        await prisma.fileUpload.updateMany({
+          where: { id: session.id, status: 'COMPLETING' },
+          data: { status: 'ACTIVE' }
+        }).catch((error: unknown) => console.error(`Error reopening upload session ${session.id}:`, error));
+      }
+    }
+  }
+
+  static async abort(session: any, env: any) {
+    assertActive(session);
+    await this.release(session, 'ABORTED', env);
+  }
+
+  /**
+   * Abort sessions past their expiry. Run from the scheduled handler; returns
+   * the number of sessions expired.
+   */
+  static async expireSessions(env: any, now = new Date(), batchSize = 100): Promise<number> {
+    const prisma = getDatabaseClient(env.DB);
+
+    const expired = await prisma.fileUpload.findMany({
+      // Includes completions whose worker never finished them
+      where: { status: { in: ['ACTIVE', 'COMPLETING'] }, expiresAt: { lt: now } },
+      select: { id: true, storageKey: true, r2UploadId: true },
+      take: batchSize
+    });
+
+    for (const session of expired) {
+      try {
+        await this.release(session, 'EXPIRED', env);
+      } catch (error) {
+        console.error(`Error expiring upload session ${session.id}:`, error);
+      }
+    }
+
+    return expired.length;
+  }
+
+  static isExpired(session: { status: string; expiresAt: Date | string }, now = new Date()): boolean {
+    return session.status === 'ACTIVE' && new Date(session.expiresAt) < now;
+  }
+
+  private static async release(
+    session: { id: string; storageKey: string; r2UploadId: string },
+    status: 'ABORTED' | 'EXPIRED',
+    env: any
+  ) {
+    const prisma = getDatabaseClient(env.DB);
+
+    if (env.FILES) {
+      const multipart = (env.FILES as R2Bucket).resumeMultipartUpload(session.storageKey, session.r2UploadId);
+      await multipart.abort();
+    }
+
+    await prisma.fileUploadPart.deleteMany({ where: { uploadId: session.id } });
+    await prisma.fileUpload.update({
+      where: { id: session.id },
+      data: { status }
+    });
+  }
+}
+
+function assertActive(session: { status: string; expiresAt: Date | string }) {
+  if (UploadService.isExpired(session)) {
+    throw new UploadSessionError('This upload session has expired; start a new upload', 410, 'Upload Session Expired');
+  }
+  if (session.status !== 'ACTIVE') {
+    throw new UploadSessionError(
+      `This upload session is ${session.status.toLowerCase()} and no longer accepts changes`,
+      409,
+      'Upload Session Closed'
+    );
+  }
+}
+
+// Hash the assembled object as a stream and sniff its type from the first bytes
+async function inspectObject(bucket: R2Bucket, key: string, filename: string, declaredType?: string | null) {
+  const object = await bucket.get(key);
+  if (!object) {
+    throw new Error(`Assembled object ${key} not found`);
+  }
+
+  const digest = new crypto.DigestStream('SHA-256');
+  await object.body.pipeTo(digest);
+  const checksum = `sha256:${toHex(await digest.digest)}`;
+
+  const head = await bucket.get(key, { range: { offset: 0, length: SNIFF_LENGTH } });
+  const mimeType = sniffMimeType(head ? await head.arrayBuffer() : new ArrayBuffer(0), filename, declaredType ?? undefined);
+
+  return { checksum, mimeType };
+}
@@ -0,0 +1,122 @@
+// Cloudflare Workers AI adapter: runs text generation models through the AI binding
+// and translates their output to the OpenAI-compatible shapes
+
+import type {
+  AIModel,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ChatCompletionUsage
+} from '../types/completions';
+import { WORKERS_AI_MODELS } from '../types/completions';
+import { ProviderError, readServerSentEvents, type AIProvider } from './ai-provider';
+import { estimateTokens } from '../utils/completion-stream';
+
+// Workers AI defaults to 256 tokens, too short for most replies
+const DEFAULT_MAX_TOKENS = 1024;
+
+// The part of the AI binding used here; model ids are not limited to the ones the binding's types know
+export interface WorkersAIBinding {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
+interface WorkersAIOutput {
+  response?: string;
+  usage?: Partial<ChatCompletionUsage>;
+}
+
+export class WorkersAIProvider implements AIProvider {
+  constructor(private ai: WorkersAIBinding) {}
+
+  async generateCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const model = request.model || WORKERS_AI_MODELS[0].id;
+    const output = await this.run(request, false) as WorkersAIOutput;
+    const content = output.response ?? '';
+
+    return {
+      id: `chatcmpl-${crypto.randomUUID()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop'
+      }],
+      usage: toUsage(output.usage, request, content)
+    };
+  }
+
+  async* generateStreamingCompletion(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionStreamChunk> {
+    const model = request.model || WORKERS_AI_MODELS[0].id;
+    const stream = await this.run(request, true) as ReadableStream<Uint8Array>;
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    let usage: ChatCompletionUsage | undefined;
+
+    for await (const { data } of readServerSentEvents(stream)) {
+      if (data === '[DONE]') break;
+
+      const output: WorkersAIOutput = JSON.parse(data);
+      if (output.usage?.prompt_tokens !== undefined) {
+        usage = toUsage(output.usage, request, '');
+      }
+      if (output.response) {
+        yield {
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model,
+          choices: [{ index: 0, delta: { content: output.response }, finish_reason: null }]
+        };
+      }
+    }
+
+    yield {
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      ...(usage && { usage })
+    };
+  }
+
+  getSupportedModels(): AIModel[] {
+    return WORKERS_AI_MODELS;
+  }
+
+  private async run(request: ChatCompletionRequest, stream: boolean): Promise<unknown> {
+    try {
+      return await this.ai.run(request.model || WORKERS_AI_MODELS[0].id, {
+        messages: request.messages.map(({ role, content }) => ({ role, content: content ?? '' })),
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.top_p !== undefined && { top_p: request.top_p }),
+        ...(request.presence_penalty !== undefined && { presence_penalty: request.presence_penalty }),
+        ...(request.frequency_penalty !== undefined && { frequency_penalty: request.frequency_penalty }),
+        stream
+      });
+    } catch (error) {
+      throw new ProviderError(
+        `Workers AI error: ${error instanceof Error ? error.message : String(error)}`,
+        'Workers AI'
+      );
+    }
+  }
+}
+
+// Usage as reported by the model, estimated from the text when it reports none
+function toUsage(
+  reported: Partial<ChatCompletionUsage> | undefined,
+  request: ChatCompletionRequest,
+  content: string
+): ChatCompletionUsage {
+  const promptTokens = reported?.prompt_tokens ?? estimateTokens(request.messages.map(m => m.content).join(' '));
+  const completionTokens = reported?.completion_tokens ?? estimateTokens(content);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  };
+}
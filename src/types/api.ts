@@ -165,6 +165,7 @@ export interface InteractiveActionRequest {
 }
 
 export interface InteractiveActionResponse {
+  interaction_id: string;
   action_handled: boolean;
   response_type?: 'redirect' | 'update' | 'ephemeral';
   redirect_url?: string;
@@ -173,6 +174,7 @@ export interface InteractiveActionResponse {
     blocks?: UIBlock[];
   };
   updated_message?: MessageResponse;
+  follow_up_message?: MessageResponse;
 }
 
 // Authentication Types
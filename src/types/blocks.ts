@@ -201,6 +201,23 @@ export interface RichTextEmojiElement extends RichTextElement {
   name: string;
 }
 
+export interface RichTextListElement extends RichTextElement {
+  type: 'rich_text_list';
+  style: 'bullet' | 'ordered';
+  elements: RichTextSectionElement[];
+  indent?: number;
+}
+
+export interface RichTextQuoteElement extends RichTextElement {
+  type: 'rich_text_quote';
+  elements: (RichTextStyleElement | RichTextLinkElement | RichTextEmojiElement)[];
+}
+
+export interface RichTextPreformattedElement extends RichTextElement {
+  type: 'rich_text_preformatted';
+  elements: (RichTextStyleElement | RichTextLinkElement | RichTextEmojiElement)[];
+}
+
 // Supporting Types
 export interface Option {
   text: PlainTextObject | MarkdownTextObject;
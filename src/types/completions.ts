@@ -1,11 +1,66 @@
 // Types for OpenAI-compatible chat completions API
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null; // Null for assistant messages that only call tools
   name?: string;
+  tool_calls?: ToolCall[]; // Assistant messages: the functions the model called
+  tool_call_id?: string;   // Tool messages: the call this is the result of
 }
 
+// A function call made by the model; `arguments` is JSON text generated by the model
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+// A piece of a tool call in a streamed chunk. The first piece of each call
+// has its id and name; the arguments arrive in pieces to be concatenated.
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ChatCompletionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>; // JSON Schema of the arguments
+    strict?: boolean;
+  };
+}
+
+export type ChatCompletionToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean | null;
+      };
+    };
+
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | null;
+
 export interface ChatCompletionRequest {
   messages: ChatMessage[];
   model?: string; // Optional - will use default if not provided
@@ -19,18 +74,26 @@ export interface ChatCompletionRequest {
   frequency_penalty?: number;
   logit_bias?: Record<string, number>;
   user?: string; // User identifier for abuse monitoring
+
+  // Tool calling and structured output
+  tools?: ChatCompletionTool[];
+  tool_choice?: ChatCompletionToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: ResponseFormat;
   
   // Thread integration (custom extension)
   thread_id?: string; // If provided, integrate with existing thread
+  include_thread_history?: boolean; // With thread_id, prepend the thread's stored history
 }
 
 export interface ChatCompletionChoice {
   index: number;
   message: {
     role: 'assistant';
-    content: string;
+    content: string | null;
+    tool_calls?: ToolCall[];
   };
-  finish_reason: 'stop' | 'length' | 'content_filter' | null;
+  finish_reason: FinishReason;
   logprobs?: any;
 }
 
@@ -54,9 +117,10 @@ export interface ChatCompletionStreamChoice {
   index: number;
   delta: {
     role?: 'assistant';
-    content?: string;
+    content?: string | null;
+    tool_calls?: ToolCallDelta[];
   };
-  finish_reason: 'stop' | 'length' | 'content_filter' | null;
+  finish_reason: FinishReason;
   logprobs?: any;
 }
 
@@ -66,6 +130,7 @@ export interface ChatCompletionStreamChunk {
   created: number;
   model: string;
   choices: ChatCompletionStreamChoice[];
+  usage?: ChatCompletionUsage; // Final chunk only, when the provider reports usage
   system_fingerprint?: string;
 }
 
@@ -85,6 +150,9 @@ export interface CompletionRecord {
   response: ChatCompletionResponse;
   usage?: ChatCompletionUsage;
   finishReason?: string;
+  provider?: string;     // Provider that served the request, e.g. "openai"
+  servedModel?: string;  // Model that served it, differs from `model` after a fallback
+  attempts: number;      // Calls made to providers, including retries and fallbacks
   requestId: string;
   createdAt: Date;
   completedAt?: Date;
@@ -95,7 +163,7 @@ export interface AIModel {
   id: string;
   name: string;
   description: string;
-  provider: 'openai' | 'anthropic' | 'local';
+  provider: 'openai' | 'anthropic' | 'workers-ai' | 'local';
   maxTokens: number;
   supportsStreaming: boolean;
   isDefault?: boolean;
@@ -176,3 +244,57 @@ export const DEFAULT_MODELS: AIModel[] = [
     supportsStreaming: false
   }
 ];
+
+export const ANTHROPIC_MODELS: AIModel[] = [
+  {
+    id: 'claude-opus-4-1-20250805',
+    name: 'Claude Opus 4.1',
+    description: 'Most capable Claude model for complex reasoning and agentic tasks',
+    provider: 'anthropic',
+    maxTokens: 200000,
+    supportsStreaming: true
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    name: 'Claude Sonnet 4',
+    description: 'High-performance Claude model balancing intelligence and speed',
+    provider: 'anthropic',
+    maxTokens: 200000,
+    supportsStreaming: true
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    name: 'Claude Haiku 3.5',
+    description: 'Fastest Claude model for lightweight tasks',
+    provider: 'anthropic',
+    maxTokens: 200000,
+    supportsStreaming: true
+  }
+];
+
+export const WORKERS_AI_MODELS: AIModel[] = [
+  {
+    id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    name: 'Llama 3.3 70B Instruct',
+    description: 'Meta Llama 3.3 70B on Cloudflare Workers AI',
+    provider: 'workers-ai',
+    maxTokens: 24000,
+    supportsStreaming: true
+  },
+  {
+    id: '@cf/meta/llama-3.1-8b-instruct',
+    name: 'Llama 3.1 8B Instruct',
+    description: 'Meta Llama 3.1 8B on Cloudflare Workers AI',
+    provider: 'workers-ai',
+    maxTokens: 7968,
+    supportsStreaming: true
+  },
+  {
+    id: '@cf/mistralai/mistral-small-3.1-24b-instruct',
+    name: 'Mistral Small 3.1 24B Instruct',
+    description: 'Mistral Small 3.1 on Cloudflare Workers AI',
+    provider: 'workers-ai',
+    maxTokens: 128000,
+    supportsStreaming: true
+  }
+];
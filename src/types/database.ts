@@ -89,6 +89,20 @@ export interface ArtifactFile {
   fileId: string;
 }
 
+export interface ArtifactVersion {
+  id: string;
+  artifactId: string;
+  version: number;
+  title: string;
+  description?: string;
+  content: string;
+  blocks?: Record<string, any>[];
+  metadata?: Record<string, any>;
+  createdBy?: string;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
 export interface Reaction {
   id: string;
   messageId: string;
@@ -0,0 +1,140 @@
+// Real-time thread event types (WebSocket protocol)
+
+export interface RealtimeUser {
+  id: string;
+  name: string | null;
+  nick: string | null;
+  avatarUrl: string | null;
+}
+
+interface BaseThreadEvent {
+  threadId: string;
+  timestamp: string;
+}
+
+// Server -> client: resource changes broadcast by the REST routes
+export interface MessageCreatedEvent extends BaseThreadEvent {
+  type: 'message.created';
+  message: Record<string, any>;
+}
+
+export interface MessageUpdatedEvent extends BaseThreadEvent {
+  type: 'message.updated';
+  message: Record<string, any>;
+}
+
+export interface MessageDeletedEvent extends BaseThreadEvent {
+  type: 'message.deleted';
+  messageId: string;
+}
+
+export interface ReactionAddedEvent extends BaseThreadEvent {
+  type: 'reaction.added';
+  messageId: string;
+  emoji: string;
+  userId: string;
+}
+
+export interface ReactionRemovedEvent extends BaseThreadEvent {
+  type: 'reaction.removed';
+  messageId: string;
+  emoji: string;
+  userId: string;
+}
+
+export interface ThreadUpdatedEvent extends BaseThreadEvent {
+  type: 'thread.updated';
+  thread: Record<string, any>;
+}
+
+export interface ArtifactCreatedEvent extends BaseThreadEvent {
+  type: 'artifact.created';
+  artifact: Record<string, any>;
+}
+
+export interface ArtifactUpdatedEvent extends BaseThreadEvent {
+  type: 'artifact.updated';
+  artifact: Record<string, any>;
+}
+
+export interface ArtifactDeletedEvent extends BaseThreadEvent {
+  type: 'artifact.deleted';
+  artifactId: string;
+}
+
+export interface MemberAddedEvent extends BaseThreadEvent {
+  type: 'member.added';
+  member: Record<string, any>;
+}
+
+export interface MemberUpdatedEvent extends BaseThreadEvent {
+  type: 'member.updated';
+  member: Record<string, any>;
+}
+
+export interface MemberRemovedEvent extends BaseThreadEvent {
+  type: 'member.removed';
+  memberId: string;
+  userId: string | null;
+}
+
+// Server -> client: ephemeral events produced by connected clients
+export interface TypingEvent extends BaseThreadEvent {
+  type: 'typing';
+  user: RealtimeUser;
+  isTyping: boolean;
+}
+
+export interface PresenceEvent extends BaseThreadEvent {
+  type: 'presence.joined' | 'presence.left';
+  user: RealtimeUser;
+}
+
+export interface PresenceSyncEvent extends BaseThreadEvent {
+  type: 'presence.sync';
+  users: RealtimeUser[];
+}
+
+export interface PongEvent extends BaseThreadEvent {
+  type: 'pong';
+}
+
+export interface ErrorEvent extends BaseThreadEvent {
+  type: 'error';
+  detail: string;
+}
+
+// Events published by REST routes through the Durable Object
+export type ResourceEvent =
+  | MessageCreatedEvent
+  | MessageUpdatedEvent
+  | MessageDeletedEvent
+  | ReactionAddedEvent
+  | ReactionRemovedEvent
+  | ThreadUpdatedEvent
+  | ArtifactCreatedEvent
+  | ArtifactUpdatedEvent
+  | ArtifactDeletedEvent
+  | MemberAddedEvent
+  | MemberUpdatedEvent
+  | MemberRemovedEvent;
+
+export type ThreadEvent =
+  | ResourceEvent
+  | TypingEvent
+  | PresenceEvent
+  | PresenceSyncEvent
+  | PongEvent
+  | ErrorEvent;
+
+// Event payloads without the envelope fields added by createThreadEvent.
+// Distributive so each union member keeps its own fields.
+type WithoutEnvelope<E> = E extends ThreadEvent ? Omit<E, 'threadId' | 'timestamp'> : never;
+
+export type ThreadEventInput = WithoutEnvelope<ThreadEvent>;
+export type ResourceEventInput = WithoutEnvelope<ResourceEvent>;
+
+// Client -> server messages
+export type ClientMessage =
+  | { type: 'typing'; isTyping: boolean }
+  | { type: 'ping' };
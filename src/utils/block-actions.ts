@@ -0,0 +1,149 @@
+// Interactive block actions: locating the acted-on element, handler results and webhook signing
+
+import { z } from 'zod';
+import type { NavigationItem, UIBlock } from '../types/blocks';
+import { messageBlocksSchema, httpUrlSchema } from './block-schemas';
+import { toHex } from './files';
+
+// Element that can raise an action, and the block that contains it
+export interface ActionTarget {
+  blockIndex: number;
+  block: UIBlock & Record<string, any>;
+  element: Record<string, any>;
+}
+
+// Input blocks are left out: their values are sent with form submissions instead
+function interactiveElements(block: Record<string, any>): Record<string, any>[] {
+  switch (block.type) {
+    case 'actions':
+      return block.elements ?? [];
+    case 'section':
+      return block.accessory ? [block.accessory] : [];
+    case 'insight_card':
+      return block.actions ?? [];
+    case 'navigation_rail':
+      return flattenNavigationItems(block.items ?? []);
+    default:
+      return [];
+  }
+}
+
+function flattenNavigationItems(items: NavigationItem[]): Record<string, any>[] {
+  return items.flatMap(item => [item, ...flattenNavigationItems(item.children ?? [])]);
+}
+
+/**
+ * Find the element with the given action_id in a message's blocks. When a
+ * block_id is given only that block is searched, otherwise the first match wins.
+ */
+export function findActionTarget(blocks: unknown, actionId: string, blockId?: string): ActionTarget | null {
+  if (!Array.isArray(blocks)) {
+    return null;
+  }
+
+  for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+    const block = blocks[blockIndex];
+    if (!block || typeof block !== 'object') continue;
+    if (blockId !== undefined && block.block_id !== blockId) continue;
+
+    const element = interactiveElements(block).find(item => item?.action_id === actionId);
+    if (element) {
+      return { blockIndex, block, element };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A plain-language description of an interaction, used as the user turn when
+ * the AI provider handles it.
+ */
+export function describeAction(target: ActionTarget, actionData?: Record<string, any>): string {
+  const { element } = target;
+  const label = element.text?.text ?? element.label ?? element.action_id;
+  const parts = [`The user used the ${element.type ?? 'link'} "${label}" (action_id: ${element.action_id})`];
+
+  if (element.value) {
+    parts.push(`value: ${element.value}`);
+  }
+  if (actionData && Object.keys(actionData).length > 0) {
+    parts.push(`data: ${JSON.stringify(actionData)}`);
+  }
+
+  return `${parts.join(', ')}.`;
+}
+
+/**
+ * What a handler may do with an interaction. Webhook replies are untrusted,
+ * so every handler result goes through this schema before it is applied.
+ */
+export const actionHandlerResultSchema = z.object({
+  // Replace the blocks of the message the action came from
+  blocks: messageBlocksSchema.optional(),
+  // Post a new message in the thread
+  follow_up: z.object({
+    content: z.string().min(1).max(50000),
+    blocks: messageBlocksSchema.optional()
+  }).optional(),
+  // Shown to the acting user only, never stored
+  ephemeral_message: z.object({
+    text: z.string().min(1).max(3000),
+    blocks: messageBlocksSchema.optional()
+  }).optional(),
+  redirect_url: httpUrlSchema.optional()
+});
+
+export type ActionHandlerResult = z.infer<typeof actionHandlerResultSchema>;
+
+/**
+ * The response type reported to the client, by precedence: a redirect, then
+ * a message update, then an ephemeral message.
+ */
+export function getActionResponseType(result: ActionHandlerResult): 'redirect' | 'update' | 'ephemeral' | undefined {
+  if (result.redirect_url) return 'redirect';
+  if (result.blocks || result.follow_up) return 'update';
+  if (result.ephemeral_message) return 'ephemeral';
+  return undefined;
+}
+
+/**
+ * Webhook handlers from ACTION_WEBHOOKS, e.g. {"approval_": "https://hooks.example.com/approvals"}:
+ * action_ids starting with a key are sent to its URL. Longest prefix first.
+ * Invalid configuration is ignored.
+ */
+export function parseActionWebhooks(config: unknown): { prefix: string; url: string }[] {
+  try {
+    const parsed = typeof config === 'string' ? JSON.parse(config) : config;
+    if (!parsed || typeof parsed !== 'object') return [];
+
+    return Object.entries(parsed)
+      .filter((entry): entry is [string, string] =>
+        entry[0].length > 0 && typeof entry[1] === 'string' && httpUrlSchema.safeParse(entry[1]).success
+      )
+      .map(([prefix, url]) => ({ prefix, url }))
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  } catch {
+    return [];
+  }
+}
+
+export function findActionWebhook(actionId: string, config: unknown): string | null {
+  return parseActionWebhooks(config).find(webhook => actionId.startsWith(webhook.prefix))?.url ?? null;
+}
+
+/**
+ * Signature sent in the X-Action-Signature header: "sha256=<hex HMAC of timestamp.body>".
+ * Receivers should reject stale timestamps to prevent replays.
+ */
+export async function signActionPayload(body: string, timestamp: number, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+}
@@ -0,0 +1,439 @@
+// Zod schemas for UI blocks, matching src/types/blocks.ts and Slack Block Kit limits
+
+// The zod from @hono/zod-openapi, so the recursive navigation item and the block union can be named
+// components of the OpenAPI document instead of being inlined in every request body
+import { z } from '@hono/zod-openapi';
+import type {
+  ActionsBlock,
+  ButtonElement,
+  ConfirmationDialog,
+  ContextBlock,
+  DatePickerElement,
+  DividerBlock,
+  FileBlock,
+  HeaderBlock,
+  ImageBlock,
+  ImageElement,
+  InputBlock,
+  InsightCardBlock,
+  InsightPileBlock,
+  MultiStaticSelectElement,
+  NavigationItem,
+  NavigationRailBlock,
+  Option,
+  PlainTextInputElement,
+  RichTextBlock,
+  SectionBlock,
+  StaticSelectElement,
+  TimePickerElement,
+  UIBlockType
+} from '../types/blocks';
+
+// Slack allows 50 blocks in a message; artifacts are documents, so they get the modal limit
+export const MAX_MESSAGE_BLOCKS = 50;
+export const MAX_ARTIFACT_BLOCKS = 100;
+
+export const MAX_TEXT_LENGTH = 3000;
+const MAX_URL_LENGTH = 3000;
+
+// Text objects
+
+function plainText(max: number) {
+  return z.object({
+    type: z.literal('plain_text'),
+    text: z.string().min(1).max(max),
+    emoji: z.boolean().optional()
+  });
+}
+
+function markdownText(max: number) {
+  return z.object({
+    type: z.literal('mrkdwn'),
+    text: z.string().min(1).max(max),
+    verbatim: z.boolean().optional()
+  });
+}
+
+function textObject(max: number) {
+  return z.discriminatedUnion('type', [plainText(max), markdownText(max)]);
+}
+
+// Only web links: the frontend renders these as anchors and images
+export const httpUrlSchema = z.string()
+  .max(MAX_URL_LENGTH)
+  .url('Invalid URL format')
+  .refine(url => /^https?:\/\//i.test(url), 'URL must use http or https');
+
+const blockIdSchema = z.string().min(1).max(255);
+const actionIdSchema = z.string().min(1).max(255);
+
+// Composition objects
+
+const confirmSchema = z.object({
+  title: plainText(100),
+  text: textObject(300),
+  confirm: plainText(30),
+  deny: plainText(30),
+  style: z.enum(['primary', 'danger']).optional()
+}) satisfies z.ZodType<ConfirmationDialog>;
+
+const optionSchema = z.object({
+  text: textObject(75),
+  value: z.string().min(1).max(150),
+  description: plainText(75).optional(),
+  url: httpUrlSchema.optional()
+}) satisfies z.ZodType<Option>;
+
+const optionGroupSchema = z.object({
+  label: plainText(75),
+  options: z.array(optionSchema).min(1).max(100)
+});
+
+// Block elements
+
+const imageElementSchema = z.object({
+  type: z.literal('image'),
+  image_url: httpUrlSchema,
+  alt_text: z.string().min(1).max(2000)
+}) satisfies z.ZodType<ImageElement>;
+
+const buttonElementSchema = z.object({
+  type: z.literal('button'),
+  text: plainText(75),
+  action_id: actionIdSchema,
+  value: z.string().max(2000).optional(),
+  url: httpUrlSchema.optional(),
+  style: z.enum(['primary', 'danger', 'default']).optional(),
+  confirm: confirmSchema.optional()
+}) satisfies z.ZodType<ButtonElement>;
+
+// Selects take either options or option_groups, and initial options must be among them
+function refineSelectOptions(
+  select: { options?: Option[]; option_groups?: { options: Option[] }[]; initial_option?: Option; initial_options?: Option[] },
+  ctx: z.RefinementCtx
+) {
+  if (!select.options === !select.option_groups) {
+    ctx.addIssue({ code: 'custom', message: 'Exactly one of options or option_groups is required', path: ['options'] });
+    return;
+  }
+
+  const values = new Set(
+    (select.options ?? select.option_groups!.flatMap(group => group.options)).map(option => option.value)
+  );
+  if (select.initial_option && !values.has(select.initial_option.value)) {
+    ctx.addIssue({ code: 'custom', message: 'Initial option must be one of the options', path: ['initial_option'] });
+  }
+  select.initial_options?.forEach((option, index) => {
+    if (!values.has(option.value)) {
+      ctx.addIssue({ code: 'custom', message: 'Initial option must be one of the options', path: ['initial_options', index] });
+    }
+  });
+}
+
+const staticSelectElementSchema = z.object({
+  type: z.literal('static_select'),
+  placeholder: plainText(150),
+  action_id: actionIdSchema,
+  options: z.array(optionSchema).min(1).max(100).optional(),
+  option_groups: z.array(optionGroupSchema).min(1).max(100).optional(),
+  initial_option: optionSchema.optional(),
+  confirm: confirmSchema.optional()
+}).superRefine(refineSelectOptions) satisfies z.ZodType<StaticSelectElement>;
+
+const multiStaticSelectElementSchema = z.object({
+  type: z.literal('multi_static_select'),
+  placeholder: plainText(150),
+  action_id: actionIdSchema,
+  options: z.array(optionSchema).min(1).max(100).optional(),
+  option_groups: z.array(optionGroupSchema).min(1).max(100).optional(),
+  initial_options: z.array(optionSchema).max(100).optional(),
+  max_selected_items: z.number().int().min(1).optional(),
+  confirm: confirmSchema.optional()
+}).superRefine(refineSelectOptions) satisfies z.ZodType<MultiStaticSelectElement>;
+
+const datePickerElementSchema = z.object({
+  type: z.literal('datepicker'),
+  action_id: actionIdSchema,
+  placeholder: plainText(150).optional(),
+  initial_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be formatted YYYY-MM-DD').optional(),
+  confirm: confirmSchema.optional()
+}) satisfies z.ZodType<DatePickerElement>;
+
+const timePickerElementSchema = z.object({
+  type: z.literal('timepicker'),
+  action_id: actionIdSchema,
+  placeholder: plainText(150).optional(),
+  initial_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be formatted HH:mm').optional(),
+  confirm: confirmSchema.optional()
+}) satisfies z.ZodType<TimePickerElement>;
+
+const plainTextInputElementSchema = z.object({
+  type: z.literal('plain_text_input'),
+  action_id: actionIdSchema,
+  placeholder: plainText(150).optional(),
+  initial_value: z.string().max(MAX_TEXT_LENGTH).optional(),
+  multiline: z.boolean().optional(),
+  min_length: z.number().int().min(0).max(MAX_TEXT_LENGTH).optional(),
+  max_length: z.number().int().min(1).max(MAX_TEXT_LENGTH).optional()
+}).refine(input => input.min_length === undefined || input.max_length === undefined || input.min_length <= input.max_length, {
+  message: 'min_length must not exceed max_length',
+  path: ['min_length']
+}) satisfies z.ZodType<PlainTextInputElement>;
+
+const interactiveElementSchema = z.discriminatedUnion('type', [
+  buttonElementSchema,
+  staticSelectElementSchema,
+  multiStaticSelectElementSchema,
+  datePickerElementSchema,
+  timePickerElementSchema
+]);
+
+const inputElementSchema = z.discriminatedUnion('type', [
+  plainTextInputElementSchema,
+  staticSelectElementSchema,
+  multiStaticSelectElementSchema,
+  datePickerElementSchema,
+  timePickerElementSchema
+]);
+
+// Rich text elements
+
+const richTextStyleSchema = z.object({
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  strike: z.boolean().optional(),
+  code: z.boolean().optional()
+});
+
+const richTextInlineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string().min(1).max(MAX_TEXT_LENGTH),
+    style: richTextStyleSchema.optional()
+  }),
+  z.object({
+    type: z.literal('link'),
+    url: httpUrlSchema,
+    text: z.string().max(MAX_TEXT_LENGTH).optional(),
+    style: richTextStyleSchema.optional()
+  }),
+  z.object({
+    type: z.literal('emoji'),
+    name: z.string().min(1).max(100)
+  })
+]);
+
+const richTextSectionSchema = z.object({
+  type: z.literal('rich_text_section'),
+  elements: z.array(richTextInlineSchema).min(1)
+});
+
+const richTextElementSchema = z.discriminatedUnion('type', [
+  richTextSectionSchema,
+  z.object({
+    type: z.literal('rich_text_list'),
+    style: z.enum(['bullet', 'ordered']),
+    elements: z.array(richTextSectionSchema).min(1),
+    indent: z.number().int().min(0).max(8).optional()
+  }),
+  z.object({
+    type: z.literal('rich_text_quote'),
+    elements: z.array(richTextInlineSchema).min(1)
+  }),
+  z.object({
+    type: z.literal('rich_text_preformatted'),
+    elements: z.array(richTextInlineSchema).min(1)
+  })
+]);
+
+// Experience block supporting types
+
+const kpiSchema = z.object({
+  label: z.string().min(1).max(75),
+  value: z.string().min(1).max(75),
+  change: z.string().max(75).optional(),
+  trend: z.enum(['up', 'down', 'stable']).optional(),
+  format: z.enum(['currency', 'percentage', 'number', 'text']).optional()
+});
+
+const tagsSchema = z.array(z.string().min(1).max(50)).max(20);
+
+// Navigation links may also be app-relative paths
+const navigationUrlSchema = z.string()
+  .max(MAX_URL_LENGTH)
+  .refine(url => /^\/(?!\/)/.test(url) || /^https?:\/\/[^\s]+$/i.test(url), 'URL must use http or https, or be an absolute path');
+
+const navigationItemSchema: z.ZodType<NavigationItem> = z.lazy(() => z.object({
+  id: z.string().min(1).max(255),
+  label: z.string().min(1).max(75),
+  url: navigationUrlSchema.optional(),
+  action_id: actionIdSchema.optional(),
+  icon: z.string().max(100).optional(),
+  children: z.array(navigationItemSchema).max(50).optional()
+})).openapi('NavigationItem');
+
+// Blocks
+
+const blockBase = {
+  block_id: blockIdSchema.optional()
+};
+
+export const sectionBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('section'),
+  text: textObject(MAX_TEXT_LENGTH).optional(),
+  fields: z.array(textObject(2000)).min(1).max(10).optional(),
+  accessory: z.discriminatedUnion('type', [imageElementSchema, ...interactiveElementSchema.options]).optional()
+}).refine(block => block.text || block.fields, {
+  message: 'A section needs text or fields',
+  path: ['text']
+}) satisfies z.ZodType<SectionBlock>;
+
+export const headerBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('header'),
+  text: plainText(150)
+}) satisfies z.ZodType<HeaderBlock>;
+
+export const dividerBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('divider')
+}) satisfies z.ZodType<DividerBlock>;
+
+export const imageBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('image'),
+  image_url: httpUrlSchema,
+  alt_text: z.string().min(1).max(2000),
+  title: plainText(2000).optional()
+}) satisfies z.ZodType<ImageBlock>;
+
+export const contextBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('context'),
+  elements: z.array(z.discriminatedUnion('type', [
+    plainText(MAX_TEXT_LENGTH),
+    markdownText(MAX_TEXT_LENGTH),
+    imageElementSchema
+  ])).min(1).max(10)
+}) satisfies z.ZodType<ContextBlock>;
+
+export const actionsBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('actions'),
+  elements: z.array(interactiveElementSchema).min(1).max(25)
+}).superRefine((block, ctx) => {
+  // Actions are dispatched by block_id + action_id, so action IDs must be unique within the block
+  const seen = new Set<string>();
+  block.elements.forEach((element, index) => {
+    if (seen.has(element.action_id)) {
+      ctx.addIssue({ code: 'custom', message: 'Duplicate action_id in this block', path: ['elements', index, 'action_id'] });
+    }
+    seen.add(element.action_id);
+  });
+}) satisfies z.ZodType<ActionsBlock>;
+
+export const inputBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('input'),
+  label: plainText(2000),
+  element: inputElementSchema,
+  hint: plainText(2000).optional(),
+  optional: z.boolean().optional()
+}) satisfies z.ZodType<InputBlock>;
+
+export const fileBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('file'),
+  file_id: z.string().min(1).max(255),
+  title: z.string().min(1).max(255),
+  size: z.number().int().min(0).optional(),
+  mime_type: z.string().max(100).optional(),
+  metadata: z.record(z.string(), z.any()).optional()
+}) satisfies z.ZodType<FileBlock>;
+
+export const richTextBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('rich_text'),
+  elements: z.array(richTextElementSchema).min(1)
+}) satisfies z.ZodType<RichTextBlock>;
+
+export const insightCardBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('insight_card'),
+  insight_id: z.string().min(1).max(255),
+  title: z.string().min(1).max(150),
+  summary: z.string().max(MAX_TEXT_LENGTH).optional(),
+  kpis: z.array(kpiSchema).max(10).optional(),
+  actions: z.array(buttonElementSchema).max(5).optional(),
+  tags: tagsSchema.optional()
+}) satisfies z.ZodType<InsightCardBlock>;
+
+export const insightPileBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('insight_pile'),
+  insights: z.array(z.object({
+    id: z.string().min(1).max(255),
+    title: z.string().min(1).max(150),
+    type: z.string().min(1).max(50),
+    created_at: z.string().datetime({ offset: true }),
+    tags: tagsSchema.optional(),
+    kpis: z.array(kpiSchema).max(10).optional()
+  })).max(50),
+  filters: z.array(z.object({
+    id: z.string().min(1).max(255),
+    label: z.string().min(1).max(75),
+    type: z.enum(['select', 'date', 'text']),
+    options: z.array(optionSchema).max(100).optional()
+  })).max(10).optional(),
+  sort_options: z.array(z.object({
+    id: z.string().min(1).max(255),
+    label: z.string().min(1).max(75),
+    direction: z.enum(['asc', 'desc'])
+  })).max(10).optional()
+}) satisfies z.ZodType<InsightPileBlock>;
+
+export const navigationRailBlockSchema = z.object({
+  ...blockBase,
+  type: z.literal('navigation_rail'),
+  items: z.array(navigationItemSchema).min(1).max(50),
+  collapsed: z.boolean().optional()
+}) satisfies z.ZodType<NavigationRailBlock>;
+
+export const uiBlockSchema = z.discriminatedUnion('type', [
+  sectionBlockSchema,
+  headerBlockSchema,
+  dividerBlockSchema,
+  imageBlockSchema,
+  contextBlockSchema,
+  actionsBlockSchema,
+  inputBlockSchema,
+  fileBlockSchema,
+  richTextBlockSchema,
+  insightCardBlockSchema,
+  insightPileBlockSchema,
+  navigationRailBlockSchema
+]).openapi('UIBlock') satisfies z.ZodType<UIBlockType>;
+
+/**
+ * A list of blocks with unique block_ids. Issues carry the path of the
+ * offending field, e.g. ["blocks", 3, "elements", 1, "url"].
+ */
+export function createBlocksSchema(maxBlocks: number) {
+  return z.array(uiBlockSchema).max(maxBlocks).superRefine((blocks, ctx) => {
+    const seen = new Map<string, number>();
+    blocks.forEach((block, index) => {
+      if (!block.block_id) return;
+
+      const first = seen.get(block.block_id);
+      if (first !== undefined) {
+        ctx.addIssue({ code: 'custom', message: `Duplicate block_id, already used by block ${first}`, path: [index, 'block_id'] });
+      } else {
+        seen.set(block.block_id, index);
+      }
+    });
+  });
+}
+
+export const messageBlocksSchema = createBlocksSchema(MAX_MESSAGE_BLOCKS);
+export const artifactBlocksSchema = createBlocksSchema(MAX_ARTIFACT_BLOCKS);
@@ -0,0 +1,138 @@
+// UI blocks -> HTML rendering for exports: static, escaped markup without scripts or form controls
+
+import { markdownToBlocks, parseMrkdwnInline, type InlineSegment } from './markdown-blocks';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) URLs become links or images; anything else is dropped
+function safeUrl(url: unknown): string | null {
+  return typeof url === 'string' && /^https?:\/\//i.test(url) ? escapeHtml(url) : null;
+}
+
+function segmentsToHtml(segments: InlineSegment[]): string {
+  return segments.map(({ text, style, url }) => {
+    let html = escapeHtml(text).replace(/\n/g, '<br>');
+    if (style?.code) html = `<code>${html}</code>`;
+    if (style?.bold) html = `<strong>${html}</strong>`;
+    if (style?.italic) html = `<em>${html}</em>`;
+    if (style?.strike) html = `<s>${html}</s>`;
+    const href = safeUrl(url);
+    return href ? `<a href="${href}" rel="noopener noreferrer">${html}</a>` : html;
+  }).join('');
+}
+
+function textObjectToHtml(object: any): string {
+  if (!object?.text) return '';
+  return object.type === 'mrkdwn'
+    ? segmentsToHtml(parseMrkdwnInline(object.text))
+    : escapeHtml(object.text).replace(/\n/g, '<br>');
+}
+
+function richTextInlineToHtml(elements: any[]): string {
+  return segmentsToHtml((elements ?? []).map((element): InlineSegment => {
+    if (element.type === 'link') return { text: element.text ?? element.url, url: element.url, style: element.style };
+    if (element.type === 'emoji') return { text: `:${element.name}:` };
+    return { text: element.text ?? '', style: element.style };
+  }));
+}
+
+function richTextToHtml(elements: any[]): string {
+  return (elements ?? []).map(element => {
+    switch (element.type) {
+      case 'rich_text_section':
+        return `<p>${richTextInlineToHtml(element.elements)}</p>`;
+      case 'rich_text_list': {
+        const tag = element.style === 'ordered' ? 'ol' : 'ul';
+        const indent = element.indent ? ` style="margin-left: ${Number(element.indent) * 1.5}em"` : '';
+        const items = (element.elements ?? []).map((item: any) => `<li>${richTextInlineToHtml(item.elements)}</li>`).join('');
+        return `<${tag}${indent}>${items}</${tag}>`;
+      }
+      case 'rich_text_quote':
+        return `<blockquote>${richTextInlineToHtml(element.elements)}</blockquote>`;
+      case 'rich_text_preformatted': {
+        const text = (element.elements ?? []).map((item: any) => item.text ?? item.url ?? '').join('');
+        return `<pre><code>${escapeHtml(text)}</code></pre>`;
+      }
+      default:
+        return '';
+    }
+  }).join('');
+}
+
+function elementLabelToHtml(element: any): string {
+  const label = escapeHtml(element?.text?.text ?? element?.label ?? '');
+  if (!label) return '';
+  const href = safeUrl(element.url);
+  return href
+    ? `<a class="button" href="${href}" rel="noopener noreferrer">${label}</a>`
+    : `<span class="button">${label}</span>`;
+}
+
+function blockToHtml(block: any): string {
+  switch (block?.type) {
+    case 'header':
+      return `<h2>${textObjectToHtml(block.text)}</h2>`;
+    case 'section': {
+      const text = block.text ? `<p>${textObjectToHtml(block.text)}</p>` : '';
+      const fields = (block.fields ?? []).map((field: any) => `<p>${textObjectToHtml(field)}</p>`).join('');
+      return text + (fields ? `<div class="fields">${fields}</div>` : '');
+    }
+    case 'divider':
+      return '<hr>';
+    case 'image': {
+      const src = safeUrl(block.image_url);
+      if (!src) return '';
+      const title = block.title ? `<figcaption>${textObjectToHtml(block.title)}</figcaption>` : '';
+      return `<figure><img src="${src}" alt="${escapeHtml(block.alt_text ?? '')}">${title}</figure>`;
+    }
+    case 'context':
+      return `<p class="context">${(block.elements ?? [])
+        .map((element: any) => element.type === 'image' ? escapeHtml(element.alt_text ?? '') : textObjectToHtml(element))
+        .filter(Boolean)
+        .join(' ')}</p>`;
+    case 'actions':
+      return `<p class="actions">${(block.elements ?? []).map(elementLabelToHtml).filter(Boolean).join(' ')}</p>`;
+    case 'input':
+      return `<p class="input"><label>${textObjectToHtml(block.label)}</label></p>`;
+    case 'file':
+      return block.title ? `<p class="file">${escapeHtml(block.title)}</p>` : '';
+    case 'rich_text':
+      return richTextToHtml(block.elements);
+    case 'insight_card': {
+      const kpis = (block.kpis ?? []).map((kpi: any) =>
+        `<li>${escapeHtml(kpi.label)}: <strong>${escapeHtml(String(kpi.value))}</strong>${kpi.change ? ` (${escapeHtml(kpi.change)})` : ''}</li>`
+      ).join('');
+      return `<div class="card"><h3>${escapeHtml(block.title ?? '')}</h3>`
+        + (block.summary ? `<p>${escapeHtml(block.summary)}</p>` : '')
+        + (kpis ? `<ul>${kpis}</ul>` : '')
+        + '</div>';
+    }
+    case 'insight_pile':
+      return `<ul class="insights">${(block.insights ?? []).map((insight: any) => `<li>${escapeHtml(insight.title ?? '')}</li>`).join('')}</ul>`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Static HTML for blocks. Interactive elements are reduced to their labels
+ * (link buttons stay links) and only http(s) URLs are kept.
+ */
+export function blocksToHtml(blocks: unknown): string {
+  if (!Array.isArray(blocks)) return '';
+  return blocks.map(blockToHtml).filter(Boolean).join('\n');
+}
+
+// Markdown content as HTML, through its blocks; content that doesn't convert is kept preformatted
+export function markdownToHtml(markdown: string): string {
+  if (!markdown.trim()) return '';
+  const blocks = markdownToBlocks(markdown);
+  return blocks.length > 0 ? blocksToHtml(blocks) : `<pre class="content">${escapeHtml(markdown)}</pre>`;
+}
@@ -0,0 +1,69 @@
+// Circuit breaking for calls to AI providers
+
+export interface CircuitBreakerRule {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number;       // How long it stays open before a trial request is let through
+}
+
+// closed: requests go through. open: requests are refused until the cooldown
+// has passed. half_open: one trial request is out; its result closes or reopens the circuit.
+export interface CircuitState {
+  status: 'closed' | 'open' | 'half_open';
+  failures: number;
+  openedAt: number | null;
+  trialStartedAt: number | null;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_RULE: CircuitBreakerRule = {
+  failureThreshold: 5,
+  cooldownMs: 30_000
+};
+
+export function createCircuitState(): CircuitState {
+  return { status: 'closed', failures: 0, openedAt: null, trialStartedAt: null };
+}
+
+/**
+ * Whether a request may go to the provider now. After the cooldown the first
+ * caller gets the trial request; a trial that never reports back (e.g. its
+ * isolate was evicted) is given up after another cooldown.
+ */
+export function allowRequest(
+  state: CircuitState | null,
+  rule: CircuitBreakerRule,
+  now: number
+): { state: CircuitState; allowed: boolean } {
+  const current = state ?? createCircuitState();
+
+  if (current.status === 'closed') {
+    return { state: current, allowed: true };
+  }
+
+  const waitingSince = current.status === 'open' ? current.openedAt : current.trialStartedAt;
+  if (waitingSince !== null && now - waitingSince >= rule.cooldownMs) {
+    return { state: { ...current, status: 'half_open', trialStartedAt: now }, allowed: true };
+  }
+
+  return { state: current, allowed: false };
+}
+
+export function recordResult(
+  state: CircuitState | null,
+  rule: CircuitBreakerRule,
+  success: boolean,
+  now: number
+): CircuitState {
+  if (success) {
+    return createCircuitState();
+  }
+
+  const current = state ?? createCircuitState();
+  const failures = current.failures + 1;
+
+  // A failed trial reopens the circuit straight away
+  if (current.status === 'half_open' || failures >= rule.failureThreshold) {
+    return { status: 'open', failures, openedAt: now, trialStartedAt: null };
+  }
+
+  return { ...current, failures };
+}
@@ -0,0 +1,103 @@
+// Helpers for assembling a streamed chat completion into a full response
+
+import type {
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ChatCompletionUsage,
+  ChatMessage,
+  FinishReason,
+  ToolCall
+} from '../types/completions';
+
+export interface StreamedCompletion {
+  id: string;
+  model: string;
+  created: number;
+  content: string;
+  toolCalls: ToolCall[]; // Assembled from the `delta.tool_calls` pieces, by index
+  finishReason: FinishReason;
+  usage?: ChatCompletionUsage; // Reported by providers that send a final usage chunk
+}
+
+export function createStreamedCompletion(model: string): StreamedCompletion {
+  return {
+    id: '',
+    model,
+    created: Math.floor(Date.now() / 1000),
+    content: '',
+    toolCalls: [],
+    finishReason: null
+  };
+}
+
+/**
+ * Fold one streamed chunk into the accumulated completion.
+ */
+export function applyStreamChunk(streamed: StreamedCompletion, chunk: ChatCompletionStreamChunk): void {
+  streamed.id ||= chunk.id;
+  streamed.model = chunk.model || streamed.model;
+  streamed.created = chunk.created || streamed.created;
+
+  const choice = chunk.choices?.[0];
+  if (choice?.delta?.content) {
+    streamed.content += choice.delta.content;
+  }
+  for (const piece of choice?.delta?.tool_calls ?? []) {
+    const call = streamed.toolCalls[piece.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+    call.id ||= piece.id ?? '';
+    call.function.name += piece.function?.name ?? '';
+    call.function.arguments += piece.function?.arguments ?? '';
+  }
+  if (choice?.finish_reason) {
+    streamed.finishReason = choice.finish_reason;
+  }
+  if (chunk.usage) {
+    streamed.usage = chunk.usage;
+  }
+}
+
+// Rough estimation: ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Token usage for a streamed completion: the provider's numbers when it sent
+ * them, otherwise an estimate from the prompt and the content received so far.
+ */
+export function getStreamUsage(streamed: StreamedCompletion, messages: ChatMessage[]): ChatCompletionUsage {
+  const usage = streamed.usage ?? {
+    prompt_tokens: estimateTokens(messages.map(m => m.content ?? '').join(' ')),
+    completion_tokens: estimateTokens(
+      streamed.content + streamed.toolCalls.map(call => call.function.name + call.function.arguments).join(' ')
+    ),
+    total_tokens: 0
+  };
+
+  return {
+    ...usage,
+    total_tokens: usage.prompt_tokens + usage.completion_tokens
+  };
+}
+
+export function toCompletionResponse(streamed: StreamedCompletion, messages: ChatMessage[]): ChatCompletionResponse {
+  // Indexes may be skipped by a misbehaving provider
+  const toolCalls = streamed.toolCalls.filter(Boolean);
+
+  return {
+    id: streamed.id,
+    object: 'chat.completion',
+    created: streamed.created,
+    model: streamed.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: toolCalls.length > 0 && !streamed.content ? null : streamed.content,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+      },
+      finish_reason: streamed.finishReason
+    }],
+    usage: getStreamUsage(streamed, messages)
+  };
+}
@@ -0,0 +1,159 @@
+// Context windows: fit a thread's history into the token budget of the model it is sent to
+
+import {
+  ANTHROPIC_MODELS,
+  DEFAULT_MODELS,
+  WORKERS_AI_MODELS,
+  type AIModel,
+  type ChatMessage,
+  type ToolCall
+} from '../types/completions';
+import { estimateTokens } from './completion-stream';
+
+// Context size assumed for models we know nothing about
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+// Reply size reserved when the request doesn't set max_tokens
+export const DEFAULT_REPLY_TOKENS = 1000;
+
+// Role and separators the chat format adds to every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Token counts are estimates, so part of the window is left free
+const ESTIMATE_MARGIN = 0.9;
+
+export interface ContextWindowInput {
+  // Kept first, whatever the budget
+  system: ChatMessage[];
+  // Oldest first; the most recent messages that fit are kept
+  history: ChatMessage[];
+  // New messages not stored yet, kept last whatever the budget
+  pending?: ChatMessage[];
+  // Summary of earlier history, sent in place of the messages left out
+  summary?: string | null;
+  budgetTokens: number;
+}
+
+export interface ContextWindow {
+  messages: ChatMessage[];
+  // History messages sent and left out
+  includedCount: number;
+  droppedCount: number;
+  summaryIncluded: boolean;
+  estimatedTokens: number;
+}
+
+// Tool calls and results of an assistant message, kept in its metadata
+export interface ToolMetadata {
+  toolCalls?: ToolCall[];
+  // Results of the previous message's calls, which this message answered
+  toolResults?: Array<{ toolCallId: string; content: string }>;
+}
+
+/**
+ * Helper function to convert database messages to chat completion format.
+ * An assistant message that answered tool results is preceded by them as
+ * `tool` messages, so calls and results come back in the order they were made.
+ */
+export function toChatMessages(messages: any[]): ChatMessage[] {
+  return messages.flatMap(msg => {
+    const { toolCalls, toolResults } = (msg.metadata ?? {}) as ToolMetadata;
+    const results: ChatMessage[] = (toolResults ?? []).map(result => ({
+      role: 'tool',
+      content: result.content,
+      tool_call_id: result.toolCallId
+    }));
+
+    return [...results, {
+      role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
+      content: toolCalls?.length && !msg.content ? null : msg.content,
+      ...(toolCalls?.length && { tool_calls: toolCalls }),
+      // Only add name if user exists and sanitize it for OpenAI compatibility
+      ...(msg.user?.name && {
+        name: sanitizeNameForOpenAI(msg.user.name)
+      })
+    }];
+  });
+}
+
+// Helper function to sanitize name for OpenAI API compatibility
+// OpenAI requires name field to match pattern: ^[^\s<|\\/>]+$
+// (no whitespace, no < | \ / > characters)
+function sanitizeNameForOpenAI(name: string): string {
+  return name
+    .replace(/[\s<|\\/>]+/g, '_')  // Replace invalid characters with underscore
+    .replace(/^_+|_+$/g, '')      // Remove leading/trailing underscores
+    .substring(0, 64) || 'user';   // Limit length and fallback to 'user' if empty
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  const calls = message.tool_calls?.map(call => call.function.name + call.function.arguments).join(' ') ?? '';
+  return estimateTokens((message.content ?? '') + calls) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function getContextTokens(
+  model: string,
+  models: AIModel[] = [...DEFAULT_MODELS, ...ANTHROPIC_MODELS, ...WORKERS_AI_MODELS]
+): number {
+  return models.find(candidate => candidate.id === model)?.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+}
+
+/**
+ * Tokens available for the prompt: the model's context window, or the
+ * configured limit when that is smaller, less the reply and a safety margin.
+ */
+export function getContextBudget(model: string, replyTokens: number, limit?: string | number): number {
+  const configured = Number(limit);
+  const window = Number.isFinite(configured) && configured > 0
+    ? Math.min(configured, getContextTokens(model))
+    : getContextTokens(model);
+  return Math.max(Math.floor(window * ESTIMATE_MARGIN) - replyTokens, 0);
+}
+
+/**
+ * Pick the messages to send: system and pending messages always, then the
+ * most recent history that fits the budget. When history is left out and a
+ * summary is available, the summary stands in for it, making room by
+ * dropping the oldest kept messages if it has to. The latest history message
+ * is kept even when it alone is over budget and nothing is pending.
+ */
+export function buildContextWindow(input: ContextWindowInput): ContextWindow {
+  const pending = input.pending ?? [];
+  const sum = (messages: ChatMessage[]) => messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+  let used = sum(input.system) + sum(pending);
+  const kept: ChatMessage[] = [];
+
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens(input.history[i]);
+    const required = kept.length === 0 && pending.length === 0;
+    if (used + cost > input.budgetTokens && !required) break;
+    used += cost;
+    kept.unshift(input.history[i]);
+  }
+
+  let summaryMessage: ChatMessage | null = null;
+  if (kept.length < input.history.length && input.summary) {
+    const candidate: ChatMessage = { role: 'system', content: `Summary of the earlier conversation:\n\n${input.summary}` };
+    const cost = estimateMessageTokens(candidate);
+
+    while (kept.length > 1 && used + cost > input.budgetTokens) {
+      used -= estimateMessageTokens(kept.shift()!);
+    }
+    if (used + cost <= input.budgetTokens) {
+      used += cost;
+      summaryMessage = candidate;
+    }
+  }
+
+  // Tool results can't be sent without the assistant message that made the calls
+  while (kept[0]?.role === 'tool') {
+    used -= estimateMessageTokens(kept.shift()!);
+  }
+
+  return {
+    messages: [...input.system, ...(summaryMessage ? [summaryMessage] : []), ...kept, ...pending],
+    includedCount: kept.length,
+    droppedCount: input.history.length - kept.length,
+    summaryIncluded: summaryMessage !== null,
+    estimatedTokens: used
+  };
+}
@@ -0,0 +1,187 @@
+// Structural diff helpers for artifact versions
+
+export interface TextDiffHunk {
+  type: 'equal' | 'insert' | 'delete';
+  lines: string[];
+}
+
+export interface TextDiff {
+  hunks: TextDiffHunk[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface BlockDiff {
+  added: { key: string; index: number; block: any }[];
+  removed: { key: string; index: number; block: any }[];
+  modified: { key: string; fromIndex: number; toIndex: number; before: any; after: any }[];
+  moved: { key: string; fromIndex: number; toIndex: number }[];
+}
+
+export interface VersionSnapshot {
+  version: number;
+  title: string;
+  description?: string | null;
+  content: string;
+  blocks?: any;
+  metadata?: any;
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  fields: Record<string, { from: any; to: any }>;
+  content: TextDiff;
+  blocks: BlockDiff;
+}
+
+// Upper bound on the LCS table size; larger inputs fall back to a replace hunk
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-based diff of two texts using a longest-common-subsequence table.
+ * Common leading and trailing lines are trimmed first to keep the table small.
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: { type: TextDiffHunk['type']; line: string }[] = [];
+  a.slice(0, start).forEach(line => ops.push({ type: 'equal', line }));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach(line => ops.push({ type: 'delete', line }));
+    midB.forEach(line => ops.push({ type: 'insert', line }));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', line: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ type: 'delete', line: midA[i++] });
+      } else {
+        ops.push({ type: 'insert', line: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'delete', line: midA[i++] });
+    while (j < midB.length) ops.push({ type: 'insert', line: midB[j++] });
+  }
+
+  a.slice(endA).forEach(line => ops.push({ type: 'equal', line }));
+
+  // Group consecutive operations of the same type into hunks
+  const hunks: TextDiffHunk[] = [];
+  let insertions = 0;
+  let deletions = 0;
+  for (const op of ops) {
+    if (op.type === 'insert') insertions++;
+    if (op.type === 'delete') deletions++;
+
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === op.type) {
+      last.lines.push(op.line);
+    } else {
+      hunks.push({ type: op.type, lines: [op.line] });
+    }
+  }
+
+  return { hunks, insertions, deletions };
+}
+
+/**
+ * Block-level diff. Blocks are matched by `block_id` when present and by
+ * position otherwise, then compared structurally.
+ */
+export function diffBlocks(before: any[] = [], after: any[] = []): BlockDiff {
+  const keyed = (blocks: any[]) => {
+    const map = new Map<string, { index: number; block: any }>();
+    blocks.forEach((block, index) => {
+      const key = typeof block?.block_id === 'string' ? block.block_id : `#${index}`;
+      map.set(key, { index, block });
+    });
+    return map;
+  };
+
+  const from = keyed(before);
+  const to = keyed(after);
+  const result: BlockDiff = { added: [], removed: [], modified: [], moved: [] };
+
+  for (const [key, prev] of from) {
+    const next = to.get(key);
+    if (!next) {
+      result.removed.push({ key, index: prev.index, block: prev.block });
+      continue;
+    }
+
+    if (stableStringify(prev.block) !== stableStringify(next.block)) {
+      result.modified.push({ key, fromIndex: prev.index, toIndex: next.index, before: prev.block, after: next.block });
+    } else if (prev.index !== next.index) {
+      result.moved.push({ key, fromIndex: prev.index, toIndex: next.index });
+    }
+  }
+
+  for (const [key, next] of to) {
+    if (!from.has(key)) {
+      result.added.push({ key, index: next.index, block: next.block });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Diff two artifact version snapshots: scalar fields, text content and blocks.
+ */
+export function diffVersions(from: VersionSnapshot, to: VersionSnapshot): VersionDiff {
+  const fields: VersionDiff['fields'] = {};
+  for (const field of ['title', 'description', 'metadata'] as const) {
+    if (stableStringify(from[field] ?? null) !== stableStringify(to[field] ?? null)) {
+      fields[field] = { from: from[field] ?? null, to: to[field] ?? null };
+    }
+  }
+
+  return {
+    from: from.version,
+    to: to.version,
+    fields,
+    content: diffText(from.content, to.content),
+    blocks: diffBlocks(Array.isArray(from.blocks) ? from.blocks : [], Array.isArray(to.blocks) ? to.blocks : [])
+  };
+}
+
+// JSON serialization with sorted object keys so equal structures compare equal
+export function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
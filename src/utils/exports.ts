@@ -0,0 +1,341 @@
+// Thread and artifact exports: the versioned JSON document and its Markdown, HTML and PDF renderings
+
+import { blocksToHtml, escapeHtml, markdownToHtml } from './blocks-html';
+import { blocksToMarkdown, blocksToPlainText, markdownToBlocks } from './markdown-blocks';
+import { renderPdf, type PdfLine } from './pdf';
+
+// Bump when the JSON document changes incompatibly; importers check it
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'md' | 'html' | 'json' | 'pdf';
+
+export interface ExportAuthor {
+  name: string | null;
+  nick: string | null;
+  email: string;
+}
+
+export interface ExportReaction {
+  emoji: string;
+  count: number;
+  users: string[];
+}
+
+export interface ExportAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+}
+
+export interface ExportMessage {
+  id: string;
+  role: string;
+  author: ExportAuthor | null;
+  content: string;
+  blocks: unknown[] | null;
+  metadata: unknown;
+  createdAt: string;
+  editedAt: string | null;
+  reactions: ExportReaction[];
+  attachments: ExportAttachment[];
+}
+
+export interface ExportArtifact {
+  id: string;
+  type: string;
+  title: string;
+  description: string | null;
+  content: string;
+  blocks: unknown[] | null;
+  version: number;
+  metadata: unknown;
+  createdAt: string;
+  updatedAt: string;
+  author: ExportAuthor | null;
+}
+
+export interface ThreadExport {
+  schema: 'thread-export';
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  thread: {
+    id: string;
+    title: string | null;
+    status: string;
+    metadata: unknown;
+    createdAt: string;
+    updatedAt: string;
+    author: ExportAuthor | null;
+  };
+  messages: ExportMessage[];
+  artifacts: ExportArtifact[];
+}
+
+export interface ArtifactExport {
+  schema: 'artifact-export';
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  thread: { id: string; title: string | null };
+  artifact: ExportArtifact;
+}
+
+export interface RenderedExport {
+  body: string | Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+const ROLE_NAMES: Record<string, string> = {
+  ASSISTANT: 'Assistant',
+  SYSTEM: 'System',
+  USER: 'Unknown user'
+};
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1d1c1d; line-height: 1.5; }
+.meta, .context, time, .reactions, .attachments { color: #616061; font-size: 0.875rem; }
+.message, .artifact { border-top: 1px solid #e8e8e8; padding: 1rem 0; }
+.message header { margin-bottom: 0.5rem; }
+pre { background: #f8f8f8; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+blockquote { border-left: 4px solid #ddd; margin: 0; padding-left: 1rem; color: #454245; }
+img { max-width: 100%; }
+.button { display: inline-block; border: 1px solid #ccc; border-radius: 4px; padding: 0.125rem 0.5rem; }
+.card { border: 1px solid #e8e8e8; border-radius: 8px; padding: 0.5rem 1rem; }
+`.trim();
+
+export function toIsoString(date: Date | string | null | undefined): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+// Reactions grouped by emoji, in the order each emoji was first used
+export function summarizeReactions(reactions: { emoji: string; user?: Partial<ExportAuthor> | null }[]): ExportReaction[] {
+  const byEmoji = new Map<string, ExportReaction>();
+  for (const reaction of reactions) {
+    const summary = byEmoji.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, users: [] };
+    summary.count++;
+    const name = reaction.user && (reaction.user.name || reaction.user.nick || reaction.user.email);
+    if (name) summary.users.push(name);
+    byEmoji.set(reaction.emoji, summary);
+  }
+  return [...byEmoji.values()];
+}
+
+export function authorName(author: ExportAuthor | null, role?: string): string {
+  return author?.name || author?.nick || author?.email || ROLE_NAMES[role ?? 'USER'] || 'Unknown user';
+}
+
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function exportFilename(title: string | null, fallback: string, format: ExportFormat): string {
+  const slug = (title ?? '')
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+  return `${slug || fallback}.${format}`;
+}
+
+function reactionsLine(reactions: ExportReaction[]): string {
+  return reactions.map(reaction => `${reaction.emoji} ${reaction.count}`).join(' · ');
+}
+
+function attachmentsLine(attachments: ExportAttachment[]): string {
+  return attachments.map(file => `${file.name} (${formatSize(file.size)})`).join(', ');
+}
+
+function messageHeading(message: ExportMessage): string {
+  return `${authorName(message.author, message.role)} · ${formatTimestamp(message.createdAt)}${message.editedAt ? ' (edited)' : ''}`;
+}
+
+// Content is the text fallback of the blocks; block-only content is rendered from the blocks
+function itemMarkdown(item: { content: string; blocks: unknown[] | null }): string {
+  return item.content.trim() || blocksToMarkdown(item.blocks);
+}
+
+function itemHtml(item: { content: string; blocks: unknown[] | null }): string {
+  return (item.blocks?.length ? blocksToHtml(item.blocks) : '') || markdownToHtml(item.content);
+}
+
+function itemPlainText(item: { content: string; blocks: unknown[] | null }): string {
+  return blocksToPlainText(item.blocks?.length ? item.blocks : markdownToBlocks(item.content)) || item.content.trim();
+}
+
+function artifactSubtitle(artifact: ExportArtifact): string {
+  return `${artifact.type} · version ${artifact.version} · updated ${formatTimestamp(artifact.updatedAt)}`;
+}
+
+function artifactToMarkdown(artifact: ExportArtifact, heading: string): string {
+  return [
+    `${heading} ${artifact.title}`,
+    `_${artifactSubtitle(artifact)}_`,
+    artifact.description,
+    itemMarkdown(artifact)
+  ].filter(Boolean).join('\n\n');
+}
+
+function artifactToHtml(artifact: ExportArtifact, heading: 'h1' | 'h2'): string {
+  return [
+    `<section class="artifact">`,
+    `<${heading}>${escapeHtml(artifact.title)}</${heading}>`,
+    `<p class="meta">${escapeHtml(artifactSubtitle(artifact))}</p>`,
+    artifact.description ? `<p>${escapeHtml(artifact.description)}</p>` : '',
+    itemHtml(artifact),
+    `</section>`
+  ].filter(Boolean).join('\n');
+}
+
+function artifactToPdfLines(artifact: ExportArtifact, size: number): PdfLine[] {
+  return [
+    { text: artifact.title, size, bold: true, spaceBefore: 12 },
+    { text: artifactSubtitle(artifact), size: 9 },
+    ...(artifact.description ? [{ text: artifact.description, spaceBefore: 6 }] : []),
+    { text: itemPlainText(artifact), spaceBefore: 6 }
+  ];
+}
+
+function htmlDocument(title: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+function renderThreadMarkdown(data: ThreadExport, title: string, meta: string): string {
+  const messages = data.messages.map(message => [
+    `**${messageHeading(message)}**`,
+    itemMarkdown(message),
+    [
+      message.reactions.length > 0 ? `Reactions: ${reactionsLine(message.reactions)}` : '',
+      message.attachments.length > 0 ? `Attachments: ${attachmentsLine(message.attachments)}` : ''
+    ].filter(Boolean).join('  \n')
+  ].filter(Boolean).join('\n\n'));
+
+  const artifacts = data.artifacts.length > 0
+    ? [['## Artifacts', ...data.artifacts.map(artifact => artifactToMarkdown(artifact, '###'))].join('\n\n')]
+    : [];
+
+  return [`# ${title}\n\n_${meta}_`, ...messages, ...artifacts].join('\n\n---\n\n') + '\n';
+}
+
+function renderThreadHtml(data: ThreadExport, title: string, meta: string): string {
+  const messages = data.messages.map(message => [
+    `<section class="message" id="message-${escapeHtml(message.id)}">`,
+    `<header><strong>${escapeHtml(authorName(message.author, message.role))}</strong> ` +
+      `<time datetime="${message.createdAt}">${formatTimestamp(message.createdAt)}</time>` +
+      `${message.editedAt ? ' <span class="meta">(edited)</span>' : ''}</header>`,
+    itemHtml(message),
+    message.reactions.length > 0
+      ? `<p class="reactions">${message.reactions.map(reaction =>
+        `<span title="${escapeHtml(reaction.users.join(', '))}">${escapeHtml(reaction.emoji)} ${reaction.count}</span>`
+      ).join(' · ')}</p>`
+      : '',
+    message.attachments.length > 0
+      ? `<ul class="attachments">${message.attachments.map(file =>
+        `<li>${escapeHtml(file.name)} (${formatSize(file.size)})</li>`
+      ).join('')}</ul>`
+      : '',
+    '</section>'
+  ].filter(Boolean).join('\n'));
+
+  return htmlDocument(title, [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">${escapeHtml(meta)}</p>`,
+    ...messages,
+    ...(data.artifacts.length > 0 ? ['<h2>Artifacts</h2>', ...data.artifacts.map(artifact => artifactToHtml(artifact, 'h2'))] : [])
+  ].join('\n'));
+}
+
+function renderThreadPdf(data: ThreadExport, title: string, meta: string): Uint8Array {
+  const lines: PdfLine[] = [
+    { text: title, size: 18, bold: true },
+    { text: meta, size: 9 }
+  ];
+
+  for (const message of data.messages) {
+    lines.push({ text: messageHeading(message), size: 11, bold: true, spaceBefore: 14 });
+    lines.push({ text: itemPlainText(message), spaceBefore: 2 });
+    if (message.reactions.length > 0) lines.push({ text: `Reactions: ${reactionsLine(message.reactions)}`, size: 9, spaceBefore: 4 });
+    if (message.attachments.length > 0) lines.push({ text: `Attachments: ${attachmentsLine(message.attachments)}`, size: 9, spaceBefore: 4 });
+  }
+
+  if (data.artifacts.length > 0) {
+    lines.push({ text: 'Artifacts', size: 14, bold: true, spaceBefore: 20 });
+    lines.push(...data.artifacts.flatMap(artifact => artifactToPdfLines(artifact, 12)));
+  }
+
+  return renderPdf(lines, title);
+}
+
+/**
+ * Render a thread export. The JSON format is the export document itself, which
+ * can be imported again; the other formats are for reading.
+ */
+export function renderThreadExport(data: ThreadExport, format: ExportFormat): RenderedExport {
+  const title = data.thread.title || 'Untitled thread';
+  const meta = [
+    `Exported ${formatTimestamp(data.exportedAt)}`,
+    `${data.messages.length} message${data.messages.length === 1 ? '' : 's'}`,
+    ...(data.artifacts.length > 0 ? [`${data.artifacts.length} artifact${data.artifacts.length === 1 ? '' : 's'}`] : [])
+  ].join(' · ');
+
+  const renderers: Record<ExportFormat, () => string | Uint8Array> = {
+    md: () => renderThreadMarkdown(data, title, meta),
+    html: () => renderThreadHtml(data, title, meta),
+    json: () => JSON.stringify(data, null, 2),
+    pdf: () => renderThreadPdf(data, title, meta)
+  };
+
+  return {
+    body: renderers[format](),
+    contentType: CONTENT_TYPES[format],
+    filename: exportFilename(data.thread.title, `thread-${data.thread.id}`, format)
+  };
+}
+
+export function renderArtifactExport(data: ArtifactExport, format: ExportFormat): RenderedExport {
+  const { artifact } = data;
+  const source = `From ${data.thread.title || 'Untitled thread'} · exported ${formatTimestamp(data.exportedAt)}`;
+
+  const renderers: Record<ExportFormat, () => string | Uint8Array> = {
+    md: () => `${artifactToMarkdown(artifact, '#')}\n\n---\n\n_${source}_\n`,
+    html: () => htmlDocument(artifact.title, `${artifactToHtml(artifact, 'h1')}\n<p class="meta">${escapeHtml(source)}</p>`),
+    json: () => JSON.stringify(data, null, 2),
+    pdf: () => renderPdf([...artifactToPdfLines(artifact, 18), { text: source, size: 9, spaceBefore: 14 }], artifact.title)
+  };
+
+  return {
+    body: renderers[format](),
+    contentType: CONTENT_TYPES[format],
+    filename: exportFilename(artifact.title, `artifact-${artifact.id}`, format)
+  };
+}
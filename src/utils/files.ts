@@ -0,0 +1,283 @@
+// File handling helpers: size limits, checksums, MIME sniffing and HTTP ranges
+
+// 100MB, shared with createFileSchema
+export const MAX_FILE_SIZE = 104857600;
+
+export function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Checksums are stored as "sha256:<hex>"
+export async function computeChecksum(data: ArrayBuffer): Promise<string> {
+  return `sha256:${toHex(await crypto.subtle.digest('SHA-256', data))}`;
+}
+
+// Leading bytes read to sniff the MIME type; looksLikeText samples this many
+export const SNIFF_LENGTH = 1024;
+
+export interface ByteCounter {
+  stream: TransformStream<Uint8Array, Uint8Array>;
+  bytes: number;
+  exceeded: boolean; // More than the limit went through, so the stream errored
+  finished: boolean; // The source ended within the limit
+}
+
+/**
+ * A pass-through stream that counts the bytes actually read and errors once
+ * more than `limit` have gone through, whatever size the client declared.
+ */
+export function createByteCounter(limit: number): ByteCounter {
+  const counter: ByteCounter = {
+    bytes: 0,
+    exceeded: false,
+    finished: false,
+    stream: new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        counter.bytes += chunk.byteLength;
+        if (counter.bytes > limit) {
+          counter.exceeded = true;
+          controller.error(new RangeError(`Body is larger than ${limit} bytes`));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+      flush() {
+        counter.finished = true;
+      }
+    })
+  };
+  return counter;
+}
+
+/**
+ * Read the first `length` bytes of a stream (fewer if it is shorter) without
+ * consuming it: the returned stream still yields the whole content.
+ */
+export async function peekStream(
+  source: ReadableStream<Uint8Array>,
+  length: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const head = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    head.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return { head: head.subarray(0, length), stream };
+}
+
+interface MagicSignature {
+  mimeType: string;
+  offset: number;
+  bytes: number[];
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/gzip', offset: 0, bytes: [0x1f, 0x8b] },
+  { mimeType: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'audio/wav', offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] },
+  { mimeType: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }
+];
+
+// ZIP containers identified by extension (Office documents are ZIP files)
+const ZIP_EXTENSION_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+// Text formats identified by extension once the content is known to be text
+const TEXT_EXTENSION_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  md: 'text/markdown',
+  txt: 'text/plain'
+};
+
+function matchesSignature(bytes: Uint8Array, signature: MagicSignature): boolean {
+  if (bytes.length < signature.offset + signature.bytes.length) return false;
+  return signature.bytes.every((b, i) => bytes[signature.offset + i] === b);
+}
+
+function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 1024);
+  if (sample.includes(0)) return false;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(sample);
+    return true;
+  } catch {
+    // A multi-byte character cut at the sample boundary is still text
+    return sample.length === 1024;
+  }
+}
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Determine the MIME type from the file's leading bytes. The type declared by
+ * the client is only used when the content does not identify itself, and is
+ * never allowed to turn binary content into text or vice versa.
+ */
+export function sniffMimeType(data: ArrayBuffer | Uint8Array, filename: string, declaredType?: string): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const extension = getExtension(filename);
+
+  for (const signature of MAGIC_SIGNATURES) {
+    if (matchesSignature(bytes, signature)) {
+      if (signature.mimeType === 'application/zip' && ZIP_EXTENSION_TYPES[extension]) {
+        return ZIP_EXTENSION_TYPES[extension];
+      }
+      return signature.mimeType;
+    }
+  }
+
+  const declared = declaredType?.split(';')[0].trim().toLowerCase();
+  const declaredIsText = !!declared && (declared.startsWith('text/') || declared === 'application/json');
+
+  if (looksLikeText(bytes)) {
+    if (declaredIsText) return declared;
+    return TEXT_EXTENSION_TYPES[extension] ?? 'text/plain';
+  }
+
+  if (declared && !declaredIsText && declared !== 'application/octet-stream') {
+    return declared;
+  }
+  return 'application/octet-stream';
+}
+
+// Keep storage-safe characters; the original name is stored separately
+export function sanitizeFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() || '';
+  return base
+    .normalize('NFKD')
+    .replace(/[^\w.\-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .substring(0, 255) || 'file';
+}
+
+export type ByteRange = { offset: number; length: number };
+
+/**
+ * Parse a single-range `Range: bytes=` header against an object size.
+ * Returns null when the header is absent or not a byte range (serve the whole
+ * object) and 'unsatisfiable' when it cannot be served (416).
+ */
+export function parseRangeHeader(header: string | undefined | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null; // Multiple or malformed ranges: ignore
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return null;
+
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const suffix = Number(endText);
+    if (suffix === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const start = Number(startText);
+  const end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+  if (start >= size || end < start) return 'unsatisfiable';
+
+  return { offset: start, length: end - start + 1 };
+}
+
+// Types that are safe to render in the browser; everything else is downloaded
+const INLINE_MIME_PREFIXES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain', 'audio/', 'video/'];
+
+export function getContentDisposition(mimeType: string, filename: string): string {
+  const inline = INLINE_MIME_PREFIXES.some(prefix => mimeType.startsWith(prefix));
+  const fallback = sanitizeFilename(filename);
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// Resumable uploads (R2 multipart: every part except the last must be the same size, at least 5MiB)
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_PART_SIZE = 50 * 1024 * 1024;
+export const DEFAULT_PART_SIZE = 10 * 1024 * 1024;
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A new file ID in the shape of Prisma's cuid(), for files whose content URL is
+// stored in the same write that creates them
+export function createFileId(): string {
+  const random = crypto.getRandomValues(new Uint8Array(24));
+  return `c${[...random].map(byte => (byte % 36).toString(36)).join('')}`;
+}
+
+export function getPartCount(size: number, partSize: number): number {
+  return Math.max(Math.ceil(size / partSize), 1);
+}
+
+// Exact size the given part must have, or null when the part number is out of range
+export function getExpectedPartSize(size: number, partSize: number, partNumber: number): number | null {
+  const partCount = getPartCount(size, partSize);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount) return null;
+  return partNumber < partCount ? partSize : size - partSize * (partCount - 1);
+}
+
+export interface UploadProgress {
+  partCount: number;
+  uploadedBytes: number;
+  receivedParts: number[];
+  missingParts: number[];
+}
+
+export function getUploadProgress(
+  size: number,
+  partSize: number,
+  parts: { partNumber: number; size: number }[]
+): UploadProgress {
+  const partCount = getPartCount(size, partSize);
+  const received = new Set(parts.map(p => p.partNumber));
+  const missingParts: number[] = [];
+  for (let n = 1; n <= partCount; n++) {
+    if (!received.has(n)) missingParts.push(n);
+  }
+
+  return {
+    partCount,
+    uploadedBytes: parts.reduce((sum, p) => sum + p.size, 0),
+    receivedParts: [...received].sort((a, b) => a - b),
+    missingParts
+  };
+}
@@ -0,0 +1,162 @@
+// Input block forms: collecting a message's inputs and validating submitted values
+
+import type { Option } from '../types/blocks';
+import { MAX_TEXT_LENGTH } from './block-schemas';
+
+export type FormValue = string | string[];
+
+export interface FormField {
+  blockId?: string;
+  actionId: string;
+  label: string;
+  optional: boolean;
+  element: Record<string, any>;
+}
+
+export interface FormValidationResult {
+  values: Record<string, FormValue>;
+  errors: Record<string, string[]>;
+}
+
+/**
+ * The inputs of a message's form: one field per input block, in block order.
+ */
+export function collectFormFields(blocks: unknown): FormField[] {
+  if (!Array.isArray(blocks)) {
+    return [];
+  }
+
+  return blocks
+    .filter(block => block?.type === 'input' && typeof block.element?.action_id === 'string')
+    .map(block => ({
+      blockId: block.block_id,
+      actionId: block.element.action_id,
+      label: block.label?.text ?? block.element.action_id,
+      optional: block.optional === true,
+      element: block.element
+    }));
+}
+
+/**
+ * Action IDs used by more than one input. Values are keyed by action_id, so
+ * such a form can't be submitted.
+ */
+export function findDuplicateFields(fields: FormField[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const field of fields) {
+    if (seen.has(field.actionId)) duplicates.add(field.actionId);
+    seen.add(field.actionId);
+  }
+  return [...duplicates];
+}
+
+function optionValues(element: Record<string, any>): Set<string> {
+  const options: Option[] = element.options ?? (element.option_groups ?? []).flatMap((group: any) => group.options ?? []);
+  return new Set(options.map(option => option.value));
+}
+
+function isCalendarDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null
+    || (typeof value === 'string' && value.trim() === '')
+    || (Array.isArray(value) && value.length === 0);
+}
+
+// Returns the normalized value, or an error message
+function validateField(field: FormField, value: unknown): { value: FormValue } | { error: string } {
+  const { element } = field;
+
+  switch (element.type) {
+    case 'plain_text_input': {
+      if (typeof value !== 'string') return { error: 'Must be text' };
+      const text = value.trim();
+      const maxLength = element.max_length ?? MAX_TEXT_LENGTH;
+      if (element.min_length !== undefined && text.length < element.min_length) {
+        return { error: `Must be at least ${element.min_length} characters` };
+      }
+      if (text.length > maxLength) {
+        return { error: `Must be at most ${maxLength} characters` };
+      }
+      if (!element.multiline && text.includes('\n')) {
+        return { error: 'Must be a single line' };
+      }
+      return { value: text };
+    }
+
+    case 'static_select': {
+      if (typeof value !== 'string') return { error: 'Must be a single option value' };
+      if (!optionValues(element).has(value)) return { error: 'Must be one of the options' };
+      return { value };
+    }
+
+    case 'multi_static_select': {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        return { error: 'Must be a list of option values' };
+      }
+      const allowed = optionValues(element);
+      if (value.some(item => !allowed.has(item))) return { error: 'Must only contain values of the options' };
+      const selected = [...new Set(value as string[])];
+      if (element.max_selected_items !== undefined && selected.length > element.max_selected_items) {
+        return { error: `Must select at most ${element.max_selected_items} options` };
+      }
+      return { value: selected };
+    }
+
+    case 'datepicker':
+      if (typeof value !== 'string' || !isCalendarDate(value)) return { error: 'Must be a date formatted YYYY-MM-DD' };
+      return { value };
+
+    case 'timepicker':
+      if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) return { error: 'Must be a time formatted HH:mm' };
+      return { value };
+
+    default:
+      return { error: `Unsupported input type ${element.type}` };
+  }
+}
+
+/**
+ * Check submitted values against the form's inputs. Errors are keyed like
+ * request validation errors, e.g. "values.start_date". Empty optional inputs
+ * are left out of the result.
+ */
+export function validateFormValues(fields: FormField[], submitted: Record<string, unknown>): FormValidationResult {
+  const values: Record<string, FormValue> = {};
+  const errors: Record<string, string[]> = {};
+  const known = new Set(fields.map(field => field.actionId));
+
+  for (const key of Object.keys(submitted)) {
+    if (!known.has(key)) {
+      errors[`values.${key}`] = ['Not an input of this form'];
+    }
+  }
+
+  for (const field of fields) {
+    const value = submitted[field.actionId];
+
+    if (isEmpty(value)) {
+      if (!field.optional) {
+        errors[`values.${field.actionId}`] = [`${field.label} is required`];
+      }
+      continue;
+    }
+
+    const result = validateField(field, value);
+    if ('error' in result) {
+      errors[`values.${field.actionId}`] = [result.error];
+    } else {
+      values[field.actionId] = result.value;
+    }
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,55 @@
+// Background jobs: retry backoff and the in-memory queue used without a Queues binding
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+const RETRY_BASE_SECONDS = 10;
+const RETRY_MAX_SECONDS = 15 * 60;
+
+// Queue messages only carry the job ID; the job itself lives in D1
+export interface JobMessage {
+  jobId: string;
+}
+
+// The part of a Cloudflare Queue producer binding that jobs use
+export interface JobQueue {
+  send(message: JobMessage, options?: { delaySeconds?: number }): Promise<void>;
+}
+
+/**
+ * Seconds to wait before the next attempt after the given (1-based) attempt
+ * failed: 10s, doubling each time, capped at 15 minutes.
+ */
+export function getRetryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_SECONDS);
+}
+
+// Per-isolate queue, used when no Queues binding is configured and in tests
+export class MemoryJobQueue implements JobQueue {
+  private messages: JobMessage[] = [];
+
+  async send(message: JobMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /**
+   * Hand queued messages to the consumer in order until the queue is empty,
+   * including ones sent while draining (retries and follow-up jobs). Retry
+   * delays are not waited for. Returns the number of messages consumed.
+   */
+  async drain(consume: (message: JobMessage) => Promise<void>, limit = 1000): Promise<number> {
+    let consumed = 0;
+    while (this.messages.length > 0 && consumed < limit) {
+      await consume(this.messages.shift()!);
+      consumed++;
+    }
+    return consumed;
+  }
+
+  clear() {
+    this.messages = [];
+  }
+}
@@ -0,0 +1,401 @@
+// Markdown <-> UI blocks conversion: rich blocks for model output, text fallbacks for block-only messages
+
+import type {
+  RichTextLinkElement,
+  RichTextListElement,
+  RichTextPreformattedElement,
+  RichTextQuoteElement,
+  RichTextStyleElement,
+  UIBlockType
+} from '../types/blocks';
+import { MAX_MESSAGE_BLOCKS, MAX_TEXT_LENGTH, messageBlocksSchema } from './block-schemas';
+
+const MAX_HEADER_LENGTH = 150;
+const MAX_LIST_INDENT = 8;
+
+type TextStyle = NonNullable<RichTextStyleElement['style']>;
+
+// A run of inline text with one style, or a link
+export interface InlineSegment {
+  text: string;
+  style?: TextStyle;
+  url?: string;
+}
+
+// Inline markdown: `code`, **bold**, __bold__, ~~strike~~, *italic*, _italic_ and [text](url).
+// Styles don't nest; the inner markers are kept as text.
+const MARKDOWN_INLINE = /`([^`\n]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:[^*\n]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_\n]*[^_\s])?)_(?!\w)|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+// Slack mrkdwn: `code`, *bold*, _italic_, ~strike~, <url|text> and <url>
+const MRKDWN_INLINE = /`([^`\n]+)`|\*([^*\n]+)\*|(?<!\w)_([^_\n]+)_(?!\w)|~([^~\n]+)~|<(https?:\/\/[^|>\s]+)(?:\|([^>\n]+))?>/g;
+
+function parseInline(text: string, pattern: RegExp, toSegment: (match: RegExpExecArray) => InlineSegment): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) {
+      segments.push({ text: text.slice(last, match.index) });
+    }
+    segments.push(toSegment(match));
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last) });
+  }
+
+  return segments;
+}
+
+function parseMarkdownInline(text: string): InlineSegment[] {
+  return parseInline(text, MARKDOWN_INLINE, ([, code, bold, boldAlt, strike, italic, italicAlt, linkText, url]) => {
+    if (code !== undefined) return { text: code, style: { code: true } };
+    if (bold !== undefined || boldAlt !== undefined) return { text: bold ?? boldAlt, style: { bold: true } };
+    if (strike !== undefined) return { text: strike, style: { strike: true } };
+    if (italic !== undefined || italicAlt !== undefined) return { text: italic ?? italicAlt, style: { italic: true } };
+    return { text: linkText, url };
+  });
+}
+
+export function parseMrkdwnInline(text: string): InlineSegment[] {
+  return parseInline(text, MRKDWN_INLINE, ([, code, bold, italic, strike, url, linkText]) => {
+    if (code !== undefined) return { text: unescapeMrkdwn(code), style: { code: true } };
+    if (bold !== undefined) return { text: unescapeMrkdwn(bold), style: { bold: true } };
+    if (italic !== undefined) return { text: unescapeMrkdwn(italic), style: { italic: true } };
+    if (strike !== undefined) return { text: unescapeMrkdwn(strike), style: { strike: true } };
+    return { text: unescapeMrkdwn(linkText ?? url), url };
+  }).map(segment => segment.style || segment.url ? segment : { text: unescapeMrkdwn(segment.text) });
+}
+
+// Slack requires &, < and > to be escaped in mrkdwn text
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeMrkdwn(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+function segmentsToMrkdwn(segments: InlineSegment[]): string {
+  return segments.map(({ text, style, url }) => {
+    const escaped = escapeMrkdwn(text);
+    if (url) return `<${url}|${escaped.replace(/\|/g, '¦')}>`;
+    if (style?.code) return `\`${escaped}\``;
+    if (style?.bold) return `*${escaped}*`;
+    if (style?.italic) return `_${escaped}_`;
+    if (style?.strike) return `~${escaped}~`;
+    return escaped;
+  }).join('');
+}
+
+function segmentsToText(segments: InlineSegment[], plain: boolean): string {
+  return segments.map(({ text, style, url }) => {
+    if (plain) {
+      return url && text !== url ? `${text} (${url})` : text;
+    }
+
+    let result = style?.code ? `\`${text}\`` : text;
+    if (style?.bold) result = `**${result}**`;
+    if (style?.italic) result = `_${result}_`;
+    if (style?.strike) result = `~~${result}~~`;
+    return url ? `[${result}](${url})` : result;
+  }).join('');
+}
+
+function splitText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length; start += maxLength) {
+    chunks.push(text.slice(start, start + maxLength));
+  }
+  return chunks;
+}
+
+function segmentsToRichText(segments: InlineSegment[]): (RichTextStyleElement | RichTextLinkElement)[] {
+  return segments.flatMap(({ text, style, url }): (RichTextStyleElement | RichTextLinkElement)[] => {
+    if (url) {
+      return [{ type: 'link' as const, url, ...(text !== url && { text: text.slice(0, MAX_TEXT_LENGTH) }) }];
+    }
+    return splitText(text, MAX_TEXT_LENGTH).map(chunk => ({
+      type: 'text' as const,
+      text: chunk,
+      ...(style && { style })
+    }));
+  });
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function preformattedBlock(text: string): UIBlockType {
+  const preformatted: RichTextPreformattedElement = {
+    type: 'rich_text_preformatted',
+    elements: splitText(text, MAX_TEXT_LENGTH).map(chunk => ({ type: 'text', text: chunk }))
+  };
+  return { type: 'rich_text', elements: [preformatted] };
+}
+
+// Paragraph lines as mrkdwn sections, split at line breaks to stay within the text limit
+function paragraphBlocks(lines: string[]): UIBlockType[] {
+  const blocks: UIBlockType[] = [];
+  let current = '';
+
+  const push = () => {
+    if (current) blocks.push({ type: 'section', text: { type: 'mrkdwn', text: current } });
+    current = '';
+  };
+
+  for (const line of lines) {
+    for (const chunk of splitText(segmentsToMrkdwn(parseMarkdownInline(line)), MAX_TEXT_LENGTH)) {
+      if (current && current.length + 1 + chunk.length > MAX_TEXT_LENGTH) push();
+      current = current ? `${current}\n${chunk}` : chunk;
+    }
+  }
+  push();
+
+  return blocks;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const DIVIDER = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+function listBlock(items: { spaces: number; ordered: boolean; text: string }[]): UIBlockType {
+  const lists: RichTextListElement[] = [];
+  // Indentation widths of the open nesting levels
+  const levels: number[] = [];
+
+  for (const item of items) {
+    while (levels.length > 0 && item.spaces < levels[levels.length - 1]) levels.pop();
+    if (levels.length === 0 || item.spaces > levels[levels.length - 1]) levels.push(item.spaces);
+
+    const indent = Math.min(levels.length - 1, MAX_LIST_INDENT);
+    const style = item.ordered ? 'ordered' : 'bullet';
+    const section = { type: 'rich_text_section' as const, elements: segmentsToRichText(parseMarkdownInline(item.text || ' ')) };
+
+    const previous = lists[lists.length - 1];
+    if (previous && previous.style === style && (previous.indent ?? 0) === indent) {
+      previous.elements.push(section);
+    } else {
+      lists.push({ type: 'rich_text_list', style, elements: [section], ...(indent > 0 && { indent }) });
+    }
+  }
+
+  return { type: 'rich_text', elements: lists };
+}
+
+/**
+ * Convert model markdown to blocks: headings become headers, paragraphs mrkdwn
+ * sections, lists and quotes rich text, and code fences and tables preformatted
+ * rich text. Returns [] when the result doesn't fit a message (the content is
+ * then shown as is).
+ */
+export function markdownToBlocks(markdown: string): UIBlockType[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: UIBlockType[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    blocks.push(...paragraphBlocks(paragraph));
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      if (code.join('').trim()) blocks.push(preformattedBlock(code.join('\n')));
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      const text = segmentsToText(parseMarkdownInline(heading[1]), true).trim();
+      if (text) blocks.push({ type: 'header', text: { type: 'plain_text', text: truncate(text, MAX_HEADER_LENGTH) } });
+      i++;
+      continue;
+    }
+
+    if (DIVIDER.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'divider' });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      const items: { spaces: number; ordered: boolean; text: string }[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item) {
+          items.push({ spaces: item[1].replace(/\t/g, '    ').length, ordered: /\d/.test(item[2]), text: item[3].trim() });
+        } else if (lines[i].trim() && /^\s/.test(lines[i]) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1].text += ` ${lines[i].trim()}`;
+        } else if (!lines[i].trim() && LIST_ITEM.test(lines.slice(i + 1).find(next => next.trim()) ?? '')) {
+          // Loose lists separate items with blank lines
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push(listBlock(items));
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = QUOTE.exec(lines[i]))) {
+        quoted.push(match[1]);
+        i++;
+      }
+      const quote: RichTextQuoteElement = {
+        type: 'rich_text_quote',
+        elements: segmentsToRichText(parseMarkdownInline(quoted.join('\n').trim()))
+      };
+      if (quote.elements.length > 0) blocks.push({ type: 'rich_text', elements: [quote] });
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      flushParagraph();
+      const rows: string[] = [];
+      while (i < lines.length && TABLE_ROW.test(lines[i])) {
+        rows.push(lines[i].trim());
+        i++;
+      }
+      blocks.push(preformattedBlock(rows.join('\n')));
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+  flushParagraph();
+
+  if (blocks.length > MAX_MESSAGE_BLOCKS || !messageBlocksSchema.safeParse(blocks).success) {
+    return [];
+  }
+  return blocks;
+}
+
+function textObjectToText(object: any, plain: boolean): string {
+  if (!object?.text) return '';
+  return object.type === 'mrkdwn' ? segmentsToText(parseMrkdwnInline(object.text), plain) : object.text;
+}
+
+function richTextInlineToText(elements: any[], plain: boolean): string {
+  return segmentsToText((elements ?? []).map((element): InlineSegment => {
+    if (element.type === 'link') return { text: element.text ?? element.url, url: element.url, style: element.style };
+    if (element.type === 'emoji') return { text: `:${element.name}:` };
+    return { text: element.text ?? '', style: element.style };
+  }), plain);
+}
+
+function richTextToText(elements: any[], plain: boolean): string {
+  return (elements ?? []).map(element => {
+    switch (element.type) {
+      case 'rich_text_section':
+        return richTextInlineToText(element.elements, plain);
+      case 'rich_text_list':
+        return (element.elements ?? []).map((item: any, index: number) => {
+          const marker = element.style === 'ordered' ? `${index + 1}. ` : plain ? '• ' : '- ';
+          return `${'  '.repeat(element.indent ?? 0)}${marker}${richTextInlineToText(item.elements, plain)}`;
+        }).join('\n');
+      case 'rich_text_quote': {
+        const text = richTextInlineToText(element.elements, plain);
+        return plain ? text : text.split('\n').map(line => `> ${line}`).join('\n');
+      }
+      case 'rich_text_preformatted': {
+        const text = (element.elements ?? []).map((item: any) => item.text ?? item.url ?? '').join('');
+        return plain ? text : `\`\`\`\n${text}\n\`\`\``;
+      }
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+function elementLabel(element: any, plain: boolean): string {
+  const text = textObjectToText(element?.text, true) || element?.label || '';
+  if (!text) return '';
+  return element.url && !plain ? `[${text}](${element.url})` : text;
+}
+
+function blockToText(block: any, plain: boolean): string {
+  switch (block?.type) {
+    case 'header': {
+      const text = textObjectToText(block.text, plain);
+      return plain ? text : `# ${text}`;
+    }
+    case 'section':
+      return [block.text, ...(block.fields ?? [])].map(object => textObjectToText(object, plain)).filter(Boolean).join('\n');
+    case 'divider':
+      return plain ? '' : '---';
+    case 'image':
+      return plain ? block.alt_text ?? '' : `![${block.alt_text ?? ''}](${block.image_url})`;
+    case 'context':
+      return (block.elements ?? [])
+        .map((element: any) => element.type === 'image' ? element.alt_text : textObjectToText(element, plain))
+        .filter(Boolean)
+        .join(' ');
+    case 'actions':
+      return (block.elements ?? []).map((element: any) => elementLabel(element, plain)).filter(Boolean).join(' | ');
+    case 'input':
+      return textObjectToText(block.label, plain);
+    case 'file':
+      return block.title ?? '';
+    case 'rich_text':
+      return richTextToText(block.elements, plain);
+    case 'insight_card':
+      return [
+        plain ? block.title : `**${block.title}**`,
+        block.summary,
+        ...(block.kpis ?? []).map((kpi: any) => `${plain ? '• ' : '- '}${kpi.label}: ${kpi.value}${kpi.change ? ` (${kpi.change})` : ''}`)
+      ].filter(Boolean).join('\n');
+    case 'insight_pile':
+      return (block.insights ?? []).map((insight: any) => `${plain ? '• ' : '- '}${insight.title}`).join('\n');
+    default:
+      return '';
+  }
+}
+
+function blocksToText(blocks: unknown, plain: boolean): string {
+  if (!Array.isArray(blocks)) return '';
+  return blocks.map(block => blockToText(block, plain)).filter(text => text.trim()).join('\n\n').trim();
+}
+
+/**
+ * Markdown rendering of blocks, used as the content fallback of messages
+ * sent with blocks only. Interactive elements are reduced to their labels.
+ */
+export function blocksToMarkdown(blocks: unknown): string {
+  return blocksToText(blocks, false);
+}
+
+export function blocksToPlainText(blocks: unknown): string {
+  return blocksToText(blocks, true);
+}
@@ -1,29 +1,148 @@
-import { z } from 'zod';
-
-/**
- * OpenAPI utility functions for Zod schema integration
- */
-
-/**
- * Safely adds OpenAPI metadata to Zod schemas
- * This is a wrapper to handle cases where the .openapi() method might not be available
- */
-export function safeOpenApi<T extends z.ZodTypeAny>(
-  schema: T,
-  openApiConfig: {
-    description?: string;
-    example?: any;
-    examples?: any[];
-    format?: string;
-    title?: string;
-    deprecated?: boolean;
-  }
-): T {
-  // Check if the schema has the openapi method (from @hono/zod-openapi)
-  if (typeof (schema as any).openapi === 'function') {
-    return (schema as any).openapi(openApiConfig);
-  }
-  
-  // Fallback: return the original schema if openapi method is not available
-  return schema;
-}
\ No newline at end of file
+// OpenAPI helpers for createRoute definitions: request bodies, response envelopes and refs to the shared components
+
+import type { RouteConfig } from '@hono/zod-openapi';
+import type { ZodType } from 'zod';
+
+type RouteResponses = RouteConfig['responses'];
+type RouteResponse = RouteResponses[string];
+type JsonSchema = Record<string, unknown>;
+
+export type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 413 | 429 | 500 | 502 | 503;
+
+// Shared problem responses in components.responses
+const ERROR_RESPONSES: Record<ErrorStatus, string> = {
+  400: 'BadRequest',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'NotFound',
+  409: 'Conflict',
+  413: 'PayloadTooLarge',
+  429: 'RateLimitExceeded',
+  500: 'InternalServerError',
+  502: 'BadGateway',
+  503: 'ServiceUnavailable'
+};
+
+export function schemaRef(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+export function binary(): JsonSchema {
+  return { type: 'string', format: 'binary' };
+}
+
+// A required JSON request body validated by `schema`
+export function jsonBody<T extends ZodType>(schema: T, description?: string) {
+  return {
+    required: true as const,
+    ...(description && { description }),
+    content: { 'application/json': { schema } }
+  };
+}
+
+// A required request body the handler reads itself, e.g. raw bytes or a form;
+// JSON schemas here are documentation only and are not validated
+export function contentBody(content: Record<string, JsonSchema>) {
+  return {
+    required: true as const,
+    content: Object.fromEntries(
+      Object.entries(content).map(([mediaType, schema]) => [mediaType, { schema }])
+    )
+  };
+}
+
+// The { success, data, metadata } envelope of createSuccessResponse and createAcceptedResponse,
+// optionally with a server-sent events alternative
+export function successResponse(
+  description: string,
+  data?: JsonSchema,
+  options: { headers?: Record<string, { description: string; schema: JsonSchema }>; eventStream?: string } = {}
+): RouteResponse {
+  return {
+    description,
+    ...(options.headers && { headers: options.headers }),
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            ...(data && { data }),
+            metadata: schemaRef('ResponseMetadata')
+          },
+          required: data ? ['success', 'data', 'metadata'] : ['success', 'metadata']
+        }
+      },
+      ...(options.eventStream && { 'text/event-stream': { schema: { type: 'string', description: options.eventStream } } })
+    }
+  } as RouteResponse;
+}
+
+// 202 from createAcceptedResponse: the job (or import) with its status URL in Location
+export function acceptedResponse(description: string, data: JsonSchema): RouteResponse {
+  return successResponse(description, data, {
+    headers: {
+      Location: { description: 'URL to poll for the status of the background work', schema: { type: 'string' } }
+    }
+  });
+}
+
+// The envelope of createPaginatedResponse
+export function paginatedResponse(description: string, items: JsonSchema): RouteResponse {
+  return successResponse(description, {
+    type: 'object',
+    properties: {
+      items: arrayOf(items),
+      continuationToken: { type: 'string', description: 'Cursor for the next page' },
+      totalItems: { type: 'number' },
+      hasMore: { type: 'boolean' },
+      pageSize: { type: 'number' }
+    },
+    required: ['items', 'hasMore', 'pageSize']
+  });
+}
+
+// A JSON body without the envelope, e.g. the OpenAI-compatible completion,
+// optionally with a server-sent events alternative
+export function jsonResponse(description: string, schema: JsonSchema, eventStream?: string): RouteResponse {
+  return {
+    description,
+    content: {
+      'application/json': { schema },
+      ...(eventStream && { 'text/event-stream': { schema: { type: 'string', description: eventStream } } })
+    }
+  } as RouteResponse;
+}
+
+// A response body in one or more media types, e.g. a download
+export function contentResponse(description: string, content: Record<string, JsonSchema>): RouteResponse {
+  return {
+    description,
+    content: Object.fromEntries(
+      Object.entries(content).map(([mediaType, schema]) => [mediaType, { schema }])
+    )
+  } as RouteResponse;
+}
+
+// A response without a body, e.g. 204 or 304
+export function emptyResponse(description: string): RouteResponse {
+  return { description };
+}
+
+// A problem response specific to one operation, e.g. 410 for an expired upload
+export function problemResponse(description: string): RouteResponse {
+  return {
+    description,
+    content: { 'application/problem+json': { schema: schemaRef('Error') } }
+  } as RouteResponse;
+}
+
+export function errorResponses(...statuses: ErrorStatus[]): RouteResponses {
+  return Object.fromEntries(
+    statuses.map(status => [status, { $ref: `#/components/responses/${ERROR_RESPONSES[status]}` }])
+  );
+}
@@ -0,0 +1,142 @@
+// Minimal text PDF writer: wrapped lines on A4 pages in the standard Helvetica fonts, no dependencies
+
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+const LINE_SPACING = 1.4;
+// Average Helvetica glyph width as a fraction of the font size, rounded up so lines don't overflow
+const AVERAGE_GLYPH_WIDTH = 0.55;
+
+// Characters outside Latin-1 that WinAnsiEncoding has codes for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// The standard fonts only cover WinAnsi; other characters are shown as '?'
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\t/g, '    ')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 0x20) {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+// Break a line at spaces to fit the width, cutting words that are longer than a line
+export function wrapText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    let rest = word;
+    while (rest.length > maxChars) {
+      if (current) lines.push(current);
+      current = '';
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= maxChars) {
+      current += ` ${rest}`;
+    } else {
+      lines.push(current);
+      current = rest;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Render lines of text as a PDF document. Line breaks inside a line start new
+ * lines and long lines wrap; pages are added as needed.
+ */
+export function renderPdf(lines: PdfLine[], title?: string): Uint8Array {
+  const pages: string[] = [];
+  let page: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push(page.join('\n'));
+    page = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const leading = size * LINE_SPACING;
+    const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_GLYPH_WIDTH));
+    const font = line.bold ? 'F2' : 'F1';
+
+    // Space before a line is dropped at the top of a page
+    if (line.spaceBefore && y < PAGE_HEIGHT - MARGIN) y -= line.spaceBefore;
+
+    for (const paragraph of toWinAnsi(line.text.replace(/\r\n?/g, '\n')).split('\n')) {
+      for (const text of wrapText(paragraph, maxChars)) {
+        if (y - leading < MARGIN) newPage();
+        y -= leading;
+        if (text.trim()) {
+          page.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`);
+        }
+      }
+    }
+  }
+  if (page.length > 0 || pages.length === 0) newPage();
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< /Producer (experience-layer)${title ? ` /Title (${escapePdfString(toWinAnsi(title))})` : ''} >>`);
+
+  for (const [index, content] of pages.entries()) {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (const [index, object] of objects.entries()) {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+}
@@ -0,0 +1,188 @@
+// Token quota resolution and usage aggregation helpers
+
+export type QuotaWindow = 'daily' | 'monthly';
+
+export interface TokenQuotaRule {
+  id: string;
+  userId: string | null;
+  role: string | null;
+  model: string | null;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+}
+
+export interface UsageRecord {
+  model: string | null;
+  usage: unknown;
+  createdAt: Date | string;
+}
+
+export interface ResolvedQuota {
+  window: QuotaWindow;
+  limit: number;
+  quotaId: string;
+  scope: 'user' | 'role';
+  model: string | null; // Set when the limit only counts usage of this model
+}
+
+export interface QuotaStatus extends ResolvedQuota {
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export interface UsageBucket {
+  date: string; // YYYY-MM-DD (UTC)
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const WINDOW_LIMIT_FIELD: Record<QuotaWindow, 'dailyTokens' | 'monthlyTokens'> = {
+  daily: 'dailyTokens',
+  monthly: 'monthlyTokens'
+};
+
+/**
+ * Rank how specifically a quota targets the caller, or -1 if it does not
+ * apply. Model overrides win over general budgets, and a user's own quota
+ * wins over their role's at the same level.
+ */
+function quotaSpecificity(
+  quota: TokenQuotaRule,
+  target: { userId: string; role: string; model: string }
+): number {
+  if (quota.model !== null && quota.model !== target.model) return -1;
+
+  let rank: number;
+  if (quota.userId !== null) {
+    if (quota.userId !== target.userId) return -1;
+    rank = 1;
+  } else if (quota.role !== null) {
+    if (quota.role !== target.role) return -1;
+    rank = 0;
+  } else {
+    return -1;
+  }
+
+  return quota.model !== null ? rank + 2 : rank;
+}
+
+/**
+ * Pick, per window, the most specific quota that sets a limit for that window.
+ * Windows without any applicable limit are unlimited and omitted.
+ */
+export function resolveQuotas(
+  quotas: TokenQuotaRule[],
+  target: { userId: string; role: string; model: string }
+): ResolvedQuota[] {
+  const resolved: ResolvedQuota[] = [];
+
+  for (const window of ['daily', 'monthly'] as QuotaWindow[]) {
+    const field = WINDOW_LIMIT_FIELD[window];
+    let best: TokenQuotaRule | null = null;
+    let bestRank = -1;
+
+    for (const quota of quotas) {
+      if (quota[field] === null || quota[field] === undefined) continue;
+      const rank = quotaSpecificity(quota, target);
+      if (rank > bestRank) {
+        best = quota;
+        bestRank = rank;
+      }
+    }
+
+    if (best) {
+      resolved.push({
+        window,
+        limit: best[field] as number,
+        quotaId: best.id,
+        scope: best.userId !== null ? 'user' : 'role',
+        model: best.model
+      });
+    }
+  }
+
+  return resolved;
+}
+
+// Windows are calendar periods in UTC
+export function getWindowStart(window: QuotaWindow, now: Date = new Date()): Date {
+  return window === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function getWindowReset(window: QuotaWindow, now: Date = new Date()): Date {
+  return window === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+// Read token counts from a stored Completion.usage value
+export function readUsage(usage: unknown): { promptTokens: number; completionTokens: number; totalTokens: number } {
+  const value = (usage && typeof usage === 'object' ? usage : {}) as Record<string, unknown>;
+  const promptTokens = Number(value.prompt_tokens) || 0;
+  const completionTokens = Number(value.completion_tokens) || 0;
+  const totalTokens = Number(value.total_tokens) || promptTokens + completionTokens;
+
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+/**
+ * Tokens used in a window, counting only `model` when the quota is a model override.
+ */
+export function sumTokens(records: UsageRecord[], since: Date, model: string | null = null): number {
+  return records.reduce((total, record) => {
+    if (new Date(record.createdAt) < since) return total;
+    if (model !== null && record.model !== model) return total;
+    return total + readUsage(record.usage).totalTokens;
+  }, 0);
+}
+
+export function getQuotaStatus(quotas: ResolvedQuota[], records: UsageRecord[], now: Date = new Date()): QuotaStatus[] {
+  return quotas.map(quota => {
+    const used = sumTokens(records, getWindowStart(quota.window, now), quota.model);
+    return {
+      ...quota,
+      used,
+      remaining: Math.max(quota.limit - used, 0),
+      resetsAt: getWindowReset(quota.window, now).toISOString()
+    };
+  });
+}
+
+/**
+ * Group completion usage by UTC day and model, oldest day first.
+ */
+export function aggregateUsage(records: UsageRecord[]): UsageBucket[] {
+  const buckets = new Map<string, UsageBucket>();
+
+  for (const record of records) {
+    const date = new Date(record.createdAt).toISOString().slice(0, 10);
+    const model = record.model || 'unknown';
+    const key = `${date}|${model}`;
+    const tokens = readUsage(record.usage);
+
+    const bucket = buckets.get(key) ?? {
+      date,
+      model,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0
+    };
+
+    bucket.requests += 1;
+    bucket.promptTokens += tokens.promptTokens;
+    bucket.completionTokens += tokens.completionTokens;
+    bucket.totalTokens += tokens.totalTokens;
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.values()].sort((a, b) =>
+    a.date === b.date ? a.model.localeCompare(b.model) : a.date.localeCompare(b.date)
+  );
+}
@@ -0,0 +1,102 @@
+// Sliding window rate limiting
+
+export interface RateLimitRule {
+  limit: number;    // Requests allowed per window
+  windowMs: number;
+}
+
+// Sliding window counter: the previous fixed window's count is weighted by
+// how much of it still overlaps the sliding window ending now.
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;       // Until the current fixed window ends
+  retryAfterMs?: number; // Until a request would be allowed again (denied only)
+}
+
+export function applySlidingWindow(
+  state: SlidingWindowState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const { limit, windowMs } = rule;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  // Roll the stored windows forward to the current one
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
+
+  const elapsed = now - windowStart;
+  const weight = 1 - elapsed / windowMs;
+  const estimated = previous * weight + current;
+  const resetMs = windowStart + windowMs - now;
+
+  if (estimated + 1 > limit) {
+    return {
+      state: { windowStart, current, previous },
+      result: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetMs,
+        retryAfterMs: getRetryAfter(current, previous, rule, elapsed)
+      }
+    };
+  }
+
+  return {
+    state: { windowStart, current: current + 1, previous },
+    result: {
+      allowed: true,
+      limit,
+      remaining: Math.max(Math.floor(limit - estimated - 1), 0),
+      resetMs
+    }
+  };
+}
+
+// Time until previous * weight + current + 1 <= limit
+function getRetryAfter(current: number, previous: number, rule: RateLimitRule, elapsed: number): number {
+  const { limit, windowMs } = rule;
+
+  if (current + 1 <= limit && previous > 0) {
+    // Wait for the previous window's weight to decay within this window
+    const targetWeight = (limit - 1 - current) / previous;
+    return Math.max(Math.ceil(windowMs * (1 - targetWeight) - elapsed), 1);
+  }
+
+  // This window is full: wait for the next window, where it becomes the decaying previous one
+  const targetWeight = Math.max(limit - 1, 0) / Math.max(current, 1);
+  return Math.ceil(windowMs - elapsed + windowMs * (1 - targetWeight));
+}
+
+/**
+ * Standard rate limit headers (IETF draft `RateLimit-*` fields plus Retry-After).
+ */
+export function getRateLimitHeaders(rule: RateLimitRule, result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+    'RateLimit-Policy': `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`
+  };
+
+  if (!result.allowed && result.retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.max(Math.ceil(result.retryAfterMs / 1000), 1));
+  }
+
+  return headers;
+}
@@ -32,6 +32,22 @@ export function createSuccessResponse<T>(
   });
 }
 
+// Create accepted response for work that continues in the background; Location points at its status
+export function createAcceptedResponse<T>(
+  data: T,
+  location: string,
+  metadata?: Partial<ResponseMetadata>
+): Response {
+  const response = createSuccessResponse(data, metadata);
+  const headers = new Headers(response.headers);
+  headers.set('Location', location);
+
+  return new Response(response.body, {
+    status: 202,
+    headers
+  });
+}
+
 // Create paginated response
 export function createPaginatedResponse<T>(
   items: T[],
@@ -162,8 +178,8 @@ export function createConflictResponse(
   );
 }
 
-export function createRateLimitResponse(correlationId?: string): Response {
-  return createErrorResponse(
+export function createRateLimitResponse(correlationId?: string, retryAfter?: number): Response {
+  const response = createErrorResponse(
     {
       status: 429,
       title: 'Rate Limit Exceeded',
@@ -171,6 +187,12 @@ export function createRateLimitResponse(correlationId?: string): Response {
     },
     correlationId
   );
+
+  if (retryAfter !== undefined) {
+    response.headers.set('Retry-After', String(retryAfter));
+  }
+
+  return response;
 }
 
 export function createInternalServerErrorResponse(
@@ -0,0 +1,76 @@
+// Full-text search helpers for the FTS5 search index
+
+import { escapeHtml } from './blocks-html';
+
+export type SearchEntityType = 'message' | 'thread' | 'artifact';
+
+export const SNIPPET_HIGHLIGHT_START = '<mark>';
+export const SNIPPET_HIGHLIGHT_END = '</mark>';
+
+export interface SnippetMarkers {
+  start: string;
+  end: string;
+}
+
+/**
+ * Markers for FTS5 snippet() to put around matches. They are random per query,
+ * so indexed content cannot contain them and pass itself off as a highlight.
+ */
+export function createSnippetMarkers(): SnippetMarkers {
+  const nonce = crypto.randomUUID();
+  return { start: `\u0002${nonce}\u0003`, end: `\u0002/${nonce}\u0003` };
+}
+
+/**
+ * Turn a snippet() excerpt into HTML: the indexed content is escaped, then the
+ * markers become <mark> tags, which are the only markup in the result.
+ */
+export function formatSnippet(snippet: string, markers: SnippetMarkers): string {
+  return escapeHtml(snippet)
+    .replaceAll(markers.start, SNIPPET_HIGHLIGHT_START)
+    .replaceAll(markers.end, SNIPPET_HIGHLIGHT_END);
+}
+
+/**
+ * Convert free-form user input into a safe FTS5 MATCH expression.
+ * Every term is quoted so FTS5 operators (AND, NEAR, column filters, ...)
+ * in user input are treated as plain text. The last term is matched as a
+ * prefix so results show up while the user is still typing.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input.match(/[\p{L}\p{N}_]+/gu);
+
+  if (!terms || terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .slice(0, 20) // Cap the number of terms to keep queries cheap
+    .map((term, index, all) => {
+      const quoted = `"${term}"`;
+      return index === all.length - 1 ? `${quoted}*` : quoted;
+    })
+    .join(' ');
+}
+
+/**
+ * Ranked results cannot use an ID cursor, so the continuation token
+ * encodes the offset into the ranked result set instead.
+ */
+export function encodeSearchCursor(offset: number): string {
+  return btoa(JSON.stringify({ o: offset })).replace(/=+$/, '');
+}
+
+export function decodeSearchCursor(cursor?: string): number {
+  if (!cursor) {
+    return 0;
+  }
+
+  try {
+    const padded = cursor + '='.repeat((4 - cursor.length % 4) % 4);
+    const { o } = JSON.parse(atob(padded));
+    return Number.isInteger(o) && o >= 0 ? o : 0;
+  } catch {
+    return 0;
+  }
+}
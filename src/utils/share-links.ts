@@ -0,0 +1,139 @@
+// Public share links: signed tokens, password hashing and read-only block sanitizing
+
+import { toHex } from './files';
+
+// Workers cap PBKDF2 at 100k iterations
+const PASSWORD_ITERATIONS = 100_000;
+
+// Interactive blocks can't be used by anonymous viewers
+const INTERACTIVE_BLOCK_TYPES = new Set(['actions', 'input']);
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function base64UrlEncode(data: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(data)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array | null {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), ch => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Share tokens are "<linkId>.<signature>": the signature lets invalid tokens be
+ * rejected without a database lookup, and the token can be rebuilt from the ID.
+ */
+export async function createShareToken(linkId: string, secret: string): Promise<string> {
+  const key = await importSigningKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`share:${linkId}`));
+  return `${linkId}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Returns the link ID of a correctly signed token, or null.
+ */
+export async function verifyShareToken(token: string, secret: string): Promise<string | null> {
+  const [linkId, signature, ...rest] = token.split('.');
+  if (!linkId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const signatureBytes = base64UrlDecode(signature);
+  if (!signatureBytes) {
+    return null;
+  }
+
+  const key = await importSigningKey(secret);
+  const valid = await crypto.subtle.verify('HMAC', key, signatureBytes, new TextEncoder().encode(`share:${linkId}`));
+  return valid ? linkId : null;
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  return crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+}
+
+// Stored as "pbkdf2:<iterations>:<salt hex>:<hash hex>"
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, PASSWORD_ITERATIONS);
+  return `pbkdf2:${PASSWORD_ITERATIONS}:${toHex(salt.buffer)}:${toHex(hash)}`;
+}
+
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split(':');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) {
+    return false;
+  }
+
+  const hash = toHex(await derivePasswordHash(password, fromHex(salt), Number(iterations)));
+
+  // Compare without short-circuiting
+  let diff = hash.length ^ expected.length;
+  for (let i = 0; i < Math.min(hash.length, expected.length); i++) {
+    diff |= hash.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function stripMetadata(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(stripMetadata);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key !== 'metadata') {
+        result[key] = stripMetadata(child);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Blocks for a read-only public view: interactive blocks and accessories are
+ * dropped and block metadata removed.
+ */
+export function toPublicBlocks(blocks: unknown): Record<string, any>[] | null {
+  if (!Array.isArray(blocks)) {
+    return null;
+  }
+
+  return blocks
+    .filter(block => block && typeof block === 'object' && !INTERACTIVE_BLOCK_TYPES.has(block.type))
+    .map(block => {
+      const { accessory, ...rest } = stripMetadata(block);
+      return accessory?.type === 'image' ? { ...rest, accessory } : rest;
+    });
+}
@@ -0,0 +1,295 @@
+// Thread imports: normalize our own export documents and ChatGPT conversations.json files into threads to create
+
+import { z } from 'zod';
+import { formatIssuePath } from '../middleware/validation';
+import { artifactBlocksSchema, messageBlocksSchema } from './block-schemas';
+import { EXPORT_VERSION, type ExportAuthor } from './exports';
+import { artifactTypeSchema, messageRoleSchema } from './validation';
+
+// Request bodies are parsed in memory, so larger exports must be split
+export const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+export const MAX_IMPORT_THREADS = 1000;
+export const MAX_IMPORT_MESSAGES = 100_000;
+
+const MAX_TITLE_LENGTH = 200;
+
+export type ImportSource = 'THREAD_EXPORT' | 'CHATGPT';
+export type ImportedRole = z.infer<typeof messageRoleSchema>;
+
+export interface ImportedMessage {
+  role: ImportedRole;
+  // Author recorded in the source; null for assistant messages and ChatGPT's user
+  author: ExportAuthor | null;
+  content: string;
+  blocks: unknown[] | null;
+  createdAt: string | null;
+  sourceId: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface ImportedArtifact {
+  type: z.infer<typeof artifactTypeSchema>;
+  title: string;
+  description: string | null;
+  content: string;
+  blocks: unknown[] | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string | null;
+}
+
+export interface ImportedThread {
+  sourceId: string | null;
+  title: string | null;
+  createdAt: string | null;
+  metadata: Record<string, unknown> | null;
+  messages: ImportedMessage[];
+  artifacts: ImportedArtifact[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  threads: ImportedThread[];
+}
+
+export type ParseImportResult =
+  | { success: true; data: ParsedImport }
+  | { success: false; errors: Record<string, string[]> };
+
+// Our own export document (see renderThreadExport); reactions and attachments are not imported
+const exportAuthorSchema = z.object({
+  name: z.string().nullable(),
+  nick: z.string().nullable().default(null),
+  email: z.string()
+}).nullable();
+
+const threadExportSchema = z.object({
+  schema: z.literal('thread-export'),
+  version: z.literal(EXPORT_VERSION, { message: `Unsupported export version; version ${EXPORT_VERSION} is supported` }),
+  thread: z.object({
+    id: z.string(),
+    title: z.string().nullable(),
+    metadata: z.record(z.string(), z.any()).nullable().default(null),
+    createdAt: z.iso.datetime()
+  }),
+  messages: z.array(z.object({
+    id: z.string(),
+    role: messageRoleSchema,
+    author: exportAuthorSchema,
+    content: z.string(),
+    blocks: z.array(z.any()).nullable(),
+    metadata: z.record(z.string(), z.any()).nullable().default(null),
+    createdAt: z.iso.datetime()
+  })).max(MAX_IMPORT_MESSAGES),
+  artifacts: z.array(z.object({
+    type: artifactTypeSchema,
+    title: z.string().min(1),
+    description: z.string().nullable().default(null),
+    content: z.string(),
+    blocks: z.array(z.any()).nullable(),
+    metadata: z.record(z.string(), z.any()).nullable().default(null),
+    createdAt: z.iso.datetime()
+  })).default([])
+});
+
+// ChatGPT conversations.json: messages form a tree (edits and regenerations branch it)
+// and current_node is the leaf of the branch that was shown last
+const chatGptNodeSchema = z.object({
+  parent: z.string().nullable().optional(),
+  children: z.array(z.string()).optional(),
+  message: z.object({
+    id: z.string().optional(),
+    author: z.object({ role: z.string() }),
+    create_time: z.number().nullable().optional(),
+    content: z.object({
+      content_type: z.string(),
+      parts: z.array(z.unknown()).optional(),
+      text: z.string().optional()
+    }),
+    recipient: z.string().optional(),
+    metadata: z.record(z.string(), z.any()).nullable().optional()
+  }).nullable().optional()
+});
+
+const chatGptConversationSchema = z.object({
+  id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  title: z.string().nullable().optional(),
+  create_time: z.number().nullable().optional(),
+  current_node: z.string().nullable().optional(),
+  mapping: z.record(z.string(), chatGptNodeSchema)
+});
+
+const chatGptExportSchema = z.array(chatGptConversationSchema).min(1).max(MAX_IMPORT_THREADS);
+
+type ChatGptConversation = z.infer<typeof chatGptConversationSchema>;
+type ChatGptMessage = NonNullable<z.infer<typeof chatGptNodeSchema>['message']>;
+
+const CHATGPT_ROLES: Record<string, ImportedRole> = {
+  user: 'USER',
+  assistant: 'ASSISTANT',
+  system: 'SYSTEM'
+};
+
+function fromUnixSeconds(seconds: number | null | undefined): string | null {
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function importTitle(title: string | null | undefined): string | null {
+  const trimmed = title?.trim();
+  return trimmed ? trimmed.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+// Blocks that no longer validate are dropped; the content is their fallback
+function importBlocks(blocks: unknown[] | null, schema: z.ZodType): unknown[] | null {
+  return blocks && schema.safeParse(blocks).success ? blocks : null;
+}
+
+// The text of a ChatGPT message; tool output, browsing results and other internal content are skipped
+function chatGptContent({ content }: ChatGptMessage): string {
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      return (content.parts ?? []).map(part => {
+        if (typeof part === 'string') return part;
+        const object = part as { content_type?: string; text?: string } | null;
+        if (object?.content_type === 'image_asset_pointer') return '[Image]';
+        return typeof object?.text === 'string' ? object.text : '';
+      }).filter(Boolean).join('\n\n').trim();
+    case 'code':
+      return content.text ? `\`\`\`\n${content.text}\n\`\`\`` : '';
+    default:
+      return '';
+  }
+}
+
+// Node IDs of the shown branch, root first
+function chatGptBranch(conversation: ChatGptConversation): string[] {
+  const { mapping } = conversation;
+  let leaf = conversation.current_node && mapping[conversation.current_node] ? conversation.current_node : null;
+
+  if (!leaf) {
+    // Without current_node, follow the latest child from the root
+    leaf = Object.keys(mapping).find(id => !mapping[id].parent || !mapping[mapping[id].parent!]) ?? null;
+    while (leaf && mapping[leaf].children?.length) {
+      const next = mapping[leaf].children![mapping[leaf].children!.length - 1];
+      if (!mapping[next]) break;
+      leaf = next;
+    }
+  }
+
+  const branch: string[] = [];
+  const seen = new Set<string>();
+  for (let id = leaf; id && mapping[id] && !seen.has(id); id = mapping[id].parent ?? null) {
+    seen.add(id);
+    branch.push(id);
+  }
+  return branch.reverse();
+}
+
+function fromChatGptConversation(conversation: ChatGptConversation): ImportedThread {
+  const messages: ImportedMessage[] = [];
+
+  for (const nodeId of chatGptBranch(conversation)) {
+    const message = conversation.mapping[nodeId].message;
+    const role = message && CHATGPT_ROLES[message.author.role];
+    if (!message || !role) continue;
+    if (message.metadata?.is_visually_hidden_from_conversation) continue;
+    // Assistant messages addressed to a tool are tool calls, not replies
+    if (message.recipient && message.recipient !== 'all') continue;
+
+    const content = chatGptContent(message);
+    if (!content) continue;
+
+    messages.push({
+      role,
+      author: null,
+      content,
+      blocks: null,
+      createdAt: fromUnixSeconds(message.create_time),
+      sourceId: message.id ?? nodeId,
+      metadata: typeof message.metadata?.model_slug === 'string' ? { model: message.metadata.model_slug } : null
+    });
+  }
+
+  return {
+    sourceId: conversation.id ?? conversation.conversation_id ?? null,
+    title: importTitle(conversation.title),
+    createdAt: fromUnixSeconds(conversation.create_time) ?? messages[0]?.createdAt ?? null,
+    metadata: null,
+    messages,
+    artifacts: []
+  };
+}
+
+function toErrors(error: z.ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const field = formatIssuePath(issue.path) || 'body';
+    (errors[field] ??= []).push(issue.message);
+  }
+  return errors;
+}
+
+/**
+ * Recognize and normalize an import: a thread export document (one thread) or
+ * a ChatGPT conversations.json array (a thread per conversation; a single
+ * conversation object is accepted too). Errors are keyed by field path.
+ */
+export function parseImportPayload(payload: unknown): ParseImportResult {
+  if (payload && typeof payload === 'object' && 'schema' in payload) {
+    const parsed = threadExportSchema.safeParse(payload);
+    if (!parsed.success) return { success: false, errors: toErrors(parsed.error) };
+
+    const { thread, messages, artifacts } = parsed.data;
+    return {
+      success: true,
+      data: {
+        source: 'THREAD_EXPORT',
+        threads: [{
+          sourceId: thread.id,
+          title: importTitle(thread.title),
+          createdAt: thread.createdAt,
+          metadata: thread.metadata,
+          messages: messages.map(message => ({
+            role: message.role,
+            author: message.author,
+            content: message.content,
+            blocks: importBlocks(message.blocks, messageBlocksSchema),
+            createdAt: message.createdAt,
+            sourceId: message.id,
+            metadata: message.metadata
+          })),
+          artifacts: artifacts.map(artifact => ({
+            ...artifact,
+            blocks: importBlocks(artifact.blocks, artifactBlocksSchema)
+          }))
+        }]
+      }
+    };
+  }
+
+  const conversations = payload && typeof payload === 'object' && 'mapping' in payload ? [payload] : payload;
+  if (!Array.isArray(conversations)) {
+    return {
+      success: false,
+      errors: { body: ['Expected a thread export document or a ChatGPT conversations.json array'] }
+    };
+  }
+
+  const parsed = chatGptExportSchema.safeParse(conversations);
+  if (!parsed.success) return { success: false, errors: toErrors(parsed.error) };
+
+  const threads = parsed.data.map(fromChatGptConversation).filter(thread => thread.messages.length > 0);
+  if (threads.length === 0) {
+    return { success: false, errors: { body: ['The conversations contain no messages to import'] } };
+  }
+  if (countImportMessages(threads) > MAX_IMPORT_MESSAGES) {
+    return { success: false, errors: { body: [`Imports are limited to ${MAX_IMPORT_MESSAGES} messages; split the export`] } };
+  }
+
+  return { success: true, data: { source: 'CHATGPT', threads } };
+}
+
+export function countImportMessages(threads: ImportedThread[]): number {
+  return threads.reduce((total, thread) => total + thread.messages.length, 0);
+}
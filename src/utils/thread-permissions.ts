@@ -0,0 +1,39 @@
+// Thread sharing: member roles and what each role may do
+
+export const THREAD_ROLES = ['OWNER', 'EDITOR', 'COMMENTER', 'VIEWER'] as const;
+
+export type ThreadRole = typeof THREAD_ROLES[number];
+
+// view: read the thread, its messages, artifacts and reactions, subscribe to updates
+// comment: post messages and reactions, edit or delete one's own messages
+// edit: change the thread, manage artifacts, edit or delete anyone's messages
+// manage: invite and remove members, change roles, delete the thread
+export type ThreadPermission = 'view' | 'comment' | 'edit' | 'manage';
+
+const ROLE_PERMISSIONS: Record<ThreadRole, ThreadPermission[]> = {
+  OWNER: ['view', 'comment', 'edit', 'manage'],
+  EDITOR: ['view', 'comment', 'edit'],
+  COMMENTER: ['view', 'comment'],
+  VIEWER: ['view']
+};
+
+export function hasThreadPermission(role: ThreadRole | null | undefined, permission: ThreadPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Members are matched by email so people can be invited before their first sign-in
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Prisma filter for the threads a user can see: created by them or shared with them.
+ */
+export function accessibleThreadsWhere(user: { id: string; email: string }) {
+  return {
+    OR: [
+      { userId: user.id },
+      { members: { some: { email: normalizeEmail(user.email) } } }
+    ]
+  };
+}
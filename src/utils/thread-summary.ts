@@ -0,0 +1,135 @@
+// Thread titles and summaries: prompts for the AI provider and cleanup of what it returns
+
+import type { ChatMessage } from '../types/completions';
+
+export const TITLE_MAX_LENGTH = 80;
+// Messages between updates of the rolling summary, unless THREAD_SUMMARY_INTERVAL says otherwise
+export const DEFAULT_SUMMARY_INTERVAL = 20;
+
+// Longest message text put in a transcript; the rest is cut
+const TRANSCRIPT_MESSAGE_CHARS = 2000;
+// Longest transcript sent to the provider; the oldest messages are left out first
+const TRANSCRIPT_MAX_CHARS = 24_000;
+
+// Rolling summary kept in Thread.metadata.summary
+export interface ThreadSummary {
+  text: string;
+  // Number of messages, oldest first, that the summary covers
+  messageCount: number;
+  updatedAt: string;
+}
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  user?: { name: string | null; nick: string | null } | null;
+}
+
+export function getThreadSummary(metadata: unknown): ThreadSummary | null {
+  const summary = (metadata as { summary?: Partial<ThreadSummary> } | null)?.summary;
+  if (!summary || typeof summary.text !== 'string' || typeof summary.messageCount !== 'number') {
+    return null;
+  }
+  return { text: summary.text, messageCount: summary.messageCount, updatedAt: String(summary.updatedAt ?? '') };
+}
+
+export function getSummaryInterval(value: string | undefined): number {
+  const interval = Number(value);
+  return Number.isInteger(interval) && interval > 0 ? interval : DEFAULT_SUMMARY_INTERVAL;
+}
+
+/**
+ * Render messages as "Speaker: text" lines, oldest first. When the whole
+ * transcript is too long, the oldest messages are dropped.
+ */
+export function formatTranscript(messages: TranscriptMessage[]): string {
+  const lines = messages.map(message => {
+    const speaker = message.role === 'USER'
+      ? `User${message.user?.name || message.user?.nick ? ` (${message.user.name || message.user.nick})` : ''}`
+      : message.role === 'ASSISTANT' ? 'Assistant' : 'System';
+    const text = message.content.length > TRANSCRIPT_MESSAGE_CHARS
+      ? `${message.content.slice(0, TRANSCRIPT_MESSAGE_CHARS)}...`
+      : message.content;
+    return `${speaker}: ${text}`;
+  });
+
+  let length = 0;
+  let start = lines.length;
+  while (start > 0 && length + lines[start - 1].length <= TRANSCRIPT_MAX_CHARS) {
+    length += lines[--start].length + 2;
+  }
+  // Always keep the latest message, cut if need be
+  if (start === lines.length && lines.length > 0) {
+    return lines[lines.length - 1].slice(0, TRANSCRIPT_MAX_CHARS);
+  }
+  return lines.slice(start).join('\n\n');
+}
+
+export function buildTitlePrompt(transcript: string): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: 'Write a short title, at most eight words, for the conversation the user sends. ' +
+        'Reply with the title only: no quotes and no closing punctuation.'
+    },
+    { role: 'user', content: transcript }
+  ];
+}
+
+export function buildSummaryPrompt(previous: string | null, transcript: string): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: 'You keep a running summary of a conversation. Update the summary with the new messages the user sends, ' +
+        'keeping decisions, open questions and facts worth remembering. Reply with the summary only, in at most 200 words.'
+    },
+    {
+      role: 'user',
+      content: previous
+        ? `New messages:\n\n${transcript}\n\nSummary so far:\n\n${previous}`
+        : `New messages:\n\n${transcript}`
+    }
+  ];
+}
+
+export function buildInsightPrompt(summary: string | null, transcript: string): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: 'Summarize the conversation the user sends as a short report in markdown: an overview paragraph, ' +
+        'then "Key points", "Decisions" and "Open questions" sections as bullet lists. Leave out empty sections.'
+    },
+    {
+      role: 'user',
+      content: summary
+        ? `Conversation:\n\n${transcript}\n\nSummary of earlier messages:\n\n${summary}`
+        : `Conversation:\n\n${transcript}`
+    }
+  ];
+}
+
+/**
+ * Turn a model reply into a thread title: the first line, without a "Title:"
+ * label, markdown markers or quotes, cut at a word boundary. Null when
+ * nothing usable is left.
+ */
+export function cleanTitle(reply: string): string | null {
+  const line = reply.split('\n').map(text => text.trim()).find(Boolean) ?? '';
+  let title = line
+    .replace(/^#+\s*/, '')
+    .replace(/^(\*\*|__)/, '')
+    .replace(/(\*\*|__)$/, '')
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^["'“‘`]+|["'”’`]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.:;,]+$/, '');
+
+  if (title.length > TITLE_MAX_LENGTH) {
+    const cut = title.slice(0, TITLE_MAX_LENGTH + 1);
+    const space = cut.lastIndexOf(' ');
+    title = (space > TITLE_MAX_LENGTH / 2 ? cut.slice(0, space) : cut.slice(0, TITLE_MAX_LENGTH)).trimEnd();
+  }
+
+  return title || null;
+}
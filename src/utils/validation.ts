@@ -1,6 +1,9 @@
 // Validation schemas using Zod
 
 import { z } from 'zod';
+import { MAX_FILE_SIZE, MAX_PART_SIZE, MIN_PART_SIZE } from './files';
+import { THREAD_ROLES } from './thread-permissions';
+import { messageBlocksSchema, artifactBlocksSchema } from './block-schemas';
 
 // Common validation patterns
 export const cuidSchema = z.string().regex(/^[a-z0-9]{25}$/, 'Invalid ID format');
@@ -12,6 +15,7 @@ export const userRoleSchema = z.enum(['ADMIN', 'USER']);
 export const threadStatusSchema = z.enum(['ACTIVE', 'ARCHIVED', 'DELETED']);
 export const messageRoleSchema = z.enum(['USER', 'ASSISTANT', 'SYSTEM']);
 export const artifactTypeSchema = z.enum(['INSIGHT', 'REPORT', 'DASHBOARD', 'PDF', 'REFERENCE']);
+export const threadRoleSchema = z.enum(THREAD_ROLES);
 
 // User schemas
 export const createUserSchema = z.object({
@@ -43,22 +47,42 @@ export const updateThreadSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional()
 });
 
+// Thread member schemas
+export const addThreadMemberSchema = z.object({
+  email: emailSchema,
+  role: threadRoleSchema.default('VIEWER')
+});
+
+export const updateThreadMemberSchema = z.object({
+  role: threadRoleSchema
+});
+
+// Share link schemas
+export const createShareLinkSchema = z.object({
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), 'Expiry must be in the future').optional(),
+  password: z.string().min(8).max(128).optional()
+});
+
 // Message schemas
+// Content may be left out when blocks are sent; the route renders them as the fallback text
 export const createMessageSchema = z.object({
   role: messageRoleSchema,
-  content: z.string().min(1).max(50000),
+  content: z.string().min(1).max(50000).optional(),
   userId: cuidSchema.optional(), // Optional, required only for USER messages
-  blocks: z.array(z.record(z.string(), z.any())).optional(),
+  blocks: messageBlocksSchema.optional(),
   attachments: z.array(z.object({
     file_id: cuidSchema,
     title: z.string().min(1).max(255)
   })).optional(),
   metadata: z.record(z.string(), z.any()).optional()
+}).refine(message => message.content !== undefined || (message.blocks?.length ?? 0) > 0, {
+  message: 'Content is required unless blocks are provided',
+  path: ['content']
 });
 
 export const updateMessageSchema = z.object({
   content: z.string().min(1).max(50000).optional(),
-  blocks: z.array(z.record(z.string(), z.any())).optional(),
+  blocks: messageBlocksSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional()
 });
 
@@ -73,20 +97,29 @@ export const createFileSchema = z.object({
   filename: z.string().min(1).max(255),
   originalName: z.string().min(1).max(255),
   mimeType: z.string().min(1).max(100),
-  size: z.number().int().positive().max(104857600), // 100MB max
+  size: z.number().int().positive().max(MAX_FILE_SIZE), // 100MB max
   checksum: z.string().optional(),//.regex(/^sha256:[a-f0-9]{64}$/, 'Invalid checksum format'),
   storageUrl: urlSchema,
   previewUrl: urlSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional()
 });
 
+// Resumable upload sessions; the description/tags/visibility fields are kept as file metadata
+export const createUploadSessionSchema = fileUploadSchema.extend({
+  filename: z.string().min(1).max(255),
+  mimeType: z.string().min(1).max(100).optional(),
+  size: z.number().int().positive().max(MAX_FILE_SIZE), // 100MB max
+  partSize: z.number().int().min(MIN_PART_SIZE).max(MAX_PART_SIZE).optional(),
+  checksum: z.string().regex(/^sha256:[a-f0-9]{64}$/, 'Invalid checksum format').optional()
+});
+
 // Artifact schemas
 export const createArtifactSchema = z.object({
   type: artifactTypeSchema,
   title: z.string().min(1).max(200),
   description: z.string().max(1000).optional(),
   content: z.string().min(1),
-  blocks: z.array(z.record(z.string(), z.any())).optional(),
+  blocks: artifactBlocksSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional()
 });
 
@@ -94,7 +127,7 @@ export const updateArtifactSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   description: z.string().max(1000).optional(),
   content: z.string().min(1).optional(),
-  blocks: z.array(z.record(z.string(), z.any())).optional(),
+  blocks: artifactBlocksSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional()
 });
 
@@ -104,6 +137,15 @@ export const addReactionSchema = z.object({
   action: z.enum(['add', 'remove'])
 });
 
+// Form submission schemas: values keyed by the input's action_id,
+// checked against the message's input blocks by the route
+export const submitFormSchema = z.object({
+  values: z.record(
+    z.string().min(1).max(255),
+    z.union([z.string().max(3000), z.array(z.string().max(150)).max(100)])
+  )
+});
+
 // Authentication schemas
 export const authRequestSchema = z.object({
   googleToken: z.string().min(1)
@@ -155,6 +197,44 @@ export const fileQuerySchema = paginationQuerySchema.extend({
   createdBefore: z.coerce.date().optional()
 });
 
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  type: z.enum(['message', 'thread', 'artifact']).optional(),
+  threadId: cuidSchema.optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+export const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  model: z.string().min(1).max(100).optional()
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['md', 'html', 'json', 'pdf']).default('md')
+});
+
+// Token quota schemas
+const tokenLimitSchema = z.number().int().positive().nullable();
+
+export const createTokenQuotaSchema = z.object({
+  userId: cuidSchema.optional(),
+  role: userRoleSchema.optional(),
+  model: z.string().min(1).max(100).optional(),
+  dailyTokens: tokenLimitSchema.optional(),
+  monthlyTokens: tokenLimitSchema.optional()
+}).refine(data => (data.userId === undefined) !== (data.role === undefined), {
+  message: 'Exactly one of userId or role is required'
+}).refine(data => data.dailyTokens != null || data.monthlyTokens != null, {
+  message: 'At least one of dailyTokens or monthlyTokens is required'
+});
+
+export const updateTokenQuotaSchema = z.object({
+  dailyTokens: tokenLimitSchema.optional(),
+  monthlyTokens: tokenLimitSchema.optional()
+});
+
 // Header schemas
 export const authHeaderSchema = z.object({
   authorization: z.string().regex(/^Bearer .+$/, 'Invalid authorization header format')
@@ -200,28 +280,95 @@ export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type CreateThreadInput = z.infer<typeof createThreadSchema>;
 export type UpdateThreadInput = z.infer<typeof updateThreadSchema>;
+export type AddThreadMemberInput = z.infer<typeof addThreadMemberSchema>;
+export type UpdateThreadMemberInput = z.infer<typeof updateThreadMemberSchema>;
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
 export type CreateMessageInput = z.infer<typeof createMessageSchema>;
 export type UpdateMessageInput = z.infer<typeof updateMessageSchema>;
 export type FileUploadInput = z.infer<typeof fileUploadSchema>;
 export type CreateFileInput = z.infer<typeof createFileSchema>;
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionSchema>;
 export type CreateArtifactInput = z.infer<typeof createArtifactSchema>;
 export type UpdateArtifactInput = z.infer<typeof updateArtifactSchema>;
 export type AddReactionInput = z.infer<typeof addReactionSchema>;
 export type AuthRequestInput = z.infer<typeof authRequestSchema>;
 export type InteractiveActionInput = z.infer<typeof interactiveActionSchema>;
+export type SubmitFormInput = z.infer<typeof submitFormSchema>;
 export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
 export type ThreadQuery = z.infer<typeof threadQuerySchema>;
 export type MessageQuery = z.infer<typeof messageQuerySchema>;
 export type ArtifactQuery = z.infer<typeof artifactQuerySchema>;
 export type FileQuery = z.infer<typeof fileQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type UsageQuery = z.infer<typeof usageQuerySchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type CreateTokenQuotaInput = z.infer<typeof createTokenQuotaSchema>;
+export type UpdateTokenQuotaInput = z.infer<typeof updateTokenQuotaSchema>;
 
 // Chat completion schemas
+const toolNameSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Names may only contain a-z, A-Z, 0-9, _ and -, up to 64 characters');
+
+export const toolCallSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal('function'),
+  function: z.object({
+    name: toolNameSchema,
+    arguments: z.string() // JSON text, as generated by the model
+  })
+});
+
 export const chatMessageSchema = z.object({
-  role: z.enum(['system', 'user', 'assistant']),
-  content: z.string().min(1),
-  name: z.string().optional()
+  role: z.enum(['system', 'user', 'assistant', 'tool']),
+  // Null for assistant messages that only call tools
+  content: z.string().nullable().default(null),
+  name: z.string().optional(),
+  tool_calls: z.array(toolCallSchema).min(1).optional(),
+  tool_call_id: z.string().min(1).optional()
+}).refine(message => message.role === 'assistant' && message.tool_calls
+  ? true
+  : message.content !== null && (message.content.length > 0 || message.role === 'tool'), {
+  message: 'content is required',
+  path: ['content']
+}).refine(message => !message.tool_calls || message.role === 'assistant', {
+  message: 'Only assistant messages can have tool_calls',
+  path: ['tool_calls']
+}).refine(message => (message.role === 'tool') === (message.tool_call_id !== undefined), {
+  message: 'tool_call_id is required on tool messages and allowed on no others',
+  path: ['tool_call_id']
 });
 
+export const chatCompletionToolSchema = z.object({
+  type: z.literal('function'),
+  function: z.object({
+    name: toolNameSchema,
+    description: z.string().optional(),
+    parameters: z.record(z.string(), z.unknown()).optional(), // JSON Schema of the arguments
+    strict: z.boolean().optional()
+  })
+});
+
+export const toolChoiceSchema = z.union([
+  z.enum(['none', 'auto', 'required']),
+  z.object({
+    type: z.literal('function'),
+    function: z.object({ name: toolNameSchema })
+  })
+]);
+
+export const responseFormatSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text') }),
+  z.object({ type: z.literal('json_object') }),
+  z.object({
+    type: z.literal('json_schema'),
+    json_schema: z.object({
+      name: toolNameSchema,
+      description: z.string().optional(),
+      schema: z.record(z.string(), z.unknown()).optional(),
+      strict: z.boolean().nullable().optional()
+    })
+  })
+]);
+
 export const chatCompletionRequestSchema = z.object({
   messages: z.array(chatMessageSchema).min(1),
   model: z.string().optional(), // Optional - will use default if not provided
@@ -235,8 +382,25 @@ export const chatCompletionRequestSchema = z.object({
   frequency_penalty: z.number().min(-2).max(2).optional(),
   logit_bias: z.record(z.string(), z.number()).optional(),
   user: z.string().optional(),
+  // Tool calling and structured output, as in the OpenAI API
+  tools: z.array(chatCompletionToolSchema).min(1).max(128).optional(),
+  tool_choice: toolChoiceSchema.optional(),
+  parallel_tool_calls: z.boolean().optional(),
+  response_format: responseFormatSchema.optional(),
   // Custom extension for thread integration
-  thread_id: cuidSchema.optional()
+  thread_id: cuidSchema.optional(),
+  // Send the thread's stored history ahead of the request's messages
+  include_thread_history: z.boolean().optional()
+}).refine(data => !data.include_thread_history || data.thread_id, {
+  message: 'include_thread_history requires thread_id',
+  path: ['include_thread_history']
+}).refine(data => data.tool_choice === undefined || data.tool_choice === 'none' || data.tools, {
+  message: 'tool_choice requires tools',
+  path: ['tool_choice']
+}).refine(({ tools, tool_choice }) => typeof tool_choice !== 'object'
+  || Boolean(tools?.some(tool => tool.function.name === tool_choice.function.name)), {
+  message: 'tool_choice names a function that is not in tools',
+  path: ['tool_choice']
 });
 
 export type ChatCompletionRequestInput = z.infer<typeof chatCompletionRequestSchema>;
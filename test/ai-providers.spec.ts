@@ -0,0 +1,304 @@
+// Unit tests for the provider registry and the provider adapters
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MockAIProvider, OpenAICompatibleProvider, OpenAIProvider, AzureWorkflowProvider, ProviderError } from '../src/services/ai-provider';
+import { AnthropicProvider, toAnthropicMessages } from '../src/services/anthropic-provider';
+import { WorkersAIProvider } from '../src/services/workers-ai-provider';
+import { createAIProvider, listModels } from '../src/services/provider-registry';
+import type { ChatCompletionStreamChunk } from '../src/types/completions';
+
+function eventStream(...events: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      events.forEach(event => controller.enqueue(encoder.encode(event)));
+      controller.close();
+    }
+  });
+}
+
+async function collect(stream: AsyncGenerator<ChatCompletionStreamChunk>): Promise<ChatCompletionStreamChunk[]> {
+  const chunks: ChatCompletionStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const ai = { run: vi.fn() };
+
+const env = {
+  OPENAI_API_KEY: 'sk-openai',
+  ANTHROPIC_API_KEY: 'sk-ant',
+  AI: ai,
+  OPENAI_COMPATIBLE_BASE_URL: 'http://llm.internal:8000/v1/',
+  OPENAI_COMPATIBLE_MODELS: 'llama3, qwen2.5'
+};
+
+describe('AI Providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ai.run.mockReset();
+  });
+
+  describe('Provider registry', () => {
+    it('should pick the provider by model id prefix', () => {
+      expect(createAIProvider(env, 'gpt-4o')).toBeInstanceOf(OpenAIProvider);
+      expect(createAIProvider(env, 'claude-sonnet-4-20250514')).toBeInstanceOf(AnthropicProvider);
+      expect(createAIProvider(env, '@cf/meta/llama-3.1-8b-instruct')).toBeInstanceOf(WorkersAIProvider);
+      expect(createAIProvider(env, 'local/llama3')).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(createAIProvider(env, 'azure/SimpleAgent')).toBeInstanceOf(AzureWorkflowProvider);
+      // Unknown models go to the default provider
+      expect(createAIProvider(env, 'ft:my-model')).toBeInstanceOf(OpenAIProvider);
+    });
+
+    it('should fall back to the mock provider when the provider is not configured', () => {
+      expect(createAIProvider({}, 'gpt-4o')).toBeInstanceOf(MockAIProvider);
+      expect(createAIProvider({ OPENAI_API_KEY: 'sk-openai' }, 'claude-sonnet-4-20250514')).toBeInstanceOf(MockAIProvider);
+      expect(createAIProvider({})).toBeInstanceOf(MockAIProvider);
+    });
+
+    it('should list the models of every configured provider', () => {
+      const ids = listModels(env).map(model => model.id);
+
+      expect(ids).toEqual(expect.arrayContaining([
+        'gpt-4o',
+        'claude-sonnet-4-20250514',
+        '@cf/meta/llama-3.1-8b-instruct',
+        'local/llama3',
+        'local/qwen2.5',
+        'azure/SimpleAgent'
+      ]));
+      expect(new Set(ids).size).toBe(ids.length);
+
+      const unconfigured = listModels({}).map(model => model.id);
+      expect(unconfigured).toContain('gpt-4o');
+      expect(unconfigured.some(id => id.startsWith('claude-') || id.startsWith('local/'))).toBe(false);
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should translate requests and responses of the Messages API', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-20250514',
+        content: [{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'there' }],
+        stop_reason: 'max_tokens',
+        usage: { input_tokens: 12, output_tokens: 5 }
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const completion = await new AnthropicProvider('sk-ant').generateCompletion({
+        model: 'claude-sonnet-4-20250514',
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hi' }
+        ],
+        temperature: 1.5,
+        stop: 'END'
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+      expect(JSON.parse(init.body)).toMatchObject({
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 4096,
+        system: 'Be brief',
+        messages: [{ role: 'user', content: 'Hi' }],
+        temperature: 1,
+        stop_sequences: ['END'],
+        stream: false
+      });
+
+      expect(completion).toMatchObject({
+        id: 'msg_1',
+        object: 'chat.completion',
+        model: 'claude-sonnet-4-20250514',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello there' }, finish_reason: 'length' }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+      });
+    });
+
+    it('should translate stream events to completion chunks', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(eventStream(
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"claude-sonnet-4-20250514","usage":{"input_tokens":9}}}\n\n',
+        'event: ping\ndata: {"type":"ping"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}}\n\nevent: content_bl',
+        'ock_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":2}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+      ))));
+
+      const chunks = await collect(new AnthropicProvider('sk-ant').generateStreamingCompletion({
+        model: 'claude-sonnet-4-20250514',
+        messages: [{ role: 'user', content: 'Hi' }]
+      }));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta)).toEqual([
+        { role: 'assistant', content: '' },
+        { content: 'Hel' },
+        { content: 'lo' },
+        {}
+      ]);
+      expect(chunks.every(chunk => chunk.id === 'msg_1' && chunk.object === 'chat.completion.chunk')).toBe(true);
+      expect(chunks[3].choices[0].finish_reason).toBe('stop');
+      expect(chunks[3].usage).toEqual({ prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 });
+    });
+
+    it('should throw a provider error for failed requests', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('overloaded', { status: 529 })));
+
+      const error = await new AnthropicProvider('sk-ant')
+        .generateCompletion({ model: 'claude-sonnet-4-20250514', messages: [{ role: 'user', content: 'Hi' }] })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error).toMatchObject({ provider: 'Anthropic', status: 529 });
+    });
+
+    it('should translate tools, tool calls and tool results', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        id: 'msg_2',
+        model: 'claude-sonnet-4-20250514',
+        content: [{ type: 'tool_use', id: 'toolu_2', name: 'get_time', input: { zone: 'Europe/Lisbon' } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 40, output_tokens: 12 }
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const completion = await new AnthropicProvider('sk-ant').generateCompletion({
+        model: 'claude-sonnet-4-20250514',
+        messages: [
+          { role: 'user', content: 'Weather and time in Lisbon?' },
+          { role: 'assistant', content: null, tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' } }] },
+          { role: 'tool', content: 'sunny', tool_call_id: 'toolu_1' }
+        ],
+        tools: [{ type: 'function', function: { name: 'get_time', parameters: { type: 'object', properties: { zone: { type: 'string' } } } } }],
+        tool_choice: 'required',
+        parallel_tool_calls: false
+      });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        messages: [
+          { role: 'user', content: 'Weather and time in Lisbon?' },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Lisbon' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'sunny' }] }
+        ],
+        tools: [{ name: 'get_time', input_schema: { type: 'object', properties: { zone: { type: 'string' } } } }],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true }
+      });
+      expect(completion.choices[0]).toEqual({
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'toolu_2', type: 'function', function: { name: 'get_time', arguments: '{"zone":"Europe/Lisbon"}' } }]
+        },
+        finish_reason: 'tool_calls'
+      });
+    });
+
+    it('should stream tool_use blocks as delta.tool_calls', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(eventStream(
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_3","model":"claude-sonnet-4-20250514","usage":{"input_tokens":9}}}\n\n',
+        'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"tool_use","id":"toolu_3","name":"get_time","input":{}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"{\\"zone\\":"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"\\"UTC\\"}"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"tool_use"},"usage":{"output_tokens":8}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+      ))));
+
+      const chunks = await collect(new AnthropicProvider('sk-ant').generateStreamingCompletion({
+        model: 'claude-sonnet-4-20250514',
+        messages: [{ role: 'user', content: 'Time?' }]
+      }));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.tool_calls)).toEqual([
+        undefined,
+        [{ index: 0, id: 'toolu_3', type: 'function', function: { name: 'get_time', arguments: '' } }],
+        [{ index: 0, function: { arguments: '{"zone":' } }],
+        [{ index: 0, function: { arguments: '"UTC"}' } }],
+        undefined
+      ]);
+      expect(chunks[4].choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should merge consecutive turns of the same role and start with the user', () => {
+      expect(toAnthropicMessages({
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'assistant', content: 'Welcome back' },
+          { role: 'user', content: 'Hi' },
+          { role: 'user', content: 'Are you there?' }
+        ]
+      })).toEqual([
+        { role: 'user', content: '(continued)' },
+        { role: 'assistant', content: 'Welcome back' },
+        { role: 'user', content: 'Hi\n\nAre you there?' }
+      ]);
+    });
+  });
+
+  describe('WorkersAIProvider', () => {
+    it('should run the model through the AI binding', async () => {
+      ai.run.mockResolvedValue({ response: 'Hello', usage: { prompt_tokens: 7, completion_tokens: 1, total_tokens: 8 } });
+
+      const completion = await new WorkersAIProvider(ai).generateCompletion({
+        model: '@cf/meta/llama-3.1-8b-instruct',
+        messages: [{ role: 'user', content: 'Hi', name: 'Ada' }]
+      });
+
+      expect(ai.run).toHaveBeenCalledWith('@cf/meta/llama-3.1-8b-instruct', {
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 1024,
+        stream: false
+      });
+      expect(completion).toMatchObject({
+        model: '@cf/meta/llama-3.1-8b-instruct',
+        choices: [{ message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 7, completion_tokens: 1, total_tokens: 8 }
+      });
+    });
+
+    it('should stream the response tokens', async () => {
+      ai.run.mockResolvedValue(eventStream(
+        'data: {"response":"Hel"}\n\ndata: {"response":"lo"}\n\n',
+        'data: {"response":"","usage":{"prompt_tokens":7,"completion_tokens":2,"total_tokens":9}}\n\n',
+        'data: [DONE]\n\n'
+      ));
+
+      const chunks = await collect(new WorkersAIProvider(ai).generateStreamingCompletion({
+        model: '@cf/meta/llama-3.1-8b-instruct',
+        messages: [{ role: 'user', content: 'Hi' }]
+      }));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo', undefined]);
+      expect(chunks[2].choices[0].finish_reason).toBe('stop');
+      expect(chunks[2].usage).toEqual({ prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 });
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should call the configured base URL without the local/ prefix', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'llama3',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = createAIProvider(env, 'local/llama3');
+      const completion = await provider.generateCompletion({ model: 'local/llama3', messages: [{ role: 'user', content: 'Hi' }] });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://llm.internal:8000/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body).model).toBe('llama3');
+      expect(completion.model).toBe('local/llama3');
+    });
+  });
+});
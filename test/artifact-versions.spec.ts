@@ -0,0 +1,109 @@
+// Unit tests for writing artifact versions
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArtifactVersionError, ArtifactVersionService } from '../src/services/artifact-version-service';
+
+const USER_ID = 'ck9x8v7b600034l5r8jlkf0u1';
+
+const ARTIFACT = {
+  id: 'ck9x8v7b600034l5r8jlkf0a1',
+  version: 1,
+  title: 'Plan',
+  description: null,
+  content: 'Day one: Alfama',
+  blocks: null,
+  metadata: null
+};
+
+function prismaError(code: string) {
+  return Object.assign(new Error(`Prisma error ${code}`), { code });
+}
+
+// An in-memory artifact table and version history. Writes are queued and run by
+// $transaction, which keeps a batch only if every write in it succeeded, like a D1 batch.
+function createDatabase() {
+  const state = { artifact: { ...ARTIFACT } as Record<string, any>, versions: [] as Record<string, any>[] };
+
+  const apply = (next: typeof state, write: { model: string; args: any }) => {
+    if (write.model === 'artifact') {
+      if (write.args.where.version !== next.artifact.version) throw prismaError('P2025');
+      next.artifact = { ...next.artifact, ...write.args.data };
+      return next.artifact;
+    }
+    if (next.versions.some(version => version.version === write.args.data.version)) throw prismaError('P2002');
+    next.versions.push(write.args.data);
+    return write.args.data;
+  };
+
+  const prisma = {
+    artifact: {
+      findUnique: vi.fn(async () => ({ ...state.artifact })),
+      update: vi.fn((args: any) => ({ model: 'artifact', args }))
+    },
+    artifactVersion: {
+      create: vi.fn((args: any) => ({ model: 'artifactVersion', args }))
+    },
+    $transaction: vi.fn(async (writes: { model: string; args: any }[]) => {
+      // Let concurrent requests interleave between reading and writing
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const next = { artifact: { ...state.artifact }, versions: [...state.versions] };
+      const results = writes.map(write => apply(next, write));
+      Object.assign(state, next);
+      return results;
+    })
+  };
+
+  return { prisma, state };
+}
+
+describe('Artifact Versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should apply concurrent edits one after the other without gaps in the history', async () => {
+    const { prisma, state } = createDatabase();
+
+    // Both requests read version 1 before either wrote
+    const [first, second] = await Promise.all([
+      ArtifactVersionService.writeVersion(prisma, ARTIFACT, { title: 'Plan A' }, USER_ID),
+      ArtifactVersionService.writeVersion(prisma, ARTIFACT, { content: 'Day one: Belém' }, USER_ID)
+    ]);
+
+    expect(first.version).toBe(2);
+    expect(second).toMatchObject({ version: 3, title: 'Plan A', content: 'Day one: Belém' });
+    expect(state.artifact.version).toBe(3);
+    expect(state.versions).toEqual([
+      expect.objectContaining({ version: 2, title: 'Plan A', content: 'Day one: Alfama', createdBy: USER_ID }),
+      expect.objectContaining({ version: 3, title: 'Plan A', content: 'Day one: Belém', createdBy: USER_ID })
+    ]);
+  });
+
+  it('should report a conflict when the artifact keeps changing', async () => {
+    const { prisma, state } = createDatabase();
+    prisma.$transaction.mockRejectedValue(prismaError('P2002'));
+
+    const write = ArtifactVersionService.writeVersion(prisma, ARTIFACT, { title: 'Plan A' }, USER_ID);
+
+    await expect(write).rejects.toBeInstanceOf(ArtifactVersionError);
+    await expect(write).rejects.toMatchObject({ status: 409, title: 'Version Conflict' });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+    expect(state.versions).toEqual([]);
+  });
+
+  it('should restore an earlier version as a new one', async () => {
+    const { prisma, state } = createDatabase();
+    state.artifact = { ...ARTIFACT, version: 5, title: 'Plan E' };
+
+    const restored = await ArtifactVersionService.restore(prisma, state.artifact as typeof ARTIFACT, {
+      version: 2,
+      title: 'Plan B',
+      content: 'Day one: Sintra'
+    }, USER_ID);
+
+    expect(restored).toMatchObject({ version: 6, title: 'Plan B', content: 'Day one: Sintra' });
+    expect(state.versions).toEqual([
+      expect.objectContaining({ version: 6, title: 'Plan B', restoredFrom: 2 })
+    ]);
+  });
+});
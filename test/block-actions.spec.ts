@@ -0,0 +1,215 @@
+// Unit tests for interactive block actions
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  findActionTarget,
+  findActionWebhook,
+  signActionPayload,
+  getActionResponseType
+} from '../src/utils/block-actions';
+import { ActionService, ActionError } from '../src/services/action-service';
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: vi.fn()
+}));
+
+const USER = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'user@example.com',
+  name: 'Test User',
+  nick: null,
+  role: 'USER',
+  avatarUrl: null
+};
+
+const button = (action_id: string, extra: Record<string, unknown> = {}) => ({
+  type: 'button',
+  text: { type: 'plain_text', text: action_id },
+  action_id,
+  ...extra
+});
+
+const blocks = [
+  { type: 'section', text: { type: 'mrkdwn', text: 'Approve the budget?' }, accessory: button('details') },
+  { type: 'actions', block_id: 'decision', elements: [button('approval_yes', { value: 'yes' }), button('dismiss')] },
+  { type: 'navigation_rail', items: [{ id: 'home', label: 'Home', children: [{ id: 'reports', label: 'Reports', action_id: 'open_reports' }] }] }
+];
+
+const message = {
+  id: 'ck9x8v7b600034l5r8jlkf0m1',
+  threadId: 'ck9x8v7b600034l5r8jlkf0t1',
+  userId: USER.id,
+  role: 'USER',
+  content: 'Approve the budget?',
+  blocks
+};
+
+function action(action_id: string, extra: Record<string, unknown> = {}) {
+  return {
+    action_id,
+    thread_id: message.threadId,
+    message_id: message.id,
+    user_id: USER.id,
+    ...extra
+  };
+}
+
+function mockPrisma(found: any = message) {
+  return {
+    message: {
+      findUnique: vi.fn().mockResolvedValue(found),
+      update: vi.fn().mockImplementation(({ data }) => Promise.resolve({ ...message, ...data })),
+      create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'ck9x8v7b600034l5r8jlkf0m2', ...data }))
+    },
+    messageAction: {
+      create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'ck9x8v7b600034l5r8jlkf0a1', ...data }))
+    }
+  };
+}
+
+const env = { DB: {} as D1Database };
+
+describe('Block Action Utils', () => {
+  it('should find interactive elements in actions, accessories and navigation', () => {
+    expect(findActionTarget(blocks, 'details')).toMatchObject({ blockIndex: 0, element: { action_id: 'details' } });
+    expect(findActionTarget(blocks, 'approval_yes', 'decision')).toMatchObject({ blockIndex: 1, element: { value: 'yes' } });
+    expect(findActionTarget(blocks, 'open_reports')).toMatchObject({ blockIndex: 2, element: { label: 'Reports' } });
+  });
+
+  it('should not find actions outside the given block', () => {
+    expect(findActionTarget(blocks, 'details', 'decision')).toBeNull();
+    expect(findActionTarget(blocks, 'missing')).toBeNull();
+    expect(findActionTarget(null, 'details')).toBeNull();
+  });
+
+  it('should pick the webhook with the longest matching prefix', () => {
+    const config = JSON.stringify({
+      approval_: 'https://hooks.example.com/approvals',
+      approval_yes: 'https://hooks.example.com/yes',
+      bad: 'javascript:alert(1)'
+    });
+
+    expect(findActionWebhook('approval_yes', config)).toBe('https://hooks.example.com/yes');
+    expect(findActionWebhook('approval_no', config)).toBe('https://hooks.example.com/approvals');
+    expect(findActionWebhook('bad', config)).toBeNull();
+    expect(findActionWebhook('approval_yes', 'not json')).toBeNull();
+  });
+
+  it('should sign webhook payloads with the timestamp', async () => {
+    const signature = await signActionPayload('{}', 1753660800, 'secret');
+
+    expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+    expect(await signActionPayload('{}', 1753660801, 'secret')).not.toBe(signature);
+  });
+
+  it('should report redirects before updates and ephemeral messages', () => {
+    expect(getActionResponseType({ redirect_url: 'https://example.com', blocks: [] })).toBe('redirect');
+    expect(getActionResponseType({ follow_up: { content: 'Done' } })).toBe('update');
+    expect(getActionResponseType({ ephemeral_message: { text: 'Only you can see this' } })).toBe('ephemeral');
+    expect(getActionResponseType({})).toBeUndefined();
+  });
+});
+
+describe('ActionService.dispatch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should reject actions that are not in the message blocks', async () => {
+    const error = await ActionService.dispatch(mockPrisma(), env, USER, 'COMMENTER', action('details', { block_id: 'decision' })).catch(e => e);
+
+    expect(error).toBeInstanceOf(ActionError);
+    expect(error).toMatchObject({ status: 400, title: 'Unknown Action' });
+  });
+
+  it('should not find messages of another thread', async () => {
+    const prisma = mockPrisma({ ...message, threadId: 'ck9x8v7b600034l5r8jlkf0t2' });
+
+    await expect(ActionService.dispatch(prisma, env, USER, 'COMMENTER', action('details'))).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should apply the built-in dismiss handler and record it', async () => {
+    const prisma = mockPrisma();
+
+    const result = await ActionService.dispatch(prisma, env, USER, 'COMMENTER', action('dismiss', { block_id: 'decision' }));
+
+    expect(result).toMatchObject({ action_handled: true, response_type: 'update' });
+    expect(prisma.message.update.mock.calls[0][0].data.blocks.map((block: any) => block.type)).toEqual(['section', 'navigation_rail']);
+    expect(prisma.messageAction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ actionId: 'dismiss', blockId: 'decision', handler: 'builtin', status: 'HANDLED' })
+    });
+  });
+
+  it('should only let editors change messages written by someone else', async () => {
+    const prisma = mockPrisma({ ...message, userId: null, role: 'ASSISTANT' });
+
+    const error = await ActionService.dispatch(prisma, env, USER, 'COMMENTER', action('dismiss')).catch(e => e);
+
+    expect(error).toMatchObject({ status: 403, title: 'Insufficient Permissions' });
+    expect(prisma.message.update).not.toHaveBeenCalled();
+    expect(prisma.messageAction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ actionId: 'dismiss', status: 'FAILED' })
+    });
+
+    await expect(ActionService.dispatch(prisma, env, USER, 'EDITOR', action('dismiss'))).resolves.toMatchObject({
+      action_handled: true
+    });
+    expect(prisma.message.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record interactions nothing handles', async () => {
+    const prisma = mockPrisma();
+
+    const result = await ActionService.dispatch(prisma, env, USER, 'COMMENTER', action('details'));
+
+    expect(result).toEqual({ interaction_id: 'ck9x8v7b600034l5r8jlkf0a1', action_handled: false });
+    expect(prisma.messageAction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ handler: null, status: 'UNHANDLED' })
+    });
+  });
+
+  it('should post webhook follow-ups and sign the request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      follow_up: { content: 'Budget approved' },
+      ephemeral_message: { text: 'Thanks!' }
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const prisma = mockPrisma();
+
+    const result = await ActionService.dispatch(prisma, {
+      ...env,
+      ACTION_WEBHOOKS: JSON.stringify({ approval_: 'https://hooks.example.com/approvals' }),
+      ACTION_WEBHOOK_SECRET: 'secret'
+    }, USER, 'COMMENTER', action('approval_yes', { action_data: { comment: 'ok' } }));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/approvals');
+    expect(JSON.parse(init.body).action).toMatchObject({ action_id: 'approval_yes', block_id: 'decision', value: 'yes', action_data: { comment: 'ok' } });
+    expect(init.headers['X-Action-Signature']).toBe(await signActionPayload(init.body, Number(init.headers['X-Action-Timestamp']), 'secret'));
+
+    expect(result).toMatchObject({
+      action_handled: true,
+      response_type: 'update',
+      ephemeral_message: { text: 'Thanks!' },
+      follow_up_message: { content: 'Budget approved', role: 'ASSISTANT' }
+    });
+    expect(prisma.message.update).not.toHaveBeenCalled();
+  });
+
+  it('should fail with 502 and record invalid webhook responses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      blocks: [{ type: 'carousel' }]
+    }))));
+    const prisma = mockPrisma();
+
+    const error = await ActionService.dispatch(prisma, {
+      ...env,
+      ACTION_WEBHOOKS: JSON.stringify({ approval_: 'https://hooks.example.com/approvals' })
+    }, USER, 'COMMENTER', action('approval_yes')).catch(e => e);
+
+    expect(error).toMatchObject({ status: 502, title: 'Action Handler Failed' });
+    expect(prisma.messageAction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ handler: 'webhook', status: 'FAILED' })
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// Unit tests for UI block validation
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { messageBlocksSchema, MAX_MESSAGE_BLOCKS } from '../src/utils/block-schemas';
+import { createMessageSchema } from '../src/utils/validation';
+import { validateBody, formatIssuePath } from '../src/middleware/validation';
+
+const button = (action_id: string, extra: Record<string, unknown> = {}) => ({
+  type: 'button',
+  text: { type: 'plain_text', text: 'Open' },
+  action_id,
+  ...extra
+});
+
+const validBlocks = [
+  { type: 'header', block_id: 'title', text: { type: 'plain_text', text: 'Quarterly report' } },
+  { type: 'section', text: { type: 'mrkdwn', text: '*Revenue* is up' }, accessory: button('details') },
+  { type: 'divider' },
+  { type: 'actions', block_id: 'actions', elements: [button('approve', { style: 'primary' }), button('reject', { style: 'danger' })] },
+  {
+    type: 'input',
+    label: { type: 'plain_text', text: 'Region' },
+    element: {
+      type: 'static_select',
+      action_id: 'region',
+      placeholder: { type: 'plain_text', text: 'Pick one' },
+      options: [
+        { text: { type: 'plain_text', text: 'EMEA' }, value: 'emea' },
+        { text: { type: 'plain_text', text: 'LATAM' }, value: 'latam' }
+      ],
+      initial_option: { text: { type: 'plain_text', text: 'EMEA' }, value: 'emea' }
+    }
+  },
+  {
+    type: 'insight_card',
+    insight_id: 'insight-1',
+    title: 'Churn risk',
+    kpis: [{ label: 'Churn', value: '4.2%', trend: 'down', format: 'percentage' }],
+    actions: [button('open_insight', { url: 'https://example.com/insights/1' })]
+  },
+  {
+    type: 'navigation_rail',
+    items: [{ id: 'home', label: 'Home', url: '/', children: [{ id: 'reports', label: 'Reports', url: '/reports' }] }]
+  },
+  {
+    type: 'rich_text',
+    elements: [
+      { type: 'rich_text_section', elements: [{ type: 'text', text: 'See ' }, { type: 'link', url: 'https://example.com' }] },
+      { type: 'rich_text_list', style: 'bullet', elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'One' }] }] }
+    ]
+  }
+];
+
+function issuePaths(blocks: unknown): string[] {
+  const result = messageBlocksSchema.safeParse(blocks);
+  return result.success ? [] : result.error.issues.map(issue => formatIssuePath(issue.path));
+}
+
+describe('Block Schemas', () => {
+  it('should accept valid blocks of every kind', () => {
+    const result = messageBlocksSchema.safeParse(validBlocks);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject unknown block types', () => {
+    expect(issuePaths([{ type: 'carousel' }])).toEqual(['[0].type']);
+  });
+
+  it('should enforce Block Kit text limits and counts', () => {
+    expect(issuePaths([{ type: 'header', text: { type: 'plain_text', text: 'x'.repeat(151) } }])).toEqual(['[0].text.text']);
+    expect(issuePaths([{ type: 'header', text: { type: 'mrkdwn', text: 'Title' } }])).toEqual(['[0].text.type']);
+    expect(issuePaths([{ type: 'section' }])).toEqual(['[0].text']);
+    expect(issuePaths(Array.from({ length: MAX_MESSAGE_BLOCKS + 1 }, () => ({ type: 'divider' })))).toEqual(['']);
+  });
+
+  it('should require unique block_ids and action_ids', () => {
+    expect(issuePaths([
+      { type: 'divider', block_id: 'a' },
+      { type: 'divider', block_id: 'b' },
+      { type: 'divider', block_id: 'a' }
+    ])).toEqual(['[2].block_id']);
+
+    expect(issuePaths([
+      { type: 'actions', elements: [button('same'), button('same')] }
+    ])).toEqual(['[0].elements[1].action_id']);
+  });
+
+  it('should only allow http(s) links', () => {
+    expect(issuePaths([
+      { type: 'divider' },
+      { type: 'actions', elements: [button('a'), button('b', { url: 'javascript:alert(1)' })] }
+    ])).toEqual(['[1].elements[1].url']);
+  });
+
+  it('should require select initial options to be among the options', () => {
+    const select = (validBlocks[4] as any).element;
+
+    expect(issuePaths([{
+      type: 'input',
+      label: { type: 'plain_text', text: 'Region' },
+      element: { ...select, initial_option: { text: { type: 'plain_text', text: 'APAC' }, value: 'apac' } }
+    }])).toEqual(['[0].element.initial_option']);
+  });
+
+  it('should only allow messages without content when they have blocks', () => {
+    expect(createMessageSchema.safeParse({ role: 'USER', blocks: validBlocks }).success).toBe(true);
+
+    const result = createMessageSchema.safeParse({ role: 'USER', blocks: [] });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => formatIssuePath(issue.path))).toEqual(['content']);
+  });
+
+  it('should report the offending block path from the validation middleware', async () => {
+    const app = new Hono();
+    app.post('/messages', validateBody(createMessageSchema), (c) => c.json({ success: true }));
+
+    const blocks = [
+      ...validBlocks.slice(0, 3),
+      { type: 'actions', elements: [button('a'), button('b', { url: 'not a url' })] }
+    ];
+
+    const response = await app.request('/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: 'USER', content: 'Hello', blocks })
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json() as any;
+    expect(Object.keys(body.error.errors)).toEqual(['blocks[3].elements[1].url']);
+  });
+});
@@ -0,0 +1,229 @@
+// Unit tests for the typed API client in client/
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: vi.fn()
+}));
+
+import { Hono } from 'hono';
+import { app } from '../src/index';
+import { buildOpenApiDocument } from '../src/openapi/index';
+import { generateClientSchema } from '../src/openapi/client-generator';
+import { jobRoutes } from '../src/routes/jobs';
+import { ApiClient, ApiError, StreamError } from '../client/src/index';
+
+interface Call {
+  url: string;
+  init: RequestInit;
+}
+
+// A client whose requests are answered by `respond` and recorded in `calls`
+function createClient(respond: (call: Call) => Response, options: Partial<ConstructorParameters<typeof ApiClient>[0]> = {}) {
+  const calls: Call[] = [];
+  const client = new ApiClient({
+    baseUrl: 'https://api.example.com/',
+    fetch: async (url, init) => {
+      const call = { url, init };
+      calls.push(call);
+      return respond(call);
+    },
+    ...options
+  });
+  return { client, calls };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function eventStream(...chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('API Client', () => {
+  it('should be regenerated from the OpenAPI document', async () => {
+    // `npm run client:generate` rewrites the file when this fails
+    await expect(generateClientSchema(buildOpenApiDocument(app))).toMatchFileSnapshot('../client/src/schema.ts');
+  });
+
+  describe('request', () => {
+    it('should fill in path and query parameters and send JSON bodies', async () => {
+      const { client, calls } = createClient(() => json({ success: true, data: { id: 'thread-1' } }));
+
+      const result = await client.put('/api/v1/threads/{id}', {
+        path: { id: 'a b' },
+        body: { title: 'Renamed' }
+      });
+      await client.get('/api/v1/threads', { query: { limit: 10, status: 'ACTIVE', cursor: undefined } });
+
+      expect(result.data.id).toBe('thread-1');
+      expect(calls[0].url).toBe('https://api.example.com/api/v1/threads/a%20b');
+      expect(calls[0].init.method).toBe('PUT');
+      expect(calls[0].init.body).toBe(JSON.stringify({ title: 'Renamed' }));
+      expect(new Headers(calls[0].init.headers).get('Content-Type')).toBe('application/json');
+      expect(calls[1].url).toBe('https://api.example.com/api/v1/threads?limit=10&status=ACTIVE');
+    });
+
+    it('should send the bearer token, calling a token function for every request', async () => {
+      const token = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+      const { client, calls } = createClient(() => json({ success: true, data: {} }), {
+        auth: { type: 'bearer', token }
+      });
+
+      await client.get('/api/v1/auth/me');
+      await client.get('/api/v1/auth/me');
+
+      expect(calls.map(call => new Headers(call.init.headers).get('Authorization'))).toEqual(['Bearer first', 'Bearer second']);
+    });
+
+    it('should send the session cookie, or ask the browser to include its own', async () => {
+      const server = createClient(() => json({ success: true, data: {} }), { auth: { type: 'cookie', token: 'jwt' } });
+      const browser = createClient(() => json({ success: true, data: {} }), { auth: { type: 'cookie' } });
+
+      await server.client.get('/api/v1/auth/me');
+      await browser.client.get('/api/v1/auth/me');
+
+      expect(new Headers(server.calls[0].init.headers).get('Cookie')).toBe('rpotential_auth=jwt');
+      expect(server.calls[0].init.credentials).toBeUndefined();
+      expect(browser.calls[0].init.credentials).toBe('include');
+    });
+
+    it('should pass form data through unchanged', async () => {
+      const { client, calls } = createClient(() => json({ success: true, data: {} }));
+      const form = new FormData();
+      form.append('file', new Blob(['hello']), 'hello.txt');
+
+      await client.post('/api/v1/files/upload', { body: form });
+
+      expect(calls[0].init.body).toBe(form);
+      expect(new Headers(calls[0].init.headers).has('Content-Type')).toBe(false);
+    });
+
+    it('should return downloads as a Blob', async () => {
+      const { client } = createClient(() => new Response('hello', { headers: { 'Content-Type': 'text/plain' } }));
+
+      const content = await client.get('/api/v1/files/{id}/content', { path: { id: 'file-1' } });
+
+      expect(content).toBeInstanceOf(Blob);
+      expect(await (content as Blob).text()).toBe('hello');
+    });
+  });
+
+  describe('ApiError', () => {
+    it('should carry the problem details of an error response', async () => {
+      const routes = new Hono().route('/api/v1', jobRoutes);
+      const client = new ApiClient({
+        baseUrl: 'http://localhost',
+        fetch: (url, init) => Promise.resolve(routes.request(url, init))
+      });
+
+      const error = await client.get('/api/v1/jobs/{id}', { path: { id: 'not-a-cuid' } }).catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({
+        status: 400,
+        title: 'Path Parameter Validation Error',
+        errors: { id: expect.any(Array) }
+      });
+      expect(error.traceId).toEqual(expect.any(String));
+    });
+
+    it('should describe error responses without a problem body', async () => {
+      const { client } = createClient(() => new Response('Bad gateway', { status: 502, statusText: 'Bad Gateway' }));
+
+      const error = await client.get('/api/v1/health').catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 502, title: 'Bad Gateway' });
+    });
+  });
+
+  describe('paginate', () => {
+    it('should follow the continuation token until the last page', async () => {
+      const { client, calls } = createClient(({ url }) => {
+        const cursor = new URL(url).searchParams.get('cursor');
+        return cursor
+          ? json({ success: true, data: { items: [{ id: 'c' }], hasMore: false, pageSize: 2 } })
+          : json({ success: true, data: { items: [{ id: 'a' }, { id: 'b' }], continuationToken: 'b', hasMore: true, pageSize: 2 } });
+      });
+
+      const threads = await collect(client.paginate('/api/v1/threads', { query: { limit: 2 } }));
+
+      expect(threads.map(thread => thread.id)).toEqual(['a', 'b', 'c']);
+      expect(calls.map(call => call.url)).toEqual([
+        'https://api.example.com/api/v1/threads?limit=2',
+        'https://api.example.com/api/v1/threads?limit=2&cursor=b'
+      ]);
+    });
+  });
+
+  describe('streaming', () => {
+    const chunk = (content: string) => JSON.stringify({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 1,
+      model: 'gpt-4o',
+      choices: [{ index: 0, delta: { content }, finish_reason: null }]
+    });
+
+    it('should yield completion chunks split across reads until [DONE]', async () => {
+      const first = `data: ${chunk('Hel')}\n\n`;
+      const { client, calls } = createClient(() => eventStream(
+        first.slice(0, 20),
+        first.slice(20) + `data: ${chunk('lo')}\n`,
+        '\ndata: [DONE]\n\n'
+      ));
+
+      const chunks = await collect(client.streamChatCompletion({ messages: [{ role: 'user', content: 'Hi' }] }));
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo']);
+      expect(JSON.parse(calls[0].init.body as string)).toMatchObject({ stream: true });
+      expect(new Headers(calls[0].init.headers).get('Accept')).toBe('text/event-stream');
+    });
+
+    it('should throw the error event of a failed stream', async () => {
+      const { client } = createClient(() => eventStream(
+        `data: ${chunk('Hel')}\n\n`,
+        'data: {"error":{"message":"Provider failed","type":"server_error"}}\n\n'
+      ));
+
+      const contents: string[] = [];
+      const error = await (async () => {
+        for await (const chunk of client.streamChatCompletion({ messages: [{ role: 'user', content: 'Hi' }] })) {
+          contents.push(chunk.choices[0].delta.content ?? '');
+        }
+      })().catch(error => error);
+
+      expect(contents).toEqual(['Hel']);
+      expect(error).toBeInstanceOf(StreamError);
+      expect(error.message).toBe('Provider failed');
+    });
+
+    it('should yield the named events of a streamed message', async () => {
+      const { client, calls } = createClient(() => eventStream(
+        'event: message.created\ndata: {"id":"message-1"}\n\n',
+        'event: completion.delta\ndata: {"content":"Hi"}\n\n',
+        'event: completion.done\ndata: {"assistantMessage":{"id":"message-2"}}\n\n'
+      ));
+
+      const events = await collect(client.streamMessage('thread-1', { role: 'USER', content: 'Hello' }));
+
+      expect(events.map(event => event.event)).toEqual(['message.created', 'completion.delta', 'completion.done']);
+      expect(calls[0].url).toBe('https://api.example.com/api/v1/threads/thread-1/messages?stream=true');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// Type tests for the typed API client, run by `vitest --typecheck` against client/tsconfig.json
+
+import { describe, it, expectTypeOf } from 'vitest';
+import { ApiClient, type Schemas } from '../client/src/index';
+
+declare const client: ApiClient;
+
+describe('API Client types', () => {
+  it('should type responses from the OpenAPI document', async () => {
+    const thread = await client.get('/api/v1/threads/{id}', { path: { id: 'thread-1' } });
+    expectTypeOf(thread.data).toMatchTypeOf<Schemas['Thread']>();
+
+    const completion = await client.post('/api/v1/chat/completions', {
+      body: { messages: [{ role: 'user', content: 'Hi' }] }
+    });
+    expectTypeOf(completion).toEqualTypeOf<Schemas['ChatCompletion']>();
+
+    const content = await client.get('/api/v1/files/{id}/content', { path: { id: 'file-1' } });
+    expectTypeOf(content).toEqualTypeOf<Blob>();
+  });
+
+  it('should require path parameters, required query parameters and bodies', () => {
+    // @ts-expect-error the thread id is missing
+    client.get('/api/v1/threads/{id}');
+    // @ts-expect-error `q` is required
+    client.get('/api/v1/search', { query: { limit: 10 } });
+    // @ts-expect-error the body is missing
+    client.post('/api/v1/threads');
+    // @ts-expect-error `role` must be a thread role
+    client.post('/api/v1/threads/{threadId}/members', { path: { threadId: 't' }, body: { userId: 'u', role: 'ADMIN' } });
+
+    // Options without anything required may be left out
+    client.get('/api/v1/threads');
+  });
+
+  it('should only accept paths and methods the API has', () => {
+    // @ts-expect-error there is no such path
+    client.get('/api/v1/nothing');
+    // @ts-expect-error threads are replaced with PUT
+    client.patch('/api/v1/threads/{id}', { path: { id: 't' }, body: {} });
+  });
+
+  it('should type the items of paginated lists and streamed chunks', () => {
+    expectTypeOf(client.paginate('/api/v1/threads')).toEqualTypeOf<AsyncGenerator<Schemas['Thread']>>();
+    expectTypeOf(client.paginate('/api/v1/search', { query: { q: 'report' } }))
+      .toEqualTypeOf<AsyncGenerator<Schemas['SearchResult']>>();
+    // @ts-expect-error a single thread is not a list
+    client.paginate('/api/v1/threads/{id}', { path: { id: 't' } });
+
+    expectTypeOf(client.streamChatCompletion({ messages: [] }))
+      .toEqualTypeOf<AsyncGenerator<Schemas['ChatCompletionChunk']>>();
+  });
+});
@@ -0,0 +1,96 @@
+// Unit tests for streamed completion helpers
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyStreamChunk,
+  createStreamedCompletion,
+  estimateTokens,
+  getStreamUsage,
+  toCompletionResponse
+} from '../src/utils/completion-stream';
+import type { ChatCompletionStreamChunk, ChatMessage } from '../src/types/completions';
+
+function chunk(overrides: Partial<ChatCompletionStreamChunk> & { content?: string; finish_reason?: 'stop' | 'length' }): ChatCompletionStreamChunk {
+  const { content, finish_reason, ...rest } = overrides;
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model: 'gpt-4o-2024-08-06',
+    choices: [{
+      index: 0,
+      delta: content !== undefined ? { content } : {},
+      finish_reason: finish_reason ?? null
+    }],
+    ...rest
+  };
+}
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Hello there, how are you?' }];
+
+describe('Completion Stream Utils', () => {
+  describe('applyStreamChunk', () => {
+    it('should accumulate content, id, model and finish reason', () => {
+      const streamed = createStreamedCompletion('gpt-4o');
+
+      applyStreamChunk(streamed, chunk({ content: 'Hello' }));
+      applyStreamChunk(streamed, chunk({ content: ' world' }));
+      applyStreamChunk(streamed, chunk({ finish_reason: 'stop' }));
+
+      expect(streamed).toMatchObject({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-2024-08-06',
+        content: 'Hello world',
+        finishReason: 'stop'
+      });
+    });
+
+    it('should keep usage from a final usage-only chunk', () => {
+      const streamed = createStreamedCompletion('gpt-4o');
+
+      applyStreamChunk(streamed, chunk({
+        choices: [],
+        usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 }
+      }));
+
+      expect(streamed.usage).toEqual({ prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 });
+    });
+  });
+
+  describe('getStreamUsage', () => {
+    it('should prefer usage reported by the provider', () => {
+      const streamed = createStreamedCompletion('gpt-4o');
+      streamed.usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 0 };
+
+      expect(getStreamUsage(streamed, messages)).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+    });
+
+    it('should estimate usage from the prompt and partial content otherwise', () => {
+      const streamed = createStreamedCompletion('gpt-4o');
+      streamed.content = 'Partial answer';
+
+      expect(getStreamUsage(streamed, messages)).toEqual({
+        prompt_tokens: estimateTokens(messages[0].content),
+        completion_tokens: estimateTokens('Partial answer'),
+        total_tokens: estimateTokens(messages[0].content) + estimateTokens('Partial answer')
+      });
+    });
+  });
+
+  describe('toCompletionResponse', () => {
+    it('should build a chat.completion response from the stream', () => {
+      const streamed = createStreamedCompletion('gpt-4o');
+      applyStreamChunk(streamed, chunk({ content: 'Done.', finish_reason: 'stop' }));
+
+      const response = toCompletionResponse(streamed, messages);
+
+      expect(response.object).toBe('chat.completion');
+      expect(response.choices).toEqual([{
+        index: 0,
+        message: { role: 'assistant', content: 'Done.' },
+        finish_reason: 'stop'
+      }]);
+      expect(response.usage.total_tokens).toBeGreaterThan(0);
+    });
+  });
+});
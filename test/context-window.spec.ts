@@ -0,0 +1,172 @@
+// Unit tests for context windows of thread-based completions
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildContextWindow,
+  estimateMessageTokens,
+  getContextBudget,
+  getContextTokens,
+  toChatMessages
+} from '../src/utils/context-window';
+import { AutoCompletionService } from '../src/services/auto-completion-service';
+import { CompletionService, CompletionError } from '../src/services/completion-service';
+import type { ChatMessage } from '../src/types/completions';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    thread: { findUnique: vi.fn() },
+    message: { findMany: vi.fn() }
+  }
+}));
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const USER = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  nick: null,
+  role: 'USER',
+  avatarUrl: null
+};
+
+const THREAD_ID = 'ck9x8v7b600034l5r8jlkf0t1';
+
+// 100 characters: 25 tokens of content plus the per-message overhead
+function message(role: ChatMessage['role'], label: string): ChatMessage {
+  return { role, content: label.padEnd(100, '.') };
+}
+
+const history = Array.from({ length: 10 }, (_, i) => message(i % 2 ? 'assistant' : 'user', `m${i}`));
+const system = [message('system', 'Be brief')];
+
+describe('Context Window', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should size the budget from the model, the reply and the configured limit', () => {
+    expect(getContextTokens('gpt-4')).toBe(8192);
+    expect(getContextTokens('unknown-model')).toBe(8192);
+    expect(getContextBudget('gpt-4o', 1000)).toBe(Math.floor(128_000 * 0.9) - 1000);
+    expect(getContextBudget('gpt-4o', 1000, '4000')).toBe(2600);
+    expect(getContextBudget('gpt-4', 1000, '200000')).toBe(Math.floor(8192 * 0.9) - 1000);
+    expect(getContextBudget('gpt-4', 10_000)).toBe(0);
+  });
+
+  it('should keep the system prompt and the most recent messages that fit', () => {
+    const perMessage = estimateMessageTokens(history[0]);
+    const window = buildContextWindow({ system, history, budgetTokens: perMessage * 4 });
+
+    expect(window.messages).toEqual([system[0], ...history.slice(7)]);
+    expect(window).toMatchObject({ includedCount: 3, droppedCount: 7, summaryIncluded: false });
+    expect(window.estimatedTokens).toBe(perMessage * 4);
+  });
+
+  it('should keep pending messages last and the latest message whatever the budget', () => {
+    const pending = [message('user', 'new question')];
+    expect(buildContextWindow({ system, history, pending, budgetTokens: 0 }).messages)
+      .toEqual([system[0], pending[0]]);
+    expect(buildContextWindow({ system, history, budgetTokens: 0 }).messages)
+      .toEqual([system[0], history[9]]);
+  });
+
+  it('should put the summary in place of the messages left out', () => {
+    const perMessage = estimateMessageTokens(history[0]);
+    const summary = 'Ana is planning a trip to Lisbon.';
+    const window = buildContextWindow({ system, history, summary, budgetTokens: perMessage * 4 });
+
+    expect(window.summaryIncluded).toBe(true);
+    expect(window.messages[0]).toEqual(system[0]);
+    expect(window.messages[1]).toEqual({ role: 'system', content: `Summary of the earlier conversation:\n\n${summary}` });
+    // The oldest kept message made room for the summary
+    expect(window.messages.slice(2)).toEqual(history.slice(8));
+    expect(window.estimatedTokens).toBeLessThanOrEqual(perMessage * 4);
+
+    // Nothing left out, so no summary
+    expect(buildContextWindow({ system, history, summary, budgetTokens: 10_000 }).summaryIncluded).toBe(false);
+  });
+
+  it('should restore stored tool calls and results, never sending results without their call', () => {
+    const toolCalls = [{ id: 'call_1', type: 'function' as const, function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' } }];
+    const stored = toChatMessages([
+      { role: 'USER', content: 'Weather in Lisbon?', user: null },
+      { role: 'ASSISTANT', content: '', metadata: { toolCalls }, user: null },
+      { role: 'ASSISTANT', content: 'Sunny, 24°C.', metadata: { toolResults: [{ toolCallId: 'call_1', content: '24C sunny' }] }, user: null }
+    ]);
+
+    expect(stored).toEqual([
+      { role: 'user', content: 'Weather in Lisbon?' },
+      { role: 'assistant', content: null, tool_calls: toolCalls },
+      { role: 'tool', content: '24C sunny', tool_call_id: 'call_1' },
+      { role: 'assistant', content: 'Sunny, 24°C.' }
+    ]);
+
+    // Room for the last two messages only: the tool result goes too
+    const budget = estimateMessageTokens(stored[2]) + estimateMessageTokens(stored[3]);
+    expect(buildContextWindow({ system: [], history: stored, budgetTokens: budget }).messages).toEqual([stored[3]]);
+  });
+
+  it('should build auto-completions from the most recent messages', async () => {
+    prisma.thread.findUnique.mockResolvedValue({ metadata: null });
+    prisma.message.findMany.mockImplementation(({ where }: any) => Promise.resolve(
+      where.role === 'SYSTEM'
+        ? []
+        : [{ role: 'ASSISTANT', content: 'Latest', user: null }, { role: 'USER', content: 'Earlier', user: { name: 'Ana Maria', nick: null } }]
+    ));
+
+    const request = await AutoCompletionService.buildRequest(prisma, THREAD_ID, { DEFAULT_AI_MODEL: 'gpt-4' });
+
+    expect(prisma.message.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { threadId: THREAD_ID, role: { not: 'SYSTEM' } },
+      orderBy: { createdAt: 'desc' }
+    }));
+    expect(request).toMatchObject({
+      model: 'gpt-4',
+      max_tokens: 1000,
+      messages: [
+        { role: 'user', content: 'Earlier', name: 'Ana_Maria' },
+        { role: 'assistant', content: 'Latest' }
+      ]
+    });
+  });
+
+  describe('CompletionService.resolveMessages', () => {
+    const request = {
+      messages: [message('system', 'Answer in Portuguese'), message('user', 'And the food?')],
+      n: 1,
+      stream: false,
+      thread_id: THREAD_ID
+    };
+
+    it('should send the request as it is unless the client opted in', async () => {
+      expect(await CompletionService.resolveMessages(request, USER, {})).toBe(request.messages);
+      expect(prisma.thread.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should put the thread history between system and new messages', async () => {
+      prisma.thread.findUnique.mockResolvedValue({ id: THREAD_ID, userId: USER.id, status: 'ACTIVE', members: [], metadata: null });
+      prisma.message.findMany.mockImplementation(({ where }: any) => Promise.resolve(
+        where.role === 'SYSTEM' ? [] : [{ role: 'USER', content: 'Where should we go in Lisbon?', user: null }]
+      ));
+
+      const messages = await CompletionService.resolveMessages({ ...request, include_thread_history: true }, USER, {});
+
+      expect(messages).toEqual([
+        request.messages[0],
+        { role: 'user', content: 'Where should we go in Lisbon?' },
+        request.messages[1]
+      ]);
+    });
+
+    it('should refuse threads the user cannot post in', async () => {
+      prisma.thread.findUnique.mockResolvedValue(null);
+
+      const resolving = CompletionService.resolveMessages({ ...request, include_thread_history: true }, USER, {});
+      await expect(resolving).rejects.toBeInstanceOf(CompletionError);
+      await expect(resolving).rejects.toMatchObject({ status: 404, title: 'Thread Not Found' });
+    });
+  });
+});
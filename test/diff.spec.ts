@@ -0,0 +1,79 @@
+// Unit tests for artifact version diff helpers
+
+import { describe, it, expect } from 'vitest';
+import { diffText, diffBlocks, diffVersions, stableStringify } from '../src/utils/diff';
+
+describe('Diff Utils', () => {
+  describe('diffText', () => {
+    it('should report inserted and deleted lines', () => {
+      const diff = diffText('a\nb\nc', 'a\nc\nd');
+
+      expect(diff.hunks).toEqual([
+        { type: 'equal', lines: ['a'] },
+        { type: 'delete', lines: ['b'] },
+        { type: 'equal', lines: ['c'] },
+        { type: 'insert', lines: ['d'] }
+      ]);
+      expect(diff.insertions).toBe(1);
+      expect(diff.deletions).toBe(1);
+    });
+
+    it('should return a single equal hunk for identical text', () => {
+      const diff = diffText('same\ntext', 'same\ntext');
+
+      expect(diff.hunks).toEqual([{ type: 'equal', lines: ['same', 'text'] }]);
+      expect(diff.insertions).toBe(0);
+      expect(diff.deletions).toBe(0);
+    });
+  });
+
+  describe('diffBlocks', () => {
+    it('should match blocks by block_id and detect changes', () => {
+      const before = [
+        { type: 'header', block_id: 'h', text: { type: 'plain_text', text: 'Q2' } },
+        { type: 'divider', block_id: 'd' },
+        { type: 'section', block_id: 's', text: { type: 'mrkdwn', text: 'old' } }
+      ];
+      const after = [
+        { type: 'divider', block_id: 'd' },
+        { type: 'header', block_id: 'h', text: { type: 'plain_text', text: 'Q3' } },
+        { type: 'context', block_id: 'c', elements: [] }
+      ];
+
+      const diff = diffBlocks(before, after);
+
+      expect(diff.modified.map(m => m.key)).toEqual(['h']);
+      expect(diff.moved).toEqual([{ key: 'd', fromIndex: 1, toIndex: 0 }]);
+      expect(diff.removed.map(r => r.key)).toEqual(['s']);
+      expect(diff.added.map(a => a.key)).toEqual(['c']);
+    });
+
+    it('should ignore key order when comparing blocks', () => {
+      const diff = diffBlocks(
+        [{ type: 'divider', block_id: 'd' }],
+        [{ block_id: 'd', type: 'divider' }]
+      );
+
+      expect(diff).toEqual({ added: [], removed: [], modified: [], moved: [] });
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should include changed scalar fields only', () => {
+      const diff = diffVersions(
+        { version: 1, title: 'Report', description: null, content: 'x', blocks: [], metadata: { a: 1 } },
+        { version: 2, title: 'Final Report', description: null, content: 'x', blocks: [], metadata: { a: 1 } }
+      );
+
+      expect(diff.from).toBe(1);
+      expect(diff.to).toBe(2);
+      expect(diff.fields).toEqual({ title: { from: 'Report', to: 'Final Report' } });
+    });
+  });
+
+  describe('stableStringify', () => {
+    it('should serialize objects with sorted keys', () => {
+      expect(stableStringify({ b: 1, a: [{ d: 2, c: 3 }] })).toBe('{"a":[{"c":3,"d":2}],"b":1}');
+    });
+  });
+});
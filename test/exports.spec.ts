@@ -0,0 +1,195 @@
+// Unit tests for thread and artifact export rendering
+
+import { describe, it, expect } from 'vitest';
+import { blocksToHtml, markdownToHtml } from '../src/utils/blocks-html';
+import {
+  renderArtifactExport,
+  renderThreadExport,
+  summarizeReactions,
+  type ExportArtifact,
+  type ThreadExport
+} from '../src/utils/exports';
+import { renderPdf, wrapText } from '../src/utils/pdf';
+
+const artifact: ExportArtifact = {
+  id: 'cartifact00000000000000001',
+  type: 'REPORT',
+  title: 'Q3 Report',
+  description: 'Numbers for the board',
+  content: 'Revenue grew **12%**.',
+  blocks: null,
+  version: 2,
+  metadata: null,
+  createdAt: '2025-07-01T09:00:00.000Z',
+  updatedAt: '2025-07-02T10:30:00.000Z',
+  author: { name: 'Ana', nick: null, email: 'ana@example.com' }
+};
+
+const data: ThreadExport = {
+  schema: 'thread-export',
+  version: 1,
+  exportedAt: '2025-07-30T12:00:00.000Z',
+  thread: {
+    id: 'cthread0000000000000000001',
+    title: 'Launch <plan>',
+    status: 'ACTIVE',
+    metadata: null,
+    createdAt: '2025-07-01T08:00:00.000Z',
+    updatedAt: '2025-07-02T08:00:00.000Z',
+    author: { name: 'Ana', nick: null, email: 'ana@example.com' }
+  },
+  messages: [
+    {
+      id: 'cmessage000000000000000001',
+      role: 'USER',
+      author: { name: null, nick: 'ben', email: 'ben@example.com' },
+      content: 'When do we ship?',
+      blocks: null,
+      metadata: null,
+      createdAt: '2025-07-01T08:05:00.000Z',
+      editedAt: null,
+      reactions: [{ emoji: '👍', count: 2, users: ['Ana', 'ben'] }],
+      attachments: [{ id: 'cfile00000000000000000001', name: 'plan.pdf', mimeType: 'application/pdf', size: 2048, checksum: 'abc' }]
+    },
+    {
+      id: 'cmessage000000000000000002',
+      role: 'ASSISTANT',
+      author: null,
+      content: 'Friday',
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: 'On *Friday*' } }],
+      metadata: null,
+      createdAt: '2025-07-01T08:06:00.000Z',
+      editedAt: '2025-07-01T08:07:00.000Z',
+      reactions: [],
+      attachments: []
+    }
+  ],
+  artifacts: [artifact]
+};
+
+describe('Exports', () => {
+  describe('blocksToHtml', () => {
+    it('should render blocks as escaped static HTML', () => {
+      expect(blocksToHtml([
+        { type: 'header', text: { type: 'plain_text', text: 'A <b> & c' } },
+        { type: 'section', text: { type: 'mrkdwn', text: '*Bold* &lt;script&gt; <https://example.com/?a=1&b=2|link>' } },
+        { type: 'image', image_url: 'javascript:alert(1)', alt_text: 'x' },
+        { type: 'actions', elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open' }, action_id: 'open', url: 'https://example.com' }] },
+        {
+          type: 'rich_text',
+          elements: [{ type: 'rich_text_list', style: 'ordered', elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'One' }] }] }]
+        }
+      ])).toBe([
+        '<h2>A &lt;b&gt; &amp; c</h2>',
+        '<p><strong>Bold</strong> &lt;script&gt; <a href="https://example.com/?a=1&amp;b=2" rel="noopener noreferrer">link</a></p>',
+        '<p class="actions"><a class="button" href="https://example.com" rel="noopener noreferrer">Open</a></p>',
+        '<ol><li>One</li></ol>'
+      ].join('\n'));
+      expect(blocksToHtml(null)).toBe('');
+    });
+
+    it('should render markdown through its blocks', () => {
+      expect(markdownToHtml('Hello **world**')).toBe('<p>Hello <strong>world</strong></p>');
+      expect(markdownToHtml('')).toBe('');
+    });
+  });
+
+  describe('summarizeReactions', () => {
+    it('should group reactions by emoji in order of first use', () => {
+      expect(summarizeReactions([
+        { emoji: '🎉', user: { name: 'Ana', email: 'ana@example.com' } },
+        { emoji: '👍', user: { name: null, nick: 'ben', email: 'ben@example.com' } },
+        { emoji: '🎉', user: null }
+      ])).toEqual([
+        { emoji: '🎉', count: 2, users: ['Ana'] },
+        { emoji: '👍', count: 1, users: ['ben'] }
+      ]);
+    });
+  });
+
+  describe('renderThreadExport', () => {
+    it('should render markdown with authors, reactions, attachments and artifacts', () => {
+      const rendered = renderThreadExport(data, 'md');
+
+      expect(rendered.contentType).toBe('text/markdown; charset=utf-8');
+      expect(rendered.filename).toBe('launch-plan.md');
+      expect(rendered.body).toBe([
+        '# Launch <plan>\n\n_Exported 2025-07-30 12:00 UTC · 2 messages · 1 artifact_',
+        '**ben · 2025-07-01 08:05 UTC**\n\nWhen do we ship?\n\nReactions: 👍 2  \nAttachments: plan.pdf (2.0 KB)',
+        '**Assistant · 2025-07-01 08:06 UTC (edited)**\n\nFriday',
+        '## Artifacts\n\n### Q3 Report\n\n_REPORT · version 2 · updated 2025-07-02 10:30 UTC_\n\nNumbers for the board\n\nRevenue grew **12%**.'
+      ].join('\n\n---\n\n') + '\n');
+    });
+
+    it('should render escaped HTML with blocks', () => {
+      const html = renderThreadExport(data, 'html').body as string;
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<title>Launch &lt;plan&gt;</title>');
+      expect(html).toContain('<p>On <strong>Friday</strong></p>');
+      expect(html).toContain('<span title="Ana, ben">👍 2</span>');
+      expect(html).toContain('<li>plan.pdf (2.0 KB)</li>');
+      expect(html).not.toContain('<plan>');
+    });
+
+    it('should render JSON as the export document', () => {
+      const rendered = renderThreadExport(data, 'json');
+
+      expect(rendered.contentType).toBe('application/json; charset=utf-8');
+      expect(JSON.parse(rendered.body as string)).toEqual(data);
+    });
+
+    it('should fall back to the thread ID for untitled threads', () => {
+      const rendered = renderThreadExport({ ...data, thread: { ...data.thread, title: '' } }, 'pdf');
+
+      expect(rendered.filename).toBe('thread-cthread0000000000000000001.pdf');
+      expect(rendered.contentType).toBe('application/pdf');
+    });
+  });
+
+  describe('renderArtifactExport', () => {
+    it('should render a single artifact', () => {
+      const rendered = renderArtifactExport({
+        schema: 'artifact-export',
+        version: 1,
+        exportedAt: '2025-07-30T12:00:00.000Z',
+        thread: { id: data.thread.id, title: 'Launch' },
+        artifact
+      }, 'md');
+
+      expect(rendered.filename).toBe('q3-report.md');
+      expect(rendered.body).toBe(
+        '# Q3 Report\n\n_REPORT · version 2 · updated 2025-07-02 10:30 UTC_\n\nNumbers for the board\n\nRevenue grew **12%**.' +
+        '\n\n---\n\n_From Launch · exported 2025-07-30 12:00 UTC_\n'
+      );
+    });
+  });
+
+  describe('renderPdf', () => {
+    it('should write a well-formed document', () => {
+      const bytes = renderPdf([{ text: 'Title (draft)', size: 18, bold: true }, { text: 'Café — 漢字' }], 'Title');
+      const pdf = String.fromCharCode(...bytes);
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.endsWith('%%EOF\n')).toBe(true);
+      expect(pdf).toContain('(Title \\(draft\\)) Tj');
+      expect(pdf).toContain('(Caf\xe9 \x97 ??) Tj');
+
+      // The cross-reference table points at each object
+      const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+      const offsets = pdf.slice(xref).match(/^\d{10} 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)));
+      offsets.forEach((offset, index) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+    });
+
+    it('should add pages for long documents', () => {
+      const pdf = String.fromCharCode(...renderPdf(Array.from({ length: 120 }, (_, i) => ({ text: `Line ${i}` }))));
+
+      expect(pdf).toContain('/Count 3');
+    });
+
+    it('should wrap long lines at spaces', () => {
+      expect(wrapText('aaa bbb ccc', 7)).toEqual(['aaa bbb', 'ccc']);
+      expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+// Unit tests for file storage helpers
+
+import { describe, it, expect, vi } from 'vitest';
+import { env } from 'cloudflare:test';
+import {
+  computeChecksum,
+  createByteCounter,
+  getContentDisposition,
+  getExpectedPartSize,
+  getPartCount,
+  getUploadProgress,
+  parseRangeHeader,
+  peekStream,
+  sanitizeFilename,
+  sniffMimeType
+} from '../src/utils/files';
+import { FileStorageError, FileStorageService } from '../src/services/file-storage-service';
+import { UploadService, UploadSessionError } from '../src/services/upload-service';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {} as Record<string, any>
+}));
+
+// The worker is loaded for its Durable Objects; keep it off the real database
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const encoder = new TextEncoder();
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+// A body arriving in several chunks, like a request body
+function chunked(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    }
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('File Utils', () => {
+  describe('computeChecksum', () => {
+    it('should return a prefixed SHA-256 hex digest', async () => {
+      const checksum = await computeChecksum(encoder.encode('hello').buffer as ArrayBuffer);
+      expect(checksum).toBe('sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+    });
+  });
+
+  describe('sniffMimeType', () => {
+    it('should prefer the content signature over the declared type', () => {
+      expect(sniffMimeType(png, 'photo.jpg', 'image/jpeg')).toBe('image/png');
+      expect(sniffMimeType(encoder.encode('%PDF-1.7 ...'), 'doc', 'text/plain')).toBe('application/pdf');
+    });
+
+    it('should refine ZIP containers by extension', () => {
+      const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0]);
+      expect(sniffMimeType(zip, 'report.docx')).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      expect(sniffMimeType(zip, 'archive.bin')).toBe('application/zip');
+    });
+
+    it('should not let the declared type turn binary into text or text into binary', () => {
+      const binary = new Uint8Array([0x00, 0x01, 0x02, 0xff]);
+      expect(sniffMimeType(binary, 'page.html', 'text/html')).toBe('application/octet-stream');
+      expect(sniffMimeType(binary, 'model.glb', 'model/gltf-binary')).toBe('model/gltf-binary');
+      expect(sniffMimeType(encoder.encode('a,b\n1,2'), 'data.csv', 'application/octet-stream')).toBe('text/csv');
+      expect(sniffMimeType(encoder.encode('<p>hi</p>'), 'page.html', 'text/html; charset=utf-8')).toBe('text/html');
+    });
+  });
+
+  describe('parseRangeHeader', () => {
+    it('should parse bounded, open and suffix ranges', () => {
+      expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ offset: 0, length: 100 });
+      expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ offset: 900, length: 100 });
+      expect(parseRangeHeader('bytes=-10', 1000)).toEqual({ offset: 990, length: 10 });
+      expect(parseRangeHeader('bytes=990-5000', 1000)).toEqual({ offset: 990, length: 10 });
+    });
+
+    it('should ignore absent or unsupported ranges and reject unsatisfiable ones', () => {
+      expect(parseRangeHeader(undefined, 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=0-1,5-6', 1000)).toBeNull();
+      expect(parseRangeHeader('items=0-1', 1000)).toBeNull();
+      expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=5-2', 1000)).toBe('unsatisfiable');
+      expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+    });
+  });
+
+  describe('filenames', () => {
+    it('should strip paths and unsafe characters', () => {
+      expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+      expect(sanitizeFilename('my report (final).pdf')).toBe('my_report_final_.pdf');
+      expect(sanitizeFilename('...')).toBe('file');
+    });
+
+    it('should only render safe types inline', () => {
+      expect(getContentDisposition('image/png', 'a.png')).toMatch(/^inline;/);
+      expect(getContentDisposition('text/html', 'a.html')).toMatch(/^attachment;/);
+      expect(getContentDisposition('image/svg+xml', 'a.svg')).toMatch(/^attachment;/);
+    });
+  });
+
+  describe('upload parts', () => {
+    const MiB = 1024 * 1024;
+
+    it('should require equal parts except for a shorter last part', () => {
+      expect(getPartCount(25 * MiB, 10 * MiB)).toBe(3);
+      expect(getExpectedPartSize(25 * MiB, 10 * MiB, 1)).toBe(10 * MiB);
+      expect(getExpectedPartSize(25 * MiB, 10 * MiB, 3)).toBe(5 * MiB);
+      expect(getExpectedPartSize(20 * MiB, 10 * MiB, 2)).toBe(10 * MiB);
+      expect(getExpectedPartSize(25 * MiB, 10 * MiB, 0)).toBeNull();
+      expect(getExpectedPartSize(25 * MiB, 10 * MiB, 4)).toBeNull();
+    });
+
+    it('should report received and missing parts for resuming', () => {
+      const progress = getUploadProgress(25 * MiB, 10 * MiB, [
+        { partNumber: 3, size: 5 * MiB },
+        { partNumber: 1, size: 10 * MiB }
+      ]);
+
+      expect(progress).toEqual({
+        partCount: 3,
+        uploadedBytes: 15 * MiB,
+        receivedParts: [1, 3],
+        missingParts: [2]
+      });
+    });
+  });
+});
+
+describe('File streams', () => {
+  it('should peek at the head of a stream and still yield all of it', async () => {
+    const { head, stream } = await peekStream(chunked(encoder.encode('abc'), encoder.encode('def'), encoder.encode('ghi')), 4);
+
+    expect(new TextDecoder().decode(head)).toBe('abcd');
+    expect(await readAll(stream)).toBe('abcdefghi');
+  });
+
+  it('should count the bytes read and error past the limit', async () => {
+    const within = createByteCounter(6);
+    expect(await readAll(chunked(encoder.encode('abc'), encoder.encode('def')).pipeThrough(within.stream))).toBe('abcdef');
+    expect(within).toMatchObject({ bytes: 6, exceeded: false, finished: true });
+
+    const over = createByteCounter(5);
+    await expect(readAll(chunked(encoder.encode('abc'), encoder.encode('def')).pipeThrough(over.stream))).rejects.toThrow();
+    expect(over).toMatchObject({ bytes: 6, exceeded: true, finished: false });
+  });
+});
+
+describe('FileStorageService', () => {
+  it('should store objects with their checksum and sniffed type', async () => {
+    const stored = await FileStorageService.store(env.FILES, {
+      userId: 'user-1',
+      originalName: 'image.png',
+      declaredType: 'application/octet-stream',
+      body: chunked(png.subarray(0, 5), png.subarray(5)),
+      size: png.byteLength
+    });
+
+    expect(stored.key).toMatch(/^files\/user-1\//);
+    expect(stored.size).toBe(png.byteLength);
+    expect(stored.mimeType).toBe('image/png');
+    expect(stored.checksum).toBe(await computeChecksum(png.buffer as ArrayBuffer));
+
+    const object = await FileStorageService.read(env.FILES, stored.key) as R2ObjectBody;
+    expect(object.httpMetadata?.contentType).toBe('image/png');
+    expect(object.customMetadata?.originalName).toBe('image.png');
+    expect(new Uint8Array(await object.arrayBuffer())).toEqual(png);
+  });
+
+  it('should read byte ranges and remove objects', async () => {
+    const data = encoder.encode('0123456789');
+    const stored = await FileStorageService.store(env.FILES, {
+      userId: 'user-1',
+      originalName: 'digits.txt',
+      body: chunked(data),
+      size: data.byteLength
+    });
+
+    const range = parseRangeHeader('bytes=2-4', stored.size);
+    const object = await FileStorageService.read(env.FILES, stored.key, { range: range as { offset: number; length: number } });
+    expect(await (object as R2ObjectBody).text()).toBe('234');
+
+    await FileStorageService.remove(env.FILES, stored.key);
+    expect(await FileStorageService.read(env.FILES, stored.key)).toBeNull();
+  });
+
+  it('should refuse bodies that do not match their declared size, or exceed the limit', async () => {
+    const data = encoder.encode('0123456789');
+    const store = (size: number) => FileStorageService.store(env.FILES, {
+      userId: 'user-2',
+      originalName: 'digits.txt',
+      body: chunked(data.subarray(0, 5), data.subarray(5)),
+      size
+    });
+
+    await expect(store(4)).rejects.toMatchObject({ status: 400, title: 'Bad Request' });
+    await expect(store(20)).rejects.toMatchObject({ status: 400, title: 'Bad Request' });
+    await expect(store(200 * 1024 * 1024)).rejects.toBeInstanceOf(FileStorageError);
+    expect((await env.FILES.list({ prefix: 'files/user-2/' })).objects).toEqual([]);
+  });
+});
+
+describe('UploadService.complete', () => {
+  const CONTENT_BASE_URL = 'https://api.example.com/api/v1/files';
+
+  // An upload session row and the files created from it. Writes are queued and
+  // run by $transaction, which keeps a batch only if every write in it succeeded.
+  function createDatabase() {
+    const state = { session: { status: 'ACTIVE', fileId: null as string | null }, files: [] as Record<string, any>[] };
+
+    const apply = (next: typeof state, write: { model: string; args: any }) => {
+      if (write.model === 'fileUpload') {
+        if (write.args.where.status && write.args.where.status !== next.session.status) {
+          throw Object.assign(new Error('Record to update not found'), { code: 'P2025' });
+        }
+        next.session = { ...next.session, ...write.args.data };
+        return next.session;
+      }
+      if (write.model === 'file') {
+        next.files = [...next.files, write.args.data];
+        return write.args.data;
+      }
+      return { count: 0 };
+    };
+
+    Object.assign(prisma, {
+      fileUpload: {
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          if (state.session.status !== where.status) return { count: 0 };
+          state.session = { ...state.session, ...data };
+          return { count: 1 };
+        }),
+        update: vi.fn((args: any) => ({ model: 'fileUpload', args }))
+      },
+      file: { create: vi.fn((args: any) => ({ model: 'file', args })) },
+      fileUploadPart: { deleteMany: vi.fn((args: any) => ({ model: 'fileUploadPart', args })) },
+      $transaction: vi.fn(async (writes: { model: string; args: any }[]) => {
+        const next = { ...state };
+        const results = writes.map(write => apply(next, write));
+        Object.assign(state, next);
+        return results;
+      })
+    });
+
+    return state;
+  }
+
+  // A session whose single part has been received
+  async function uploadedSession(userId: string, content: string) {
+    const key = FileStorageService.createObjectKey(userId);
+    const multipart = await env.FILES.createMultipartUpload(key);
+    const part = await multipart.uploadPart(1, content);
+
+    return {
+      id: 'ck9x8v7b600034l5r8jlkf0p1',
+      userId,
+      originalName: 'notes.txt',
+      mimeType: null,
+      size: content.length,
+      partSize: 5 * 1024 * 1024,
+      storageKey: key,
+      r2UploadId: multipart.uploadId,
+      checksum: null,
+      metadata: null,
+      status: 'ACTIVE',
+      expiresAt: new Date(Date.now() + 60_000),
+      parts: [{ partNumber: 1, etag: part.etag, size: content.length }]
+    };
+  }
+
+  it('should create one file when the upload is completed twice at once', async () => {
+    const state = createDatabase();
+    const session = await uploadedSession('user-3', 'hello');
+
+    const results = await Promise.allSettled([
+      UploadService.complete(session, CONTENT_BASE_URL, env),
+      UploadService.complete(session, CONTENT_BASE_URL, env)
+    ]);
+
+    const completed = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter(result => result.status === 'rejected');
+    expect(completed).toHaveLength(1);
+    expect(refused[0].reason).toBeInstanceOf(UploadSessionError);
+    expect(refused[0].reason).toMatchObject({ status: 409 });
+
+    const [file] = state.files;
+    expect(state.files).toHaveLength(1);
+    expect(file.id).toMatch(/^[a-z0-9]{25}$/);
+    expect(file.storageUrl).toBe(`${CONTENT_BASE_URL}/${file.id}/content`);
+    expect(state.session).toEqual({ status: 'COMPLETED', fileId: file.id });
+  });
+
+  it('should reopen the session when writing the file fails', async () => {
+    const state = createDatabase();
+    const session = await uploadedSession('user-4', 'hello');
+    prisma.$transaction.mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    await expect(UploadService.complete(session, CONTENT_BASE_URL, env)).rejects.toThrow('D1 unavailable');
+    expect(state.session.status).toBe('ACTIVE');
+    expect(state.files).toEqual([]);
+
+    // The object was assembled by the first attempt; the retry only writes the records
+    await UploadService.complete(session, CONTENT_BASE_URL, env);
+    expect(state.session.status).toBe('COMPLETED');
+    expect(state.files).toHaveLength(1);
+  });
+});
@@ -0,0 +1,102 @@
+// Unit tests for input block form validation
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectFormFields,
+  findDuplicateFields,
+  validateFormValues
+} from '../src/utils/form-submissions';
+
+const option = (value: string) => ({ text: { type: 'plain_text', text: value.toUpperCase() }, value });
+
+const input = (element: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+  type: 'input',
+  label: { type: 'plain_text', text: String(element.action_id) },
+  element,
+  ...extra
+});
+
+const blocks = [
+  { type: 'section', text: { type: 'mrkdwn', text: 'Request time off' } },
+  input({ type: 'plain_text_input', action_id: 'reason', min_length: 5, max_length: 50 }),
+  input({ type: 'static_select', action_id: 'kind', placeholder: { type: 'plain_text', text: 'Kind' }, options: [option('vacation'), option('sick')] }),
+  input({
+    type: 'multi_static_select',
+    action_id: 'backups',
+    placeholder: { type: 'plain_text', text: 'Backups' },
+    option_groups: [{ label: { type: 'plain_text', text: 'Team' }, options: [option('ana'), option('ben'), option('cho')] }],
+    max_selected_items: 2
+  }, { optional: true }),
+  input({ type: 'datepicker', action_id: 'start_date' }),
+  input({ type: 'timepicker', action_id: 'start_time' }, { optional: true })
+];
+
+const fields = collectFormFields(blocks);
+
+describe('Form Submissions', () => {
+  it('should collect one field per input block', () => {
+    expect(fields.map(field => [field.actionId, field.optional])).toEqual([
+      ['reason', false],
+      ['kind', false],
+      ['backups', true],
+      ['start_date', false],
+      ['start_time', true]
+    ]);
+    expect(collectFormFields(null)).toEqual([]);
+  });
+
+  it('should accept valid values and skip empty optional inputs', () => {
+    const result = validateFormValues(fields, {
+      reason: '  Family trip  ',
+      kind: 'vacation',
+      backups: ['ana', 'ben', 'ana'],
+      start_date: '2025-08-04',
+      start_time: ''
+    });
+
+    expect(result.errors).toEqual({});
+    expect(result.values).toEqual({
+      reason: 'Family trip',
+      kind: 'vacation',
+      backups: ['ana', 'ben'],
+      start_date: '2025-08-04'
+    });
+  });
+
+  it('should require non-optional inputs', () => {
+    const { errors } = validateFormValues(fields, { reason: '   ' });
+
+    expect(Object.keys(errors)).toEqual(['values.reason', 'values.kind', 'values.start_date']);
+    expect(errors['values.reason']).toEqual(['reason is required']);
+  });
+
+  it('should check values against the element definitions', () => {
+    const { errors } = validateFormValues(fields, {
+      reason: 'Hi',
+      kind: 'holiday',
+      backups: ['ana', 'ben', 'cho'],
+      start_date: '2025-02-30',
+      start_time: '24:00',
+      extra: 'x'
+    });
+
+    expect(errors).toEqual({
+      'values.extra': ['Not an input of this form'],
+      'values.reason': ['Must be at least 5 characters'],
+      'values.kind': ['Must be one of the options'],
+      'values.backups': ['Must select at most 2 options'],
+      'values.start_date': ['Must be a date formatted YYYY-MM-DD'],
+      'values.start_time': ['Must be a time formatted HH:mm']
+    });
+  });
+
+  it('should report action_ids shared by several inputs', () => {
+    const duplicated = collectFormFields([
+      ...blocks,
+      input({ type: 'plain_text_input', action_id: 'reason' })
+    ]);
+
+    expect(findDuplicateFields(duplicated)).toEqual(['reason']);
+    expect(findDuplicateFields(fields)).toEqual([]);
+  });
+});
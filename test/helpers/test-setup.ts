@@ -2,6 +2,8 @@
 import { vi } from 'vitest';
 import { Hono } from 'hono';
 import * as database from '../../src/utils/database';
+import { MemoryRateLimitStore, setRateLimitStore } from '../../src/middleware/rate-limit';
+import { MemoryCircuitBreakerStore, setCircuitBreakerStore } from '../../src/services/resilient-provider';
 
 // Type helper for mock functions
 export interface MockPrismaFunction {
@@ -95,6 +97,14 @@ export function createMockPrismaClient() {
       create: createPrismaMock(),
       findMany: createPrismaMock(),
     },
+    threadMember: {
+      findUnique: createPrismaMock(),
+      findFirst: createPrismaMock(),
+      findMany: createPrismaMock(),
+      create: createPrismaMock(),
+      update: createPrismaMock(),
+      delete: createPrismaMock(),
+    },
     $transaction: vi.fn().mockImplementation((callback) => callback({})),
     $disconnect: vi.fn().mockResolvedValue(undefined),
   };
@@ -178,6 +188,20 @@ export function createTestApp(routes?: any) {
   };
 }
 
+// Use a fresh local in-memory store for rate limiting
+export function setupRateLimitStore() {
+  const store = new MemoryRateLimitStore();
+  setRateLimitStore(store);
+  return store;
+}
+
+// Use a fresh local in-memory store for the providers' circuit breakers
+export function setupCircuitBreakerStore() {
+  const store = new MemoryCircuitBreakerStore();
+  setCircuitBreakerStore(store);
+  return store;
+}
+
 // Mock crypto and date functions
 export function setupCommonMocks() {
   // Mock crypto.randomUUID
@@ -0,0 +1,148 @@
+// Unit tests for background jobs
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemoryJobQueue, getRetryDelaySeconds } from '../src/utils/jobs';
+import { JobService, type JobHandlers } from '../src/services/job-service';
+
+// Just enough of the jobs table to run jobs against
+const { prisma, jobs } = vi.hoisted(() => {
+  const jobs = new Map<string, any>();
+  const prisma = {
+    job: {
+      create: async ({ data }: any) => {
+        const job = {
+          id: `job-${jobs.size + 1}`,
+          status: 'PENDING',
+          attempts: 0,
+          result: null,
+          error: null,
+          startedAt: null,
+          completedAt: null,
+          ...data
+        };
+        jobs.set(job.id, job);
+        return { ...job };
+      },
+      findUnique: async ({ where }: any) => (jobs.has(where.id) ? { ...jobs.get(where.id) } : null),
+      update: async ({ where, data }: any) => Object.assign(jobs.get(where.id), data)
+    }
+  };
+  return { prisma, jobs };
+});
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const env = { DB: {} as D1Database };
+
+describe('Background Jobs', () => {
+  beforeEach(() => {
+    jobs.clear();
+  });
+
+  describe('getRetryDelaySeconds', () => {
+    it('should double the delay after each attempt up to 15 minutes', () => {
+      expect([1, 2, 3, 4, 5, 6, 7].map(getRetryDelaySeconds)).toEqual([10, 20, 40, 80, 160, 320, 640]);
+      expect(getRetryDelaySeconds(8)).toBe(900);
+      expect(getRetryDelaySeconds(20)).toBe(900);
+    });
+  });
+
+  describe('MemoryJobQueue', () => {
+    it('should drain messages sent while draining', async () => {
+      const queue = new MemoryJobQueue();
+      const consumed: string[] = [];
+      await queue.send({ jobId: 'a' });
+
+      const count = await queue.drain(async ({ jobId }) => {
+        consumed.push(jobId);
+        if (jobId === 'a') await queue.send({ jobId: 'b' });
+      });
+
+      expect(count).toBe(2);
+      expect(consumed).toEqual(['a', 'b']);
+      expect(queue.size).toBe(0);
+    });
+  });
+
+  describe('JobService', () => {
+    it('should run an enqueued job and store its result', async () => {
+      const handlers: JobHandlers = {
+        echo: async (payload, { job }) => ({ echoed: payload.text, userId: job.userId })
+      };
+
+      const job = await JobService.enqueue(prisma, env, { type: 'echo', payload: { text: 'hi' }, userId: 'user-1' });
+      expect(job.status).toBe('PENDING');
+
+      expect(await JobService.drain(env, handlers)).toBe(1);
+      expect(jobs.get(job.id)).toMatchObject({
+        status: 'SUCCEEDED',
+        attempts: 1,
+        result: { echoed: 'hi', userId: 'user-1' },
+        error: null,
+        completedAt: expect.any(Date)
+      });
+    });
+
+    it('should retry failed attempts with backoff', async () => {
+      let calls = 0;
+      const handlers: JobHandlers = {
+        flaky: async () => {
+          if (++calls < 3) throw new Error(`Failure ${calls}`);
+          return { calls };
+        }
+      };
+      const send = vi.spyOn(JobService.getQueue(env), 'send');
+
+      const job = await JobService.enqueue(prisma, env, { type: 'flaky', payload: {} });
+      await JobService.drain(env, handlers);
+
+      expect(send.mock.calls.map(([, options]) => options?.delaySeconds)).toEqual([undefined, 10, 20]);
+      expect(jobs.get(job.id)).toMatchObject({ status: 'SUCCEEDED', attempts: 3, result: { calls: 3 } });
+      send.mockRestore();
+    });
+
+    it('should mark jobs dead once every attempt failed', async () => {
+      const handlers: JobHandlers = {
+        broken: async () => {
+          throw new Error('Provider unavailable');
+        }
+      };
+
+      const job = await JobService.enqueue(prisma, env, { type: 'broken', payload: {}, maxAttempts: 2 });
+      expect(await JobService.drain(env, handlers)).toBe(2);
+
+      expect(jobs.get(job.id)).toMatchObject({
+        status: 'DEAD',
+        attempts: 2,
+        error: 'Provider unavailable',
+        completedAt: expect.any(Date)
+      });
+    });
+
+    it('should run follow-up jobs and ignore unknown types', async () => {
+      const handlers: JobHandlers = {
+        first: async (_payload, { enqueue }) => ({ next: (await enqueue({ type: 'second', payload: {} })).id }),
+        second: async () => ({ done: true })
+      };
+
+      const first = await JobService.enqueue(prisma, env, { type: 'first', payload: {} });
+      const unknown = await JobService.enqueue(prisma, env, { type: 'missing', payload: {} });
+      await JobService.drain(env, handlers);
+
+      const next = jobs.get(first.id).result.next;
+      expect(jobs.get(next)).toMatchObject({ status: 'SUCCEEDED', result: { done: true } });
+      expect(jobs.get(unknown.id)).toMatchObject({ status: 'DEAD', attempts: 0, error: 'Unknown job type missing' });
+    });
+
+    it('should leave finished jobs alone when a message is delivered again', async () => {
+      const handler = vi.fn().mockResolvedValue({});
+      const job = await JobService.enqueue(prisma, env, { type: 'once', payload: {} });
+      await JobService.drain(env, { once: handler });
+
+      await JobService.process(env, job.id, { once: handler });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Unit tests for markdown <-> blocks conversion
+
+import { describe, it, expect } from 'vitest';
+import { markdownToBlocks, blocksToMarkdown, blocksToPlainText } from '../src/utils/markdown-blocks';
+import { messageBlocksSchema } from '../src/utils/block-schemas';
+
+describe('Markdown Blocks', () => {
+  describe('markdownToBlocks', () => {
+    it('should convert headings, paragraphs and dividers', () => {
+      const blocks = markdownToBlocks([
+        '# Quarterly **report**',
+        '',
+        'Revenue is **up** by _12%_, see [the dashboard](https://example.com/d) & <notes>.',
+        'Second line.',
+        '',
+        '---'
+      ].join('\n'));
+
+      expect(blocks).toEqual([
+        { type: 'header', text: { type: 'plain_text', text: 'Quarterly report' } },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: 'Revenue is *up* by _12%_, see <https://example.com/d|the dashboard> &amp; &lt;notes&gt;.\nSecond line.'
+          }
+        },
+        { type: 'divider' }
+      ]);
+    });
+
+    it('should convert nested and loose lists to rich text lists', () => {
+      const blocks = markdownToBlocks([
+        '1. First `step`',
+        '',
+        '2. Second step',
+        '   - detail',
+        '     continued',
+        '- Back to bullets'
+      ].join('\n'));
+
+      expect(blocks).toEqual([{
+        type: 'rich_text',
+        elements: [
+          {
+            type: 'rich_text_list',
+            style: 'ordered',
+            elements: [
+              { type: 'rich_text_section', elements: [{ type: 'text', text: 'First ' }, { type: 'text', text: 'step', style: { code: true } }] },
+              { type: 'rich_text_section', elements: [{ type: 'text', text: 'Second step' }] }
+            ]
+          },
+          {
+            type: 'rich_text_list',
+            style: 'bullet',
+            indent: 1,
+            elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'detail continued' }] }]
+          },
+          {
+            type: 'rich_text_list',
+            style: 'bullet',
+            elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'Back to bullets' }] }]
+          }
+        ]
+      }]);
+    });
+
+    it('should convert code fences, tables and quotes', () => {
+      const blocks = markdownToBlocks([
+        '```ts',
+        'const a = 1;',
+        '',
+        'const b = 2;',
+        '```',
+        '| a | b |',
+        '|---|---|',
+        '> Quoted *text*'
+      ].join('\n'));
+
+      expect(blocks).toEqual([
+        { type: 'rich_text', elements: [{ type: 'rich_text_preformatted', elements: [{ type: 'text', text: 'const a = 1;\n\nconst b = 2;' }] }] },
+        { type: 'rich_text', elements: [{ type: 'rich_text_preformatted', elements: [{ type: 'text', text: '| a | b |\n|---|---|' }] }] },
+        { type: 'rich_text', elements: [{ type: 'rich_text_quote', elements: [{ type: 'text', text: 'Quoted ' }, { type: 'text', text: 'text', style: { italic: true } }] }] }
+      ]);
+    });
+
+    it('should produce valid blocks within the Block Kit limits', () => {
+      const blocks = markdownToBlocks(`# ${'Long title '.repeat(20)}\n\n${'word '.repeat(1000)}`);
+
+      expect(messageBlocksSchema.safeParse(blocks).success).toBe(true);
+      expect((blocks[0] as any).text.text).toHaveLength(150);
+      expect(blocks.slice(1).every(block => block.type === 'section')).toBe(true);
+    });
+
+    it('should fall back to no blocks when the output has too many blocks', () => {
+      expect(markdownToBlocks(Array.from({ length: 60 }, (_, i) => `Paragraph ${i}`).join('\n\n'))).toEqual([]);
+      expect(markdownToBlocks('')).toEqual([]);
+    });
+  });
+
+  describe('blocksToMarkdown', () => {
+    const blocks = [
+      { type: 'header', text: { type: 'plain_text', text: 'Summary' } },
+      { type: 'section', text: { type: 'mrkdwn', text: 'Revenue is *up*, see <https://example.com/d|the dashboard> &amp; more' } },
+      { type: 'divider' },
+      {
+        type: 'rich_text',
+        elements: [
+          { type: 'rich_text_list', style: 'ordered', elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'One' }] }] },
+          { type: 'rich_text_list', style: 'bullet', indent: 1, elements: [{ type: 'rich_text_section', elements: [{ type: 'text', text: 'Nested', style: { bold: true } }] }] }
+        ]
+      },
+      { type: 'actions', elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open' }, action_id: 'open', url: 'https://example.com' }] }
+    ];
+
+    it('should render blocks as markdown', () => {
+      expect(blocksToMarkdown(blocks)).toBe([
+        '# Summary',
+        'Revenue is **up**, see [the dashboard](https://example.com/d) & more',
+        '---',
+        '1. One\n  - **Nested**',
+        '[Open](https://example.com)'
+      ].join('\n\n'));
+    });
+
+    it('should render blocks as plain text', () => {
+      expect(blocksToPlainText(blocks)).toBe([
+        'Summary',
+        'Revenue is up, see the dashboard (https://example.com/d) & more',
+        '1. One\n  • Nested',
+        'Open'
+      ].join('\n\n'));
+      expect(blocksToPlainText(null)).toBe('');
+    });
+
+    it('should round-trip converted markdown', () => {
+      const markdown = '# Plan\n\nShip **v2** by _Friday_\n\n- Tests\n- Docs\n\n```\nnpm test\n```';
+
+      expect(blocksToMarkdown(markdownToBlocks(markdown))).toBe(markdown);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// Unit tests for token quota helpers
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveQuotas,
+  getQuotaStatus,
+  getWindowStart,
+  getWindowReset,
+  aggregateUsage,
+  type TokenQuotaRule
+} from '../src/utils/quota';
+
+function quota(overrides: Partial<TokenQuotaRule>): TokenQuotaRule {
+  return {
+    id: 'quota',
+    userId: null,
+    role: null,
+    model: null,
+    dailyTokens: null,
+    monthlyTokens: null,
+    ...overrides
+  };
+}
+
+const target = { userId: 'user-1', role: 'USER', model: 'gpt-4o' };
+
+describe('Quota Utils', () => {
+  describe('resolveQuotas', () => {
+    it('should apply the role quota when nothing more specific exists', () => {
+      const resolved = resolveQuotas([
+        quota({ id: 'role', role: 'USER', dailyTokens: 1000 }),
+        quota({ id: 'admin', role: 'ADMIN', dailyTokens: 99999 })
+      ], target);
+
+      expect(resolved).toEqual([{ window: 'daily', limit: 1000, quotaId: 'role', scope: 'role', model: null }]);
+    });
+
+    it('should prefer model overrides, then user quotas, then role quotas', () => {
+      const quotas = [
+        quota({ id: 'role', role: 'USER', dailyTokens: 1000, monthlyTokens: 20000 }),
+        quota({ id: 'user', userId: 'user-1', dailyTokens: 5000 }),
+        quota({ id: 'role-model', role: 'USER', model: 'gpt-4o', dailyTokens: 200 })
+      ];
+
+      const resolved = resolveQuotas(quotas, target);
+
+      expect(resolved.find(q => q.window === 'daily')).toMatchObject({ quotaId: 'role-model', limit: 200, model: 'gpt-4o' });
+      expect(resolved.find(q => q.window === 'monthly')).toMatchObject({ quotaId: 'role', limit: 20000 });
+      expect(resolveQuotas(quotas, { ...target, model: 'gpt-4o-mini' }).find(q => q.window === 'daily'))
+        .toMatchObject({ quotaId: 'user', limit: 5000 });
+    });
+
+    it('should ignore quotas for other users and treat missing limits as unlimited', () => {
+      expect(resolveQuotas([quota({ userId: 'user-2', dailyTokens: 10 })], target)).toEqual([]);
+    });
+  });
+
+  describe('getQuotaStatus', () => {
+    it('should count usage in the current window only, per model for overrides', () => {
+      const now = new Date('2025-07-23T15:00:00Z');
+      const records = [
+        { model: 'gpt-4o', usage: { total_tokens: 300 }, createdAt: '2025-07-23T09:00:00Z' },
+        { model: 'gpt-4o-mini', usage: { prompt_tokens: 50, completion_tokens: 50 }, createdAt: '2025-07-23T10:00:00Z' },
+        { model: 'gpt-4o', usage: { total_tokens: 1000 }, createdAt: '2025-07-22T23:59:59Z' }
+      ];
+
+      const [daily, modelDaily] = getQuotaStatus([
+        { window: 'daily', limit: 500, quotaId: 'a', scope: 'role', model: null },
+        { window: 'daily', limit: 250, quotaId: 'b', scope: 'role', model: 'gpt-4o' }
+      ], records, now);
+
+      expect(daily).toMatchObject({ used: 400, remaining: 100, resetsAt: '2025-07-24T00:00:00.000Z' });
+      expect(modelDaily).toMatchObject({ used: 300, remaining: 0 });
+    });
+  });
+
+  describe('quota windows', () => {
+    it('should use UTC calendar days and months', () => {
+      const now = new Date('2025-12-31T23:30:00Z');
+
+      expect(getWindowStart('daily', now).toISOString()).toBe('2025-12-31T00:00:00.000Z');
+      expect(getWindowReset('daily', now).toISOString()).toBe('2026-01-01T00:00:00.000Z');
+      expect(getWindowStart('monthly', now).toISOString()).toBe('2025-12-01T00:00:00.000Z');
+      expect(getWindowReset('monthly', now).toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('aggregateUsage', () => {
+    it('should group usage by day and model', () => {
+      const buckets = aggregateUsage([
+        { model: 'gpt-4o', usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }, createdAt: '2025-07-22T08:00:00Z' },
+        { model: 'gpt-4o', usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 }, createdAt: '2025-07-22T18:00:00Z' },
+        { model: null, usage: null, createdAt: '2025-07-21T12:00:00Z' }
+      ]);
+
+      expect(buckets).toEqual([
+        { date: '2025-07-21', model: 'unknown', requests: 1, promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        { date: '2025-07-22', model: 'gpt-4o', requests: 2, promptTokens: 15, completionTokens: 25, totalTokens: 40 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+// Unit tests for rate limiting
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { applySlidingWindow, getRateLimitHeaders } from '../src/utils/rate-limit';
+import { rateLimit, setRateLimitStore } from '../src/middleware/rate-limit';
+import { setupRateLimitStore } from './helpers/test-setup';
+
+const rule = { limit: 10, windowMs: 60_000 };
+
+describe('Rate Limit Utils', () => {
+  describe('applySlidingWindow', () => {
+    it('should allow requests up to the limit within a window', () => {
+      let state = null;
+      const results = [];
+      for (let i = 0; i < 11; i++) {
+        const hit = applySlidingWindow(state, rule, 60_000 + i);
+        state = hit.state;
+        results.push(hit.result);
+      }
+
+      expect(results.slice(0, 10).every(r => r.allowed)).toBe(true);
+      expect(results[9].remaining).toBe(0);
+      expect(results[10]).toMatchObject({ allowed: false, remaining: 0 });
+      expect(results[10].retryAfterMs).toBeGreaterThan(60_000);
+    });
+
+    it('should weight the previous window by its overlap', () => {
+      const state = { windowStart: 0, current: 10, previous: 0 };
+
+      // Halfway through the next window half of the previous 10 still count
+      const { result } = applySlidingWindow(state, rule, 90_000);
+
+      expect(result).toMatchObject({ allowed: true, remaining: 4 });
+    });
+
+    it('should forget windows older than the previous one', () => {
+      const state = { windowStart: 0, current: 10, previous: 10 };
+
+      expect(applySlidingWindow(state, rule, 180_000).result).toMatchObject({ allowed: true, remaining: 9 });
+    });
+  });
+
+  describe('getRateLimitHeaders', () => {
+    it('should include Retry-After only for denied requests', () => {
+      const allowed = getRateLimitHeaders(rule, { allowed: true, limit: 10, remaining: 3, resetMs: 12_300 });
+      const denied = getRateLimitHeaders(rule, { allowed: false, limit: 10, remaining: 0, resetMs: 12_300, retryAfterMs: 4_100 });
+
+      expect(allowed).toEqual({
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '3',
+        'RateLimit-Reset': '13',
+        'RateLimit-Policy': '10;w=60'
+      });
+      expect(denied['Retry-After']).toBe('5');
+    });
+  });
+});
+
+describe('Rate Limit Middleware', () => {
+  beforeEach(() => {
+    setupRateLimitStore();
+  });
+
+  afterEach(() => {
+    setRateLimitStore(null);
+  });
+
+  function createApp(user?: { id: string }) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      if (user) c.set('authenticatedUser' as never, user as never);
+      await next();
+    });
+    app.use('*', rateLimit('completions'));
+    app.get('/test', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  const env = { RATE_LIMITS: JSON.stringify({ completions: { limit: 2, windowSeconds: 60 } }) };
+
+  it('should return 429 with Retry-After once the configured limit is reached', async () => {
+    const app = createApp({ id: 'user-1' });
+
+    const first = await app.request('/test', {}, env);
+    await app.request('/test', {}, env);
+    const third = await app.request('/test', {}, env);
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(third.status).toBe(429);
+    expect(third.headers.get('Retry-After')).toBeTruthy();
+  });
+
+  it('should key anonymous requests by client IP', async () => {
+    const app = createApp();
+    const fromIp = (ip: string) => app.request('/test', { headers: { 'CF-Connecting-IP': ip } }, env);
+
+    await fromIp('192.0.2.1');
+    await fromIp('192.0.2.1');
+
+    expect((await fromIp('192.0.2.1')).status).toBe(429);
+    expect((await fromIp('192.0.2.2')).status).toBe(200);
+  });
+});
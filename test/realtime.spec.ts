@@ -0,0 +1,239 @@
+// Unit tests for real-time thread events: the helpers, and thread sockets
+// opened through the worker against the ThreadRoom Durable Object
+
+import { env, runInDurableObject, SELF } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseClientMessage, createThreadEvent, publishThreadEvent } from '../src/services/realtime-service';
+import { ThreadRoom } from '../src/durable-objects/thread-room';
+
+const { prisma, users, threads } = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    thread: { findUnique: vi.fn() },
+    threadMember: { update: vi.fn() }
+  },
+  users: new Map<string, any>(),
+  threads: new Map<string, any>()
+}));
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const OWNER = { id: 'ck9x8v7b600034l5r8jlkf0u1', email: 'ana@rpotential.ai', name: 'Ana', nick: null, role: 'USER', avatarUrl: null };
+const VIEWER = { id: 'ck9x8v7b600034l5r8jlkf0u2', email: 'bo@rpotential.ai', name: 'Bo', nick: null, role: 'USER', avatarUrl: null };
+const STRANGER = { id: 'ck9x8v7b600034l5r8jlkf0u3', email: 'cy@rpotential.ai', name: 'Cy', nick: null, role: 'USER', avatarUrl: null };
+
+const encoder = new TextEncoder();
+
+function base64Url(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+// A token like the ones issued by the auth service
+async function signToken(user: typeof OWNER): Promise<string> {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    name: user.name,
+    domain: 'rpotential.ai',
+    exp: Math.floor(Date.now() / 1000) + 3600
+  }));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(env.JWT_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+// Each test gets its own thread, and so its own ThreadRoom
+let threadCount = 0;
+function createThread(): string {
+  const threadId = `ck9x8v7b600034l5r8jlkt${String(++threadCount).padStart(3, '0')}`;
+  threads.set(threadId, {
+    userId: OWNER.id,
+    members: [{ id: `member-${threadId}`, email: VIEWER.email, userId: VIEWER.id, role: 'VIEWER' }]
+  });
+  return threadId;
+}
+
+async function requestSocket(threadId: string, user?: typeof OWNER, headers: Record<string, string> = { Upgrade: 'websocket' }) {
+  return SELF.fetch(`https://example.com/api/v1/threads/${threadId}/ws`, {
+    headers: user ? { ...headers, Authorization: `Bearer ${await signToken(user)}` } : headers
+  });
+}
+
+async function openSocket(threadId: string, user: typeof OWNER) {
+  const response = await requestSocket(threadId, user);
+  expect(response.status).toBe(101);
+
+  const socket = response.webSocket!;
+  const events: any[] = [];
+  const closes: number[] = [];
+  socket.addEventListener('message', event => { events.push(JSON.parse(event.data as string)); });
+  socket.addEventListener('close', event => { closes.push(event.code); });
+  socket.accept();
+
+  return { socket, events, closes };
+}
+
+function eventOfType(events: any[], type: string) {
+  return vi.waitFor(() => {
+    const event = events.find(candidate => candidate.type === type);
+    if (!event) throw new Error(`No ${type} event yet`);
+    return event;
+  });
+}
+
+describe('Realtime Service', () => {
+  describe('parseClientMessage', () => {
+    it('should accept typing and ping frames', () => {
+      expect(parseClientMessage('{"type":"typing","isTyping":true}')).toEqual({ type: 'typing', isTyping: true });
+      expect(parseClientMessage('{"type":"ping"}')).toEqual({ type: 'ping' });
+    });
+
+    it('should drop unknown fields from typing frames', () => {
+      expect(parseClientMessage('{"type":"typing","isTyping":false,"user":{"id":"spoofed"}}'))
+        .toEqual({ type: 'typing', isTyping: false });
+    });
+
+    it('should reject malformed, unknown, binary and oversized frames', () => {
+      expect(parseClientMessage('not json')).toBeNull();
+      expect(parseClientMessage('{"type":"message.created"}')).toBeNull();
+      expect(parseClientMessage('{"type":"typing","isTyping":"yes"}')).toBeNull();
+      expect(parseClientMessage(new ArrayBuffer(8))).toBeNull();
+      expect(parseClientMessage(JSON.stringify({ type: 'ping', pad: 'x'.repeat(2000) }))).toBeNull();
+    });
+  });
+
+  describe('createThreadEvent', () => {
+    it('should add the thread ID and an ISO timestamp', () => {
+      const event = createThreadEvent('thread-1', { type: 'message.deleted', messageId: 'message-1' });
+
+      expect(event).toMatchObject({ type: 'message.deleted', messageId: 'message-1', threadId: 'thread-1' });
+      expect(new Date(event.timestamp).toISOString()).toBe(event.timestamp);
+    });
+  });
+
+  describe('publishThreadEvent', () => {
+    function fakeNamespace(publish: (event: unknown) => Promise<void>) {
+      return {
+        idFromName: (name: string) => name,
+        get: () => ({ publish })
+      } as unknown as DurableObjectNamespace<any>;
+    }
+
+    it('should do nothing when the binding is not configured', async () => {
+      await expect(publishThreadEvent({}, 'thread-1', { type: 'artifact.deleted', artifactId: 'a1' })).resolves.toBeUndefined();
+    });
+
+    it('should publish the enveloped event to the thread room', async () => {
+      const published: any[] = [];
+      const env = { THREAD_ROOMS: fakeNamespace(async (event) => { published.push(event); }) };
+
+      await publishThreadEvent(env, 'thread-1', { type: 'artifact.deleted', artifactId: 'a1' });
+
+      expect(published).toHaveLength(1);
+      expect(published[0]).toMatchObject({ type: 'artifact.deleted', artifactId: 'a1', threadId: 'thread-1' });
+    });
+
+    it('should swallow errors from the Durable Object', async () => {
+      const env = { THREAD_ROOMS: fakeNamespace(async () => { throw new Error('unavailable'); }) };
+
+      await expect(publishThreadEvent(env, 'thread-1', { type: 'message.deleted', messageId: 'm1' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('thread sockets', () => {
+    beforeEach(() => {
+      users.clear();
+      for (const user of [OWNER, VIEWER, STRANGER]) users.set(user.id, user);
+
+      prisma.user.findUnique.mockImplementation(async ({ where }: any) => users.get(where.id) ?? null);
+      prisma.user.update.mockResolvedValue({});
+      // The access query of ThreadAccessService: the thread with the caller's membership, if any
+      prisma.thread.findUnique.mockImplementation(async ({ where, select }: any) => {
+        const thread = threads.get(where.id);
+        if (!thread) return null;
+        return {
+          id: where.id,
+          userId: thread.userId,
+          status: 'ACTIVE',
+          members: thread.members.filter((member: any) => member.email === select.members.where.email)
+        };
+      });
+    });
+
+    it('should only upgrade authenticated members of the thread', async () => {
+      const threadId = createThread();
+
+      const anonymous = await requestSocket(threadId);
+      expect(anonymous.status).toBe(401);
+
+      const stranger = await requestSocket(threadId, STRANGER);
+      expect(stranger.status).toBe(404);
+      expect((await stranger.json() as any).error.title).toBe('Thread Not Found');
+
+      const plain = await requestSocket(threadId, OWNER, {});
+      expect(plain.status).toBe(426);
+
+      const { socket } = await openSocket(threadId, VIEWER);
+      socket.close(1000);
+    });
+
+    it('should sync presence on connect and announce joins and departures', async () => {
+      const threadId = createThread();
+      const owner = await openSocket(threadId, OWNER);
+      expect((await eventOfType(owner.events, 'presence.sync')).users).toEqual([
+        { id: OWNER.id, name: 'Ana', nick: null, avatarUrl: null }
+      ]);
+
+      const viewer = await openSocket(threadId, VIEWER);
+      const sync = await eventOfType(viewer.events, 'presence.sync');
+      expect(sync.users.map((user: any) => user.id).sort()).toEqual([OWNER.id, VIEWER.id].sort());
+      expect(await eventOfType(owner.events, 'presence.joined')).toMatchObject({ threadId, user: { id: VIEWER.id } });
+
+      viewer.socket.send(JSON.stringify({ type: 'typing', isTyping: true }));
+      expect(await eventOfType(owner.events, 'typing')).toMatchObject({ user: { id: VIEWER.id }, isTyping: true });
+
+      viewer.socket.close(1000, 'bye');
+      expect(await eventOfType(owner.events, 'presence.left')).toMatchObject({ user: { id: VIEWER.id } });
+
+      owner.socket.close(1000);
+    });
+
+    it('should keep serving sockets from their attachments after hibernation', async () => {
+      const threadId = createThread();
+      const viewer = await openSocket(threadId, VIEWER);
+      await eventOfType(viewer.events, 'presence.sync');
+
+      // A hibernated room wakes up as a new instance that only has the runtime's sockets
+      const stub = env.THREAD_ROOMS.get(env.THREAD_ROOMS.idFromName(threadId));
+      await runInDurableObject(stub, async (_instance: ThreadRoom, state) => {
+        const sockets = state.getWebSockets(VIEWER.id);
+        expect(sockets).toHaveLength(1);
+        expect(sockets[0].deserializeAttachment()).toMatchObject({ threadId, user: { id: VIEWER.id } });
+
+        await new ThreadRoom(state, env).webSocketMessage(sockets[0], JSON.stringify({ type: 'ping' }));
+      });
+
+      expect(await eventOfType(viewer.events, 'pong')).toMatchObject({ threadId });
+      viewer.socket.close(1000);
+    });
+
+    it('should close the sockets of a removed member with 4403', async () => {
+      const threadId = createThread();
+      const owner = await openSocket(threadId, OWNER);
+      const viewer = await openSocket(threadId, VIEWER);
+      await eventOfType(owner.events, 'presence.joined');
+
+      await publishThreadEvent(env, threadId, { type: 'member.removed', memberId: `member-${threadId}`, userId: VIEWER.id });
+
+      expect(await eventOfType(viewer.events, 'member.removed')).toMatchObject({ userId: VIEWER.id });
+      await vi.waitFor(() => expect(viewer.closes).toEqual([4403]));
+      expect(owner.closes).toEqual([]);
+
+      owner.socket.close(1000);
+    });
+  });
+});
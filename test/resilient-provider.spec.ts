@@ -0,0 +1,364 @@
+// Unit tests for provider retries, fallbacks and circuit breaking
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { allowRequest, recordResult } from '../src/utils/circuit-breaker';
+import { ProviderError, parseRetryAfter } from '../src/services/ai-provider';
+import {
+  DEFAULT_RETRY_POLICY,
+  getFallbackChain,
+  getRequiredFeatures,
+  getRetryDelay,
+  ResilientProvider,
+  setCircuitBreakerStore
+} from '../src/services/resilient-provider';
+import { CompletionService } from '../src/services/completion-service';
+import type { ChatCompletionStreamChunk } from '../src/types/completions';
+import { setupCircuitBreakerStore } from './helpers/test-setup';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    completion: { create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'completion-1', ...data })) }
+  }
+}));
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const USER = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  nick: null,
+  role: 'USER',
+  avatarUrl: null
+};
+
+const env = { OPENAI_API_KEY: 'sk-openai', ANTHROPIC_API_KEY: 'sk-ant' };
+const rule = { failureThreshold: 3, cooldownMs: 30_000 };
+const request = { messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+function openAIReply(model: string): Response {
+  return new Response(JSON.stringify({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+  }));
+}
+
+function failure(status: number, headers?: Record<string, string>): Response {
+  return new Response('upstream trouble', { status, headers });
+}
+
+// The model each call to the OpenAI API asked for
+function requestedModels(fetchMock: ReturnType<typeof vi.fn>): string[] {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).model);
+}
+
+describe('Circuit Breaker Utils', () => {
+  it('should open after consecutive failures and refuse requests during the cooldown', () => {
+    let state = null;
+    for (let i = 0; i < 3; i++) {
+      state = recordResult(state, rule, false, 1_000);
+    }
+
+    expect(state).toMatchObject({ status: 'open', failures: 3, openedAt: 1_000 });
+    expect(allowRequest(state, rule, 20_000).allowed).toBe(false);
+  });
+
+  it('should let one trial through after the cooldown and close when it succeeds', () => {
+    const open = { status: 'open' as const, failures: 3, openedAt: 0, trialStartedAt: null };
+
+    const trial = allowRequest(open, rule, 30_000);
+    expect(trial).toMatchObject({ allowed: true, state: { status: 'half_open', trialStartedAt: 30_000 } });
+    // Others wait for the trial's outcome
+    expect(allowRequest(trial.state, rule, 30_001).allowed).toBe(false);
+
+    expect(recordResult(trial.state, rule, true, 30_500)).toMatchObject({ status: 'closed', failures: 0 });
+    expect(recordResult(trial.state, rule, false, 30_500)).toMatchObject({ status: 'open', openedAt: 30_500 });
+  });
+
+  it('should reset the failure count on success', () => {
+    let state = recordResult(null, rule, false, 0);
+    state = recordResult(state, rule, false, 0);
+    state = recordResult(state, rule, true, 0);
+
+    expect(recordResult(state, rule, false, 0)).toMatchObject({ status: 'closed', failures: 1 });
+  });
+});
+
+describe('Resilient Provider', () => {
+  const sleep = vi.fn().mockResolvedValue(undefined);
+  const options = { sleep, random: () => 0.5 };
+
+  beforeEach(() => {
+    setupCircuitBreakerStore();
+    sleep.mockClear();
+  });
+
+  afterEach(() => {
+    setCircuitBreakerStore(null);
+    vi.unstubAllGlobals();
+  });
+
+  describe('retries', () => {
+    it('should wait as long as Retry-After asks', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(openAIReply('gpt-4o'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new ResilientProvider(env, 'gpt-4o', options);
+      const completion = await provider.generateCompletion({ ...request, model: 'gpt-4o' });
+
+      expect(completion.choices[0].message.content).toBe('Hello');
+      expect(sleep).toHaveBeenCalledWith(2_000);
+      expect(provider.servedBy).toEqual({ provider: 'openai', model: 'gpt-4o' });
+      expect(provider.attempts).toBe(2);
+    });
+
+    it('should back off exponentially with jitter without Retry-After', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(502))
+        .mockResolvedValueOnce(openAIReply('gpt-4o'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new ResilientProvider(env, 'gpt-4o', options);
+      await provider.generateCompletion(request);
+
+      expect(sleep.mock.calls).toEqual([[125], [250]]);
+      expect(getRetryDelay(10, new Error(), DEFAULT_RETRY_POLICY, () => 0.999)).toBeLessThanOrEqual(DEFAULT_RETRY_POLICY.maxDelayMs);
+      expect(provider.attempts).toBe(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(failure(400));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const error = await new ResilientProvider(env, 'gpt-4o', options).generateCompletion(request).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.status).toBe(400);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse Retry-After given as seconds or as a date', () => {
+      expect(parseRetryAfter('3')).toBe(3);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'))).toBe(10);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+    });
+  });
+
+  describe('fallbacks', () => {
+    it('should move down the chain when a model keeps failing', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(failure(500))
+        .mockResolvedValueOnce(failure(500))
+        .mockResolvedValueOnce(failure(500))
+        .mockResolvedValueOnce(openAIReply('gpt-4o-mini'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new ResilientProvider(env, 'gpt-4o', options);
+      const completion = await provider.generateCompletion({ ...request, model: 'gpt-4o' });
+
+      expect(requestedModels(fetchMock)).toEqual(['gpt-4o', 'gpt-4o', 'gpt-4o', 'gpt-4o-mini']);
+      expect(completion.model).toBe('gpt-4o-mini');
+      expect(provider.servedBy).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+      expect(provider.attempts).toBe(4);
+    });
+
+    it('should move on straight away when Retry-After is too long to wait', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '60' }))
+        .mockResolvedValueOnce(openAIReply('gpt-4o-mini'));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new ResilientProvider(env, 'gpt-4o', options);
+      await provider.generateCompletion(request);
+
+      expect(sleep).not.toHaveBeenCalled();
+      expect(requestedModels(fetchMock)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    });
+
+    it('should skip fallbacks that would ignore tools, response formats or the history', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => failure(500));
+      vi.stubGlobal('fetch', fetchMock);
+      const tools = [{ type: 'function' as const, function: { name: 'get_weather' } }];
+
+      const error = await new ResilientProvider(env, 'gpt-4o', options)
+        .generateCompletion({ ...request, tools })
+        .catch(e => e);
+
+      // gpt-4o and gpt-4o-mini were tried, the Azure workflow never was
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(fetchMock.mock.calls.every(([url]) => url.startsWith('https://api.openai.com'))).toBe(true);
+      expect(requestedModels(fetchMock)).toEqual(['gpt-4o', 'gpt-4o', 'gpt-4o', 'gpt-4o-mini', 'gpt-4o-mini', 'gpt-4o-mini']);
+
+      expect(getRequiredFeatures({ ...request, response_format: { type: 'json_object' } })).toEqual(['response_format']);
+      expect(getRequiredFeatures({ messages: [...request.messages, { role: 'assistant', content: 'Hello' }] })).toEqual(['history']);
+      expect(getRequiredFeatures({ ...request, response_format: { type: 'text' } })).toEqual([]);
+    });
+
+    it('should never fall back to an unconfigured provider', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => failure(503)));
+      const withoutAnthropic = { OPENAI_API_KEY: 'sk-openai', MODEL_FALLBACKS: '{"gpt-4o": ["claude-sonnet-4-20250514"]}' };
+
+      const provider = new ResilientProvider(withoutAnthropic, 'gpt-4o', options);
+      const error = await provider.generateCompletion(request).catch(e => e);
+
+      expect(error).toMatchObject({ status: 503 });
+      expect(provider.servedBy).toBeNull();
+      expect(provider.attempts).toBe(3);
+    });
+
+    it('should name the fallback model in the response', async () => {
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '60' }))
+        .mockResolvedValueOnce(openAIReply('gpt-4o-mini-2024-07-18')));
+
+      const completion = await new ResilientProvider(env, 'gpt-4o', options).generateCompletion(request);
+
+      expect(completion.model).toBe('gpt-4o-mini');
+    });
+
+    it('should read the chains from MODEL_FALLBACKS', () => {
+      expect(getFallbackChain('gpt-4o')).toEqual(['gpt-4o', 'gpt-4o-mini', 'azure/SimpleAgent']);
+      expect(getFallbackChain('gpt-4o', '{"gpt-4o": ["claude-sonnet-4-20250514", "gpt-4o"]}'))
+        .toEqual(['gpt-4o', 'claude-sonnet-4-20250514']);
+      expect(getFallbackChain('o3-mini')).toEqual(['o3-mini']);
+
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(getFallbackChain('gpt-4o', '{not json')).toEqual(['gpt-4o', 'gpt-4o-mini', 'azure/SimpleAgent']);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should skip a provider whose circuit is open', async () => {
+      const fallbackEnv = { ...env, MODEL_FALLBACKS: '{"gpt-4o": ["claude-sonnet-4-20250514"]}' };
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        if (url.startsWith('https://api.openai.com')) return failure(503);
+        return new Response(JSON.stringify({
+          id: 'msg_1',
+          model: 'claude-sonnet-4-20250514',
+          content: [{ type: 'text', text: 'Hello' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 3, output_tokens: 1 }
+        }));
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      // Three failed attempts open the OpenAI circuit
+      const first = new ResilientProvider(fallbackEnv, 'gpt-4o', { ...options, circuitBreaker: rule });
+      await first.generateCompletion(request);
+      expect(first.servedBy).toEqual({ provider: 'anthropic', model: 'claude-sonnet-4-20250514' });
+
+      fetchMock.mockClear();
+      const second = new ResilientProvider(fallbackEnv, 'gpt-4o', { ...options, circuitBreaker: rule });
+      await second.generateCompletion(request);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages');
+      expect(second.attempts).toBe(1);
+    });
+
+    it('should retry Azure workflow outages and open its circuit', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => failure(502));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const first = new ResilientProvider(env, 'azure/SimpleAgent', { ...options, circuitBreaker: rule });
+      const error = await first.generateCompletion(request).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error).toMatchObject({ provider: 'Azure Workflow', status: 502 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(first.attempts).toBe(3);
+
+      fetchMock.mockClear();
+      const second = await new ResilientProvider(env, 'azure/SimpleAgent', { ...options, circuitBreaker: rule })
+        .generateCompletion(request)
+        .catch(e => e);
+
+      expect(second.message).toBe('Circuit open for azure');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should fail with the last error when every provider is unavailable', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(failure(503)));
+      const onlyOpenAI = { ...env, MODEL_FALLBACKS: '{"gpt-4o": []}' };
+
+      await new ResilientProvider(onlyOpenAI, 'gpt-4o', { ...options, circuitBreaker: rule }).generateCompletion(request).catch(() => {});
+      const error = await new ResilientProvider(onlyOpenAI, 'gpt-4o', { ...options, circuitBreaker: rule })
+        .generateCompletion(request)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.message).toBe('Circuit open for openai');
+    });
+  });
+
+  describe('streaming', () => {
+    function streamBody(...contents: string[]): ReadableStream<Uint8Array> {
+      const encoder = new TextEncoder();
+      return new ReadableStream({
+        start(controller) {
+          for (const content of contents) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              id: 'chatcmpl-1',
+              object: 'chat.completion.chunk',
+              created: 1,
+              model: 'gpt-4o',
+              choices: [{ index: 0, delta: { content }, finish_reason: null }]
+            })}\n\n`));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      });
+    }
+
+    it('should retry a stream that fails before its first chunk', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(new Response(streamBody('Hel', 'lo')));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new ResilientProvider(env, 'gpt-4o', options);
+      const chunks: ChatCompletionStreamChunk[] = [];
+      for await (const chunk of provider.generateStreamingCompletion({ ...request, stream: true })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo']);
+      expect(provider.attempts).toBe(2);
+      expect(provider.servedBy).toEqual({ provider: 'openai', model: 'gpt-4o' });
+    });
+  });
+
+  describe('completion records', () => {
+    it('should store the provider, model and attempts that served the request', async () => {
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(failure(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(openAIReply('gpt-4o-mini')));
+
+      const { record } = await CompletionService.createCompletion({ ...request, model: 'gpt-4o' }, USER, env);
+
+      expect(prisma.completion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          model: 'gpt-4o',
+          provider: 'openai',
+          servedModel: 'gpt-4o-mini',
+          attempts: 4
+        })
+      });
+      expect(record.attempts).toBe(4);
+    });
+  });
+});
@@ -26,7 +26,7 @@ vi.mock('../../src/middleware/auth', () => ({
 
 import { fileRoutes } from '../../src/routes/files';
 import { getDatabaseClient } from '../../src/utils/database';
-import { authenticateUser, requireRole } from '../../src/middleware/auth';
+import { authenticateUser, requireRole, type AuthenticatedUser } from '../../src/middleware/auth';
 
 // Create mock Prisma client
 function createMockPrismaClient() {
@@ -323,3 +323,132 @@ describe('File Routes', () => {
     });
   });
 });
+
+// A signed-in user for the routes that need one
+const reader: AuthenticatedUser = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'reader@example.com',
+  role: 'USER',
+  name: 'Reader',
+  nick: null,
+  avatarUrl: null
+};
+
+describe('POST /api/v1/files/upload', () => {
+  let app: Hono<{ Variables: { authenticatedUser: AuthenticatedUser } }>;
+  let mockPrisma: ReturnType<typeof createMockPrismaClient>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = createMockPrismaClient();
+    vi.mocked(getDatabaseClient).mockReturnValue(mockPrisma as any);
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.env = { DB: {} as D1Database, FILES: {} as R2Bucket } as any;
+      c.set('authenticatedUser', reader);
+      await next();
+    });
+    app.route('/api/v1', fileRoutes);
+  });
+
+  it('should send large multipart uploads to raw or resumable uploads', async () => {
+    const form = new FormData();
+    form.append('file', new File([new Uint8Array(10 * 1024 * 1024 + 1)], 'large.bin'));
+
+    const response = await app.request('/api/v1/files/upload', { method: 'POST', body: form });
+
+    expect(response.status).toBe(413);
+    const body = await response.json() as any;
+    expect(body.error.detail).toContain('/api/v1/files/uploads');
+    expect(mockPrisma.file.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/v1/files/:id/content', () => {
+  const FILE_ID = 'ck9x8v7b600034l5r8jlkf0f1';
+  const THREAD_ID = 'ck9x8v7b600034l5r8jlkf0t1';
+
+  let app: Hono<{ Variables: { authenticatedUser: AuthenticatedUser } }>;
+  let mockPrisma: ReturnType<typeof createMockPrismaClient> & {
+    thread: { findUnique: ReturnType<typeof vi.fn> };
+    threadMember: { update: ReturnType<typeof vi.fn> };
+  };
+
+  // Serves every key with the same five bytes
+  const files = {
+    get: vi.fn().mockImplementation(async () => ({
+      body: new Response('hello').body,
+      size: 5,
+      httpEtag: '"etag"',
+      uploaded: new Date(0)
+    }))
+  };
+
+  // A file someone else uploaded, attached to messages in the given threads
+  const sharedFile = (threadIds: string[] = [THREAD_ID]) => ({
+    id: FILE_ID,
+    originalName: 'notes.txt',
+    mimeType: 'text/plain',
+    size: 5,
+    storageKey: `files/uploader/${FILE_ID}`,
+    uploadedBy: 'ck9x8v7b600034l5r8jlkf0u2',
+    messages: threadIds.map(threadId => ({ message: { threadId } })),
+    artifacts: []
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = {
+      ...createMockPrismaClient(),
+      thread: { findUnique: vi.fn().mockResolvedValue(null) },
+      threadMember: { update: vi.fn() }
+    };
+    vi.mocked(getDatabaseClient).mockReturnValue(mockPrisma as any);
+
+    app = new Hono();
+    app.use('*', async (c, next) => {
+      c.env = { DB: {} as D1Database, FILES: files } as any;
+      c.set('authenticatedUser', reader);
+      await next();
+    });
+    app.route('/api/v1', fileRoutes);
+  });
+
+  it('should let members of a thread the file is attached to download it', async () => {
+    mockPrisma.file.findUnique.mockResolvedValue(sharedFile());
+    mockPrisma.thread.findUnique.mockResolvedValue({
+      id: THREAD_ID,
+      userId: 'ck9x8v7b600034l5r8jlkf0u2',
+      status: 'ACTIVE',
+      members: [{ id: 'member-1', userId: reader.id, role: 'VIEWER' }]
+    });
+
+    const response = await app.request(`/api/v1/files/${FILE_ID}/content`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('hello');
+    expect(mockPrisma.file.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: FILE_ID } }));
+  });
+
+  it('should hide files from users outside their threads', async () => {
+    mockPrisma.file.findUnique.mockResolvedValue(sharedFile());
+
+    const response = await app.request(`/api/v1/files/${FILE_ID}/content`);
+
+    expect(response.status).toBe(404);
+    expect(files.get).not.toHaveBeenCalled();
+  });
+
+  it('should keep files attached to no thread private to their uploader', async () => {
+    mockPrisma.file.findUnique.mockResolvedValue(sharedFile([]));
+    const other = await app.request(`/api/v1/files/${FILE_ID}/content`);
+
+    mockPrisma.file.findUnique.mockResolvedValue({ ...sharedFile([]), uploadedBy: reader.id });
+    const own = await app.request(`/api/v1/files/${FILE_ID}/content`);
+
+    expect(other.status).toBe(404);
+    expect(own.status).toBe(200);
+    expect(mockPrisma.thread.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -179,6 +179,7 @@ describe('Reaction Routes', () => {
   describe('GET /api/v1/messages/:messageId/reactions', () => {
     it('should return reactions for a message', async () => {
       const messageId = 'msg1234567890123456789012';
+      const threadId = 'thrd123456789012345678901';
       const mockReactions = [
         { 
           id: 'rxtn123456789012345678901', 
@@ -203,8 +204,9 @@ describe('Reaction Routes', () => {
         }
       ];
       
-      // Mock message existence
-      mockPrisma.message.findUnique.mockResolvedValue({ id: messageId });
+      // Mock message existence and the test user's own thread
+      mockPrisma.message.findUnique.mockResolvedValue({ id: messageId, threadId });
+      mockPrisma.thread.findUnique.mockResolvedValue({ id: threadId, userId: 'user123456789012345678901', status: 'ACTIVE', members: [] });
       mockPrisma.reaction.findMany.mockResolvedValue(mockReactions);
       
       const response = await app.request(`/api/v1/messages/${messageId}/reactions`);
@@ -240,9 +242,46 @@ describe('Reaction Routes', () => {
       expect(body.success).toBe(false);
       expect(body.error.title).toBe('Message Not Found');
     });
+
+    it('should return 404 when the user is not a member of the message\'s thread', async () => {
+      const messageId = 'msg1234567890123456789012';
+      const threadId = 'thrd123456789012345678901';
+      mockPrisma.message.findUnique.mockResolvedValue({ id: messageId, threadId });
+      mockPrisma.thread.findUnique.mockResolvedValue({ id: threadId, userId: 'other123456789012345678901', status: 'ACTIVE', members: [] });
+      
+      const response = await app.request(`/api/v1/messages/${messageId}/reactions`);
+      
+      expect(response.status).toBe(404);
+      const body = await response.json() as any;
+      expect(body.error.title).toBe('Thread Not Found');
+      expect(mockPrisma.reaction.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /api/v1/messages/:messageId/reactions', () => {
+    it('should return 403 when the user\'s role does not allow reacting', async () => {
+      const messageId = 'msg1234567890123456789012';
+      const threadId = 'thrd123456789012345678901';
+      mockPrisma.message.findUnique.mockResolvedValue({ id: messageId, threadId });
+      mockPrisma.thread.findUnique.mockResolvedValue({
+        id: threadId,
+        userId: 'other123456789012345678901',
+        status: 'ACTIVE',
+        members: [{ id: 'member123456789012345678', userId: 'user123456789012345678901', role: 'VIEWER' }]
+      });
+      
+      const response = await app.request(`/api/v1/messages/${messageId}/reactions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emoji: '👍', action: 'add' })
+      });
+      
+      expect(response.status).toBe(403);
+      const body = await response.json() as any;
+      expect(body.error.title).toBe('Insufficient Permissions');
+      expect(mockPrisma.reaction.create).not.toHaveBeenCalled();
+    });
+
     it('should add a reaction to a message', async () => {
       const messageId = 'test-message-id';
       const reactionData = {
@@ -61,6 +61,9 @@ vi.mock('../../src/utils/database', () => {
       create: vi.fn(),
       findMany: vi.fn(),
     },
+    threadMember: {
+      update: vi.fn(),
+    },
     $transaction: vi.fn().mockImplementation((callback) => callback({})),
     $disconnect: vi.fn().mockResolvedValue(undefined),
   };
@@ -111,10 +114,25 @@ import { threadRoutes } from '../../src/routes/threads';
 import { messageRoutes } from '../../src/routes/messages';
 import { artifactRoutes } from '../../src/routes/artifacts';
 import { getDatabaseClient } from '../../src/utils/database';
+import type { AuthenticatedUser } from '../../src/middleware/auth';
 import { Hono } from 'hono';
 
+const authenticatedUser: AuthenticatedUser = {
+  id: 'test-user-id',
+  email: 'test@example.com',
+  role: 'USER',
+  name: 'Test User',
+  nick: 'testuser',
+  avatarUrl: 'https://example.com/avatar.jpg'
+};
+
+// What ThreadAccessService reads for a thread the test user created
+function ownedThread(id: string) {
+  return { id, userId: authenticatedUser.id, status: 'ACTIVE', members: [] };
+}
+
 describe('Thread Routes', () => {
-  let app: Hono;
+  let app: Hono<{ Variables: { authenticatedUser: AuthenticatedUser } }>;
   let mockPrisma: any;
 
   beforeEach(() => {
@@ -132,9 +150,10 @@ describe('Thread Routes', () => {
       DB: {} as D1Database
     };
     
-    // Add the env to the app
+    // Add the env and the signed-in user to the app
     app.use('*', async (c, next) => {
       c.env = mockEnv;
+      c.set('authenticatedUser', authenticatedUser);
       await next();
     });
     
@@ -317,6 +336,29 @@ describe('Thread Routes', () => {
     });
   });
 
+  describe('PUT /api/v1/threads/:id', () => {
+    it('should return 403 when the user\'s role does not allow editing', async () => {
+      const threadId = 'clqaaaaaaaaaaaaaaaaaaaaaa';
+      mockPrisma.thread.findUnique.mockResolvedValue({
+        id: threadId,
+        userId: 'other-user-id',
+        status: 'ACTIVE',
+        members: [{ id: 'member-id', userId: authenticatedUser.id, role: 'VIEWER' }]
+      });
+      
+      const response = await app.request(`/api/v1/threads/${threadId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Renamed' })
+      });
+      
+      expect(response.status).toBe(403);
+      const body = await response.json() as any;
+      expect(body.error.title).toBe('Insufficient Permissions');
+      expect(mockPrisma.thread.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/v1/threads/:id/messages', () => {
     it('should return messages for a thread', async () => {
       const threadId = 'clggggggggggggggggggggggg'; // Valid CUID format
@@ -347,7 +389,7 @@ describe('Thread Routes', () => {
         }
       ];
       
-      mockPrisma.thread.findUnique.mockResolvedValue({ id: threadId });
+      mockPrisma.thread.findUnique.mockResolvedValue(ownedThread(threadId));
       mockPrisma.message.findMany.mockResolvedValue(mockMessages);
       
       const response = await app.request(`/api/v1/threads/${threadId}/messages`);
@@ -366,6 +408,18 @@ describe('Thread Routes', () => {
       
       expect(response.status).toBe(404);
     });
+
+    it('should return 404 when the user is not a member of the thread', async () => {
+      const threadId = 'clggggggggggggggggggggggg';
+      mockPrisma.thread.findUnique.mockResolvedValue({ id: threadId, userId: 'other-user-id', status: 'ACTIVE', members: [] });
+      
+      const response = await app.request(`/api/v1/threads/${threadId}/messages`);
+      
+      expect(response.status).toBe(404);
+      const body = await response.json() as any;
+      expect(body.error.title).toBe('Thread Not Found');
+      expect(mockPrisma.message.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/v1/threads/:id/artifacts', () => {
@@ -388,7 +442,7 @@ describe('Thread Routes', () => {
         }
       ];
       
-      mockPrisma.thread.findUnique.mockResolvedValue({ id: threadId });
+      mockPrisma.thread.findUnique.mockResolvedValue(ownedThread(threadId));
       mockPrisma.artifact.findMany.mockResolvedValue(mockArtifacts);
       
       const response = await app.request(`/api/v1/threads/${threadId}/artifacts`);
@@ -283,7 +283,7 @@ describe('User Routes', () => {
     it('should return 404 when user to delete not found', async () => {
       mockPrisma.user.findUnique.mockResolvedValue(null);
       
-      const response = await app.request('/api/v1/users/nonexistent', {
+      const response = await app.request('/api/v1/users/ck9x8v7b600034l5r8jlkf0a1', {
         method: 'DELETE'
       });
       
@@ -0,0 +1,61 @@
+// Unit tests for full-text search helpers
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFtsQuery,
+  createSnippetMarkers,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  formatSnippet
+} from '../src/utils/search';
+
+describe('Search Utils', () => {
+  describe('buildFtsQuery', () => {
+    it('should quote terms and prefix-match the last one', () => {
+      expect(buildFtsQuery('quarterly revenue')).toBe('"quarterly" "revenue"*');
+    });
+
+    it('should neutralize FTS5 operators and punctuation', () => {
+      expect(buildFtsQuery('title:secret OR "drop" NEAR(x)')).toBe('"title" "secret" "OR" "drop" "NEAR" "x"*');
+    });
+
+    it('should keep non-ASCII letters', () => {
+      expect(buildFtsQuery('informe año')).toBe('"informe" "año"*');
+    });
+
+    it('should return null when there are no searchable terms', () => {
+      expect(buildFtsQuery('  *** -- ')).toBeNull();
+    });
+  });
+
+  describe('formatSnippet', () => {
+    it('should escape the indexed content and highlight only the marked matches', () => {
+      const markers = createSnippetMarkers();
+      const snippet = `…<img src=x onerror=alert(1)> ${markers.start}revenue${markers.end} <mark>fake</mark>…`;
+
+      expect(formatSnippet(snippet, markers)).toBe(
+        '…&lt;img src=x onerror=alert(1)&gt; <mark>revenue</mark> &lt;mark&gt;fake&lt;/mark&gt;…'
+      );
+    });
+
+    it('should use markers that differ per query', () => {
+      const first = createSnippetMarkers();
+      const second = createSnippetMarkers();
+
+      expect(first.start).not.toBe(second.start);
+      expect(formatSnippet(`${first.start}x${first.end}`, second)).not.toContain('<mark>');
+    });
+  });
+
+  describe('search cursors', () => {
+    it('should round-trip offsets', () => {
+      expect(decodeSearchCursor(encodeSearchCursor(50))).toBe(50);
+    });
+
+    it('should fall back to the first page for missing or invalid cursors', () => {
+      expect(decodeSearchCursor(undefined)).toBe(0);
+      expect(decodeSearchCursor('not-a-cursor')).toBe(0);
+      expect(decodeSearchCursor(btoa(JSON.stringify({ o: -3 })))).toBe(0);
+    });
+  });
+});
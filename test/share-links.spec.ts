@@ -0,0 +1,162 @@
+// Unit tests for public share link helpers
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createShareToken,
+  verifyShareToken,
+  hashSharePassword,
+  verifySharePassword,
+  toPublicBlocks
+} from '../src/utils/share-links';
+import { ShareLinkService, ShareLinkError } from '../src/services/share-link-service';
+
+const SECRET = 'test-secret';
+
+function mockPrisma(link: any) {
+  return {
+    shareLink: { findUnique: vi.fn().mockResolvedValue(link) }
+  };
+}
+
+describe('Share Link Utils', () => {
+  describe('share tokens', () => {
+    it('should round-trip the link ID', async () => {
+      const token = await createShareToken('ck9x8v7b600034l5r8jlkf0s1', SECRET);
+
+      expect(token.startsWith('ck9x8v7b600034l5r8jlkf0s1.')).toBe(true);
+      expect(await verifyShareToken(token, SECRET)).toBe('ck9x8v7b600034l5r8jlkf0s1');
+    });
+
+    it('should reject tampered tokens and other secrets', async () => {
+      const token = await createShareToken('link-1', SECRET);
+      const [, signature] = token.split('.');
+
+      expect(await verifyShareToken(`link-2.${signature}`, SECRET)).toBeNull();
+      expect(await verifyShareToken(token, 'other-secret')).toBeNull();
+      expect(await verifyShareToken('link-1', SECRET)).toBeNull();
+      expect(await verifyShareToken('link-1.!!!', SECRET)).toBeNull();
+    });
+  });
+
+  describe('share passwords', () => {
+    it('should verify the right password only', async () => {
+      const stored = await hashSharePassword('correct horse');
+
+      expect(stored).toMatch(/^pbkdf2:100000:[a-f0-9]{32}:[a-f0-9]{64}$/);
+      expect(await verifySharePassword('correct horse', stored)).toBe(true);
+      expect(await verifySharePassword('wrong horse', stored)).toBe(false);
+      expect(await verifySharePassword('correct horse', 'garbage')).toBe(false);
+    });
+  });
+
+  describe('toPublicBlocks', () => {
+    it('should drop interactive blocks, interactive accessories and metadata', () => {
+      const blocks = toPublicBlocks([
+        { type: 'section', text: { type: 'mrkdwn', text: 'Hi' }, accessory: { type: 'button', action_id: 'approve' } },
+        { type: 'section', text: { type: 'mrkdwn', text: 'Logo' }, accessory: { type: 'image', image_url: 'https://example.com/a.png', alt_text: 'a' } },
+        { type: 'actions', elements: [{ type: 'button', action_id: 'approve' }] },
+        { type: 'input', label: { type: 'plain_text', text: 'Name' }, element: { type: 'plain_text_input' } },
+        { type: 'file', file_id: 'file-1', title: 'report.pdf', metadata: { storageKey: 'files/user-1/x' } }
+      ]);
+
+      expect(blocks).toEqual([
+        { type: 'section', text: { type: 'mrkdwn', text: 'Hi' } },
+        { type: 'section', text: { type: 'mrkdwn', text: 'Logo' }, accessory: { type: 'image', image_url: 'https://example.com/a.png', alt_text: 'a' } },
+        { type: 'file', file_id: 'file-1', title: 'report.pdf' }
+      ]);
+      expect(toPublicBlocks(null)).toBeNull();
+    });
+  });
+});
+
+describe('ShareLinkService.resolve', () => {
+  const link = { id: 'link-1', threadId: 'thread-1', artifactId: null, revokedAt: null, expiresAt: null, passwordHash: null };
+
+  async function resolveError(promise: Promise<unknown>): Promise<ShareLinkError> {
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(ShareLinkError);
+    return error;
+  }
+
+  it('should resolve a valid token', async () => {
+    const token = await createShareToken('link-1', SECRET);
+
+    await expect(ShareLinkService.resolve(mockPrisma(link), token, undefined, SECRET)).resolves.toEqual(link);
+  });
+
+  it('should not look up tokens with an invalid signature', async () => {
+    const prisma = mockPrisma(link);
+
+    const error = await resolveError(ShareLinkService.resolve(prisma, 'link-1.invalid', undefined, SECRET));
+
+    expect(error.status).toBe(404);
+    expect(prisma.shareLink.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should reject revoked and expired links with 410', async () => {
+    const token = await createShareToken('link-1', SECRET);
+    const now = new Date('2025-07-27T12:00:00Z');
+
+    const revoked = await resolveError(ShareLinkService.resolve(mockPrisma({ ...link, revokedAt: now }), token, undefined, SECRET, now));
+    const expired = await resolveError(ShareLinkService.resolve(mockPrisma({ ...link, expiresAt: new Date('2025-07-27T11:59:59Z') }), token, undefined, SECRET, now));
+
+    expect(revoked).toMatchObject({ status: 410, title: 'Share Link Revoked' });
+    expect(expired).toMatchObject({ status: 410, title: 'Share Link Expired' });
+  });
+
+  it('should require the password of protected links', async () => {
+    const token = await createShareToken('link-1', SECRET);
+    const prisma = mockPrisma({ ...link, passwordHash: await hashSharePassword('open sesame') });
+
+    const missing = await resolveError(ShareLinkService.resolve(prisma, token, undefined, SECRET));
+    const wrong = await resolveError(ShareLinkService.resolve(prisma, token, 'let me in', SECRET));
+
+    expect(missing).toMatchObject({ status: 401, title: 'Password Required' });
+    expect(wrong).toMatchObject({ status: 401, title: 'Invalid Password' });
+    await expect(ShareLinkService.resolve(prisma, token, 'open sesame', SECRET)).resolves.toMatchObject({ id: 'link-1' });
+  });
+});
+
+describe('ShareLinkService.getSecret', () => {
+  it('should prefer SHARE_LINK_SECRET over JWT_SECRET', () => {
+    expect(ShareLinkService.getSecret({ SHARE_LINK_SECRET: 'share-secret', JWT_SECRET: 'jwt-secret' })).toBe('share-secret');
+    expect(ShareLinkService.getSecret({ JWT_SECRET: 'jwt-secret' })).toBe('jwt-secret');
+  });
+
+  it('should refuse to sign links without a configured secret', () => {
+    expect(() => ShareLinkService.getSecret({})).toThrow(ShareLinkError);
+    expect(() => ShareLinkService.getSecret({ SHARE_LINK_SECRET: '', JWT_SECRET: '' }))
+      .toThrow(expect.objectContaining({ status: 503, title: 'Service Unavailable' }));
+  });
+});
+
+describe('ShareLinkService.buildPublicView', () => {
+  const link = { threadId: 'thread-1', artifactId: 'artifact-1', expiresAt: null };
+  const artifact = {
+    type: 'document',
+    title: 'Plan',
+    description: null,
+    content: 'Day one: Alfama',
+    blocks: null,
+    version: 1,
+    user: { name: 'Ana', avatarUrl: null }
+  };
+
+  it('should share an artifact without its thread details', async () => {
+    const prisma = { artifact: { findUnique: vi.fn().mockResolvedValue({ ...artifact, thread: { status: 'ACTIVE' } }) } };
+
+    const view = await ShareLinkService.buildPublicView(prisma, link);
+
+    expect(view.artifact).toMatchObject({ title: 'Plan', author: { name: 'Ana' } });
+    expect(view.artifact).not.toHaveProperty('thread');
+  });
+
+  it('should not share artifacts of deleted threads', async () => {
+    const prisma = { artifact: { findUnique: vi.fn().mockResolvedValue({ ...artifact, thread: { status: 'DELETED' } }) } };
+
+    const error = await ShareLinkService.buildPublicView(prisma, link).catch(e => e);
+
+    expect(error).toBeInstanceOf(ShareLinkError);
+    expect(error).toMatchObject({ status: 404, title: 'Share Link Not Found' });
+  });
+});
@@ -0,0 +1,224 @@
+// Unit tests for thread import parsing
+
+import { describe, it, expect } from 'vitest';
+import { parseImportPayload, countImportMessages } from '../src/utils/thread-import';
+
+const exportDocument = {
+  schema: 'thread-export',
+  version: 1,
+  exportedAt: '2025-07-30T12:00:00.000Z',
+  thread: {
+    id: 'cthread0000000000000000001',
+    title: 'Launch plan',
+    status: 'ACTIVE',
+    metadata: { description: 'Q3 launch' },
+    createdAt: '2025-07-01T08:00:00.000Z',
+    updatedAt: '2025-07-02T08:00:00.000Z',
+    author: { name: 'Ana', nick: null, email: 'ana@example.com' }
+  },
+  messages: [
+    {
+      id: 'cmessage000000000000000001',
+      role: 'USER',
+      author: { name: 'Ana', nick: null, email: 'ana@example.com' },
+      content: 'When do we ship?',
+      blocks: [{ type: 'bogus' }],
+      metadata: null,
+      createdAt: '2025-07-01T08:05:00.000Z',
+      editedAt: null,
+      reactions: [{ emoji: '👍', count: 1, users: ['Ana'] }],
+      attachments: []
+    },
+    {
+      id: 'cmessage000000000000000002',
+      role: 'ASSISTANT',
+      author: null,
+      content: 'Friday',
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: 'Friday' } }],
+      metadata: null,
+      createdAt: '2025-07-01T08:06:00.000Z',
+      editedAt: null,
+      reactions: [],
+      attachments: []
+    }
+  ],
+  artifacts: [{
+    id: 'cartifact00000000000000001',
+    type: 'REPORT',
+    title: 'Q3 Report',
+    description: null,
+    content: 'Revenue grew',
+    blocks: null,
+    version: 3,
+    metadata: null,
+    createdAt: '2025-07-01T09:00:00.000Z',
+    updatedAt: '2025-07-02T10:30:00.000Z',
+    author: null
+  }]
+};
+
+const node = (id: string, parent: string | null, children: string[], message: Record<string, unknown> | null) => ({
+  [id]: { id, parent, children, message }
+});
+
+const message = (role: string, parts: unknown[], createTime: number, extra: Record<string, unknown> = {}) => ({
+  id: `msg-${createTime}`,
+  author: { role },
+  create_time: createTime,
+  content: { content_type: 'text', parts },
+  ...extra
+});
+
+// root -> system -> user -> (edited answer a | shown answer b -> tool call -> tool output -> reply)
+const conversation = {
+  id: 'conv-1',
+  title: '  Trip ideas  ',
+  create_time: 1_720_000_000,
+  current_node: 'reply',
+  mapping: {
+    ...node('root', null, ['system'], null),
+    ...node('system', 'root', ['user'], message('system', [''], 1_720_000_001, { metadata: { is_visually_hidden_from_conversation: true } })),
+    ...node('user', 'system', ['a', 'b'], message('user', ['Where should I go?', { content_type: 'image_asset_pointer' }], 1_720_000_002)),
+    ...node('a', 'user', [], message('assistant', ['An older answer'], 1_720_000_003)),
+    ...node('b', 'user', ['call'], message('assistant', ['Let me look that up'], 1_720_000_004, { metadata: { model_slug: 'gpt-4o' } })),
+    ...node('call', 'b', ['output'], message('assistant', ['search("trips")'], 1_720_000_005, { recipient: 'browser' })),
+    ...node('output', 'call', ['reply'], message('tool', ['results'], 1_720_000_006)),
+    ...node('reply', 'output', [], {
+      id: 'msg-reply',
+      author: { role: 'assistant' },
+      create_time: 1_720_000_007.5,
+      content: { content_type: 'code', text: 'print("Lisbon")' }
+    })
+  }
+};
+
+describe('Thread Import', () => {
+  describe('thread export documents', () => {
+    it('should import the thread, its messages and artifacts', () => {
+      const result = parseImportPayload(exportDocument);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.data.source).toBe('THREAD_EXPORT');
+      const [thread] = result.data.threads;
+      expect(thread).toMatchObject({
+        sourceId: 'cthread0000000000000000001',
+        title: 'Launch plan',
+        createdAt: '2025-07-01T08:00:00.000Z',
+        metadata: { description: 'Q3 launch' }
+      });
+      expect(thread.messages.map(m => [m.role, m.author?.email ?? null, m.content, m.createdAt])).toEqual([
+        ['USER', 'ana@example.com', 'When do we ship?', '2025-07-01T08:05:00.000Z'],
+        ['ASSISTANT', null, 'Friday', '2025-07-01T08:06:00.000Z']
+      ]);
+      // Blocks that don't validate any more are dropped
+      expect(thread.messages[0].blocks).toBeNull();
+      expect(thread.messages[1].blocks).toHaveLength(1);
+      expect(thread.artifacts).toEqual([{
+        type: 'REPORT',
+        title: 'Q3 Report',
+        description: null,
+        content: 'Revenue grew',
+        blocks: null,
+        metadata: null,
+        createdAt: '2025-07-01T09:00:00.000Z'
+      }]);
+    });
+
+    it('should reject other versions and invalid messages', () => {
+      const result = parseImportPayload({
+        ...exportDocument,
+        version: 2,
+        messages: [{ ...exportDocument.messages[0], role: 'TOOL' }]
+      });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual({
+        version: ['Unsupported export version; version 1 is supported'],
+        'messages[0].role': [expect.any(String)]
+      });
+    });
+  });
+
+  describe('ChatGPT conversations', () => {
+    it('should import the shown branch without tool and hidden messages', () => {
+      const result = parseImportPayload([conversation]);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.data.source).toBe('CHATGPT');
+      const [thread] = result.data.threads;
+      expect(thread.sourceId).toBe('conv-1');
+      expect(thread.title).toBe('Trip ideas');
+      expect(thread.createdAt).toBe('2024-07-03T09:46:40.000Z');
+      expect(thread.messages).toEqual([
+        {
+          role: 'USER',
+          author: null,
+          content: 'Where should I go?\n\n[Image]',
+          blocks: null,
+          createdAt: '2024-07-03T09:46:42.000Z',
+          sourceId: 'msg-1720000002',
+          metadata: null
+        },
+        {
+          role: 'ASSISTANT',
+          author: null,
+          content: 'Let me look that up',
+          blocks: null,
+          createdAt: '2024-07-03T09:46:44.000Z',
+          sourceId: 'msg-1720000004',
+          metadata: { model: 'gpt-4o' }
+        },
+        {
+          role: 'ASSISTANT',
+          author: null,
+          content: '```\nprint("Lisbon")\n```',
+          blocks: null,
+          createdAt: '2024-07-03T09:46:47.500Z',
+          sourceId: 'msg-reply',
+          metadata: null
+        }
+      ]);
+    });
+
+    it('should follow the latest children without a current node', () => {
+      const result = parseImportPayload({ ...conversation, current_node: null });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.threads[0].messages.map(m => m.content)).toEqual([
+        'Where should I go?\n\n[Image]',
+        'Let me look that up',
+        '```\nprint("Lisbon")\n```'
+      ]);
+      expect(countImportMessages(result.data.threads)).toBe(3);
+    });
+
+    it('should skip conversations without messages', () => {
+      const empty = { ...conversation, id: 'conv-2', current_node: 'root', mapping: node('root', null, [], null) };
+
+      const result = parseImportPayload([empty, conversation]);
+      expect(result.success && result.data.threads.map(thread => thread.sourceId)).toEqual(['conv-1']);
+
+      expect(parseImportPayload([empty])).toEqual({
+        success: false,
+        errors: { body: ['The conversations contain no messages to import'] }
+      });
+    });
+  });
+
+  it('should reject unrecognized payloads', () => {
+    expect(parseImportPayload({ messages: [] })).toEqual({
+      success: false,
+      errors: { body: ['Expected a thread export document or a ChatGPT conversations.json array'] }
+    });
+    expect(parseImportPayload([{ title: 'No mapping' }])).toMatchObject({
+      success: false,
+      errors: { '[0].mapping': [expect.any(String)] }
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// Unit tests for thread sharing roles and access checks
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  hasThreadPermission,
+  normalizeEmail,
+  accessibleThreadsWhere
+} from '../src/utils/thread-permissions';
+import { ThreadAccessService } from '../src/services/thread-access-service';
+
+const creator = { id: 'user-1', email: 'owner@example.com' };
+const guest = { id: 'user-2', email: 'Guest@Example.com' };
+
+function mockPrisma(thread: any) {
+  return {
+    thread: { findUnique: vi.fn().mockResolvedValue(thread) },
+    threadMember: { update: vi.fn().mockResolvedValue({}) }
+  };
+}
+
+describe('Thread Permissions', () => {
+  describe('hasThreadPermission', () => {
+    it('should grant each role its own permissions and those below it', () => {
+      expect(hasThreadPermission('OWNER', 'manage')).toBe(true);
+      expect(hasThreadPermission('EDITOR', 'edit')).toBe(true);
+      expect(hasThreadPermission('EDITOR', 'manage')).toBe(false);
+      expect(hasThreadPermission('COMMENTER', 'comment')).toBe(true);
+      expect(hasThreadPermission('COMMENTER', 'edit')).toBe(false);
+      expect(hasThreadPermission('VIEWER', 'view')).toBe(true);
+      expect(hasThreadPermission('VIEWER', 'comment')).toBe(false);
+    });
+
+    it('should deny everything without a role', () => {
+      expect(hasThreadPermission(null, 'view')).toBe(false);
+      expect(hasThreadPermission(undefined, 'view')).toBe(false);
+    });
+  });
+
+  describe('accessibleThreadsWhere', () => {
+    it('should match created threads and threads shared with the normalized email', () => {
+      expect(accessibleThreadsWhere(guest)).toEqual({
+        OR: [
+          { userId: 'user-2' },
+          { members: { some: { email: 'guest@example.com' } } }
+        ]
+      });
+      expect(normalizeEmail('  Guest@Example.com ')).toBe('guest@example.com');
+    });
+  });
+});
+
+describe('ThreadAccessService', () => {
+  it('should treat the thread creator as owner', async () => {
+    const prisma = mockPrisma({ id: 'thread-1', userId: 'user-1', status: 'ACTIVE', members: [] });
+
+    const result = await ThreadAccessService.check(prisma, 'thread-1', creator, 'manage');
+
+    expect(result).toMatchObject({ allowed: true, role: 'OWNER' });
+  });
+
+  it('should return 404 for missing threads and non-members', async () => {
+    const missing = await ThreadAccessService.check(mockPrisma(null), 'thread-1', guest, 'view');
+    const stranger = await ThreadAccessService.check(
+      mockPrisma({ id: 'thread-1', userId: 'user-1', status: 'ACTIVE', members: [] }),
+      'thread-1',
+      guest,
+      'view'
+    );
+
+    expect(missing).toMatchObject({ allowed: false, error: { status: 404 } });
+    expect(stranger).toMatchObject({ allowed: false, error: { status: 404 } });
+  });
+
+  it('should return 403 when the member role lacks the permission', async () => {
+    const prisma = mockPrisma({
+      id: 'thread-1',
+      userId: 'user-1',
+      status: 'ACTIVE',
+      members: [{ id: 'member-1', userId: 'user-2', role: 'VIEWER' }]
+    });
+
+    const result = await ThreadAccessService.check(prisma, 'thread-1', guest, 'comment');
+
+    expect(result).toMatchObject({ allowed: false, error: { status: 403, title: 'Insufficient Permissions' } });
+  });
+
+  it('should link invitations sent before the first sign-in', async () => {
+    const prisma = mockPrisma({
+      id: 'thread-1',
+      userId: 'user-1',
+      status: 'ACTIVE',
+      members: [{ id: 'member-1', userId: null, role: 'EDITOR' }]
+    });
+
+    const result = await ThreadAccessService.check(prisma, 'thread-1', guest, 'edit');
+
+    expect(result).toMatchObject({ allowed: true, role: 'EDITOR' });
+    expect(prisma.thread.findUnique.mock.calls[0][0].select.members.where).toEqual({ email: 'guest@example.com' });
+    expect(prisma.threadMember.update).toHaveBeenCalledWith({
+      where: { id: 'member-1' },
+      data: { userId: 'user-2' }
+    });
+  });
+});
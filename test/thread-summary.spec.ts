@@ -0,0 +1,169 @@
+// Unit tests for thread titles and summaries
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildTitlePrompt,
+  cleanTitle,
+  formatTranscript,
+  getSummaryInterval,
+  getThreadSummary
+} from '../src/utils/thread-summary';
+import { MockAIProvider } from '../src/services/ai-provider';
+import { ThreadSummaryService } from '../src/services/thread-summary-service';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    thread: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn()
+    },
+    message: {
+      findMany: vi.fn(),
+      count: vi.fn()
+    },
+    artifact: { create: vi.fn() },
+    artifactVersion: { create: vi.fn() },
+    completion: { create: vi.fn().mockResolvedValue({ id: 'completion-1' }) }
+  }
+}));
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const USER = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  nick: null,
+  role: 'USER',
+  avatarUrl: null
+};
+
+const THREAD_ID = 'ck9x8v7b600034l5r8jlkf0t1';
+
+// No OPENAI_API_KEY, so completions come from the MockAIProvider
+const env = { DB: {} as D1Database };
+
+const exchange = [
+  { role: 'USER', content: 'Where should we go in Lisbon?', user: { name: 'Ana', nick: null } },
+  { role: 'ASSISTANT', content: 'Try Alfama.', user: null }
+];
+
+async function mockReply(messages: ReturnType<typeof buildTitlePrompt>) {
+  const completion = await new MockAIProvider().generateCompletion({ messages });
+  return completion.choices[0].message.content;
+}
+
+describe('Thread Summaries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('cleanTitle', () => {
+    it('should strip labels, markdown and quotes', () => {
+      expect(cleanTitle('Title: "Lisbon trip ideas."')).toBe('Lisbon trip ideas');
+      expect(cleanTitle('\n## **Quarterly budget review**\nMore text')).toBe('Quarterly budget review');
+      expect(cleanTitle('  \n ')).toBeNull();
+    });
+
+    it('should cut long titles at a word boundary', () => {
+      const title = cleanTitle('word '.repeat(30))!;
+      expect(title.length).toBeLessThanOrEqual(80);
+      expect(title.endsWith('word')).toBe(true);
+    });
+  });
+
+  describe('formatTranscript', () => {
+    it('should name speakers and drop the oldest messages past the limit', () => {
+      expect(formatTranscript(exchange)).toBe('User (Ana): Where should we go in Lisbon?\n\nAssistant: Try Alfama.');
+
+      const long = Array.from({ length: 30 }, (_, i) => ({ role: 'USER', content: `${i} ${'x'.repeat(1990)}` }));
+      const transcript = formatTranscript(long);
+      expect(transcript.length).toBeLessThanOrEqual(24_000);
+      expect(transcript.endsWith(`29 ${'x'.repeat(1990)}`)).toBe(true);
+      expect(transcript.startsWith('User: 0 ')).toBe(false);
+    });
+  });
+
+  it('should read summaries and intervals defensively', () => {
+    expect(getThreadSummary({ summary: { text: 'So far', messageCount: 20, updatedAt: '2025-07-31T00:00:00.000Z' } }))
+      .toEqual({ text: 'So far', messageCount: 20, updatedAt: '2025-07-31T00:00:00.000Z' });
+    expect(getThreadSummary({ summary: 'plain text' })).toBeNull();
+    expect(getThreadSummary(null)).toBeNull();
+    expect(getSummaryInterval('10')).toBe(10);
+    expect(getSummaryInterval('0')).toBe(20);
+    expect(getSummaryInterval(undefined)).toBe(20);
+  });
+
+  it('should give the same mock reply to the same request', async () => {
+    const messages = buildTitlePrompt(formatTranscript(exchange));
+    expect(await mockReply(messages)).toBe(await mockReply(messages));
+  });
+
+  describe('ThreadSummaryService', () => {
+    it('should title an untitled thread from its first exchange', async () => {
+      prisma.message.findMany.mockResolvedValue(exchange);
+      prisma.thread.updateMany.mockResolvedValue({ count: 1 });
+
+      const title = await ThreadSummaryService.generateTitle(env, THREAD_ID, USER);
+
+      const expected = cleanTitle(await mockReply(buildTitlePrompt(formatTranscript(exchange))));
+      expect(title).toBe(expected);
+      expect(prisma.thread.updateMany).toHaveBeenCalledWith({
+        where: { id: THREAD_ID, OR: [{ title: null }, { title: '' }] },
+        data: { title: expected }
+      });
+    });
+
+    it('should fold new messages into the rolling summary', async () => {
+      const metadata = { description: 'Trip', summary: { text: 'Planning a trip', messageCount: 20, updatedAt: '' } };
+      prisma.thread.findUnique.mockResolvedValue({ metadata });
+      prisma.message.findMany.mockResolvedValue(exchange);
+
+      const summary = await ThreadSummaryService.updateSummary(env, THREAD_ID, USER);
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 20 }));
+      expect(summary).toMatchObject({ messageCount: 22, text: expect.stringContaining('New messages') });
+      expect(prisma.thread.update).toHaveBeenCalledWith({
+        where: { id: THREAD_ID },
+        data: { metadata: { description: 'Trip', summary } }
+      });
+    });
+
+    it('should queue title and summary jobs when they are due', async () => {
+      const enqueue = vi.fn().mockResolvedValue({ id: 'job-1' });
+      prisma.thread.findUnique.mockResolvedValue({ title: null, metadata: { summary: { text: 'x', messageCount: 20 } } });
+      prisma.message.count.mockResolvedValue(40);
+
+      await ThreadSummaryService.scheduleUpdates(prisma, { THREAD_SUMMARY_INTERVAL: '20' }, THREAD_ID, USER.id, enqueue);
+      expect(enqueue.mock.calls.map(([input]) => input.type)).toEqual(['thread.title', 'thread.summary']);
+
+      enqueue.mockClear();
+      prisma.thread.findUnique.mockResolvedValue({ title: 'Lisbon', metadata: { summary: { text: 'x', messageCount: 30 } } });
+      await ThreadSummaryService.scheduleUpdates(prisma, {}, THREAD_ID, USER.id, enqueue);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should write an INSIGHT artifact with its first version', async () => {
+      prisma.thread.findUnique.mockResolvedValue({ title: 'Lisbon', metadata: {} });
+      prisma.message.findMany.mockResolvedValue([...exchange].reverse());
+      prisma.message.count.mockResolvedValue(2);
+      prisma.artifact.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'artifact-1', version: 1, ...data }));
+
+      const artifact = await ThreadSummaryService.createInsight(env, THREAD_ID, USER);
+
+      expect(artifact).toMatchObject({
+        id: 'artifact-1',
+        type: 'INSIGHT',
+        title: 'Summary: Lisbon',
+        description: 'Summary of 2 messages',
+        metadata: { generatedBy: 'summarize', messageCount: 2 }
+      });
+      expect(prisma.artifactVersion.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ artifactId: 'artifact-1', version: 1, createdBy: USER.id })
+      }));
+    });
+  });
+});
@@ -0,0 +1,282 @@
+// Unit tests for tool calling and structured output in chat completions
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chatCompletionRequestSchema } from '../src/utils/validation';
+import { MockAIProvider, OpenAIProvider } from '../src/services/ai-provider';
+import { CompletionService } from '../src/services/completion-service';
+import { applyStreamChunk, createStreamedCompletion, toCompletionResponse } from '../src/utils/completion-stream';
+import type { ChatCompletionStreamChunk, ChatCompletionTool, ChatMessage, ToolCall } from '../src/types/completions';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    thread: { findUnique: vi.fn() },
+    message: { create: vi.fn() },
+    completion: { create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'completion-1', ...data })) }
+  }
+}));
+
+vi.mock('../src/utils/database', () => ({
+  getDatabaseClient: () => prisma
+}));
+
+const USER = {
+  id: 'ck9x8v7b600034l5r8jlkf0u1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  nick: null,
+  role: 'USER',
+  avatarUrl: null
+};
+
+const THREAD_ID = 'ck9x8v7b600034l5r8jlkf0t1';
+
+const weatherTool: ChatCompletionTool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        unit: { type: 'string', enum: ['celsius', 'fahrenheit'] }
+      },
+      required: ['city']
+    }
+  }
+};
+
+const toolCall: ToolCall = {
+  id: 'call_1',
+  type: 'function',
+  function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' }
+};
+
+// A finished round of tool calling: the question, the call and its result
+const toolLoop: ChatMessage[] = [
+  { role: 'user', content: 'What is the weather in Lisbon?' },
+  { role: 'assistant', content: null, tool_calls: [toolCall] },
+  { role: 'tool', content: '{"temperature":24,"sky":"clear"}', tool_call_id: 'call_1' }
+];
+
+async function collect(stream: AsyncGenerator<ChatCompletionStreamChunk>): Promise<ChatCompletionStreamChunk[]> {
+  const chunks: ChatCompletionStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('Tool Calling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('request validation', () => {
+    it('should accept tool messages, tool calls, tools and response formats', () => {
+      const result = chatCompletionRequestSchema.safeParse({
+        messages: toolLoop,
+        tools: [weatherTool],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        parallel_tool_calls: false,
+        response_format: { type: 'json_schema', json_schema: { name: 'forecast', schema: { type: 'object' }, strict: true } }
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject malformed tool messages and tool choices', () => {
+      const parse = (request: Record<string, unknown>) => chatCompletionRequestSchema.safeParse({
+        messages: [{ role: 'user', content: 'Hi' }],
+        ...request
+      });
+      const paths = (request: Record<string, unknown>) => {
+        const result = parse(request);
+        return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+      };
+
+      expect(paths({ messages: [{ role: 'tool', content: 'result' }] })).toContain('messages.0.tool_call_id');
+      expect(paths({ messages: [{ role: 'user', content: null }] })).toContain('messages.0.content');
+      expect(paths({ messages: [{ role: 'user', content: 'Hi', tool_calls: [toolCall] }] })).toContain('messages.0.tool_calls');
+      expect(paths({ tool_choice: 'required' })).toContain('tool_choice');
+      expect(paths({ tools: [weatherTool], tool_choice: { type: 'function', function: { name: 'get_time' } } })).toContain('tool_choice');
+      expect(paths({ response_format: { type: 'json_schema', json_schema: { name: 'has spaces' } } }))
+        .toContain('response_format.json_schema.name');
+
+      // Assistant messages that only call tools have no content
+      expect(parse({ messages: toolLoop }).success).toBe(true);
+    });
+  });
+
+  describe('MockAIProvider', () => {
+    it('should call a tool the user mentions, with arguments following its schema', async () => {
+      const completion = await new MockAIProvider().generateCompletion({
+        messages: [{ role: 'user', content: 'Get weather for Lisbon' }],
+        tools: [weatherTool]
+      });
+
+      const choice = completion.choices[0];
+      expect(choice.finish_reason).toBe('tool_calls');
+      expect(choice.message.content).toBeNull();
+      expect(choice.message.tool_calls).toHaveLength(1);
+      expect(choice.message.tool_calls![0]).toMatchObject({ type: 'function', function: { name: 'get_weather' } });
+      expect(JSON.parse(choice.message.tool_calls![0].function.arguments)).toEqual({
+        city: 'Get weather for Lisbon',
+        unit: 'celsius'
+      });
+    });
+
+    it('should follow tool_choice', async () => {
+      const provider = new MockAIProvider();
+      const messages: ChatMessage[] = [{ role: 'user', content: 'Hello' }];
+
+      const auto = await provider.generateCompletion({ messages, tools: [weatherTool] });
+      const required = await provider.generateCompletion({ messages, tools: [weatherTool], tool_choice: 'required' });
+      const none = await provider.generateCompletion({
+        messages: [{ role: 'user', content: 'get_weather please' }],
+        tools: [weatherTool],
+        tool_choice: 'none'
+      });
+
+      expect(auto.choices[0].finish_reason).toBe('stop');
+      expect(required.choices[0].message.tool_calls?.[0].function.name).toBe('get_weather');
+      expect(none.choices[0].message.tool_calls).toBeUndefined();
+    });
+
+    it('should answer tool results and produce JSON for json_schema', async () => {
+      const provider = new MockAIProvider();
+
+      const answer = await provider.generateCompletion({ messages: toolLoop, tools: [weatherTool] });
+      expect(answer.choices[0]).toMatchObject({
+        finish_reason: 'stop',
+        message: { content: 'The get_weather tool returned: {"temperature":24,"sky":"clear"}' }
+      });
+
+      const structured = await provider.generateCompletion({
+        messages: [{ role: 'user', content: 'Plan my day' }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'plan',
+            schema: { type: 'object', properties: { steps: { type: 'array', items: { type: 'string' } }, hours: { type: 'integer' } } }
+          }
+        }
+      });
+      expect(JSON.parse(structured.choices[0].message.content!)).toEqual({
+        steps: [expect.any(String)],
+        hours: 0
+      });
+    });
+
+    it('should stream tool calls as delta.tool_calls pieces', async () => {
+      const chunks = await collect(new MockAIProvider().generateStreamingCompletion({
+        messages: [{ role: 'user', content: 'get_weather in Lisbon' }],
+        tools: [weatherTool]
+      }));
+
+      expect(chunks[0].choices[0].delta).toMatchObject({
+        role: 'assistant',
+        tool_calls: [{ index: 0, type: 'function', function: { name: 'get_weather', arguments: '' } }]
+      });
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('tool_calls');
+
+      const streamed = createStreamedCompletion('gpt-4o');
+      chunks.forEach(chunk => applyStreamChunk(streamed, chunk));
+      const completion = toCompletionResponse(streamed, []);
+
+      expect(completion.choices[0]).toMatchObject({ message: { content: null }, finish_reason: 'tool_calls' });
+      expect(completion.choices[0].message.tool_calls![0]).toEqual({
+        id: chunks[0].choices[0].delta.tool_calls![0].id,
+        type: 'function',
+        function: { name: 'get_weather', arguments: JSON.stringify({ city: 'get_weather in Lisbon', unit: 'celsius' }) }
+      });
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should pass tools, tool messages and response_format through', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: null, tool_calls: [toolCall] }, finish_reason: 'tool_calls' }],
+        usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 }
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const request = {
+        model: 'gpt-4o',
+        messages: toolLoop,
+        tools: [weatherTool],
+        tool_choice: 'auto' as const,
+        response_format: { type: 'json_object' as const }
+      };
+      const completion = await new OpenAIProvider('sk-openai').generateCompletion(request);
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject(request);
+      expect(completion.choices[0].message.tool_calls).toEqual([toolCall]);
+    });
+  });
+
+  describe('CompletionService', () => {
+    beforeEach(() => {
+      prisma.thread.findUnique.mockResolvedValue({ id: THREAD_ID, userId: USER.id, status: 'ACTIVE', members: [], metadata: null });
+      prisma.message.create.mockImplementation(({ data }) => Promise.resolve({ id: `message-${data.role}`, ...data }));
+    });
+
+    it('should keep tool calls in the completion record and the thread', async () => {
+      const { record } = await CompletionService.createCompletion({
+        messages: [{ role: 'user', content: 'What does get_weather say for Lisbon?' }],
+        tools: [weatherTool],
+        thread_id: THREAD_ID,
+        n: 1,
+        stream: false
+      }, USER, {});
+
+      expect(record.response.choices[0].message.tool_calls).toHaveLength(1);
+      expect(record.finishReason).toBe('tool_calls');
+
+      const assistant = prisma.message.create.mock.calls.find(([{ data }]) => data.role === 'ASSISTANT')![0].data;
+      expect(assistant.content).toBe('');
+      expect(assistant.metadata.toolCalls).toEqual(record.response.choices[0].message.tool_calls);
+    });
+
+    it('should store the tool results with the reply that answered them', async () => {
+      await CompletionService.createCompletion({
+        messages: toolLoop,
+        tools: [weatherTool],
+        thread_id: THREAD_ID,
+        n: 1,
+        stream: false
+      }, USER, {});
+
+      // The question was stored with the call, so only the reply is added
+      expect(prisma.message.create).toHaveBeenCalledTimes(1);
+      expect(prisma.message.create.mock.calls[0][0].data).toMatchObject({
+        role: 'ASSISTANT',
+        content: 'The get_weather tool returned: {"temperature":24,"sky":"clear"}',
+        metadata: { toolResults: [{ toolCallId: 'call_1', content: '{"temperature":24,"sky":"clear"}' }] }
+      });
+    });
+
+    it('should record replies the caller stores itself against their thread', async () => {
+      const request = { messages: toolLoop, n: 1, stream: false };
+
+      const { record } = await CompletionService.createCompletion(request, USER, {}, toolLoop, { threadId: THREAD_ID });
+      const chunks = await collect(
+        CompletionService.createStreamingCompletion({ ...request, stream: true }, USER, {}, toolLoop, { threadId: THREAD_ID })
+      );
+
+      expect(record.threadId).toBe(THREAD_ID);
+      expect(chunks.length).toBeGreaterThan(0);
+      expect(prisma.completion.create).toHaveBeenCalledTimes(2);
+      for (const [{ data }] of prisma.completion.create.mock.calls) {
+        expect(data.threadId).toBe(THREAD_ID);
+      }
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+  });
+});
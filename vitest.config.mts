@@ -5,7 +5,15 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Lets tests sign the JWTs the worker accepts
+				miniflare: { bindings: { JWT_SECRET: 'test-jwt-secret' } },
 			},
 		},
+		// Type tests of the generated API client, checked with tsc against the client's own tsconfig
+		typecheck: {
+			enabled: true,
+			include: ['test/**/*.test-d.ts'],
+			tsconfig: './client/tsconfig.json',
+		},
 	},
 });
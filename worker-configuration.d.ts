@@ -5,7 +5,13 @@ declare namespace Cloudflare {
 	interface Env {
 		DB: D1Database;
 		JWT_SECRET?: string;
+		SHARE_LINK_SECRET?: string;
 		ALLOWED_DOMAINS?: string;
+		THREAD_ROOMS: DurableObjectNamespace<import("./src/durable-objects/thread-room").ThreadRoom>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/durable-objects/rate-limiter").RateLimiter>;
+		CIRCUIT_BREAKER: DurableObjectNamespace<import("./src/durable-objects/circuit-breaker").CircuitBreaker>;
+		FILES: R2Bucket;
+		JOBS: Queue;
 	}
 }
 interface Env extends Cloudflare.Env {}